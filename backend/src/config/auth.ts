@@ -0,0 +1,18 @@
+import type { SignOptions } from 'jsonwebtoken';
+
+// Auth configuration: the JWT signing secret and session lifetime
+export const getJwtSecret = (): string => {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('JWT_SECRET environment variable is not set');
+  }
+  return secret;
+};
+
+// Lifetime of the access token sent with every API request
+export const getAccessTokenExpiresIn = (): NonNullable<SignOptions['expiresIn']> =>
+  (process.env.JWT_EXPIRES_IN || '15m') as NonNullable<SignOptions['expiresIn']>;
+
+// Lifetime of the refresh token used to obtain new access tokens
+export const getRefreshTokenTtlDays = (): number =>
+  parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30');
@@ -0,0 +1,19 @@
+// Order in which a student's class credits are used up.
+// Expired credits are never used, whatever the policy.
+export type ConsumptionPolicy = 'fifo' | 'lifo' | 'soonest_expiry' | 'cheapest';
+
+export const CONSUMPTION_POLICIES: ConsumptionPolicy[] = ['fifo', 'lifo', 'soonest_expiry', 'cheapest'];
+
+export const isConsumptionPolicy = (value: unknown): value is ConsumptionPolicy =>
+  CONSUMPTION_POLICIES.includes(value as ConsumptionPolicy);
+
+export const getConsumptionPolicy = (): ConsumptionPolicy => {
+  const policy = process.env.CREDIT_CONSUMPTION_POLICY;
+  return isConsumptionPolicy(policy) ? policy : 'soonest_expiry';
+};
+
+// Days after an excused absence its make-up credit can be used; 0 means no limit
+export const getMakeUpValidityDays = (): number => {
+  const days = parseInt(process.env.MAKE_UP_CREDIT_DAYS || '', 10);
+  return Number.isNaN(days) || days < 0 ? 60 : days;
+};
@@ -1,4 +1,5 @@
 import { Pool, PoolConfig } from 'pg';
+import { getSchoolTimezone } from './school';
 
 // Database configuration
 const dbConfig: PoolConfig = {
@@ -19,6 +20,10 @@ const pool = new Pool(dbConfig);
 // Test database connection
 pool.on('connect', (client) => {
   console.log('📦 New client connected to PostgreSQL database');
+
+  // school_today() in SQL reads the school's timezone from this session setting
+  client.query('SELECT set_config($1, $2, false)', ['app.school_timezone', getSchoolTimezone()])
+    .catch((err) => console.error('❌ Failed to set school timezone:', err.message));
 });
 
 pool.on('error', (err, client) => {
@@ -0,0 +1,98 @@
+// Staff roles
+export const ROLES = ['owner', 'front_desk', 'teacher'] as const;
+export type Role = typeof ROLES[number];
+
+const ALL: readonly Role[] = ROLES;
+const STAFF: readonly Role[] = ['owner', 'front_desk'];
+const OWNER: readonly Role[] = ['owner'];
+
+// Which roles may perform each router action. Teachers are additionally limited
+// to their own classes (classes.teacher_id) inside the classes and attendance routers.
+export const permissions = {
+  students: {
+    view: STAFF,
+    create: STAFF,
+    update: STAFF,
+    delete: STAFF,
+    enroll: STAFF,
+    holds: STAFF,
+    transfer_credits: STAFF
+  },
+  families: {
+    view: STAFF,
+    manage: STAFF
+  },
+  classes: {
+    view: ALL,
+    create: STAFF,
+    update: STAFF,
+    delete: OWNER,
+    schedules: STAFF,
+    waitlist: STAFF
+  },
+  payments: {
+    view: STAFF,
+    create: STAFF,
+    update: STAFF,
+    allocate: STAFF,
+    refund: OWNER
+  },
+  attendance: {
+    view: ALL,
+    record: ALL,
+    occurrences: STAFF,
+    exclusions: STAFF,
+    make_ups: STAFF,
+    guests: STAFF
+  },
+  dashboard: {
+    view: STAFF
+  },
+  users: {
+    view: STAFF,
+    manage: OWNER
+  },
+  audit: {
+    view: STAFF
+  },
+  ledger: {
+    view: STAFF,
+    reconcile: OWNER
+  },
+  packages: {
+    view: STAFF,
+    create: STAFF,
+    update: STAFF,
+    delete: OWNER
+  },
+  discounts: {
+    view: STAFF,
+    create: OWNER,
+    update: OWNER,
+    delete: OWNER
+  },
+  closures: {
+    view: ALL,
+    manage: STAFF
+  },
+  scheduler: {
+    view: OWNER,
+    run: OWNER
+  }
+} satisfies Record<string, Record<string, readonly Role[]>>;
+
+export type Resource = keyof typeof permissions;
+export type Action<R extends Resource> = keyof typeof permissions[R] & string;
+
+export const isAllowed = <R extends Resource>(role: string, resource: R, action: Action<R>): boolean => {
+  const allowedRoles = permissions[resource][action] as readonly string[];
+  return allowedRoles.includes(role);
+};
+
+// Flattened "resource:action" list sent to the frontend so it can hide what a role cannot use
+export const permissionsForRole = (role: string): string[] =>
+  Object.entries(permissions).flatMap(([resource, actions]) =>
+    Object.entries(actions)
+      .filter(([, roles]) => (roles as readonly string[]).includes(role))
+      .map(([action]) => `${resource}:${action}`)
+  );
@@ -0,0 +1,12 @@
+// How many days back the scheduler catches up on missed classes after downtime.
+// Missed dates further back are reported but get no occurrences; 0 turns catch-up off.
+export const getMaxBackfillDays = (): number => {
+  const days = parseInt(process.env.SCHEDULER_MAX_BACKFILL_DAYS || '', 10);
+  return Number.isNaN(days) || days < 0 ? 14 : days;
+};
+
+// Hours after a pending-attendance class ends before its session closes and students still pending are charged
+export const getAttendanceGraceHours = (): number => {
+  const hours = parseInt(process.env.ATTENDANCE_GRACE_HOURS || '', 10);
+  return Number.isNaN(hours) || hours < 0 ? 24 : hours;
+};
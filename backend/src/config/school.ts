@@ -0,0 +1,32 @@
+// School details printed on receipts and statements
+export interface SchoolInfo {
+  name: string;
+  address: string | null;
+  phone: string | null;
+  email: string | null;
+}
+
+export const getSchoolInfo = (): SchoolInfo => ({
+  name: process.env.SCHOOL_NAME || 'Student Class Balance Tracker',
+  address: process.env.SCHOOL_ADDRESS || null,
+  phone: process.env.SCHOOL_PHONE || null,
+  email: process.env.SCHOOL_EMAIL || null
+});
+
+const DEFAULT_TIMEZONE = 'America/New_York';
+
+// IANA timezone the school's dates and class times are in; an unknown zone falls back to the default
+export const getSchoolTimezone = (): string => {
+  const timezone = process.env.SCHOOL_TIMEZONE;
+  if (!timezone) {
+    return DEFAULT_TIMEZONE;
+  }
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return timezone;
+  } catch {
+    console.warn(`⚠️  Unknown SCHOOL_TIMEZONE "${timezone}", using ${DEFAULT_TIMEZONE}`);
+    return DEFAULT_TIMEZONE;
+  }
+};
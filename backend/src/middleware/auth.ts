@@ -0,0 +1,121 @@
+import { Request, Response, NextFunction } from 'express';
+import jwt from 'jsonwebtoken';
+import { query } from '../config/database';
+import { getJwtSecret } from '../config/auth';
+import { Resource, Action, isAllowed } from '../config/permissions';
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  name: string;
+  role: string;
+  session_id: string;
+}
+
+export interface AccessTokenPayload {
+  sub: string;
+  sid: string;
+  role: string;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+    }
+  }
+}
+
+// Require a valid access token on every request. JWT errors are passed to the
+// error handler, which maps JsonWebTokenError/TokenExpiredError to 401.
+export const authenticate = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const header = req.headers.authorization;
+
+    if (!header || !header.startsWith('Bearer ')) {
+      res.status(401).json({
+        success: false,
+        error: { message: 'Authentication required' }
+      });
+      return;
+    }
+
+    const token = header.slice('Bearer '.length);
+    const payload = jwt.verify(token, getJwtSecret()) as AccessTokenPayload;
+
+    // Make sure the session has not been logged out and the user is still active
+    const result = await query(`
+      SELECT u.id, u.email, u.name, u.role, us.id as session_id
+      FROM user_sessions us
+      JOIN users u ON us.user_id = u.id
+      WHERE us.id = $1
+        AND u.id = $2
+        AND us.revoked_at IS NULL
+        AND us.expires_at > CURRENT_TIMESTAMP
+        AND u.is_active = true
+    `, [payload.sid, payload.sub]);
+
+    if (result.rows.length === 0) {
+      res.status(401).json({
+        success: false,
+        error: { message: 'Session has ended, please log in again' }
+      });
+      return;
+    }
+
+    req.user = result.rows[0];
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Only allow roles listed for this router action in config/permissions
+export const authorize = <R extends Resource>(resource: R, action: Action<R>) =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.user || !isAllowed(req.user.role, resource, action)) {
+      res.status(403).json({
+        success: false,
+        error: { message: 'You do not have permission to perform this action' }
+      });
+      return;
+    }
+    next();
+  };
+
+// Teachers are limited to the classes they teach; returns the id to filter on, or null for other roles
+export const teacherScope = (req: Request): string | null =>
+  req.user?.role === 'teacher' ? req.user.id : null;
+
+// Reject teachers whose route param points at a class (or class occurrence) they do not teach.
+// Ids are compared as text so malformed ids fall through to the route's own validation.
+export const ownClassesOnly = (paramName: string, kind: 'class' | 'occurrence' = 'class') =>
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const teacherId = teacherScope(req);
+      if (!teacherId) {
+        next();
+        return;
+      }
+
+      const sql = kind === 'class'
+        ? 'SELECT 1 FROM classes WHERE id::text = $1 AND teacher_id = $2'
+        : `SELECT 1 FROM class_occurrences co
+           JOIN classes c ON co.class_id = c.id
+           WHERE co.id::text = $1 AND c.teacher_id = $2`;
+
+      const result = await query(sql, [req.params[paramName], teacherId]);
+
+      if (result.rows.length === 0) {
+        res.status(403).json({
+          success: false,
+          error: { message: 'You can only access classes you teach' }
+        });
+        return;
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
@@ -0,0 +1,19 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+
+declare global {
+  namespace Express {
+    interface Request {
+      requestId?: string;
+    }
+  }
+}
+
+// Tag every request with an id (reusing a well-formed X-Request-Id from a proxy) so
+// audit events written by the same request can be grouped together
+export const requestId = (req: Request, res: Response, next: NextFunction): void => {
+  const incoming = req.get('x-request-id');
+  req.requestId = incoming && /^[\w-]{1,64}$/.test(incoming) ? incoming : crypto.randomUUID();
+  res.setHeader('X-Request-Id', req.requestId);
+  next();
+};
@@ -1,94 +1,14 @@
 import express from 'express';
-import { body, param, validationResult } from 'express-validator';
+import { body, param, query as queryParam, validationResult } from 'express-validator';
 import { query, getClient } from '../config/database';
-
-// Helper function to deduct payment balance for a student
-async function deductPaymentBalance(client: any, studentId: string, classId: string, occurrenceId: string) {
-  // Check if deduction already exists for this occurrence to prevent double deduction
-  const existingDeduction = await client.query(
-    'SELECT id FROM payment_deductions WHERE student_id = $1 AND occurrence_id = $2',
-    [studentId, occurrenceId]
-  );
-
-  if (existingDeduction.rows.length > 0) {
-    // Already deducted for this occurrence, skip
-    return;
-  }
-
-  // Find available payment for this student and class
-  const paymentQuery = `
-    SELECT
-      p.id,
-      pca.classes_allocated,
-      (pca.classes_allocated - COALESCE(used.classes_used, 0)) as available_classes
-    FROM payments p
-    JOIN payment_class_allocations pca ON p.id = pca.payment_id
-    LEFT JOIN (
-      SELECT pd.payment_id, SUM(pd.classes_deducted) as classes_used
-      FROM payment_deductions pd
-      WHERE pd.student_id = $1 AND pd.class_id = $2
-      GROUP BY pd.payment_id
-    ) used ON p.id = used.payment_id
-    WHERE p.student_id = $1
-      AND pca.class_id = $2
-      AND p.classes_remaining > 0
-      AND (pca.classes_allocated - COALESCE(used.classes_used, 0)) > 0
-    ORDER BY p.payment_date DESC
-    LIMIT 1
-  `;
-
-  const paymentResult = await client.query(paymentQuery, [studentId, classId]);
-
-  if (paymentResult.rows.length > 0) {
-    const payment = paymentResult.rows[0];
-
-    // Create payment deduction record
-    await client.query(`
-      INSERT INTO payment_deductions (student_id, class_id, occurrence_id, payment_id, classes_deducted)
-      VALUES ($1, $2, $3, $4, 1)
-    `, [studentId, classId, occurrenceId, payment.id]);
-
-    // Update payment remaining count
-    await client.query(`
-      UPDATE payments
-      SET classes_remaining = classes_remaining - 1
-      WHERE id = $1
-    `, [payment.id]);
-  }
-}
-
-// Helper function to refund payment balance for a student (when excluded)
-async function refundPaymentBalance(client: any, studentId: string, classId: string, occurrenceId: string) {
-  // Find the payment deduction for this student and occurrence
-  const deductionQuery = `
-    SELECT pd.id, pd.payment_id, pd.classes_deducted
-    FROM payment_deductions pd
-    WHERE pd.student_id = $1 AND pd.class_id = $2 AND pd.occurrence_id = $3
-  `;
-
-  const deductionResult = await client.query(deductionQuery, [studentId, classId, occurrenceId]);
-
-  if (deductionResult.rows.length > 0) {
-    const deduction = deductionResult.rows[0];
-
-    // Update payment remaining count (refund)
-    await client.query(`
-      UPDATE payments
-      SET classes_remaining = classes_remaining + $1
-      WHERE id = $2
-    `, [deduction.classes_deducted, deduction.payment_id]);
-
-    // Remove the payment deduction record
-    await client.query(`
-      DELETE FROM payment_deductions
-      WHERE id = $1
-    `, [deduction.id]);
-
-    console.log(`💰 Refunded ${deduction.classes_deducted} class(es) to payment ${deduction.payment_id} for student ${studentId}`);
-  } else {
-    console.log(`⚠️  No payment deduction found to refund for student ${studentId}, occurrence ${occurrenceId}`);
-  }
-}
+import { authorize, ownClassesOnly, teacherScope } from '../middleware/auth';
+import { applyAttendanceCharge, initialAttendance } from '../services/attendanceModes';
+import { AuditContext, auditContext, recordAuditEvent } from '../services/audit';
+import { deductClassCredit, refundClassCredit } from '../services/balance';
+import { closureCovering, findClosures } from '../services/closures';
+import { excludeHeldStudents } from '../services/holds';
+import { bookMakeUp, cancelMakeUpBooking, cancelMakeUpCredit, findMakeUpCandidates } from '../services/makeUps';
+import { datesBetween, dayOfWeek, schoolToday } from '../services/schoolTime';
 
 const router = express.Router();
 
@@ -112,8 +32,28 @@ const attendanceValidation = [
   body('notes').optional().trim().isLength({ max: 1000 })
 ];
 
+const guestValidation = [
+  body('name').trim().isLength({ min: 1, max: 100 }).withMessage('Guest name is required'),
+  body('email').optional({ nullable: true, checkFalsy: true }).isEmail().withMessage('Valid email is required'),
+  body('phone').optional({ nullable: true }).trim().isLength({ max: 20 }),
+  body('is_free_trial').optional().isBoolean().withMessage('Free trial must be boolean'),
+  body('drop_in_price').optional({ nullable: true }).isFloat({ min: 0 }).withMessage('Drop-in price must be zero or more'),
+  body('attendance_status').optional().isIn(['present', 'absent', 'late', 'excused']).withMessage('Invalid attendance status'),
+  body('student_id').optional({ nullable: true }).isUUID().withMessage('Valid student ID is required'),
+  body('notes').optional({ nullable: true }).trim().isLength({ max: 1000 })
+];
+
+const scheduledClassesValidation = [
+  queryParam('start_date').isDate().withMessage('start_date must be a date (YYYY-MM-DD)'),
+  queryParam('end_date').isDate().withMessage('end_date must be a date (YYYY-MM-DD)')
+];
+
+const autoCreateValidation = [
+  body('target_date').optional().isDate().withMessage('target_date must be a date (YYYY-MM-DD)')
+];
+
 // Create class occurrence
-router.post('/occurrences', occurrenceValidation, async (req, res, next) => {
+router.post('/occurrences', authorize('attendance', 'occurrences'), occurrenceValidation, async (req, res, next) => {
   const client = await getClient();
 
   try {
@@ -137,6 +77,14 @@ router.post('/occurrences', occurrenceValidation, async (req, res, next) => {
     const occurrenceResult = await client.query(occurrenceQuery, [class_id, occurrence_date, start_time, end_time, notes]);
     const occurrence = occurrenceResult.rows[0];
 
+    await recordAuditEvent(auditContext(req), {
+      action: 'occurrence.create',
+      entityType: 'class_occurrence',
+      entityId: occurrence.id,
+      occurrenceId: occurrence.id,
+      after: occurrence
+    }, client);
+
     // Add student exclusions if provided
     if (excluded_students && excluded_students.length > 0) {
       for (const exclusion of excluded_students) {
@@ -147,28 +95,34 @@ router.post('/occurrences', occurrenceValidation, async (req, res, next) => {
       }
     }
 
-    // Auto-mark attendance for all enrolled students (except excluded ones)
+    // Students on hold are excluded too
+    await excludeHeldStudents(client, occurrence.id, auditContext(req));
+
+    // Auto-mark attendance for all students enrolled on the occurrence date (except excluded ones)
     const enrolledStudentsQuery = `
       SELECT sce.student_id
       FROM student_class_enrollments sce
-      WHERE sce.class_id = $1 AND sce.is_active = true
+      WHERE sce.class_id = $1
+      AND sce.start_date <= $3::date AND (sce.end_date IS NULL OR sce.end_date > $3::date)
       AND sce.student_id NOT IN (
         SELECT student_id FROM occurrence_exclusions WHERE occurrence_id = $2
       )
     `;
 
-    const enrolledStudents = await client.query(enrolledStudentsQuery, [class_id, occurrence.id]);
+    const enrolledStudents = await client.query(enrolledStudentsQuery, [class_id, occurrence.id, occurrence_date]);
+    const classResult = await client.query('SELECT attendance_mode FROM classes WHERE id = $1', [class_id]);
+    const attendance = initialAttendance(classResult.rows[0].attendance_mode);
 
-    // Create attendance records and deduct payments
+    // Create attendance records (present, or pending in classes that take attendance first) and deduct payments
     for (const student of enrolledStudents.rows) {
-      // Create attendance record as 'present' by default
       await client.query(`
         INSERT INTO student_attendance (student_id, class_occurrence_id, attendance_status)
-        VALUES ($1, $2, 'present')
-      `, [student.student_id, occurrence.id]);
+        VALUES ($1, $2, $3)
+      `, [student.student_id, occurrence.id, attendance.status]);
 
-      // Deduct payment balance
-      await deductPaymentBalance(client, student.student_id, class_id, occurrence.id);
+      if (attendance.charge) {
+        await deductClassCredit(client, student.student_id, class_id, occurrence.id, auditContext(req));
+      }
     }
 
     await client.query('COMMIT');
@@ -187,7 +141,7 @@ router.post('/occurrences', occurrenceValidation, async (req, res, next) => {
 });
 
 // Get class occurrences with filters
-router.get('/occurrences', async (req, res, next) => {
+router.get('/occurrences', authorize('attendance', 'view'), async (req, res, next) => {
   try {
     const { page = 1, limit = 20, class_id, date_from, date_to, include_cancelled = false } = req.query;
     const offset = (Number(page) - 1) * Number(limit);
@@ -218,6 +172,14 @@ router.get('/occurrences', async (req, res, next) => {
       whereClause += ` AND co.was_cancelled = false`;
     }
 
+    // Teachers only see occurrences of the classes they teach
+    const teacherId = teacherScope(req);
+    if (teacherId) {
+      paramCount++;
+      whereClause += ` AND co.class_id IN (SELECT id FROM classes WHERE teacher_id = $${paramCount})`;
+      params.push(teacherId);
+    }
+
     // Get total count
     const countQuery = `SELECT COUNT(*) FROM class_occurrences co ${whereClause}`;
     const countResult = await query(countQuery, params.slice(0, paramCount));
@@ -263,7 +225,7 @@ router.get('/occurrences', async (req, res, next) => {
 });
 
 // Get single occurrence with attendance details
-router.get('/occurrences/:id', param('id').isUUID(), async (req, res, next) => {
+router.get('/occurrences/:id', authorize('attendance', 'view'), ownClassesOnly('id', 'occurrence'), param('id').isUUID(), async (req, res, next) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -293,7 +255,7 @@ router.get('/occurrences/:id', param('id').isUUID(), async (req, res, next) => {
 
     const occurrence = occurrenceResult.rows[0];
 
-    // Get enrolled students with attendance status and exclusions
+    // Get students enrolled on the occurrence date with attendance status and exclusions
     const attendanceQuery = `
       SELECT
         s.id as student_id,
@@ -311,22 +273,52 @@ router.get('/occurrences/:id', param('id').isUUID(), async (req, res, next) => {
           WHEN oe.student_id IS NOT NULL THEN true
           ELSE false
         END as is_excluded,
-        oe.reason as exclusion_reason
-      FROM student_class_enrollments sce
+        oe.reason as exclusion_reason,
+        false as is_make_up
+      FROM class_occurrences co
+      JOIN student_class_enrollments sce ON sce.class_id = co.class_id
+        AND sce.start_date <= co.occurrence_date AND (sce.end_date IS NULL OR sce.end_date > co.occurrence_date)
       JOIN students s ON sce.student_id = s.id
       LEFT JOIN student_attendance sa ON sa.student_id = s.id AND sa.class_occurrence_id = $1
       LEFT JOIN occurrence_exclusions oe ON oe.student_id = s.id AND oe.occurrence_id = $1
-      WHERE sce.class_id = $2 AND sce.is_active = true
-      ORDER BY s.name
+      WHERE co.id = $1
+
+      UNION ALL
+
+      -- Students booked in for a make-up class
+      SELECT
+        s.id, s.name, s.grade, s.email,
+        NULL,
+        sa.attendance_status,
+        sa.check_in_time, sa.check_out_time, sa.notes,
+        sa.created_at,
+        false,
+        NULL,
+        true
+      FROM student_attendance sa
+      JOIN students s ON sa.student_id = s.id
+      WHERE sa.class_occurrence_id = $1 AND sa.make_up_credit_id IS NOT NULL
+
+      ORDER BY student_name
     `;
 
-    const attendanceResult = await query(attendanceQuery, [id, occurrence.class_id]);
+    const attendanceResult = await query(attendanceQuery, [id]);
+
+    // Trial and drop-in guests
+    const guestsResult = await query(`
+      SELECT og.*, s.name as student_name
+      FROM occurrence_guests og
+      LEFT JOIN students s ON og.student_id = s.id
+      WHERE og.occurrence_id = $1
+      ORDER BY og.name
+    `, [id]);
 
     res.json({
       success: true,
       data: {
         ...occurrence,
-        attendance: attendanceResult.rows
+        attendance: attendanceResult.rows,
+        guests: guestsResult.rows
       }
     });
   } catch (error) {
@@ -335,7 +327,7 @@ router.get('/occurrences/:id', param('id').isUUID(), async (req, res, next) => {
 });
 
 // Update occurrence
-router.put('/occurrences/:id', [param('id').isUUID(), ...occurrenceValidation], async (req, res, next) => {
+router.put('/occurrences/:id', authorize('attendance', 'occurrences'), [param('id').isUUID(), ...occurrenceValidation], async (req, res, next) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -345,6 +337,8 @@ router.put('/occurrences/:id', [param('id').isUUID(), ...occurrenceValidation],
     const { id } = req.params;
     const { start_time, end_time, notes, was_cancelled } = req.body;
 
+    const previous = await query('SELECT * FROM class_occurrences WHERE id = $1', [id]);
+
     const queryStr = `
       UPDATE class_occurrences
       SET start_time = $1, end_time = $2, notes = $3, was_cancelled = $4
@@ -361,6 +355,15 @@ router.put('/occurrences/:id', [param('id').isUUID(), ...occurrenceValidation],
       });
     }
 
+    await recordAuditEvent(auditContext(req), {
+      action: 'occurrence.update',
+      entityType: 'class_occurrence',
+      entityId: id,
+      occurrenceId: id,
+      before: previous.rows[0],
+      after: result.rows[0]
+    });
+
     res.json({
       success: true,
       data: result.rows[0],
@@ -371,8 +374,30 @@ router.put('/occurrences/:id', [param('id').isUUID(), ...occurrenceValidation],
   }
 });
 
+// An occurrence with its class's attendance mode, or null if it does not exist
+async function findAttendanceOccurrence(client: any, occurrenceId: string) {
+  const result = await client.query(`
+    SELECT co.id, co.class_id, c.attendance_mode
+    FROM class_occurrences co
+    JOIN classes c ON co.class_id = c.id
+    WHERE co.id = $1
+  `, [occurrenceId]);
+
+  return result.rows[0] || null;
+}
+
+// Recording attendance charges for it in classes that take attendance before charging (or charge
+// regardless); in auto_present classes students were charged up front, and staff adjust balances
+// with attendance-with-payment
+function chargeForMode(client: any, occurrence: any, previous: any, attendance: any, audit: AuditContext) {
+  if (occurrence.attendance_mode === 'auto_present') {
+    return Promise.resolve({ success: true as const });
+  }
+  return applyAttendanceCharge(client, occurrence, previous, attendance, audit);
+}
+
 // Record student attendance for an occurrence
-router.post('/occurrences/:occurrenceId/attendance', [
+router.post('/occurrences/:occurrenceId/attendance', authorize('attendance', 'record'), ownClassesOnly('occurrenceId', 'occurrence'), [
   param('occurrenceId').isUUID(),
   ...attendanceValidation
 ], async (req, res, next) => {
@@ -391,8 +416,8 @@ router.post('/occurrences/:occurrenceId/attendance', [
     const { student_id, attendance_status, check_in_time, check_out_time, notes } = req.body;
 
     // Verify occurrence exists
-    const occurrenceCheck = await client.query('SELECT id, class_id FROM class_occurrences WHERE id = $1', [occurrenceId]);
-    if (occurrenceCheck.rows.length === 0) {
+    const occurrenceCheck = await findAttendanceOccurrence(client, occurrenceId);
+    if (!occurrenceCheck) {
       await client.query('ROLLBACK');
       return res.status(404).json({
         success: false,
@@ -400,13 +425,21 @@ router.post('/occurrences/:occurrenceId/attendance', [
       });
     }
 
-    // Verify student is enrolled in the class
-    const enrollmentCheck = await client.query(
-      'SELECT id FROM student_class_enrollments WHERE student_id = $1 AND class_id = $2 AND is_active = true',
-      [student_id, occurrenceCheck.rows[0].class_id]
+    const previous = await client.query(
+      'SELECT * FROM student_attendance WHERE student_id = $1 AND class_occurrence_id = $2',
+      [student_id, occurrenceId]
     );
 
-    if (enrollmentCheck.rows.length === 0) {
+    // Verify student was enrolled in the class on the occurrence date (or booked in for a make-up)
+    const enrollmentCheck = await client.query(`
+      SELECT sce.id
+      FROM student_class_enrollments sce
+      JOIN class_occurrences co ON co.class_id = sce.class_id
+      WHERE sce.student_id = $1 AND co.id = $2
+        AND sce.start_date <= co.occurrence_date AND (sce.end_date IS NULL OR sce.end_date > co.occurrence_date)
+    `, [student_id, occurrenceId]);
+
+    if (enrollmentCheck.rows.length === 0 && !previous.rows[0]?.make_up_credit_id) {
       await client.query('ROLLBACK');
       return res.status(400).json({
         success: false,
@@ -431,6 +464,22 @@ router.post('/occurrences/:occurrenceId/attendance', [
       student_id, occurrenceId, attendance_status, check_in_time, check_out_time, notes
     ]);
 
+    await recordAuditEvent(auditContext(req), {
+      action: 'attendance.record',
+      entityType: 'student_attendance',
+      entityId: result.rows[0].id,
+      studentId: student_id,
+      occurrenceId,
+      before: previous.rows[0] || null,
+      after: result.rows[0]
+    }, client);
+
+    const charge = await chargeForMode(client, occurrenceCheck, previous.rows[0] || null, result.rows[0], auditContext(req));
+    if (!charge.success) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({ success: false, error: { message: charge.message } });
+    }
+
     await client.query('COMMIT');
 
     res.status(201).json({
@@ -447,20 +496,30 @@ router.post('/occurrences/:occurrenceId/attendance', [
 });
 
 // Update student attendance
-router.put('/occurrences/:occurrenceId/attendance/:studentId', [
+router.put('/occurrences/:occurrenceId/attendance/:studentId', authorize('attendance', 'record'), ownClassesOnly('occurrenceId', 'occurrence'), [
   param('occurrenceId').isUUID(),
   param('studentId').isUUID(),
   ...attendanceValidation
 ], async (req, res, next) => {
+  const client = await getClient();
+
   try {
+    await client.query('BEGIN');
+
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
+      await client.query('ROLLBACK');
       return res.status(400).json({ success: false, errors: errors.array() });
     }
 
     const { occurrenceId, studentId } = req.params;
     const { attendance_status, check_in_time, check_out_time, notes } = req.body;
 
+    const previous = await client.query(
+      'SELECT * FROM student_attendance WHERE student_id = $1 AND class_occurrence_id = $2 FOR UPDATE',
+      [studentId, occurrenceId]
+    );
+
     const queryStr = `
       UPDATE student_attendance
       SET attendance_status = $1, check_in_time = $2, check_out_time = $3, notes = $4
@@ -468,27 +527,50 @@ router.put('/occurrences/:occurrenceId/attendance/:studentId', [
       RETURNING *
     `;
 
-    const result = await query(queryStr, [attendance_status, check_in_time, check_out_time, notes, occurrenceId, studentId]);
+    const result = await client.query(queryStr, [attendance_status, check_in_time, check_out_time, notes, occurrenceId, studentId]);
 
     if (result.rows.length === 0) {
+      await client.query('ROLLBACK');
       return res.status(404).json({
         success: false,
         error: { message: 'Attendance record not found' }
       });
     }
 
+    await recordAuditEvent(auditContext(req), {
+      action: 'attendance.update',
+      entityType: 'student_attendance',
+      entityId: result.rows[0].id,
+      studentId,
+      occurrenceId,
+      before: previous.rows[0],
+      after: result.rows[0]
+    }, client);
+
+    const occurrence = await findAttendanceOccurrence(client, occurrenceId);
+    const charge = await chargeForMode(client, occurrence, previous.rows[0], result.rows[0], auditContext(req));
+    if (!charge.success) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({ success: false, error: { message: charge.message } });
+    }
+
+    await client.query('COMMIT');
+
     res.json({
       success: true,
       data: result.rows[0],
       message: 'Attendance updated successfully'
     });
   } catch (error) {
+    await client.query('ROLLBACK');
     next(error);
+  } finally {
+    client.release();
   }
 });
 
 // Bulk record attendance for multiple students
-router.post('/occurrences/:occurrenceId/bulk-attendance', [
+router.post('/occurrences/:occurrenceId/bulk-attendance', authorize('attendance', 'record'), ownClassesOnly('occurrenceId', 'occurrence'), [
   param('occurrenceId').isUUID(),
   body('attendance_records').isArray().withMessage('Attendance records must be an array')
 ], async (req, res, next) => {
@@ -515,8 +597,8 @@ router.post('/occurrences/:occurrenceId/bulk-attendance', [
     }
 
     // Verify occurrence exists
-    const occurrenceCheck = await client.query('SELECT id FROM class_occurrences WHERE id = $1', [occurrenceId]);
-    if (occurrenceCheck.rows.length === 0) {
+    const occurrenceCheck = await findAttendanceOccurrence(client, occurrenceId);
+    if (!occurrenceCheck) {
       await client.query('ROLLBACK');
       return res.status(404).json({
         success: false,
@@ -527,10 +609,18 @@ router.post('/occurrences/:occurrenceId/bulk-attendance', [
     const results = [];
     const errors_list = [];
 
+    // Each record in its own savepoint, so a failing one (and its charge) is rolled back on its own
     for (const record of attendance_records) {
+      await client.query('SAVEPOINT record');
+
       try {
         const { student_id, attendance_status, check_in_time, check_out_time, notes } = record;
 
+        const previous = await client.query(
+          'SELECT * FROM student_attendance WHERE student_id = $1 AND class_occurrence_id = $2',
+          [student_id, occurrenceId]
+        );
+
         // Verify student is enrolled (this would be a separate query for each, but for bulk operations we might skip this for performance)
         const attendanceQuery = `
           INSERT INTO student_attendance (student_id, class_occurrence_id, attendance_status, check_in_time, check_out_time, notes)
@@ -548,8 +638,25 @@ router.post('/occurrences/:occurrenceId/bulk-attendance', [
           student_id, occurrenceId, attendance_status, check_in_time, check_out_time, notes
         ]);
 
+        await recordAuditEvent(auditContext(req), {
+          action: 'attendance.record',
+          entityType: 'student_attendance',
+          entityId: result.rows[0].id,
+          studentId: student_id,
+          occurrenceId,
+          before: previous.rows[0] || null,
+          after: result.rows[0]
+        }, client);
+
+        const charge = await chargeForMode(client, occurrenceCheck, previous.rows[0] || null, result.rows[0], auditContext(req));
+        if (!charge.success) {
+          throw new Error(charge.message);
+        }
+
+        await client.query('RELEASE SAVEPOINT record');
         results.push(result.rows[0]);
       } catch (error) {
+        await client.query('ROLLBACK TO SAVEPOINT record');
         errors_list.push({
           student_id: record.student_id,
           error: error.message
@@ -576,7 +683,7 @@ router.post('/occurrences/:occurrenceId/bulk-attendance', [
 });
 
 // Add student exclusion to occurrence
-router.post('/occurrences/:occurrenceId/exclusions', [
+router.post('/occurrences/:occurrenceId/exclusions', authorize('attendance', 'exclusions'), [
   param('occurrenceId').isUUID(),
   body('student_id').isUUID().withMessage('Valid student ID is required'),
   body('reason').optional().trim().isLength({ max: 500 })
@@ -602,6 +709,22 @@ router.post('/occurrences/:occurrenceId/exclusions', [
       return res.status(404).json({ success: false, error: { message: 'Class occurrence not found' } });
     }
 
+    const makeUp = await client.query(
+      'SELECT id FROM student_attendance WHERE student_id = $1 AND class_occurrence_id = $2 AND make_up_credit_id IS NOT NULL',
+      [student_id, occurrenceId]
+    );
+    if (makeUp.rows.length > 0) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({ success: false, error: { message: 'Student is here for a make-up class; cancel the booking instead' } });
+    }
+
+    // An excused absence's make-up credit goes with the class it was earned from
+    const cancelled = await cancelMakeUpCredit(client, student_id, occurrenceId, auditContext(req));
+    if (!cancelled.success) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({ success: false, error: { message: cancelled.message } });
+    }
+
     // Add exclusion
     const exclusionQuery = `
       INSERT INTO occurrence_exclusions (occurrence_id, student_id, reason)
@@ -613,11 +736,20 @@ router.post('/occurrences/:occurrenceId/exclusions', [
 
     const result = await client.query(exclusionQuery, [occurrenceId, student_id, reason]);
 
+    await recordAuditEvent(auditContext(req), {
+      action: 'exclusion.add',
+      entityType: 'occurrence_exclusion',
+      entityId: result.rows[0].id,
+      studentId: student_id,
+      occurrenceId,
+      after: result.rows[0]
+    }, client);
+
     // Remove any existing attendance record for this student
     await client.query('DELETE FROM student_attendance WHERE student_id = $1 AND class_occurrence_id = $2', [student_id, occurrenceId]);
 
     // Reverse any payment deduction for this student
-    await reversePaymentDeduction(client, student_id, occurrenceId);
+    await refundClassCredit(client, student_id, occurrenceId, auditContext(req));
 
     await client.query('COMMIT');
 
@@ -635,7 +767,7 @@ router.post('/occurrences/:occurrenceId/exclusions', [
 });
 
 // Remove student exclusion from occurrence
-router.delete('/occurrences/:occurrenceId/exclusions/:studentId', [
+router.delete('/occurrences/:occurrenceId/exclusions/:studentId', authorize('attendance', 'exclusions'), [
   param('occurrenceId').isUUID(),
   param('studentId').isUUID()
 ], async (req, res, next) => {
@@ -663,15 +795,32 @@ router.delete('/occurrences/:occurrenceId/exclusions/:studentId', [
       return res.status(404).json({ success: false, error: { message: 'Exclusion not found' } });
     }
 
-    // Add attendance record as present
+    await recordAuditEvent(auditContext(req), {
+      action: 'exclusion.remove',
+      entityType: 'occurrence_exclusion',
+      entityId: result.rows[0].id,
+      studentId,
+      occurrenceId,
+      before: result.rows[0]
+    }, client);
+
+    // Add the attendance record the student would have started with, deducting if it charges
+    const occurrence = await client.query(`
+      SELECT co.class_id, c.attendance_mode
+      FROM class_occurrences co
+      JOIN classes c ON co.class_id = c.id
+      WHERE co.id = $1
+    `, [occurrenceId]);
+    const attendance = initialAttendance(occurrence.rows[0].attendance_mode);
+
     await client.query(`
       INSERT INTO student_attendance (student_id, class_occurrence_id, attendance_status)
-      VALUES ($1, $2, 'present')
-    `, [studentId, occurrenceId]);
+      VALUES ($1, $2, $3)
+    `, [studentId, occurrenceId, attendance.status]);
 
-    // Deduct payment balance
-    const occurrence = await client.query('SELECT class_id FROM class_occurrences WHERE id = $1', [occurrenceId]);
-    await deductPaymentBalance(client, studentId, occurrence.rows[0].class_id, occurrenceId);
+    if (attendance.charge) {
+      await deductClassCredit(client, studentId, occurrence.rows[0].class_id, occurrenceId, auditContext(req));
+    }
 
     await client.query('COMMIT');
 
@@ -687,8 +836,286 @@ router.delete('/occurrences/:occurrenceId/exclusions/:studentId', [
   }
 });
 
+// Students with a make-up credit who could be booked into an occurrence
+router.get('/occurrences/:occurrenceId/make-up-candidates', authorize('attendance', 'make_ups'), param('occurrenceId').isUUID(), async (req, res, next) => {
+  const client = await getClient();
+
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const candidates = await findMakeUpCandidates(client, req.params.occurrenceId);
+
+    res.json({
+      success: true,
+      data: candidates
+    });
+  } catch (error) {
+    next(error);
+  } finally {
+    client.release();
+  }
+});
+
+// Book a student into an occurrence as a make-up class
+router.post('/occurrences/:occurrenceId/make-ups', authorize('attendance', 'make_ups'), [
+  param('occurrenceId').isUUID(),
+  body('student_id').isUUID().withMessage('Valid student ID is required'),
+  body('make_up_credit_id').optional({ nullable: true }).isUUID().withMessage('Valid make-up credit ID is required')
+], async (req, res, next) => {
+  const client = await getClient();
+
+  try {
+    await client.query('BEGIN');
+
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const { occurrenceId } = req.params;
+    const { student_id, make_up_credit_id } = req.body;
+
+    const booking = await bookMakeUp(client, student_id, occurrenceId, make_up_credit_id || null, auditContext(req));
+
+    if (!booking.success) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({ success: false, error: { message: booking.message } });
+    }
+
+    await client.query('COMMIT');
+
+    res.status(201).json({
+      success: true,
+      data: { attendance: booking.attendance, make_up_credit: booking.credit },
+      message: 'Make-up class booked successfully'
+    });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    next(error);
+  } finally {
+    client.release();
+  }
+});
+
+// Cancel a make-up booking, returning the make-up credit
+router.delete('/occurrences/:occurrenceId/make-ups/:studentId', authorize('attendance', 'make_ups'), [
+  param('occurrenceId').isUUID(),
+  param('studentId').isUUID()
+], async (req, res, next) => {
+  const client = await getClient();
+
+  try {
+    await client.query('BEGIN');
+
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const { occurrenceId, studentId } = req.params;
+
+    const cancelled = await cancelMakeUpBooking(client, studentId, occurrenceId, auditContext(req));
+
+    if (!cancelled.success) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({ success: false, error: { message: cancelled.message } });
+    }
+
+    await client.query('COMMIT');
+
+    res.json({
+      success: true,
+      data: cancelled.credit,
+      message: 'Make-up booking cancelled successfully'
+    });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    next(error);
+  } finally {
+    client.release();
+  }
+});
+
+// Trial and drop-in guests for an occurrence
+router.get('/occurrences/:occurrenceId/guests', authorize('attendance', 'view'), ownClassesOnly('occurrenceId', 'occurrence'), param('occurrenceId').isUUID(), async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const result = await query(`
+      SELECT og.*, s.name as student_name
+      FROM occurrence_guests og
+      LEFT JOIN students s ON og.student_id = s.id
+      WHERE og.occurrence_id = $1
+      ORDER BY og.name
+    `, [req.params.occurrenceId]);
+
+    res.json({
+      success: true,
+      data: result.rows
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Add a prospective student to an occurrence, on a free trial or as a drop-in
+// (charged drop_in_price, by default the class's price per class)
+router.post('/occurrences/:occurrenceId/guests', authorize('attendance', 'guests'), [
+  param('occurrenceId').isUUID(),
+  ...guestValidation
+], async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const { occurrenceId } = req.params;
+    const { name, email, phone, is_free_trial = true, drop_in_price, attendance_status = 'present', student_id, notes } = req.body;
+    const freeTrial = is_free_trial === true || is_free_trial === 'true';
+
+    const occurrence = await query(`
+      SELECT co.id, c.price_per_class
+      FROM class_occurrences co
+      JOIN classes c ON co.class_id = c.id
+      WHERE co.id = $1
+    `, [occurrenceId]);
+
+    if (occurrence.rows.length === 0) {
+      return res.status(404).json({ success: false, error: { message: 'Class occurrence not found' } });
+    }
+
+    const price = freeTrial ? 0 : (drop_in_price ?? occurrence.rows[0].price_per_class ?? 0);
+
+    const result = await query(`
+      INSERT INTO occurrence_guests (
+        occurrence_id, name, email, phone, is_free_trial, drop_in_price, attendance_status, student_id, notes, created_by
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      RETURNING *
+    `, [occurrenceId, name, email || null, phone || null, freeTrial, price, attendance_status, student_id || null, notes || null, req.user?.id ?? null]);
+
+    await recordAuditEvent(auditContext(req), {
+      action: 'guest.add',
+      entityType: 'occurrence_guest',
+      entityId: result.rows[0].id,
+      studentId: result.rows[0].student_id,
+      occurrenceId,
+      after: result.rows[0]
+    });
+
+    res.status(201).json({
+      success: true,
+      data: result.rows[0],
+      message: freeTrial ? 'Trial guest added successfully' : 'Drop-in guest added successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Update a guest, e.g. their attendance or the student they enrolled as
+router.put('/occurrences/:occurrenceId/guests/:guestId', authorize('attendance', 'guests'), [
+  param('occurrenceId').isUUID(),
+  param('guestId').isUUID(),
+  ...guestValidation
+], async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const { occurrenceId, guestId } = req.params;
+    const { name, email, phone, is_free_trial = true, drop_in_price, attendance_status = 'present', student_id, notes } = req.body;
+    const freeTrial = is_free_trial === true || is_free_trial === 'true';
+
+    const previous = await query('SELECT * FROM occurrence_guests WHERE id = $1 AND occurrence_id = $2', [guestId, occurrenceId]);
+
+    if (previous.rows.length === 0) {
+      return res.status(404).json({ success: false, error: { message: 'Guest not found' } });
+    }
+
+    const price = freeTrial ? 0 : (drop_in_price ?? previous.rows[0].drop_in_price);
+
+    const result = await query(`
+      UPDATE occurrence_guests
+      SET name = $1, email = $2, phone = $3, is_free_trial = $4, drop_in_price = $5,
+          attendance_status = $6, student_id = $7, notes = $8
+      WHERE id = $9
+      RETURNING *
+    `, [name, email || null, phone || null, freeTrial, price, attendance_status, student_id || null, notes || null, guestId]);
+
+    await recordAuditEvent(auditContext(req), {
+      action: 'guest.update',
+      entityType: 'occurrence_guest',
+      entityId: guestId,
+      studentId: result.rows[0].student_id,
+      occurrenceId,
+      before: previous.rows[0],
+      after: result.rows[0]
+    });
+
+    res.json({
+      success: true,
+      data: result.rows[0],
+      message: 'Guest updated successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Remove a guest from an occurrence
+router.delete('/occurrences/:occurrenceId/guests/:guestId', authorize('attendance', 'guests'), [
+  param('occurrenceId').isUUID(),
+  param('guestId').isUUID()
+], async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const { occurrenceId, guestId } = req.params;
+
+    const result = await query(
+      'DELETE FROM occurrence_guests WHERE id = $1 AND occurrence_id = $2 RETURNING *',
+      [guestId, occurrenceId]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, error: { message: 'Guest not found' } });
+    }
+
+    await recordAuditEvent(auditContext(req), {
+      action: 'guest.remove',
+      entityType: 'occurrence_guest',
+      entityId: guestId,
+      studentId: result.rows[0].student_id,
+      occurrenceId,
+      before: result.rows[0]
+    });
+
+    res.json({
+      success: true,
+      message: 'Guest removed successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Update attendance with payment balance management
-router.put('/occurrences/:occurrenceId/attendance-with-payment', [
+router.put('/occurrences/:occurrenceId/attendance-with-payment', authorize('attendance', 'record'), ownClassesOnly('occurrenceId', 'occurrence'), [
   param('occurrenceId').isUUID(),
   body('student_id').isUUID().withMessage('Valid student ID is required'),
   body('attendance_status').isIn(['present', 'absent', 'late', 'excused']).withMessage('Invalid attendance status'),
@@ -713,13 +1140,10 @@ router.put('/occurrences/:occurrenceId/attendance-with-payment', [
 
     // Get current attendance status
     const currentAttendance = await client.query(
-      'SELECT attendance_status FROM student_attendance WHERE student_id = $1 AND class_occurrence_id = $2',
+      'SELECT * FROM student_attendance WHERE student_id = $1 AND class_occurrence_id = $2',
       [student_id, occurrenceId]
     );
 
-    const wasPresent = currentAttendance.rows.length > 0 && currentAttendance.rows[0].attendance_status === 'present';
-    const isPresent = attendance_status === 'present';
-
     // Update attendance record
     const attendanceQuery = `
       INSERT INTO student_attendance (student_id, class_occurrence_id, attendance_status, check_in_time, check_out_time, notes)
@@ -737,16 +1161,23 @@ router.put('/occurrences/:occurrenceId/attendance-with-payment', [
       student_id, occurrenceId, attendance_status, check_in_time, check_out_time, notes
     ]);
 
+    await recordAuditEvent(auditContext(req), {
+      action: 'attendance.update',
+      entityType: 'student_attendance',
+      entityId: result.rows[0].id,
+      studentId: student_id,
+      occurrenceId,
+      before: currentAttendance.rows[0] || null,
+      after: result.rows[0]
+    }, client);
+
     // Handle payment balance changes if requested
     if (update_payment_balance) {
-      const occurrence = await client.query('SELECT class_id FROM class_occurrences WHERE id = $1', [occurrenceId]);
-
-      if (wasPresent && !isPresent) {
-        // Student was present but now is not - reverse deduction
-        await reversePaymentDeduction(client, student_id, occurrenceId);
-      } else if (!wasPresent && isPresent) {
-        // Student was not present but now is - deduct payment
-        await deductPaymentBalance(client, student_id, occurrence.rows[0].class_id, occurrenceId);
+      const occurrence = await findAttendanceOccurrence(client, occurrenceId);
+      const charge = await applyAttendanceCharge(client, occurrence, currentAttendance.rows[0] || null, result.rows[0], auditContext(req));
+      if (!charge.success) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({ success: false, error: { message: charge.message } });
       }
     }
 
@@ -765,43 +1196,18 @@ router.put('/occurrences/:occurrenceId/attendance-with-payment', [
   }
 });
 
-// Helper function to reverse payment deduction
-async function reversePaymentDeduction(client: any, studentId: string, occurrenceId: string) {
-  // Find the payment deduction for this occurrence
-  const deductionQuery = await client.query(
-    'SELECT payment_id, classes_deducted FROM payment_deductions WHERE student_id = $1 AND occurrence_id = $2',
-    [studentId, occurrenceId]
-  );
-
-  if (deductionQuery.rows.length > 0) {
-    const deduction = deductionQuery.rows[0];
-
-    // Restore payment balance
-    await client.query(
-      'UPDATE payments SET classes_remaining = classes_remaining + $1 WHERE id = $2',
-      [deduction.classes_deducted, deduction.payment_id]
-    );
-
-    // Remove deduction record
-    await client.query(
-      'DELETE FROM payment_deductions WHERE student_id = $1 AND occurrence_id = $2',
-      [studentId, occurrenceId]
-    );
-  }
-}
-
 // Get scheduled classes for calendar view
-router.get('/scheduled-classes', async (req, res, next) => {
-  try {
-    const { start_date, end_date } = req.query;
+router.get('/scheduled-classes', authorize('attendance', 'view'), scheduledClassesValidation, async (req, res, next) => {
+  const client = await getClient();
 
-    if (!start_date || !end_date) {
-      return res.status(400).json({
-        success: false,
-        error: { message: 'start_date and end_date query parameters are required' }
-      });
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
     }
 
+    const { start_date, end_date } = req.query;
+
     const scheduledQuery = `
       SELECT
         cs.id as schedule_id,
@@ -817,22 +1223,21 @@ router.get('/scheduled-classes', async (req, res, next) => {
       FROM class_schedules cs
       JOIN classes c ON cs.class_id = c.id
       WHERE cs.is_active = true
+        AND ($1::uuid IS NULL OR c.teacher_id = $1)
       ORDER BY cs.day_of_week, cs.start_time
     `;
 
-    const result = await query(scheduledQuery);
+    // Teachers only see the classes they teach
+    const result = await client.query(scheduledQuery, [teacherScope(req)]);
+    const closures = await findClosures(client, String(start_date).slice(0, 10), String(end_date).slice(0, 10));
 
     // Generate scheduled dates within the range
     const scheduledClasses = [];
-    const start = new Date(start_date as string);
-    const end = new Date(end_date as string);
+    const dates = datesBetween(String(start_date), String(end_date));
 
     for (const schedule of result.rows) {
-      const currentDate = new Date(start);
-
-      while (currentDate <= end) {
-        if (currentDate.getDay() === schedule.day_of_week) {
-          const scheduledDate = currentDate.toISOString().split('T')[0];
+      for (const scheduledDate of dates) {
+        if (dayOfWeek(scheduledDate) === schedule.day_of_week) {
 
           // Check if occurrence already exists
           const existingQuery = `
@@ -840,7 +1245,8 @@ router.get('/scheduled-classes', async (req, res, next) => {
             WHERE class_id = $1 AND occurrence_date = $2 AND start_time = $3
           `;
 
-          const existing = await query(existingQuery, [schedule.class_id, scheduledDate, schedule.start_time]);
+          const existing = await client.query(existingQuery, [schedule.class_id, scheduledDate, schedule.start_time]);
+          const closure = closureCovering(closures, schedule.class_id, schedule.subject, scheduledDate);
 
           scheduledClasses.push({
             id: `${schedule.schedule_id}_${scheduledDate}`,
@@ -855,10 +1261,11 @@ router.get('/scheduled-classes', async (req, res, next) => {
             max_students: schedule.max_students,
             description: schedule.description,
             has_occurrence: existing.rows.length > 0,
-            is_scheduled: true
+            is_scheduled: true,
+            is_closed: closure !== null,
+            closure_name: closure?.name ?? null
           });
         }
-        currentDate.setDate(currentDate.getDate() + 1);
       }
     }
 
@@ -870,37 +1277,57 @@ router.get('/scheduled-classes', async (req, res, next) => {
     });
   } catch (error) {
     next(error);
+  } finally {
+    client.release();
   }
 });
 
 // Auto-create occurrences based on class schedules
-router.post('/auto-create-occurrences', async (req, res, next) => {
+router.post('/auto-create-occurrences', authorize('attendance', 'occurrences'), autoCreateValidation, async (req, res, next) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ success: false, errors: errors.array() });
+  }
+
   const client = await getClient();
 
   try {
     await client.query('BEGIN');
 
     const { target_date } = req.body;
-    const checkDate = target_date ? new Date(target_date) : new Date();
-    const dayOfWeek = checkDate.getDay(); // 0 = Sunday, 1 = Monday, etc.
+    const occurrenceDate = target_date ? String(target_date).slice(0, 10) : schoolToday();
 
     // Find all active class schedules for the target day
     const schedulesQuery = `
       SELECT
         cs.*,
         c.name as class_name,
+        c.subject,
         c.price_per_class,
-        c.duration_minutes
+        c.duration_minutes,
+        c.attendance_mode
       FROM class_schedules cs
       JOIN classes c ON cs.class_id = c.id
       WHERE cs.day_of_week = $1 AND cs.is_active = true
     `;
 
-    const schedules = await client.query(schedulesQuery, [dayOfWeek]);
+    const schedules = await client.query(schedulesQuery, [dayOfWeek(occurrenceDate)]);
+    const closures = await findClosures(client, occurrenceDate, occurrenceDate);
     const createdOccurrences = [];
+    const closedClasses = [];
     const errors = [];
 
     for (const schedule of schedules.rows) {
+      // No class on holidays and other closures
+      const closure = closureCovering(closures, schedule.class_id, schedule.subject, occurrenceDate);
+      if (closure) {
+        closedClasses.push({ class_id: schedule.class_id, class_name: schedule.class_name, closure: closure.name });
+        continue;
+      }
+
+      // Each class in its own savepoint, so a failing class doesn't roll back the others
+      await client.query('SAVEPOINT schedule');
+
       try {
         // Check if occurrence already exists
         const existingQuery = `
@@ -910,11 +1337,12 @@ router.post('/auto-create-occurrences', async (req, res, next) => {
 
         const existing = await client.query(existingQuery, [
           schedule.class_id,
-          checkDate.toISOString().split('T')[0],
+          occurrenceDate,
           schedule.start_time
         ]);
 
         if (existing.rows.length > 0) {
+          await client.query('RELEASE SAVEPOINT schedule');
           continue; // Skip if already exists
         }
 
@@ -928,43 +1356,62 @@ router.post('/auto-create-occurrences', async (req, res, next) => {
         const occurrenceResult = await client.query(occurrenceQuery, [
           schedule.class_id,
           schedule.id,
-          checkDate.toISOString().split('T')[0],
+          occurrenceDate,
           schedule.start_time,
           schedule.end_time
         ]);
 
         const occurrence = occurrenceResult.rows[0];
 
-        // Auto-mark attendance for all enrolled students
+        await recordAuditEvent(auditContext(req), {
+          action: 'occurrence.create',
+          entityType: 'class_occurrence',
+          entityId: occurrence.id,
+          occurrenceId: occurrence.id,
+          after: occurrence
+        }, client);
+
+        // Students on hold are excluded rather than marked present
+        await excludeHeldStudents(client, occurrence.id, auditContext(req));
+
+        // Auto-mark attendance for all students enrolled on the date (except excluded ones)
         const enrolledStudentsQuery = `
           SELECT sce.student_id
           FROM student_class_enrollments sce
-          WHERE sce.class_id = $1 AND sce.is_active = true
+          WHERE sce.class_id = $1
+          AND sce.start_date <= $3::date AND (sce.end_date IS NULL OR sce.end_date > $3::date)
+          AND sce.student_id NOT IN (
+            SELECT student_id FROM occurrence_exclusions WHERE occurrence_id = $2
+          )
         `;
 
-        const enrolledStudents = await client.query(enrolledStudentsQuery, [schedule.class_id]);
+        const enrolledStudents = await client.query(enrolledStudentsQuery, [schedule.class_id, occurrence.id, occurrenceDate]);
+        const attendance = initialAttendance(schedule.attendance_mode);
 
-        // Create attendance records and deduct payments
+        // Create attendance records (present, or pending in classes that take attendance first) and deduct payments
         for (const student of enrolledStudents.rows) {
-          // Create attendance record as 'present' by default
           await client.query(`
             INSERT INTO student_attendance (student_id, class_occurrence_id, attendance_status)
-            VALUES ($1, $2, 'present')
-          `, [student.student_id, occurrence.id]);
+            VALUES ($1, $2, $3)
+          `, [student.student_id, occurrence.id, attendance.status]);
 
-          // Deduct payment balance
-          await deductPaymentBalance(client, student.student_id, schedule.class_id, occurrence.id);
+          if (attendance.charge) {
+            await deductClassCredit(client, student.student_id, schedule.class_id, occurrence.id, auditContext(req));
+          }
         }
 
+        await client.query('RELEASE SAVEPOINT schedule');
+
         createdOccurrences.push({
           id: occurrence.id,
           class_name: schedule.class_name,
-          date: checkDate.toISOString().split('T')[0],
+          date: occurrenceDate,
           start_time: schedule.start_time,
           end_time: schedule.end_time
         });
 
       } catch (error: any) {
+        await client.query('ROLLBACK TO SAVEPOINT schedule');
         errors.push({
           class_id: schedule.class_id,
           class_name: schedule.class_name,
@@ -980,6 +1427,7 @@ router.post('/auto-create-occurrences', async (req, res, next) => {
       data: {
         created: createdOccurrences.length,
         occurrences: createdOccurrences,
+        closed: closedClasses.length > 0 ? closedClasses : undefined,
         errors: errors.length > 0 ? errors : undefined
       },
       message: `Auto-created ${createdOccurrences.length} class occurrences for ${schedules.rows.length} schedules`
@@ -993,7 +1441,7 @@ router.post('/auto-create-occurrences', async (req, res, next) => {
 });
 
 // Get attendance statistics for a class
-router.get('/classes/:classId/stats', param('classId').isUUID(), async (req, res, next) => {
+router.get('/classes/:classId/stats', authorize('attendance', 'view'), ownClassesOnly('classId'), param('classId').isUUID(), async (req, res, next) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -1004,8 +1452,8 @@ router.get('/classes/:classId/stats', param('classId').isUUID(), async (req, res
     const { period = '30 days' } = req.query;
 
     const dateFilter = period === '7 days'
-      ? 'AND co.occurrence_date >= CURRENT_DATE - INTERVAL \'7 days\''
-      : 'AND co.occurrence_date >= CURRENT_DATE - INTERVAL \'30 days\'';
+      ? 'AND co.occurrence_date >= school_today() - INTERVAL \'7 days\''
+      : 'AND co.occurrence_date >= school_today() - INTERVAL \'30 days\'';
 
     const statsQuery = `
       SELECT
@@ -1044,12 +1492,29 @@ router.get('/classes/:classId/stats', param('classId').isUUID(), async (req, res
 });
 
 // Test endpoint to manually trigger scheduler
-router.post('/test-scheduler', async (req, res, next) => {
+router.post('/test-scheduler', authorize('scheduler', 'run'), async (req, res, next) => {
   try {
     const { testScheduler } = await import('../services/automatedScheduler');
-    await testScheduler();
+    const result = await testScheduler();
+
+    if (!result.success) {
+      if (result.reason === 'already_running') {
+        return res.status(409).json({
+          success: false,
+          error: { message: 'The scheduler is already running on another instance' }
+        });
+      }
+
+      return res.status(500).json({
+        success: false,
+        error: { message: `Scheduler run failed: ${result.error}` },
+        data: result.run
+      });
+    }
+
     res.json({
       success: true,
+      data: result.run,
       message: 'Scheduler test completed successfully'
     });
   } catch (error) {
@@ -0,0 +1,109 @@
+import express from 'express';
+import { query as queryParam, validationResult } from 'express-validator';
+import { query } from '../config/database';
+import { authorize } from '../middleware/auth';
+
+const router = express.Router();
+
+// Validation rules
+const auditFilterValidation = [
+  queryParam('student_id').optional().isUUID().withMessage('Invalid student ID format'),
+  queryParam('payment_id').optional().isUUID().withMessage('Invalid payment ID format'),
+  queryParam('occurrence_id').optional().isUUID().withMessage('Invalid occurrence ID format'),
+  queryParam('date_from').optional().isDate().withMessage('date_from must be a valid date'),
+  queryParam('date_to').optional().isDate().withMessage('date_to must be a valid date')
+];
+
+// Get audit events with optional filters (newest first)
+router.get('/', authorize('audit', 'view'), auditFilterValidation, async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const { page = 1, limit = 50, student_id, payment_id, occurrence_id, action, entity_type, date_from, date_to } = req.query;
+    const offset = (Number(page) - 1) * Number(limit);
+
+    let whereClause = 'WHERE 1=1';
+    const params: any[] = [];
+    let paramCount = 0;
+
+    if (student_id) {
+      paramCount++;
+      whereClause += ` AND student_id = $${paramCount}`;
+      params.push(student_id);
+    }
+
+    if (payment_id) {
+      paramCount++;
+      whereClause += ` AND payment_id = $${paramCount}`;
+      params.push(payment_id);
+    }
+
+    if (occurrence_id) {
+      paramCount++;
+      whereClause += ` AND occurrence_id = $${paramCount}`;
+      params.push(occurrence_id);
+    }
+
+    if (action) {
+      paramCount++;
+      whereClause += ` AND action = $${paramCount}`;
+      params.push(action);
+    }
+
+    if (entity_type) {
+      paramCount++;
+      whereClause += ` AND entity_type = $${paramCount}`;
+      params.push(entity_type);
+    }
+
+    if (date_from) {
+      paramCount++;
+      whereClause += ` AND created_at >= $${paramCount}`;
+      params.push(date_from);
+    }
+
+    if (date_to) {
+      paramCount++;
+      whereClause += ` AND created_at < $${paramCount}::date + INTERVAL '1 day'`;
+      params.push(date_to);
+    }
+
+    // Get total count
+    const countResult = await query(`SELECT COUNT(*) FROM audit_events ${whereClause}`, params.slice(0, paramCount));
+    const total = parseInt(countResult.rows[0].count);
+
+    paramCount++;
+    const eventsQuery = `
+      SELECT
+        id, actor_user_id, actor_name, action, entity_type, entity_id,
+        student_id, payment_id, occurrence_id, before_data, after_data, request_id, created_at
+      FROM audit_events
+      ${whereClause}
+      ORDER BY created_at DESC, id
+      LIMIT $${paramCount} OFFSET $${paramCount + 1}
+    `;
+    params.push(limit, offset);
+
+    const result = await query(eventsQuery, params);
+
+    res.json({
+      success: true,
+      data: {
+        events: result.rows,
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total,
+          pages: Math.ceil(total / Number(limit))
+        }
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
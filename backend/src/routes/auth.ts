@@ -0,0 +1,181 @@
+import express from 'express';
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import jwt from 'jsonwebtoken';
+import { body, validationResult } from 'express-validator';
+import { query } from '../config/database';
+import { getJwtSecret, getAccessTokenExpiresIn, getRefreshTokenTtlDays } from '../config/auth';
+import { authenticate } from '../middleware/auth';
+import { permissionsForRole } from '../config/permissions';
+
+const router = express.Router();
+
+// Validation rules
+const loginValidation = [
+  body('email').trim().toLowerCase().isEmail().withMessage('Please provide a valid email'),
+  body('password').isLength({ min: 1 }).withMessage('Password is required')
+];
+
+const refreshTokenValidation = [
+  body('refresh_token').isString().isLength({ min: 1 }).withMessage('Refresh token is required')
+];
+
+const hashRefreshToken = (token: string) =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+// Helper function to open a session and issue an access/refresh token pair
+async function issueSession(user: any, req: express.Request) {
+  const refreshToken = crypto.randomBytes(48).toString('hex');
+
+  const sessionResult = await query(`
+    INSERT INTO user_sessions (user_id, refresh_token_hash, user_agent, ip_address, expires_at)
+    VALUES ($1, $2, $3, $4, CURRENT_TIMESTAMP + ($5 || ' days')::interval)
+    RETURNING id, expires_at
+  `, [user.id, hashRefreshToken(refreshToken), req.get('user-agent') || null, req.ip || null, getRefreshTokenTtlDays()]);
+
+  const session = sessionResult.rows[0];
+
+  const accessToken = jwt.sign(
+    { sub: user.id, sid: session.id, role: user.role },
+    getJwtSecret(),
+    { expiresIn: getAccessTokenExpiresIn() }
+  );
+
+  return {
+    access_token: accessToken,
+    refresh_token: refreshToken,
+    refresh_token_expires_at: session.expires_at,
+    user: {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      role: user.role,
+      permissions: permissionsForRole(user.role)
+    }
+  };
+}
+
+// Log in with email and password
+router.post('/login', loginValidation, async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const { email, password } = req.body;
+
+    const result = await query(
+      'SELECT id, email, name, role, password_hash FROM users WHERE email = $1 AND is_active = true',
+      [email]
+    );
+
+    const user = result.rows[0];
+    const passwordMatches = user ? await bcrypt.compare(password, user.password_hash) : false;
+
+    if (!user || !passwordMatches) {
+      return res.status(401).json({
+        success: false,
+        error: { message: 'Invalid email or password' }
+      });
+    }
+
+    await query('UPDATE users SET last_login_at = CURRENT_TIMESTAMP WHERE id = $1', [user.id]);
+
+    const session = await issueSession(user, req);
+
+    res.json({
+      success: true,
+      data: session,
+      message: 'Logged in successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Exchange a refresh token for a new token pair (the old refresh token is revoked)
+router.post('/refresh', refreshTokenValidation, async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const { refresh_token } = req.body;
+
+    const result = await query(`
+      UPDATE user_sessions us
+      SET revoked_at = CURRENT_TIMESTAMP
+      FROM users u
+      WHERE us.user_id = u.id
+        AND us.refresh_token_hash = $1
+        AND us.revoked_at IS NULL
+        AND us.expires_at > CURRENT_TIMESTAMP
+        AND u.is_active = true
+      RETURNING u.id, u.email, u.name, u.role
+    `, [hashRefreshToken(refresh_token)]);
+
+    if (result.rows.length === 0) {
+      return res.status(401).json({
+        success: false,
+        error: { message: 'Invalid or expired refresh token' }
+      });
+    }
+
+    const session = await issueSession(result.rows[0], req);
+
+    res.json({
+      success: true,
+      data: session
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Log out (revoke the session behind the refresh token)
+router.post('/logout', refreshTokenValidation, async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const { refresh_token } = req.body;
+
+    await query(
+      'UPDATE user_sessions SET revoked_at = CURRENT_TIMESTAMP WHERE refresh_token_hash = $1 AND revoked_at IS NULL',
+      [hashRefreshToken(refresh_token)]
+    );
+
+    res.json({
+      success: true,
+      message: 'Logged out successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get the currently logged in user
+router.get('/me', authenticate, async (req, res, next) => {
+  try {
+    const result = await query(
+      'SELECT id, email, name, role, last_login_at, created_at FROM users WHERE id = $1',
+      [req.user!.id]
+    );
+
+    res.json({
+      success: true,
+      data: {
+        ...result.rows[0],
+        permissions: permissionsForRole(result.rows[0].role)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
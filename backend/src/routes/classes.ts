@@ -1,6 +1,10 @@
 import express from 'express';
-import { body, param, validationResult } from 'express-validator';
-import { query } from '../config/database';
+import { body, param, query as queryParam, validationResult } from 'express-validator';
+import { query, getClient } from '../config/database';
+import { authorize, ownClassesOnly, teacherScope } from '../middleware/auth';
+import { ATTENDANCE_MODES } from '../services/attendanceModes';
+import { auditContext, recordAuditEvent } from '../services/audit';
+import { addToWaitlist, moveWaitlistEntry, promoteFromWaitlist, removeFromWaitlist } from '../services/enrollments';
 
 const router = express.Router();
 
@@ -11,13 +15,28 @@ const classValidation = [
   body('subject').optional().trim().isLength({ min: 1, max: 100 }),
   body('duration_minutes').optional().isInt({ min: 15, max: 480 }).withMessage('Duration must be between 15 and 480 minutes'),
   body('max_students').optional().isInt({ min: 1, max: 100 }),
-  body('price_per_class').optional().isDecimal().withMessage('Price must be a valid decimal')
+  body('price_per_class').optional().isDecimal().withMessage('Price must be a valid decimal'),
+  body('attendance_mode').optional().isIn([...ATTENDANCE_MODES]).withMessage('Invalid attendance mode'),
+  body('teacher_id').optional({ nullable: true }).isUUID().withMessage('Invalid teacher ID format')
 ];
 
 const classIdValidation = [
   param('id').isUUID().withMessage('Invalid class ID format')
 ];
 
+const enrollmentsValidation = [
+  queryParam('as_of').optional().isISO8601().withMessage('As of must be a date (YYYY-MM-DD)')
+];
+
+const waitlistValidation = [
+  body('student_id').isUUID().withMessage('Valid student ID is required'),
+  body('notes').optional({ nullable: true }).trim().isLength({ max: 500 })
+];
+
+const waitlistEntryValidation = [
+  param('entryId').isUUID().withMessage('Invalid waitlist entry ID format')
+];
+
 const scheduleValidation = [
   body('day_of_week').isInt({ min: 0, max: 6 }).withMessage('Day of week must be between 0 (Sunday) and 6 (Saturday)'),
   body('start_time').matches(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/).withMessage('Start time must be in HH:MM format'),
@@ -25,7 +44,7 @@ const scheduleValidation = [
 ];
 
 // Get all classes with optional filters
-router.get('/', async (req, res, next) => {
+router.get('/', authorize('classes', 'view'), async (req, res, next) => {
   try {
     const { page = 1, limit = 10, search, subject } = req.query;
     const offset = (Number(page) - 1) * Number(limit);
@@ -46,6 +65,14 @@ router.get('/', async (req, res, next) => {
       params.push(subject);
     }
 
+    // Teachers only see the classes they teach
+    const teacherId = teacherScope(req);
+    if (teacherId) {
+      paramCount++;
+      whereClause += ` AND teacher_id = $${paramCount}`;
+      params.push(teacherId);
+    }
+
     // Get total count
     const countQuery = `SELECT COUNT(*) FROM classes ${whereClause}`;
     const countResult = await query(countQuery, params.slice(0, paramCount));
@@ -56,11 +83,14 @@ router.get('/', async (req, res, next) => {
     const classesQuery = `
       SELECT
         c.id, c.name, c.description, c.subject, c.duration_minutes, c.max_students, c.price_per_class,
+        c.attendance_mode, c.teacher_id, u.name as teacher_name,
         c.created_at, c.updated_at,
         ces.enrolled_students,
-        ces.enrollment_percentage
+        ces.enrollment_percentage,
+        ces.waitlisted_students
       FROM classes c
       LEFT JOIN class_enrollment_summary ces ON c.id = ces.class_id
+      LEFT JOIN users u ON c.teacher_id = u.id
       ${whereClause}
       ORDER BY c.name
       LIMIT $${paramCount} OFFSET $${paramCount + 1}
@@ -87,7 +117,7 @@ router.get('/', async (req, res, next) => {
 });
 
 // Get single class by ID with detailed information
-router.get('/:id', classIdValidation, async (req, res, next) => {
+router.get('/:id', authorize('classes', 'view'), ownClassesOnly('id'), classIdValidation, async (req, res, next) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -100,10 +130,12 @@ router.get('/:id', classIdValidation, async (req, res, next) => {
     const classQuery = `
       SELECT
         c.*,
+        u.name as teacher_name,
         ces.enrolled_students,
         ces.enrollment_percentage
       FROM classes c
       LEFT JOIN class_enrollment_summary ces ON c.id = ces.class_id
+      LEFT JOIN users u ON c.teacher_id = u.id
       WHERE c.id = $1
     `;
 
@@ -153,22 +185,22 @@ router.get('/:id', classIdValidation, async (req, res, next) => {
 });
 
 // Create new class
-router.post('/', classValidation, async (req, res, next) => {
+router.post('/', authorize('classes', 'create'), classValidation, async (req, res, next) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
       return res.status(400).json({ success: false, errors: errors.array() });
     }
 
-    const { name, description, subject, duration_minutes, max_students, price_per_class } = req.body;
+    const { name, description, subject, duration_minutes, max_students, price_per_class, attendance_mode, teacher_id } = req.body;
 
     const queryStr = `
-      INSERT INTO classes (name, description, subject, duration_minutes, max_students, price_per_class)
-      VALUES ($1, $2, $3, $4, $5, $6)
+      INSERT INTO classes (name, description, subject, duration_minutes, max_students, price_per_class, teacher_id, attendance_mode)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, COALESCE($8, 'auto_present'))
       RETURNING *
     `;
 
-    const result = await query(queryStr, [name, description, subject, duration_minutes, max_students, price_per_class]);
+    const result = await query(queryStr, [name, description, subject, duration_minutes, max_students, price_per_class, teacher_id || null, attendance_mode || null]);
 
     res.status(201).json({
       success: true,
@@ -180,73 +212,121 @@ router.post('/', classValidation, async (req, res, next) => {
   }
 });
 
-// Update class
-router.put('/:id', [...classIdValidation, ...classValidation], async (req, res, next) => {
+// Update class. Raising max_students enrolls students from the waitlist.
+router.put('/:id', authorize('classes', 'update'), [...classIdValidation, ...classValidation], async (req, res, next) => {
+  const client = await getClient();
+
   try {
+    await client.query('BEGIN');
+
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
+      await client.query('ROLLBACK');
       return res.status(400).json({ success: false, errors: errors.array() });
     }
 
     const { id } = req.params;
-    const { name, description, subject, duration_minutes, max_students, price_per_class } = req.body;
+    const { name, description, subject, duration_minutes, max_students, price_per_class, attendance_mode, teacher_id } = req.body;
 
     const queryStr = `
       UPDATE classes
-      SET name = $1, description = $2, subject = $3, duration_minutes = $4, max_students = $5, price_per_class = $6
-      WHERE id = $7
+      SET name = $1, description = $2, subject = $3, duration_minutes = $4, max_students = $5, price_per_class = $6, teacher_id = $7,
+        attendance_mode = COALESCE($9, attendance_mode)
+      WHERE id = $8
       RETURNING *
     `;
 
-    const result = await query(queryStr, [name, description, subject, duration_minutes, max_students, price_per_class, id]);
+    const result = await client.query(queryStr, [name, description, subject, duration_minutes, max_students, price_per_class, teacher_id || null, id, attendance_mode || null]);
 
     if (result.rows.length === 0) {
+      await client.query('ROLLBACK');
       return res.status(404).json({
         success: false,
         error: { message: 'Class not found' }
       });
     }
 
+    const promoted = await promoteFromWaitlist(client, id, auditContext(req));
+
+    await client.query('COMMIT');
+
     res.json({
       success: true,
       data: result.rows[0],
-      message: 'Class updated successfully'
+      message: `Class updated successfully${promoted.length > 0 ? `; ${promoted.length} student${promoted.length === 1 ? '' : 's'} enrolled from the waitlist` : ''}`
     });
   } catch (error) {
+    await client.query('ROLLBACK');
     next(error);
+  } finally {
+    client.release();
   }
 });
 
 // Delete class
-router.delete('/:id', classIdValidation, async (req, res, next) => {
+router.delete('/:id', authorize('classes', 'delete'), classIdValidation, async (req, res, next) => {
+  const client = await getClient();
+
   try {
+    await client.query('BEGIN');
+
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
+      await client.query('ROLLBACK');
       return res.status(400).json({ success: false, errors: errors.array() });
     }
 
     const { id } = req.params;
 
-    const result = await query('DELETE FROM classes WHERE id = $1 RETURNING id', [id]);
+    // Deleting a class would drop its deductions and allocations and orphan its ledger
+    // entries, so a class that credits have been allocated to or charged for stays
+    const creditHistory = await client.query(`
+      SELECT 1 FROM credit_ledger WHERE class_id = $1
+      UNION ALL
+      SELECT 1 FROM payment_deductions WHERE class_id = $1
+      LIMIT 1
+    `, [id]);
+    if (creditHistory.rows.length > 0) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        error: { message: 'Class has credit history and cannot be deleted' }
+      });
+    }
+
+    const result = await client.query('DELETE FROM classes WHERE id = $1 RETURNING *', [id]);
 
     if (result.rows.length === 0) {
+      await client.query('ROLLBACK');
       return res.status(404).json({
         success: false,
         error: { message: 'Class not found' }
       });
     }
 
+    await recordAuditEvent(auditContext(req), {
+      action: 'class.delete',
+      entityType: 'class',
+      entityId: id,
+      before: result.rows[0]
+    }, client);
+
+    await client.query('COMMIT');
+
     res.json({
       success: true,
       message: 'Class deleted successfully'
     });
   } catch (error) {
+    await client.query('ROLLBACK');
     next(error);
+  } finally {
+    client.release();
   }
 });
 
 // Class schedules management
-router.get('/:id/schedules', classIdValidation, async (req, res, next) => {
+router.get('/:id/schedules', authorize('classes', 'view'), ownClassesOnly('id'), classIdValidation, async (req, res, next) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -274,7 +354,7 @@ router.get('/:id/schedules', classIdValidation, async (req, res, next) => {
 });
 
 // Add class schedule
-router.post('/:id/schedules', [...classIdValidation, ...scheduleValidation], async (req, res, next) => {
+router.post('/:id/schedules', authorize('classes', 'schedules'), [...classIdValidation, ...scheduleValidation], async (req, res, next) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -303,7 +383,7 @@ router.post('/:id/schedules', [...classIdValidation, ...scheduleValidation], asy
 });
 
 // Update class schedule
-router.put('/:id/schedules/:scheduleId',
+router.put('/:id/schedules/:scheduleId', authorize('classes', 'schedules'),
   [classIdValidation, param('scheduleId').isUUID(), ...scheduleValidation],
   async (req, res, next) => {
     try {
@@ -342,7 +422,7 @@ router.put('/:id/schedules/:scheduleId',
   });
 
 // Delete class schedule
-router.delete('/:id/schedules/:scheduleId',
+router.delete('/:id/schedules/:scheduleId', authorize('classes', 'schedules'),
   [classIdValidation, param('scheduleId').isUUID()],
   async (req, res, next) => {
     try {
@@ -374,8 +454,8 @@ router.delete('/:id/schedules/:scheduleId',
     }
   });
 
-// Get class enrollments (students enrolled in a specific class)
-router.get('/:id/enrollments', classIdValidation, async (req, res, next) => {
+// Get class enrollments: the students enrolled in a class on as_of (default today)
+router.get('/:id/enrollments', authorize('classes', 'view'), ownClassesOnly('id'), [...classIdValidation, ...enrollmentsValidation], async (req, res, next) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -383,6 +463,7 @@ router.get('/:id/enrollments', classIdValidation, async (req, res, next) => {
     }
 
     const { id } = req.params;
+    const asOf = req.query.as_of ? String(req.query.as_of).slice(0, 10) : null;
 
     const queryStr = `
       SELECT
@@ -392,14 +473,19 @@ router.get('/:id/enrollments', classIdValidation, async (req, res, next) => {
         s.grade,
         s.email,
         sce.enrolled_at,
+        sce.start_date,
+        sce.end_date,
+        sce.end_reason,
         sce.is_active
       FROM student_class_enrollments sce
       JOIN students s ON sce.student_id = s.id
-      WHERE sce.class_id = $1 AND sce.is_active = true
+      WHERE sce.class_id = $1
+        AND sce.start_date <= COALESCE($2::date, school_today())
+        AND (sce.end_date IS NULL OR sce.end_date > COALESCE($2::date, school_today()))
       ORDER BY s.name
     `;
 
-    const result = await query(queryStr, [id]);
+    const result = await query(queryStr, [id, asOf]);
 
     res.json({
       success: true,
@@ -413,8 +499,167 @@ router.get('/:id/enrollments', classIdValidation, async (req, res, next) => {
   }
 });
 
+// Get class waitlist, in order
+router.get('/:id/waitlist', authorize('classes', 'view'), ownClassesOnly('id'), classIdValidation, async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const result = await query(`
+      SELECT
+        cw.id, cw.class_id, cw.student_id, cw.position, cw.notes, cw.created_at,
+        s.name as student_name, s.grade, s.email,
+        u.name as added_by_name
+      FROM class_waitlist cw
+      JOIN students s ON cw.student_id = s.id
+      LEFT JOIN users u ON cw.added_by = u.id
+      WHERE cw.class_id = $1
+      ORDER BY cw.position
+    `, [req.params.id]);
+
+    res.json({
+      success: true,
+      data: result.rows
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Add a student to the end of the waitlist
+router.post('/:id/waitlist', authorize('classes', 'waitlist'), [...classIdValidation, ...waitlistValidation], async (req, res, next) => {
+  const client = await getClient();
+
+  try {
+    await client.query('BEGIN');
+
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const result = await addToWaitlist(
+      client, req.params.id, req.body.student_id, req.body.notes || null, auditContext(req), req.user?.id ?? null
+    );
+
+    if (!result.success) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        error: { message: result.message }
+      });
+    }
+
+    // A class with room takes the student straight away
+    const promoted = await promoteFromWaitlist(client, req.params.id, auditContext(req));
+
+    await client.query('COMMIT');
+
+    const enrolled = promoted.some((enrollment) => enrollment.student_id === req.body.student_id);
+
+    res.status(201).json({
+      success: true,
+      data: { ...result.entry, enrolled },
+      message: enrolled
+        ? 'The class has room, so the student was enrolled'
+        : `Student added to the waitlist at position ${result.entry.position}`
+    });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    next(error);
+  } finally {
+    client.release();
+  }
+});
+
+// Move a waitlist entry to another position
+router.put('/:id/waitlist/:entryId', authorize('classes', 'waitlist'), [
+  ...classIdValidation,
+  ...waitlistEntryValidation,
+  body('position').isInt({ min: 1 }).withMessage('Position must be at least 1')
+], async (req, res, next) => {
+  const client = await getClient();
+
+  try {
+    await client.query('BEGIN');
+
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const entry = await client.query('SELECT * FROM class_waitlist WHERE id = $1 AND class_id = $2', [req.params.entryId, req.params.id]);
+
+    if (entry.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({
+        success: false,
+        error: { message: 'Waitlist entry not found' }
+      });
+    }
+
+    const moved = await moveWaitlistEntry(client, entry.rows[0], Number(req.body.position), auditContext(req));
+
+    await client.query('COMMIT');
+
+    res.json({
+      success: true,
+      data: moved,
+      message: `Moved to position ${moved.position}`
+    });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    next(error);
+  } finally {
+    client.release();
+  }
+});
+
+// Remove a student from the waitlist
+router.delete('/:id/waitlist/:entryId', authorize('classes', 'waitlist'), [...classIdValidation, ...waitlistEntryValidation], async (req, res, next) => {
+  const client = await getClient();
+
+  try {
+    await client.query('BEGIN');
+
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const entry = await client.query('SELECT * FROM class_waitlist WHERE id = $1 AND class_id = $2 FOR UPDATE', [req.params.entryId, req.params.id]);
+
+    if (entry.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({
+        success: false,
+        error: { message: 'Waitlist entry not found' }
+      });
+    }
+
+    await removeFromWaitlist(client, entry.rows[0], auditContext(req));
+
+    await client.query('COMMIT');
+
+    res.json({
+      success: true,
+      message: 'Student removed from the waitlist'
+    });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    next(error);
+  } finally {
+    client.release();
+  }
+});
+
 // Get upcoming class occurrences
-router.get('/:id/occurrences', classIdValidation, async (req, res, next) => {
+router.get('/:id/occurrences', authorize('classes', 'view'), ownClassesOnly('id'), classIdValidation, async (req, res, next) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
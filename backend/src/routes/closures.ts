@@ -0,0 +1,167 @@
+import express from 'express';
+import { body, param, query as queryParam, validationResult } from 'express-validator';
+import { query } from '../config/database';
+import { authorize } from '../middleware/auth';
+
+const router = express.Router();
+
+// Validation rules
+const closureValidation = [
+  body('name').trim().isLength({ min: 1, max: 100 }).withMessage('Closure name must be between 1 and 100 characters'),
+  body('start_date').isDate().withMessage('Valid start date is required'),
+  body('end_date').isDate().withMessage('Valid end date is required'),
+  body('class_id').optional({ nullable: true }).isUUID().withMessage('Invalid class ID format'),
+  body('subject').optional({ nullable: true }).trim().isLength({ max: 100 }),
+  body('notes').optional({ nullable: true }).trim().isLength({ max: 1000 })
+];
+
+const closureIdValidation = [
+  param('id').isUUID().withMessage('Invalid closure ID format')
+];
+
+const listValidation = [
+  queryParam('from').optional().isDate().withMessage('From must be a date'),
+  queryParam('to').optional().isDate().withMessage('To must be a date')
+];
+
+// Closure columns shared by create and update
+const closureValues = (body: any) => [
+  body.name,
+  body.start_date,
+  body.end_date,
+  body.class_id || null,
+  body.subject || null,
+  body.notes || null
+];
+
+// Check a closure's dates and scope, returning the problem if there is one
+const checkClosure = (body: any): string | null => {
+  if (String(body.start_date) > String(body.end_date)) {
+    return 'End date must be on or after start date';
+  }
+  if (body.class_id && body.subject) {
+    return 'A closure is scoped to a class or a subject, not both';
+  }
+  return null;
+};
+
+// Get closures overlapping a date range (default: from today on)
+router.get('/', authorize('closures', 'view'), listValidation, async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const result = await query(`
+      SELECT cl.*, c.name as class_name, u.name as created_by_name
+      FROM closures cl
+      LEFT JOIN classes c ON cl.class_id = c.id
+      LEFT JOIN users u ON cl.created_by = u.id
+      WHERE cl.end_date >= COALESCE($1::date, school_today())
+        AND ($2::date IS NULL OR cl.start_date <= $2::date)
+      ORDER BY cl.start_date
+    `, [req.query.from || null, req.query.to || null]);
+
+    res.json({
+      success: true,
+      data: result.rows
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Create closure. Occurrences already taken on its dates are not changed.
+router.post('/', authorize('closures', 'manage'), closureValidation, async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const problem = checkClosure(req.body);
+    if (problem) {
+      return res.status(400).json({ success: false, error: { message: problem } });
+    }
+
+    const result = await query(`
+      INSERT INTO closures (name, start_date, end_date, class_id, subject, notes, created_by)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING *
+    `, [...closureValues(req.body), req.user?.id ?? null]);
+
+    res.status(201).json({
+      success: true,
+      data: result.rows[0],
+      message: 'Closure created successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Update closure
+router.put('/:id', authorize('closures', 'manage'), [...closureIdValidation, ...closureValidation], async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const problem = checkClosure(req.body);
+    if (problem) {
+      return res.status(400).json({ success: false, error: { message: problem } });
+    }
+
+    const result = await query(`
+      UPDATE closures
+      SET name = $1, start_date = $2, end_date = $3, class_id = $4, subject = $5, notes = $6
+      WHERE id = $7
+      RETURNING *
+    `, [...closureValues(req.body), req.params.id]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: { message: 'Closure not found' }
+      });
+    }
+
+    res.json({
+      success: true,
+      data: result.rows[0],
+      message: 'Closure updated successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Delete closure
+router.delete('/:id', authorize('closures', 'manage'), closureIdValidation, async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const result = await query('DELETE FROM closures WHERE id = $1 RETURNING id', [req.params.id]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: { message: 'Closure not found' }
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Closure deleted successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
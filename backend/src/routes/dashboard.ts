@@ -1,25 +1,27 @@
 import express from 'express';
 import { query } from '../config/database';
+import { authorize } from '../middleware/auth';
 
 const router = express.Router();
 
 // Get dashboard overview statistics
-router.get('/overview', async (req, res, next) => {
+router.get('/overview', authorize('dashboard', 'view'), async (req, res, next) => {
   try {
     const { period = '30 days' } = req.query;
+    const expiringWithinDays = parseInt(String(req.query.expiring_within_days || process.env.CREDIT_EXPIRY_WARNING_DAYS || 14));
 
     const dateFilter = period === '7 days'
-      ? 'AND created_at >= CURRENT_DATE - INTERVAL \'7 days\''
-      : 'AND created_at >= CURRENT_DATE - INTERVAL \'30 days\'';
+      ? 'AND created_at >= school_today() - INTERVAL \'7 days\''
+      : 'AND created_at >= school_today() - INTERVAL \'30 days\'';
 
     // Get key metrics
     const metricsQuery = `
       SELECT
         (SELECT COUNT(*) FROM students) as total_students,
         (SELECT COUNT(*) FROM classes) as total_classes,
-        (SELECT COUNT(*) FROM class_occurrences WHERE occurrence_date >= CURRENT_DATE - INTERVAL '7 days') as recent_occurrences,
-        (SELECT COUNT(*) FROM payments WHERE payment_date >= CURRENT_DATE - INTERVAL '7 days') as recent_payments,
-        (SELECT COALESCE(SUM(amount), 0) FROM payments WHERE payment_date >= CURRENT_DATE - INTERVAL '30 days') as monthly_revenue,
+        (SELECT COUNT(*) FROM class_occurrences WHERE occurrence_date >= school_today() - INTERVAL '7 days') as recent_occurrences,
+        (SELECT COUNT(*) FROM payments WHERE payment_date >= school_today() - INTERVAL '7 days') as recent_payments,
+        (SELECT COALESCE(SUM(amount), 0) FROM payments WHERE payment_date >= school_today() - INTERVAL '30 days') as monthly_revenue,
         (SELECT COUNT(*) FROM student_class_enrollments WHERE is_active = true) as active_enrollments
     `;
 
@@ -33,7 +35,7 @@ router.get('/overview', async (req, res, next) => {
         p.payment_date, s.name as student_name, s.grade
       FROM payments p
       JOIN students s ON p.student_id = s.id
-      WHERE p.payment_date >= CURRENT_DATE - INTERVAL '7 days'
+      WHERE p.payment_date >= school_today() - INTERVAL '7 days'
       ORDER BY p.payment_date DESC
       LIMIT 10
     `;
@@ -50,7 +52,7 @@ router.get('/overview', async (req, res, next) => {
       FROM class_occurrences co
       JOIN classes c ON co.class_id = c.id
       LEFT JOIN student_attendance sa ON co.id = sa.class_occurrence_id
-      WHERE co.occurrence_date BETWEEN CURRENT_DATE AND CURRENT_DATE + INTERVAL '7 days'
+      WHERE co.occurrence_date BETWEEN school_today() AND school_today() + INTERVAL '7 days'
       AND co.was_cancelled = false
       GROUP BY co.id, c.name, c.subject, c.max_students
       ORDER BY co.occurrence_date, co.start_time
@@ -59,21 +61,70 @@ router.get('/overview', async (req, res, next) => {
 
     const upcomingClasses = await query(upcomingClassesQuery);
 
-    // Get student balance alerts (students with low balance)
+    // Get student balance alerts (students owing classes first, then low balance)
     const balanceAlertsQuery = `
       SELECT
         s.id, s.name, s.grade,
         COALESCE(sb.total_classes_remaining, 0) as remaining_classes,
-        COALESCE(sb.total_classes_purchased, 0) as total_purchased
+        COALESCE(sb.total_classes_purchased, 0) as total_purchased,
+        COALESCE(sb.classes_owed, 0) as classes_owed,
+        COALESCE(sb.amount_owed, 0) as amount_owed
       FROM students s
       LEFT JOIN student_balances sb ON s.id = sb.student_id
       WHERE COALESCE(sb.total_classes_remaining, 0) <= 2
-      ORDER BY COALESCE(sb.total_classes_remaining, 0)
+        OR COALESCE(sb.classes_owed, 0) > 0
+      ORDER BY COALESCE(sb.classes_owed, 0) DESC, COALESCE(sb.total_classes_remaining, 0)
       LIMIT 5
     `;
 
     const balanceAlerts = await query(balanceAlertsQuery);
 
+    // Get unused credits that expire within the warning window, soonest first
+    const expiringCreditsQuery = `
+      SELECT
+        s.id as student_id, s.name as student_name,
+        p.id as payment_id, p.receipt_number,
+        c.name as class_name,
+        b.classes, b.expires_at
+      FROM (
+        SELECT
+          cl.student_id, cl.payment_id, cl.class_id,
+          COALESCE(pca.expires_at, p.expires_at) as expires_at,
+          SUM(cl.classes) as classes
+        FROM credit_ledger cl
+        JOIN payments p ON cl.payment_id = p.id
+        LEFT JOIN payment_class_allocations pca ON cl.payment_id = pca.payment_id AND pca.class_id = cl.class_id AND pca.student_id = cl.student_id
+        WHERE COALESCE(pca.expires_at, p.expires_at) > school_now()
+          AND COALESCE(pca.expires_at, p.expires_at) <= school_now() + $1 * INTERVAL '1 day'
+        GROUP BY cl.student_id, cl.payment_id, cl.class_id, COALESCE(pca.expires_at, p.expires_at)
+        HAVING SUM(cl.classes) > 0
+      ) b
+      JOIN students s ON b.student_id = s.id
+      JOIN payments p ON b.payment_id = p.id
+      LEFT JOIN classes c ON b.class_id = c.id
+      ORDER BY b.expires_at, s.name
+      LIMIT 10
+    `;
+
+    const expiringCredits = await query(expiringCreditsQuery, [expiringWithinDays]);
+
+    // Get package sales over the last 30 days (payments without a package grouped as custom)
+    const packageSalesQuery = `
+      SELECT
+        cp.id as package_id,
+        COALESCE(cp.name, 'Custom amount') as package_name,
+        COUNT(p.id) as payments_count,
+        SUM(p.amount) as total_amount,
+        SUM(p.classes_purchased) as total_classes
+      FROM payments p
+      LEFT JOIN class_packages cp ON p.package_id = cp.id
+      WHERE p.payment_date >= school_today() - INTERVAL '30 days'
+      GROUP BY cp.id, cp.name
+      ORDER BY total_amount DESC
+    `;
+
+    const packageSales = await query(packageSalesQuery);
+
     // Get class enrollment statistics
     const enrollmentStatsQuery = `
       WITH class_stats AS (
@@ -111,6 +162,9 @@ router.get('/overview', async (req, res, next) => {
         recent_payments: recentPayments.rows,
         upcoming_classes: upcomingClasses.rows,
         balance_alerts: balanceAlerts.rows,
+        expiring_credits: expiringCredits.rows,
+        expiring_within_days: expiringWithinDays,
+        package_sales: packageSales.rows,
         enrollment_stats: enrollmentStats.rows,
         period
       }
@@ -121,13 +175,13 @@ router.get('/overview', async (req, res, next) => {
 });
 
 // Get payment analytics
-router.get('/payments/analytics', async (req, res, next) => {
+router.get('/payments/analytics', authorize('dashboard', 'view'), async (req, res, next) => {
   try {
     const { period = '30 days', group_by = 'day' } = req.query;
 
     const dateFilter = period === '7 days'
-      ? 'WHERE payment_date >= CURRENT_DATE - INTERVAL \'7 days\''
-      : 'WHERE payment_date >= CURRENT_DATE - INTERVAL \'30 days\'';
+      ? 'WHERE payment_date >= school_today() - INTERVAL \'7 days\''
+      : 'WHERE payment_date >= school_today() - INTERVAL \'30 days\'';
 
     const groupByClause = group_by === 'week'
       ? 'DATE_TRUNC(\'week\', payment_date)'
@@ -140,6 +194,8 @@ router.get('/payments/analytics', async (req, res, next) => {
         ${groupByClause} as period,
         COUNT(*) as payment_count,
         SUM(amount) as total_amount,
+        SUM(list_price) as total_list_price,
+        SUM(discount_amount) as total_discount,
         SUM(classes_purchased) as total_classes,
         AVG(amount) as average_payment,
         COUNT(DISTINCT student_id) as unique_students
@@ -166,11 +222,44 @@ router.get('/payments/analytics', async (req, res, next) => {
 
     const methodDistribution = await query(methodDistributionQuery);
 
+    // Discounts given in the period, per rule
+    const discountBreakdownQuery = `
+      SELECT
+        pd.discount_rule_id,
+        pd.rule_name,
+        pd.rule_type,
+        COUNT(*) as times_applied,
+        SUM(pd.amount) as total_discount
+      FROM payment_discounts pd
+      JOIN payments ON pd.payment_id = payments.id
+      ${dateFilter}
+      GROUP BY pd.discount_rule_id, pd.rule_name, pd.rule_type
+      ORDER BY total_discount DESC
+    `;
+
+    const discountBreakdown = await query(discountBreakdownQuery);
+
+    const discountTotalsQuery = `
+      SELECT
+        COALESCE(SUM(list_price), 0) as total_list_price,
+        COALESCE(SUM(discount_amount), 0) as total_discount,
+        COALESCE(SUM(amount), 0) as total_net,
+        COUNT(*) FILTER (WHERE discount_amount > 0) as discounted_payments
+      FROM payments
+      ${dateFilter}
+    `;
+
+    const discountTotals = await query(discountTotalsQuery);
+
     res.json({
       success: true,
       data: {
         time_series: result.rows,
         method_distribution: methodDistribution.rows,
+        discounts: {
+          totals: discountTotals.rows[0],
+          by_rule: discountBreakdown.rows
+        },
         period,
         group_by
       }
@@ -181,13 +270,13 @@ router.get('/payments/analytics', async (req, res, next) => {
 });
 
 // Get attendance analytics
-router.get('/attendance/analytics', async (req, res, next) => {
+router.get('/attendance/analytics', authorize('dashboard', 'view'), async (req, res, next) => {
   try {
     const { period = '30 days', class_id } = req.query;
 
     const dateFilter = period === '7 days'
-      ? 'AND co.occurrence_date >= CURRENT_DATE - INTERVAL \'7 days\''
-      : 'AND co.occurrence_date >= CURRENT_DATE - INTERVAL \'30 days\'';
+      ? 'AND co.occurrence_date >= school_today() - INTERVAL \'7 days\''
+      : 'AND co.occurrence_date >= school_today() - INTERVAL \'30 days\'';
 
     let classFilter = '';
     const params: any[] = [];
@@ -275,7 +364,7 @@ router.get('/attendance/analytics', async (req, res, next) => {
 });
 
 // Get student performance analytics
-router.get('/students/performance', async (req, res, next) => {
+router.get('/students/performance', authorize('dashboard', 'view'), async (req, res, next) => {
   try {
     const { limit = 20, sort_by = 'attendance_percentage' } = req.query;
 
@@ -347,8 +436,88 @@ router.get('/students/performance', async (req, res, next) => {
   }
 });
 
+// Lead conversion: trial and drop-in guests in the period, grouped into leads (the
+// student they were linked to, else their email, else their name), and whether the
+// lead has paid for classes since their first visit
+router.get('/leads/conversion', authorize('dashboard', 'view'), async (req, res, next) => {
+  try {
+    const dateFrom = String(req.query.date_from || '').slice(0, 10) || null;
+    const dateTo = String(req.query.date_to || '').slice(0, 10) || null;
+
+    const leadsQuery = `
+      WITH guests AS (
+        SELECT
+          og.*,
+          co.occurrence_date,
+          c.name as class_name,
+          COALESCE(og.student_id, (
+            SELECT s.id FROM students s WHERE LOWER(s.email) = LOWER(og.email) LIMIT 1
+          )) as matched_student_id
+        FROM occurrence_guests og
+        JOIN class_occurrences co ON og.occurrence_id = co.id
+        JOIN classes c ON co.class_id = c.id
+        WHERE co.occurrence_date >= COALESCE($1::date, school_today() - INTERVAL '90 days')
+          AND co.occurrence_date <= COALESCE($2::date, school_today())
+      ),
+      leads AS (
+        SELECT
+          MIN(name) as name,
+          MIN(email) as email,
+          MIN(phone) as phone,
+          MIN(occurrence_date) as first_visit,
+          COUNT(*) as visits,
+          COUNT(*) FILTER (WHERE is_free_trial) as free_trials,
+          SUM(drop_in_price) as drop_in_revenue,
+          STRING_AGG(DISTINCT class_name, ', ') as classes_tried,
+          (ARRAY_AGG(matched_student_id))[1] as student_id
+        FROM guests
+        GROUP BY COALESCE(matched_student_id::text, LOWER(email), LOWER(name))
+      )
+      SELECT
+        l.*,
+        s.name as student_name,
+        p.first_payment_date,
+        p.payments,
+        p.total_paid,
+        p.first_payment_date IS NOT NULL as converted
+      FROM leads l
+      LEFT JOIN students s ON l.student_id = s.id
+      LEFT JOIN LATERAL (
+        SELECT
+          MIN(payment_date) as first_payment_date,
+          COUNT(*) as payments,
+          COALESCE(SUM(amount), 0) as total_paid
+        FROM payments
+        WHERE student_id = l.student_id AND payment_date >= l.first_visit
+      ) p ON true
+      ORDER BY l.first_visit DESC
+    `;
+
+    const result = await query(leadsQuery, [dateFrom, dateTo]);
+    const leads = result.rows;
+    const converted = leads.filter((lead: any) => lead.converted).length;
+
+    res.json({
+      success: true,
+      data: {
+        summary: {
+          leads: leads.length,
+          visits: leads.reduce((sum: number, lead: any) => sum + parseInt(lead.visits), 0),
+          free_trials: leads.reduce((sum: number, lead: any) => sum + parseInt(lead.free_trials), 0),
+          drop_in_revenue: leads.reduce((sum: number, lead: any) => sum + Number(lead.drop_in_revenue), 0),
+          converted,
+          conversion_rate: leads.length > 0 ? Math.round((converted / leads.length) * 10000) / 100 : 0
+        },
+        leads
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Get system health status
-router.get('/health', async (req, res, next) => {
+router.get('/health', authorize('dashboard', 'view'), async (req, res, next) => {
   try {
     // Check database connection
     const dbHealth = await query('SELECT 1 as status');
@@ -356,9 +525,9 @@ router.get('/health', async (req, res, next) => {
     // Get recent activity
     const recentActivityQuery = `
       SELECT
-        (SELECT COUNT(*) FROM students WHERE created_at >= CURRENT_DATE - INTERVAL '24 hours') as new_students_24h,
-        (SELECT COUNT(*) FROM payments WHERE payment_date >= CURRENT_DATE - INTERVAL '24 hours') as new_payments_24h,
-        (SELECT COUNT(*) FROM class_occurrences WHERE occurrence_date = CURRENT_DATE) as today_occurrences,
+        (SELECT COUNT(*) FROM students WHERE created_at >= school_today() - INTERVAL '24 hours') as new_students_24h,
+        (SELECT COUNT(*) FROM payments WHERE payment_date >= school_today() - INTERVAL '24 hours') as new_payments_24h,
+        (SELECT COUNT(*) FROM class_occurrences WHERE occurrence_date = school_today()) as today_occurrences,
         (SELECT COUNT(*) FROM payments WHERE classes_remaining <= 2) as low_balance_students
     `;
 
@@ -0,0 +1,245 @@
+import express from 'express';
+import { body, param, validationResult } from 'express-validator';
+import { query, getClient } from '../config/database';
+import { authorize } from '../middleware/auth';
+import { evaluateDiscounts } from '../services/discounts';
+import { applyPackage } from '../services/packages';
+
+const router = express.Router();
+
+// Validation rules
+const discountValidation = [
+  body('name').trim().isLength({ min: 1, max: 100 }).withMessage('Discount name must be between 1 and 100 characters'),
+  body('rule_type').isIn(['sibling', 'promo_code', 'general']).withMessage('Rule type must be sibling, promo_code or general'),
+  body('discount_type').isIn(['percentage', 'fixed']).withMessage('Discount type must be percentage or fixed'),
+  body('value').isFloat({ min: 0.01 }).withMessage('Value must be greater than 0'),
+  body('value').if(body('discount_type').equals('percentage')).isFloat({ max: 100 }).withMessage('Percentage cannot exceed 100'),
+  body('code').if(body('rule_type').equals('promo_code')).trim().isLength({ min: 1, max: 50 }).withMessage('Promo code rules need a code'),
+  body('class_id').optional({ nullable: true }).isUUID().withMessage('Invalid class ID format'),
+  body('subject').optional({ nullable: true }).trim().isLength({ min: 1, max: 100 }),
+  body('valid_from').optional({ nullable: true }).isISO8601().withMessage('Valid from must be a date'),
+  body('valid_until').optional({ nullable: true }).isISO8601().withMessage('Valid until must be a date'),
+  body('is_active').optional().isBoolean()
+];
+
+const discountIdValidation = [
+  param('id').isUUID().withMessage('Invalid discount ID format')
+];
+
+const previewValidation = [
+  body('student_id').isUUID().withMessage('Valid student ID is required'),
+  body('package_id').optional({ nullable: true }).isUUID().withMessage('Invalid package ID format'),
+  body('amount').if(body('package_id').not().exists({ values: 'null' })).isFloat({ min: 0.01 }).withMessage('Amount must be greater than 0'),
+  body('class_allocations').optional().isArray().withMessage('Class allocations must be an array'),
+  body('discount_code').optional({ nullable: true }).trim().isLength({ max: 50 })
+];
+
+// Rule columns shared by create and update, with the fields a rule type does not use cleared
+const ruleValues = (body: any) => [
+  body.name,
+  body.rule_type,
+  body.discount_type,
+  body.value,
+  body.rule_type === 'promo_code' ? body.code.trim() : null,
+  body.class_id || null,
+  body.subject || null,
+  body.valid_from || null,
+  body.valid_until || null,
+  body.is_active ?? true
+];
+
+// Get discount rules
+router.get('/', authorize('discounts', 'view'), async (req, res, next) => {
+  try {
+    const { rule_type, include_inactive = false } = req.query;
+
+    let whereClause = 'WHERE 1=1';
+    const params: any[] = [];
+
+    if (rule_type) {
+      params.push(rule_type);
+      whereClause += ` AND dr.rule_type = $${params.length}`;
+    }
+
+    if (!include_inactive) {
+      whereClause += ' AND dr.is_active = true';
+    }
+
+    const result = await query(`
+      SELECT
+        dr.*,
+        c.name as class_name,
+        COUNT(pd.id) as times_applied,
+        COALESCE(SUM(pd.amount), 0) as total_discounted
+      FROM discount_rules dr
+      LEFT JOIN classes c ON dr.class_id = c.id
+      LEFT JOIN payment_discounts pd ON dr.id = pd.discount_rule_id
+      ${whereClause}
+      GROUP BY dr.id, c.name
+      ORDER BY dr.name
+    `, params);
+
+    res.json({
+      success: true,
+      data: result.rows
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Preview the discounts a payment would get, without recording anything
+router.post('/preview', authorize('payments', 'create'), previewValidation, async (req, res, next) => {
+  const client = await getClient();
+
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const { student_id, package_id, discount_code } = req.body;
+    let { amount, class_allocations } = req.body;
+    let packageScope: { class_id: string | null; subject: string | null } = { class_id: null, subject: null };
+
+    if (package_id) {
+      const sale = await applyPackage(client, package_id, student_id, class_allocations);
+      if (!sale.success) {
+        return res.status(400).json({
+          success: false,
+          error: { message: sale.message }
+        });
+      }
+
+      amount = sale.amount;
+      class_allocations = sale.class_allocations;
+      packageScope = sale.package;
+    }
+
+    const pricing = await evaluateDiscounts(client, {
+      studentId: student_id,
+      listPrice: Number(amount),
+      classIds: (class_allocations || []).map((allocation: any) => allocation.class_id),
+      packageClassId: packageScope.class_id,
+      packageSubject: packageScope.subject,
+      code: discount_code
+    });
+
+    if (!pricing.success) {
+      return res.status(400).json({
+        success: false,
+        error: { message: pricing.message }
+      });
+    }
+
+    const { success, ...preview } = pricing;
+
+    res.json({
+      success: true,
+      data: preview
+    });
+  } catch (error) {
+    next(error);
+  } finally {
+    client.release();
+  }
+});
+
+// Create new discount rule
+router.post('/', authorize('discounts', 'create'), discountValidation, async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    if (req.body.class_id && req.body.subject) {
+      return res.status(400).json({
+        success: false,
+        error: { message: 'A discount is scoped to a class or a subject, not both' }
+      });
+    }
+
+    const result = await query(`
+      INSERT INTO discount_rules (name, rule_type, discount_type, value, code, class_id, subject, valid_from, valid_until, is_active)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      RETURNING *
+    `, ruleValues(req.body));
+
+    res.status(201).json({
+      success: true,
+      data: result.rows[0],
+      message: 'Discount created successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Update discount rule. Payments keep the discounts they were given.
+router.put('/:id', authorize('discounts', 'update'), [...discountIdValidation, ...discountValidation], async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    if (req.body.class_id && req.body.subject) {
+      return res.status(400).json({
+        success: false,
+        error: { message: 'A discount is scoped to a class or a subject, not both' }
+      });
+    }
+
+    const result = await query(`
+      UPDATE discount_rules
+      SET name = $1, rule_type = $2, discount_type = $3, value = $4, code = $5, class_id = $6,
+          subject = $7, valid_from = $8, valid_until = $9, is_active = $10
+      WHERE id = $11
+      RETURNING *
+    `, [...ruleValues(req.body), req.params.id]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: { message: 'Discount not found' }
+      });
+    }
+
+    res.json({
+      success: true,
+      data: result.rows[0],
+      message: 'Discount updated successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Delete discount rule (payments keep the name and amount of discounts already given)
+router.delete('/:id', authorize('discounts', 'delete'), discountIdValidation, async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const result = await query('DELETE FROM discount_rules WHERE id = $1 RETURNING id', [req.params.id]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: { message: 'Discount not found' }
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Discount deleted successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,193 @@
+import express from 'express';
+import { body, param, validationResult } from 'express-validator';
+import { query } from '../config/database';
+import { authorize } from '../middleware/auth';
+import { auditContext, recordAuditEvent } from '../services/audit';
+
+const router = express.Router();
+
+// Validation rules
+const familyValidation = [
+  body('name').trim().isLength({ min: 1, max: 100 }).withMessage('Family name must be between 1 and 100 characters'),
+  body('guardian_name').optional({ nullable: true }).trim().isLength({ max: 100 }),
+  body('guardian_email').optional({ nullable: true }).trim().isEmail().withMessage('Please provide a valid guardian email'),
+  body('guardian_phone').optional({ nullable: true }).trim().isLength({ max: 20 }),
+  body('notes').optional({ nullable: true }).trim().isLength({ max: 1000 })
+];
+
+const familyIdValidation = [
+  param('id').isUUID().withMessage('Invalid family ID format')
+];
+
+// Family columns shared by create and update
+const familyValues = (body: any) => [
+  body.name,
+  body.guardian_name || null,
+  body.guardian_email || null,
+  body.guardian_phone || null,
+  body.notes || null
+];
+
+// Get families with their students
+router.get('/', authorize('families', 'view'), async (_req, res, next) => {
+  try {
+    const result = await query(`
+      SELECT
+        f.*,
+        COALESCE(
+          json_agg(json_build_object('id', s.id, 'name', s.name) ORDER BY s.name) FILTER (WHERE s.id IS NOT NULL),
+          '[]'
+        ) as students
+      FROM families f
+      LEFT JOIN students s ON s.family_id = f.id
+      GROUP BY f.id
+      ORDER BY f.name
+    `);
+
+    res.json({
+      success: true,
+      data: result.rows
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get family with its students
+router.get('/:id', authorize('families', 'view'), familyIdValidation, async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const result = await query('SELECT * FROM families WHERE id = $1', [req.params.id]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: { message: 'Family not found' }
+      });
+    }
+
+    const students = await query(
+      'SELECT id, name, grade, email FROM students WHERE family_id = $1 ORDER BY name',
+      [req.params.id]
+    );
+
+    res.json({
+      success: true,
+      data: { ...result.rows[0], students: students.rows }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Create family. Students join it through their family_id.
+router.post('/', authorize('families', 'manage'), familyValidation, async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const result = await query(`
+      INSERT INTO families (name, guardian_name, guardian_email, guardian_phone, notes)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING *
+    `, familyValues(req.body));
+
+    await recordAuditEvent(auditContext(req), {
+      action: 'family.create',
+      entityType: 'family',
+      entityId: result.rows[0].id,
+      after: result.rows[0]
+    });
+
+    res.status(201).json({
+      success: true,
+      data: result.rows[0],
+      message: 'Family created successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Update family
+router.put('/:id', authorize('families', 'manage'), [...familyIdValidation, ...familyValidation], async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const previous = await query('SELECT * FROM families WHERE id = $1', [req.params.id]);
+
+    const result = await query(`
+      UPDATE families
+      SET name = $1, guardian_name = $2, guardian_email = $3, guardian_phone = $4, notes = $5
+      WHERE id = $6
+      RETURNING *
+    `, [...familyValues(req.body), req.params.id]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: { message: 'Family not found' }
+      });
+    }
+
+    await recordAuditEvent(auditContext(req), {
+      action: 'family.update',
+      entityType: 'family',
+      entityId: req.params.id,
+      before: previous.rows[0],
+      after: result.rows[0]
+    });
+
+    res.json({
+      success: true,
+      data: result.rows[0],
+      message: 'Family updated successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Delete family. Its students stay, no longer linked as siblings.
+router.delete('/:id', authorize('families', 'manage'), familyIdValidation, async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const result = await query('DELETE FROM families WHERE id = $1 RETURNING *', [req.params.id]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: { message: 'Family not found' }
+      });
+    }
+
+    await recordAuditEvent(auditContext(req), {
+      action: 'family.delete',
+      entityType: 'family',
+      entityId: req.params.id,
+      before: result.rows[0]
+    });
+
+    res.json({
+      success: true,
+      message: 'Family deleted successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
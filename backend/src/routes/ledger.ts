@@ -0,0 +1,112 @@
+import express from 'express';
+import { query as queryParam, validationResult } from 'express-validator';
+import { query } from '../config/database';
+import { authorize } from '../middleware/auth';
+import { findLedgerMismatches } from '../services/creditLedger';
+
+const router = express.Router();
+
+// Validation rules
+const ledgerFilterValidation = [
+  queryParam('student_id').optional().isUUID().withMessage('Invalid student ID format'),
+  queryParam('payment_id').optional().isUUID().withMessage('Invalid payment ID format'),
+  queryParam('class_id').optional().isUUID().withMessage('Invalid class ID format')
+];
+
+// Get ledger entries with optional filters (newest first)
+router.get('/', authorize('ledger', 'view'), ledgerFilterValidation, async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const { page = 1, limit = 50, student_id, payment_id, class_id, entry_type } = req.query;
+    const offset = (Number(page) - 1) * Number(limit);
+
+    let whereClause = 'WHERE 1=1';
+    const params: any[] = [];
+    let paramCount = 0;
+
+    if (student_id) {
+      paramCount++;
+      whereClause += ` AND cl.student_id = $${paramCount}`;
+      params.push(student_id);
+    }
+
+    if (payment_id) {
+      paramCount++;
+      whereClause += ` AND cl.payment_id = $${paramCount}`;
+      params.push(payment_id);
+    }
+
+    if (class_id) {
+      paramCount++;
+      whereClause += ` AND cl.class_id = $${paramCount}`;
+      params.push(class_id);
+    }
+
+    if (entry_type) {
+      paramCount++;
+      whereClause += ` AND cl.entry_type = $${paramCount}`;
+      params.push(entry_type);
+    }
+
+    // Get total count
+    const countResult = await query(`SELECT COUNT(*) FROM credit_ledger cl ${whereClause}`, params.slice(0, paramCount));
+    const total = parseInt(countResult.rows[0].count);
+
+    paramCount++;
+    const entriesQuery = `
+      SELECT
+        cl.*,
+        s.name as student_name,
+        c.name as class_name,
+        co.occurrence_date
+      FROM credit_ledger cl
+      JOIN students s ON cl.student_id = s.id
+      LEFT JOIN classes c ON cl.class_id = c.id
+      LEFT JOIN class_occurrences co ON cl.occurrence_id = co.id
+      ${whereClause}
+      ORDER BY cl.created_at DESC, cl.transaction_id, cl.classes
+      LIMIT $${paramCount} OFFSET $${paramCount + 1}
+    `;
+    params.push(limit, offset);
+
+    const result = await query(entriesQuery, params);
+
+    res.json({
+      success: true,
+      data: {
+        entries: result.rows,
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total,
+          pages: Math.ceil(total / Number(limit))
+        }
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Students whose stored balances disagree with the ledger
+router.get('/reconciliation', authorize('ledger', 'reconcile'), async (_req, res, next) => {
+  try {
+    const mismatches = await findLedgerMismatches();
+
+    res.json({
+      success: true,
+      data: {
+        balanced: mismatches.length === 0,
+        students: mismatches
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
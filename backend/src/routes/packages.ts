@@ -0,0 +1,226 @@
+import express from 'express';
+import { body, param, validationResult } from 'express-validator';
+import { query } from '../config/database';
+import { authorize } from '../middleware/auth';
+
+const router = express.Router();
+
+// Validation rules
+const packageValidation = [
+  body('name').trim().isLength({ min: 1, max: 100 }).withMessage('Package name must be between 1 and 100 characters'),
+  body('description').optional({ nullable: true }).trim().isLength({ max: 1000 }),
+  body('class_id').optional({ nullable: true }).isUUID().withMessage('Invalid class ID format'),
+  body('subject').optional({ nullable: true }).trim().isLength({ min: 1, max: 100 }),
+  body('classes_count').isInt({ min: 1 }).withMessage('Classes count must be at least 1'),
+  body('price').isFloat({ min: 0.01 }).withMessage('Price must be greater than 0'),
+  body('validity_days').optional({ nullable: true }).isInt({ min: 1 }).withMessage('Validity must be at least 1 day'),
+  body('is_active').optional().isBoolean()
+];
+
+const packageIdValidation = [
+  param('id').isUUID().withMessage('Invalid package ID format')
+];
+
+const packageColumns = `
+  cp.*,
+  ROUND(cp.price / cp.classes_count, 2) as price_per_class,
+  c.name as class_name
+`;
+
+// Get packages, optionally only those a student can buy (scoped to a class or subject
+// they are enrolled in, or unscoped)
+router.get('/', authorize('packages', 'view'), async (req, res, next) => {
+  try {
+    const { class_id, subject, student_id, include_inactive = false } = req.query;
+
+    let whereClause = 'WHERE 1=1';
+    const params: any[] = [];
+
+    if (class_id) {
+      params.push(class_id);
+      whereClause += ` AND cp.class_id = $${params.length}`;
+    }
+
+    if (subject) {
+      params.push(subject);
+      whereClause += ` AND cp.subject = $${params.length}`;
+    }
+
+    if (student_id) {
+      params.push(student_id);
+      whereClause += ` AND (
+        (cp.class_id IS NULL AND cp.subject IS NULL)
+        OR EXISTS (
+          SELECT 1
+          FROM student_class_enrollments sce
+          JOIN classes ec ON sce.class_id = ec.id
+          WHERE sce.student_id = $${params.length} AND sce.is_active = true
+            AND (ec.id = cp.class_id OR ec.subject = cp.subject)
+        )
+      )`;
+    }
+
+    if (!include_inactive) {
+      whereClause += ' AND cp.is_active = true';
+    }
+
+    const result = await query(`
+      SELECT ${packageColumns}
+      FROM class_packages cp
+      LEFT JOIN classes c ON cp.class_id = c.id
+      ${whereClause}
+      ORDER BY cp.name
+    `, params);
+
+    res.json({
+      success: true,
+      data: result.rows
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get single package by ID
+router.get('/:id', authorize('packages', 'view'), packageIdValidation, async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const result = await query(`
+      SELECT ${packageColumns}
+      FROM class_packages cp
+      LEFT JOIN classes c ON cp.class_id = c.id
+      WHERE cp.id = $1
+    `, [req.params.id]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: { message: 'Package not found' }
+      });
+    }
+
+    res.json({
+      success: true,
+      data: result.rows[0]
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Create new package
+router.post('/', authorize('packages', 'create'), packageValidation, async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const { name, description, class_id, subject, classes_count, price, validity_days, is_active = true } = req.body;
+
+    if (class_id && subject) {
+      return res.status(400).json({
+        success: false,
+        error: { message: 'A package is scoped to a class or a subject, not both' }
+      });
+    }
+
+    const result = await query(`
+      INSERT INTO class_packages (name, description, class_id, subject, classes_count, price, validity_days, is_active)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      RETURNING *
+    `, [name, description || null, class_id || null, subject || null, classes_count, price, validity_days || null, is_active]);
+
+    res.status(201).json({
+      success: true,
+      data: result.rows[0],
+      message: 'Package created successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Update package. Past payments keep the amount and classes they were sold with.
+router.put('/:id', authorize('packages', 'update'), [...packageIdValidation, ...packageValidation], async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const { id } = req.params;
+    const { name, description, class_id, subject, classes_count, price, validity_days, is_active = true } = req.body;
+
+    if (class_id && subject) {
+      return res.status(400).json({
+        success: false,
+        error: { message: 'A package is scoped to a class or a subject, not both' }
+      });
+    }
+
+    const result = await query(`
+      UPDATE class_packages
+      SET name = $1, description = $2, class_id = $3, subject = $4, classes_count = $5,
+          price = $6, validity_days = $7, is_active = $8
+      WHERE id = $9
+      RETURNING *
+    `, [name, description || null, class_id || null, subject || null, classes_count, price, validity_days || null, is_active, id]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: { message: 'Package not found' }
+      });
+    }
+
+    res.json({
+      success: true,
+      data: result.rows[0],
+      message: 'Package updated successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Delete package. Packages that have been sold are deactivated instead so that
+// sales by package keep their history.
+router.delete('/:id', authorize('packages', 'delete'), packageIdValidation, async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const { id } = req.params;
+
+    const sold = await query('SELECT 1 FROM payments WHERE package_id = $1 LIMIT 1', [id]);
+
+    const result = sold.rows.length > 0
+      ? await query('UPDATE class_packages SET is_active = false WHERE id = $1 RETURNING id', [id])
+      : await query('DELETE FROM class_packages WHERE id = $1 RETURNING id', [id]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: { message: 'Package not found' }
+      });
+    }
+
+    res.json({
+      success: true,
+      message: sold.rows.length > 0
+        ? 'Package has been sold, so it was deactivated instead of deleted'
+        : 'Package deleted successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
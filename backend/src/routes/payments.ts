@@ -1,29 +1,60 @@
 import express from 'express';
-import { body, param, validationResult } from 'express-validator';
+import { body, param, query as queryParam, validationResult } from 'express-validator';
 import { query, getClient } from '../config/database';
+import { authorize } from '../middleware/auth';
+import { auditContext, recordAuditEvent } from '../services/audit';
+import { clawBackUnusedCredits, countClawableCredits, settleOwedClasses } from '../services/balance';
+import { addLedgerEntry, getBucketBalance, moveCredits } from '../services/creditLedger';
+import { evaluateDiscounts, recordPaymentDiscounts } from '../services/discounts';
+import { applyPackage } from '../services/packages';
+import { getPaymentDetail } from '../services/payments';
+import { formatReceiptNumber, renderReceiptHtml, renderReceiptPdf } from '../services/receipts';
 
 const router = express.Router();
 
 // Validation rules
-const paymentValidation = [
+const paymentDetailsValidation = [
   body('student_id').isUUID().withMessage('Valid student ID is required'),
   body('payment_method').isIn(['wechat', 'cash', 'zelle', 'paypal', 'credit_card', 'bank_transfer'])
     .withMessage('Invalid payment method'),
-  body('amount').isDecimal({ min: 0.01 }).withMessage('Amount must be greater than 0'),
-  body('classes_purchased').isInt({ min: 1 }).withMessage('Classes purchased must be at least 1'),
   body('payment_reference').optional().trim().isLength({ min: 1, max: 100 }),
   body('notes').optional().trim().isLength({ max: 1000 }),
   body('class_allocations').optional().isArray().withMessage('Class allocations must be an array'),
   body('class_allocations.*.class_id').optional().isUUID().withMessage('Valid class ID required'),
-  body('class_allocations.*.classes_allocated').optional().isInt({ min: 1 }).withMessage('Classes allocated must be at least 1')
+  body('class_allocations.*.classes_allocated').optional().isInt({ min: 1 }).withMessage('Classes allocated must be at least 1'),
+  body('class_allocations.*.expires_at').optional({ nullable: true }).isISO8601().withMessage('Allocation expiry must be a date'),
+  body('expires_at').optional({ nullable: true }).isISO8601().withMessage('Expiry must be a date')
+];
+
+const paymentValidation = [
+  ...paymentDetailsValidation,
+  body('amount').isDecimal({ min: 0.01 }).withMessage('Amount must be greater than 0'),
+  body('classes_purchased').isInt({ min: 1 }).withMessage('Classes purchased must be at least 1')
+];
+
+// New payments either sell a package, which sets amount and classes, or give both by hand
+const withoutPackage = body('package_id').not().exists({ values: 'null' });
+const createPaymentValidation = [
+  ...paymentDetailsValidation,
+  body('package_id').optional({ nullable: true }).isUUID().withMessage('Invalid package ID format'),
+  body('discount_code').optional({ nullable: true }).trim().isLength({ max: 50 }),
+  body('amount').if(withoutPackage).isFloat({ min: 0.01 }).withMessage('Amount must be greater than 0'),
+  body('classes_purchased').if(withoutPackage).isInt({ min: 1 }).withMessage('Classes purchased must be at least 1')
 ];
 
 const paymentIdValidation = [
   param('id').isUUID().withMessage('Invalid payment ID format')
 ];
 
+const refundValidation = [
+  body('amount').optional().isFloat({ min: 0.01 }).withMessage('Refund amount must be greater than 0'),
+  body('classes').optional().isInt({ min: 1 }).withMessage('Classes to refund must be at least 1'),
+  body('full').optional().isBoolean().withMessage('Full must be boolean'),
+  body('reason').optional().trim().isLength({ max: 1000 })
+];
+
 // Get all payments with optional filters
-router.get('/', async (req, res, next) => {
+router.get('/', authorize('payments', 'view'), async (req, res, next) => {
   try {
     const { page = 1, limit = 10, student_id, payment_method, date_from, date_to } = req.query;
     const offset = (Number(page) - 1) * Number(limit);
@@ -65,15 +96,21 @@ router.get('/', async (req, res, next) => {
     paramCount++;
     const paymentsQuery = `
       SELECT
-        p.id, p.amount, p.classes_purchased, p.classes_remaining, p.payment_method,
-        p.payment_date, p.payment_reference, p.notes, p.created_at, p.updated_at,
+        p.id, p.receipt_number, p.amount, p.list_price, p.discount_amount, p.classes_purchased, p.classes_remaining, p.payment_method,
+        p.payment_date, p.expires_at, p.payment_reference, p.notes, p.created_at, p.updated_at,
         s.name as student_name, s.grade, s.email,
-        COUNT(pca.class_id) as classes_allocated_to
+        p.package_id, cp.name as package_name,
+        COUNT(DISTINCT pca.class_id) as classes_allocated_to,
+        COALESCE((SELECT SUM(pr.amount) FROM payment_refunds pr WHERE pr.payment_id = p.id), 0) as refunded_amount,
+        COALESCE((
+          SELECT SUM(cl.classes) FROM credit_ledger cl WHERE cl.payment_id = p.id AND cl.student_id = p.student_id
+        ), 0)::int as refundable_classes
       FROM payments p
       JOIN students s ON p.student_id = s.id
+      LEFT JOIN class_packages cp ON p.package_id = cp.id
       LEFT JOIN payment_class_allocations pca ON p.id = pca.payment_id
       ${whereClause}
-      GROUP BY p.id, s.name, s.grade, s.email
+      GROUP BY p.id, s.name, s.grade, s.email, cp.name
       ORDER BY p.payment_date DESC
       LIMIT $${paramCount} OFFSET $${paramCount + 1}
     `;
@@ -99,7 +136,7 @@ router.get('/', async (req, res, next) => {
 });
 
 // Get single payment by ID
-router.get('/:id', paymentIdValidation, async (req, res, next) => {
+router.get('/:id', authorize('payments', 'view'), paymentIdValidation, async (req, res, next) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -108,51 +145,65 @@ router.get('/:id', paymentIdValidation, async (req, res, next) => {
 
     const { id } = req.params;
 
-    const paymentQuery = `
-      SELECT
-        p.*,
-        s.name as student_name, s.grade, s.email
-      FROM payments p
-      JOIN students s ON p.student_id = s.id
-      WHERE p.id = $1
-    `;
-
-    const paymentResult = await query(paymentQuery, [id]);
+    const payment = await getPaymentDetail(id);
 
-    if (paymentResult.rows.length === 0) {
+    if (!payment) {
       return res.status(404).json({
         success: false,
         error: { message: 'Payment not found' }
       });
     }
 
-    const paymentData = paymentResult.rows[0];
-
-    // Get allocated classes
-    const allocationsQuery = `
-      SELECT
-        c.id, c.name, c.subject,
-        pca.classes_allocated
-      FROM payment_class_allocations pca
-      JOIN classes c ON pca.class_id = c.id
-      WHERE pca.payment_id = $1
-    `;
-    const allocationsResult = await query(allocationsQuery, [id]);
-
     res.json({
       success: true,
-      data: {
-        ...paymentData,
-        class_allocations: allocationsResult.rows
-      }
+      data: payment
     });
   } catch (error) {
     next(error);
   }
 });
 
+// Printable receipt for a payment (?format=pdf, the default, or ?format=html)
+router.get('/:id/receipt', authorize('payments', 'view'), [
+  ...paymentIdValidation,
+  queryParam('format').optional().isIn(['pdf', 'html']).withMessage('Format must be pdf or html')
+], async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const { id } = req.params;
+    const { format = 'pdf' } = req.query;
+
+    const payment = await getPaymentDetail(id);
+
+    if (!payment) {
+      return res.status(404).json({
+        success: false,
+        error: { message: 'Payment not found' }
+      });
+    }
+
+    const filename = `receipt-${formatReceiptNumber(payment.receipt_number)}`;
+
+    if (format === 'html') {
+      res.type('html').send(renderReceiptHtml(payment));
+      return;
+    }
+
+    const pdf = await renderReceiptPdf(payment);
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `inline; filename="${filename}.pdf"`);
+    res.send(pdf);
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Create new payment
-router.post('/', paymentValidation, async (req, res, next) => {
+router.post('/', authorize('payments', 'create'), createPaymentValidation, async (req, res, next) => {
   const client = await getClient();
 
   try {
@@ -164,7 +215,46 @@ router.post('/', paymentValidation, async (req, res, next) => {
       return res.status(400).json({ success: false, errors: errors.array() });
     }
 
-    const { student_id, payment_method, amount, classes_purchased, payment_reference, notes, class_allocations } = req.body;
+    const { student_id, payment_method, package_id, discount_code, expires_at, payment_reference, notes } = req.body;
+    let { amount, classes_purchased, class_allocations } = req.body;
+    let packageScope: { class_id: string | null; subject: string | null } = { class_id: null, subject: null };
+    let validityDays: number | null = null;
+
+    // A package fills in the amount, classes and (unless given) the allocations
+    if (package_id) {
+      const sale = await applyPackage(client, package_id, student_id, class_allocations);
+      if (!sale.success) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({
+          success: false,
+          error: { message: sale.message }
+        });
+      }
+
+      amount = sale.amount;
+      classes_purchased = sale.classes_purchased;
+      class_allocations = sale.class_allocations;
+      packageScope = sale.package;
+      validityDays = sale.package.validity_days;
+    }
+
+    // The amount given (or the package price) is the list price; discounts come off it
+    const pricing = await evaluateDiscounts(client, {
+      studentId: student_id,
+      listPrice: Number(amount),
+      classIds: (class_allocations || []).map((allocation: any) => allocation.class_id),
+      packageClassId: packageScope.class_id,
+      packageSubject: packageScope.subject,
+      code: discount_code
+    });
+
+    if (!pricing.success) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        error: { message: pricing.message }
+      });
+    }
 
     // If class_allocations are provided, validate that student is enrolled in those classes
     if (class_allocations && Array.isArray(class_allocations)) {
@@ -184,77 +274,67 @@ router.post('/', paymentValidation, async (req, res, next) => {
       }
     }
 
-    // Calculate classes remaining (initially same as purchased)
-    const classes_remaining = classes_purchased;
-
-    // Create payment record
+    // Create payment record. Without an explicit expiry, package credits expire at the
+    // end of the package's validity.
     const paymentQuery = `
-      INSERT INTO payments (student_id, payment_method, amount, classes_purchased, classes_remaining, payment_reference, notes)
-      VALUES ($1, $2, $3, $4, $5, $6, $7)
-      RETURNING *
+      INSERT INTO payments (student_id, package_id, payment_method, list_price, discount_amount, amount, classes_purchased, expires_at, payment_reference, notes)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, COALESCE($8::timestamp, school_today() + $9::integer), $10, $11)
+      RETURNING id
     `;
 
     const paymentResult = await client.query(paymentQuery, [
-      student_id, payment_method, amount, classes_purchased, classes_remaining, payment_reference, notes
+      student_id, package_id || null, payment_method, pricing.list_price, pricing.discount_amount, pricing.amount,
+      classes_purchased, expires_at || null, validityDays, payment_reference, notes
     ]);
 
-    const payment = paymentResult.rows[0];
+    await recordPaymentDiscounts(client, paymentResult.rows[0].id, pricing.discounts);
+
+    // Purchased classes start in the payment's unallocated bucket
+    await addLedgerEntry(client, {
+      studentId: student_id,
+      paymentId: paymentResult.rows[0].id,
+      entryType: 'purchase',
+      classes: classes_purchased
+    });
+
+    const payment = (await client.query('SELECT * FROM payments WHERE id = $1', [paymentResult.rows[0].id])).rows[0];
+
+    await recordAuditEvent(auditContext(req), {
+      action: 'payment.create',
+      entityType: 'payment',
+      entityId: payment.id,
+      studentId: student_id,
+      paymentId: payment.id,
+      after: { ...payment, class_allocations: class_allocations || [], discounts: pricing.discounts }
+    }, client);
 
     // If class allocations are provided, create them
     if (class_allocations && Array.isArray(class_allocations)) {
       for (const allocation of class_allocations) {
-        // Check for overdue occurrences for this class
-        const overdueQuery = `
-          SELECT co.id as occurrence_id, co.occurrence_date
-          FROM class_occurrences co
-          JOIN student_attendance sa ON co.id = sa.class_occurrence_id
-          WHERE sa.student_id = $1
-            AND co.class_id = $2
-            AND co.is_overdue = true
-            AND sa.attendance_status = 'present'
-          ORDER BY co.occurrence_date ASC
-          LIMIT $3
-        `;
-
-        const overdueOccurrences = await client.query(overdueQuery, [
-          student_id,
-          allocation.class_id,
-          allocation.allocated_classes
-        ]);
-
         // Create payment allocation
         await client.query(
-          'INSERT INTO payment_class_allocations (payment_id, class_id, classes_allocated) VALUES ($1, $2, $3)',
-          [payment.id, allocation.class_id, allocation.allocated_classes]
+          'INSERT INTO payment_class_allocations (payment_id, class_id, student_id, classes_allocated, expires_at) VALUES ($1, $2, $3, $4, $5)',
+          [payment.id, allocation.class_id, student_id, allocation.allocated_classes, allocation.expires_at || null]
+        );
+        await moveCredits(
+          client,
+          'allocation',
+          { studentId: student_id, paymentId: payment.id, classId: null },
+          { studentId: student_id, paymentId: payment.id, classId: allocation.class_id },
+          allocation.allocated_classes
         );
 
-        // Handle overdue deductions
-        if (overdueOccurrences.rows.length > 0) {
-          for (const overdue of overdueOccurrences.rows) {
-            // Check if deduction already exists
-            const existingDeduction = await client.query(
-              'SELECT id FROM payment_deductions WHERE student_id = $1 AND occurrence_id = $2',
-              [student_id, overdue.occurrence_id]
-            );
-
-            if (existingDeduction.rows.length === 0) {
-              // Create overdue deduction record
-              await client.query(`
-                INSERT INTO payment_deductions (student_id, class_id, occurrence_id, payment_id, classes_deducted, is_overdue_deduction)
-                VALUES ($1, $2, $3, $4, 1, true)
-              `, [student_id, allocation.class_id, overdue.occurrence_id, payment.id]);
-
-              // Remove overdue status
-              await client.query(`
-                UPDATE class_occurrences
-                SET is_overdue = false
-                WHERE id = $1
-              `, [overdue.occurrence_id]);
-
-              console.log(`✅ Overdue deduction created for occurrence ${overdue.occurrence_id} on ${overdue.occurrence_date}`);
-            }
-          }
-        }
+        // Settle any classes the student attended without credit
+        await settleOwedClasses(client, student_id, payment.id, allocation.class_id, auditContext(req));
+      }
+
+      const unallocated = await getBucketBalance(client, { studentId: student_id, paymentId: payment.id, classId: null });
+      if (unallocated < 0) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({
+          success: false,
+          error: { message: 'Cannot allocate more classes than purchased' }
+        });
       }
     }
 
@@ -262,7 +342,7 @@ router.post('/', paymentValidation, async (req, res, next) => {
 
     res.status(201).json({
       success: true,
-      data: payment,
+      data: { ...payment, discounts: pricing.discounts },
       message: 'Payment created successfully'
     });
   } catch (error) {
@@ -274,7 +354,7 @@ router.post('/', paymentValidation, async (req, res, next) => {
 });
 
 // Update payment (for corrections)
-router.put('/:id', [...paymentIdValidation, ...paymentValidation], async (req, res, next) => {
+router.put('/:id', authorize('payments', 'update'), [...paymentIdValidation, ...paymentValidation], async (req, res, next) => {
   const client = await getClient();
 
   try {
@@ -303,22 +383,89 @@ router.put('/:id', [...paymentIdValidation, ...paymentValidation], async (req, r
 
     const currentPayment = currentPaymentResult.rows[0];
 
-    // Calculate new classes remaining (can't be less than 0 or more than purchased)
-    const newClassesRemaining = Math.max(0, Math.min(classes_purchased, currentPayment.classes_remaining + (classes_purchased - currentPayment.classes_purchased)));
+    // Purchased classes changed: adjust the unallocated bucket by the difference
+    const classesDelta = classes_purchased - currentPayment.classes_purchased;
+    if (classesDelta !== 0) {
+      await addLedgerEntry(client, {
+        studentId: currentPayment.student_id,
+        paymentId: id,
+        entryType: 'adjustment',
+        classes: classesDelta,
+        notes: `Classes purchased corrected from ${currentPayment.classes_purchased} to ${classes_purchased}`
+      });
+
+      const unallocated = await getBucketBalance(client, { studentId: currentPayment.student_id, paymentId: id, classId: null });
+      if (unallocated < 0) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({
+          success: false,
+          error: { message: 'Classes purchased cannot be less than the classes already allocated' }
+        });
+      }
+    }
+
+    // Payment moved to another student: transfer each bucket's credits to them
+    if (student_id !== currentPayment.student_id) {
+      const buckets = await client.query(`
+        SELECT class_id, SUM(classes) as balance
+        FROM credit_ledger
+        WHERE payment_id = $1 AND student_id = $2
+        GROUP BY class_id
+        HAVING SUM(classes) <> 0
+      `, [id, currentPayment.student_id]);
+
+      for (const bucket of buckets.rows) {
+        await moveCredits(
+          client,
+          'transfer',
+          { studentId: currentPayment.student_id, paymentId: id, classId: bucket.class_id },
+          { studentId: student_id, paymentId: id, classId: bucket.class_id },
+          parseInt(bucket.balance),
+          'Payment reassigned to another student'
+        );
+      }
+
+      // The payment's allocations move with the credits, merging into any the new student
+      // already holds from it
+      await client.query(`
+        INSERT INTO payment_class_allocations (payment_id, class_id, student_id, classes_allocated, expires_at)
+        SELECT payment_id, class_id, $3, classes_allocated, expires_at
+        FROM payment_class_allocations
+        WHERE payment_id = $1 AND student_id = $2
+        ON CONFLICT (payment_id, class_id, student_id)
+        DO UPDATE SET classes_allocated = payment_class_allocations.classes_allocated + EXCLUDED.classes_allocated
+      `, [id, currentPayment.student_id, student_id]);
+
+      await client.query('DELETE FROM payment_class_allocations WHERE payment_id = $1 AND student_id = $2', [id, currentPayment.student_id]);
+    }
+
+    // A corrected amount is what was charged; the discounts given stay as they were.
+    // The expiry is only changed when expires_at is sent (null removes it).
+    const expiresAt = 'expires_at' in req.body ? req.body.expires_at || null : currentPayment.expires_at;
 
     const updateQuery = `
       UPDATE payments
-      SET student_id = $1, payment_method = $2, amount = $3, classes_purchased = $4,
-          classes_remaining = $5, payment_reference = $6, notes = $7
+      SET student_id = $1, payment_method = $2, amount = $3, list_price = $3 + discount_amount, classes_purchased = $4,
+          expires_at = $5, payment_reference = $6, notes = $7
       WHERE id = $8
       RETURNING *
     `;
 
     const result = await client.query(updateQuery, [
-      student_id, payment_method, amount, classes_purchased, newClassesRemaining,
-      payment_reference, notes, id
+      student_id, payment_method, amount, classes_purchased,
+      expiresAt, payment_reference, notes, id
     ]);
 
+    await recordAuditEvent(auditContext(req), {
+      action: 'payment.update',
+      entityType: 'payment',
+      entityId: id,
+      studentId: student_id,
+      paymentId: id,
+      before: currentPayment,
+      after: result.rows[0]
+    }, client);
+
     await client.query('COMMIT');
 
     res.json({
@@ -334,8 +481,8 @@ router.put('/:id', [...paymentIdValidation, ...paymentValidation], async (req, r
   }
 });
 
-// Delete payment
-router.delete('/:id', paymentIdValidation, async (req, res, next) => {
+// Allocate payment to specific classes
+router.post('/:id/allocate', authorize('payments', 'allocate'), paymentIdValidation, async (req, res, next) => {
   const client = await getClient();
 
   try {
@@ -348,10 +495,21 @@ router.delete('/:id', paymentIdValidation, async (req, res, next) => {
     }
 
     const { id } = req.params;
+    const { allocations } = req.body; // Array of {class_id, classes_allocated, expires_at?}
+
+    if (!Array.isArray(allocations) || allocations.length === 0) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        error: { message: 'Class allocations are required' }
+      });
+    }
 
-    const result = await client.query('DELETE FROM payments WHERE id = $1 RETURNING id', [id]);
+    // Verify payment exists
+    const paymentQuery = 'SELECT student_id FROM payments WHERE id = $1';
+    const paymentResult = await client.query(paymentQuery, [id]);
 
-    if (result.rows.length === 0) {
+    if (paymentResult.rows.length === 0) {
       await client.query('ROLLBACK');
       return res.status(404).json({
         success: false,
@@ -359,11 +517,88 @@ router.delete('/:id', paymentIdValidation, async (req, res, next) => {
       });
     }
 
+    const payment = paymentResult.rows[0];
+
+    // Delete the payer's existing allocations (credits transferred to a sibling stay theirs)
+    const previousAllocations = await client.query(
+      'DELETE FROM payment_class_allocations WHERE payment_id = $1 AND student_id = $2 RETURNING class_id, classes_allocated, expires_at',
+      [id, payment.student_id]
+    );
+
+    // Create new allocations; a class keeps its previous expiry unless expires_at is sent
+    for (const allocation of allocations) {
+      const previous = previousAllocations.rows.find((row: any) => row.class_id === allocation.class_id);
+      const expiresAt = 'expires_at' in allocation ? allocation.expires_at || null : previous?.expires_at ?? null;
+
+      const allocationQuery = `
+        INSERT INTO payment_class_allocations (payment_id, class_id, student_id, classes_allocated, expires_at)
+        VALUES ($1, $2, $3, $4, $5)
+      `;
+      await client.query(allocationQuery, [id, allocation.class_id, payment.student_id, allocation.allocated_classes, expiresAt]);
+    }
+
+    // Move credits between the unallocated bucket and each class by the change in its allocation
+    const allocationDeltas = new Map<string, number>();
+    for (const previous of previousAllocations.rows) {
+      allocationDeltas.set(previous.class_id, (allocationDeltas.get(previous.class_id) || 0) - previous.classes_allocated);
+    }
+    for (const allocation of allocations) {
+      allocationDeltas.set(allocation.class_id, (allocationDeltas.get(allocation.class_id) || 0) + allocation.allocated_classes);
+    }
+
+    const unallocatedBucket = { studentId: payment.student_id, paymentId: id, classId: null };
+    for (const [classId, delta] of allocationDeltas) {
+      const classBucket = { studentId: payment.student_id, paymentId: id, classId };
+      if (delta > 0) {
+        await moveCredits(client, 'allocation', unallocatedBucket, classBucket, delta);
+      } else if (delta < 0) {
+        await moveCredits(client, 'allocation', classBucket, unallocatedBucket, -delta);
+      }
+    }
+
+    // No bucket may go negative: neither over-allocating nor un-allocating classes already used
+    const overdrawnBuckets = await client.query(`
+      SELECT class_id
+      FROM credit_ledger
+      WHERE payment_id = $1 AND student_id = $2
+      GROUP BY class_id
+      HAVING SUM(classes) < 0
+    `, [id, payment.student_id]);
+
+    if (overdrawnBuckets.rows.length > 0) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        error: {
+          message: overdrawnBuckets.rows.some((bucket: any) => bucket.class_id === null)
+            ? 'Cannot allocate more classes than remaining in payment'
+            : 'Cannot allocate fewer classes than already used in a class'
+        }
+      });
+    }
+
+    await recordAuditEvent(auditContext(req), {
+      action: 'payment.allocate',
+      entityType: 'payment',
+      entityId: id,
+      studentId: payment.student_id,
+      paymentId: id,
+      before: { allocations: previousAllocations.rows },
+      after: { allocations }
+    }, client);
+
+    // Newly allocated credits settle owed classes, as on payment creation
+    for (const [classId, delta] of allocationDeltas) {
+      if (delta > 0) {
+        await settleOwedClasses(client, payment.student_id, id, classId, auditContext(req));
+      }
+    }
+
     await client.query('COMMIT');
 
     res.json({
       success: true,
-      message: 'Payment deleted successfully'
+      message: 'Payment allocated to classes successfully'
     });
   } catch (error) {
     await client.query('ROLLBACK');
@@ -373,8 +608,44 @@ router.delete('/:id', paymentIdValidation, async (req, res, next) => {
   }
 });
 
-// Allocate payment to specific classes
-router.post('/:id/allocate', paymentIdValidation, async (req, res, next) => {
+// Get payment allocations
+router.get('/:id/allocations', authorize('payments', 'view'), paymentIdValidation, async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const { id } = req.params;
+
+    const queryStr = `
+      SELECT
+        c.id, c.name, c.subject,
+        pca.student_id, s.name as student_name,
+        pca.classes_allocated,
+        COALESCE(pca.expires_at, p.expires_at) as expires_at
+      FROM payment_class_allocations pca
+      JOIN classes c ON pca.class_id = c.id
+      JOIN payments p ON pca.payment_id = p.id
+      JOIN students s ON pca.student_id = s.id
+      WHERE pca.payment_id = $1
+      ORDER BY pca.student_id = p.student_id DESC, s.name, c.name
+    `;
+
+    const result = await query(queryStr, [id]);
+
+    res.json({
+      success: true,
+      data: result.rows
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Refund a payment, fully or partly: money back through the original payment
+// method and/or unused class credits removed from the student's balance
+router.post('/:id/refunds', authorize('payments', 'refund'), [...paymentIdValidation, ...refundValidation], async (req, res, next) => {
   const client = await getClient();
 
   try {
@@ -387,19 +658,9 @@ router.post('/:id/allocate', paymentIdValidation, async (req, res, next) => {
     }
 
     const { id } = req.params;
-    const { allocations } = req.body; // Array of {class_id, classes_allocated}
+    const { full = false, reason } = req.body;
 
-    if (!Array.isArray(allocations) || allocations.length === 0) {
-      await client.query('ROLLBACK');
-      return res.status(400).json({
-        success: false,
-        error: { message: 'Class allocations are required' }
-      });
-    }
-
-    // Verify payment exists and get current classes remaining
-    const paymentQuery = 'SELECT classes_remaining FROM payments WHERE id = $1';
-    const paymentResult = await client.query(paymentQuery, [id]);
+    const paymentResult = await client.query('SELECT * FROM payments WHERE id = $1 FOR UPDATE', [id]);
 
     if (paymentResult.rows.length === 0) {
       await client.query('ROLLBACK');
@@ -410,37 +671,76 @@ router.post('/:id/allocate', paymentIdValidation, async (req, res, next) => {
     }
 
     const payment = paymentResult.rows[0];
-    const totalClassesToAllocate = allocations.reduce((sum, allocation) => sum + allocation.allocated_classes, 0);
 
-    if (totalClassesToAllocate > payment.classes_remaining) {
+    const refundedResult = await client.query(
+      'SELECT COALESCE(SUM(amount), 0) as refunded_amount FROM payment_refunds WHERE payment_id = $1',
+      [id]
+    );
+    const refundableAmount = parseFloat(payment.amount) - parseFloat(refundedResult.rows[0].refunded_amount);
+
+    // Only the unused credits the student still holds can be clawed back, not ones moved to a sibling
+    const clawableClasses = await countClawableCredits(client, payment.student_id, id);
+
+    // A full refund returns whatever money and unused classes are left
+    const amount = full ? refundableAmount : Number(req.body.amount || 0);
+    const classes = full ? clawableClasses : Number(req.body.classes || 0);
+
+    if (amount <= 0 && classes <= 0) {
       await client.query('ROLLBACK');
       return res.status(400).json({
         success: false,
-        error: { message: 'Cannot allocate more classes than remaining in payment' }
+        error: { message: full ? 'This payment has already been fully refunded' : 'A refund amount or number of classes is required' }
       });
     }
 
-    // Delete existing allocations
-    await client.query('DELETE FROM payment_class_allocations WHERE payment_id = $1', [id]);
+    if (amount > refundableAmount + 0.001) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        error: { message: `Refund amount cannot exceed the $${refundableAmount.toFixed(2)} not yet refunded` }
+      });
+    }
 
-    // Create new allocations
-    for (const allocation of allocations) {
-      const allocationQuery = `
-        INSERT INTO payment_class_allocations (payment_id, class_id, classes_allocated)
-        VALUES ($1, $2, $3)
-      `;
-      await client.query(allocationQuery, [id, allocation.class_id, allocation.allocated_classes]);
+    if (classes > clawableClasses) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        error: { message: `Only ${clawableClasses} unused classes can be refunded` }
+      });
     }
 
-    // Update payment classes remaining
-    const newClassesRemaining = payment.classes_remaining - totalClassesToAllocate;
-    await client.query('UPDATE payments SET classes_remaining = $1 WHERE id = $2', [newClassesRemaining, id]);
+    const clawedBack = classes > 0
+      ? await clawBackUnusedCredits(client, payment.student_id, id, classes, reason ? `Refund: ${reason}` : 'Refund')
+      : [];
+
+    const refundResult = await client.query(`
+      INSERT INTO payment_refunds (payment_id, payment_method, amount, classes_refunded, reason, refunded_by)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING *
+    `, [id, payment.payment_method, amount.toFixed(2), classes, reason || null, req.user?.id ?? null]);
+
+    const refund = refundResult.rows[0];
+    const updatedPayment = (await client.query('SELECT * FROM payments WHERE id = $1', [id])).rows[0];
+
+    await recordAuditEvent(auditContext(req), {
+      action: 'payment.refund',
+      entityType: 'payment_refund',
+      entityId: refund.id,
+      studentId: payment.student_id,
+      paymentId: id,
+      before: { classes_remaining: payment.classes_remaining, refundable_amount: refundableAmount },
+      after: { classes_remaining: updatedPayment.classes_remaining, refund, credits: clawedBack }
+    }, client);
 
     await client.query('COMMIT');
 
-    res.json({
+    res.status(201).json({
       success: true,
-      message: 'Payment allocated to classes successfully'
+      data: {
+        refund,
+        payment: updatedPayment
+      },
+      message: 'Refund recorded successfully'
     });
   } catch (error) {
     await client.query('ROLLBACK');
@@ -450,8 +750,8 @@ router.post('/:id/allocate', paymentIdValidation, async (req, res, next) => {
   }
 });
 
-// Get payment allocations
-router.get('/:id/allocations', paymentIdValidation, async (req, res, next) => {
+// Get payment refunds
+router.get('/:id/refunds', authorize('payments', 'view'), paymentIdValidation, async (req, res, next) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -460,16 +760,13 @@ router.get('/:id/allocations', paymentIdValidation, async (req, res, next) => {
 
     const { id } = req.params;
 
-    const queryStr = `
-      SELECT
-        c.id, c.name, c.subject,
-        pca.classes_allocated
-      FROM payment_class_allocations pca
-      JOIN classes c ON pca.class_id = c.id
-      WHERE pca.payment_id = $1
-    `;
-
-    const result = await query(queryStr, [id]);
+    const result = await query(`
+      SELECT pr.*, u.name as refunded_by_name
+      FROM payment_refunds pr
+      LEFT JOIN users u ON pr.refunded_by = u.id
+      WHERE pr.payment_id = $1
+      ORDER BY pr.refund_date DESC
+    `, [id]);
 
     res.json({
       success: true,
@@ -481,13 +778,13 @@ router.get('/:id/allocations', paymentIdValidation, async (req, res, next) => {
 });
 
 // Get payment statistics
-router.get('/stats/summary', async (req, res, next) => {
+router.get('/stats/summary', authorize('payments', 'view'), async (req, res, next) => {
   try {
     const { period = '30 days' } = req.query;
 
     const dateFilter = period === '7 days'
-      ? 'AND payment_date >= CURRENT_DATE - INTERVAL \'7 days\''
-      : 'AND payment_date >= CURRENT_DATE - INTERVAL \'30 days\'';
+      ? 'AND payment_date >= school_today() - INTERVAL \'7 days\''
+      : 'AND payment_date >= school_today() - INTERVAL \'30 days\'';
 
     const statsQuery = `
       SELECT
@@ -504,6 +801,44 @@ router.get('/stats/summary', async (req, res, next) => {
 
     const result = await query(statsQuery);
 
+    // Refunds made in the same period, by the method the money went back through
+    const refundsQuery = `
+      SELECT
+        payment_method,
+        COUNT(*) as total_refunds,
+        SUM(amount) as total_refunded,
+        SUM(classes_refunded) as total_classes_refunded
+      FROM payment_refunds
+      WHERE 1=1 ${dateFilter.replace(/payment_date/g, 'refund_date')}
+      GROUP BY payment_method
+    `;
+
+    const refundsResult = await query(refundsQuery);
+
+    const paymentMethods = result.rows.map((row: any) => {
+      const refunds = refundsResult.rows.find((refund: any) => refund.payment_method === row.payment_method);
+      return {
+        ...row,
+        total_refunded: refunds?.total_refunded || '0',
+        total_classes_refunded: refunds?.total_classes_refunded || '0'
+      };
+    });
+
+    // Methods that only had refunds in the period (of payments made before it) still get a row
+    for (const refund of refundsResult.rows) {
+      if (!result.rows.some((row: any) => row.payment_method === refund.payment_method)) {
+        paymentMethods.push({
+          payment_method: refund.payment_method,
+          total_payments: '0',
+          total_amount: '0',
+          total_classes_purchased: '0',
+          unique_students: '0',
+          total_refunded: refund.total_refunded,
+          total_classes_refunded: refund.total_classes_refunded
+        });
+      }
+    }
+
     // Calculate totals
     const totals = result.rows.reduce((acc, row) => {
       acc.total_payments += parseInt(row.total_payments);
@@ -511,13 +846,22 @@ router.get('/stats/summary', async (req, res, next) => {
       acc.total_classes_purchased += parseInt(row.total_classes_purchased);
       acc.unique_students = Math.max(acc.unique_students, parseInt(row.unique_students));
       return acc;
-    }, { total_payments: 0, total_amount: 0, total_classes_purchased: 0, unique_students: 0 });
+    }, {
+      total_payments: 0, total_amount: 0, total_classes_purchased: 0, unique_students: 0,
+      total_refunded: 0, total_classes_refunded: 0, net_amount: 0
+    });
+
+    for (const refund of refundsResult.rows) {
+      totals.total_refunded += parseFloat(refund.total_refunded);
+      totals.total_classes_refunded += parseInt(refund.total_classes_refunded);
+    }
+    totals.net_amount = totals.total_amount - totals.total_refunded;
 
     res.json({
       success: true,
       data: {
         period,
-        payment_methods: result.rows,
+        payment_methods: paymentMethods,
         totals
       }
     });
@@ -0,0 +1,129 @@
+import express from 'express';
+import { param, query as queryParam, validationResult } from 'express-validator';
+import { query } from '../config/database';
+import { getMaxBackfillDays } from '../config/scheduler';
+import { authorize } from '../middleware/auth';
+
+const router = express.Router();
+
+// Validation rules
+const runFilterValidation = [
+  queryParam('status').optional().isIn(['running', 'succeeded', 'completed_with_errors', 'failed']).withMessage('Invalid run status'),
+  queryParam('failures_only').optional().isBoolean().withMessage('failures_only must be boolean'),
+  queryParam('limit').optional().isInt({ min: 1, max: 200 }).withMessage('Limit must be between 1 and 200')
+];
+
+const backfillListValidation = [
+  queryParam('limit').optional().isInt({ min: 1, max: 200 }).withMessage('Limit must be between 1 and 200')
+];
+
+const runIdValidation = [
+  param('id').isUUID().withMessage('Invalid run ID format')
+];
+
+// Get the latest scheduler runs (newest first), without their skipped and error details
+router.get('/runs', authorize('scheduler', 'view'), runFilterValidation, async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const { status, failures_only, limit = 50 } = req.query;
+
+    const result = await query(`
+      SELECT
+        id, triggered_by, status, started_at, finished_at, backfill_id,
+        occurrences_created, students_processed, students_skipped, sessions_closed,
+        jsonb_array_length(errors) as error_count, error_message
+      FROM scheduler_runs
+      WHERE ($1::varchar IS NULL OR status = $1)
+        AND ($2::boolean IS NOT TRUE OR status IN ('failed', 'completed_with_errors'))
+      ORDER BY started_at DESC
+      LIMIT $3
+    `, [status || null, failures_only === 'true', Number(limit)]);
+
+    // The watermark and latest failure give the scheduler's status at a glance
+    const state = await query(`
+      SELECT
+        TO_CHAR(processed_through, 'YYYY-MM-DD HH24:MI') as processed_through,
+        TO_CHAR(retry_from, 'YYYY-MM-DD') as retry_from
+      FROM scheduler_state
+      WHERE name = 'occurrences'
+    `);
+
+    const lastFailure = await query(`
+      SELECT id, status, started_at, error_message
+      FROM scheduler_runs
+      WHERE status IN ('failed', 'completed_with_errors')
+      ORDER BY started_at DESC
+      LIMIT 1
+    `);
+
+    res.json({
+      success: true,
+      data: {
+        processed_through: state.rows[0]?.processed_through ?? null,
+        retry_from: state.rows[0]?.retry_from ?? null,
+        last_failure: lastFailure.rows[0] || null,
+        runs: result.rows
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get one run with the students it skipped (and why) and its errors
+router.get('/runs/:id', authorize('scheduler', 'view'), runIdValidation, async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const result = await query('SELECT * FROM scheduler_runs WHERE id = $1', [req.params.id]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: { message: 'Scheduler run not found' }
+      });
+    }
+
+    res.json({
+      success: true,
+      data: result.rows[0]
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get the catch-ups the scheduler made after downtime, latest first
+router.get('/backfills', authorize('scheduler', 'view'), backfillListValidation, async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const result = await query(`
+      SELECT * FROM scheduler_backfills
+      ORDER BY created_at DESC
+      LIMIT $1
+    `, [Number(req.query.limit || 20)]);
+
+    res.json({
+      success: true,
+      data: {
+        max_backfill_days: getMaxBackfillDays(),
+        backfills: result.rows
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -1,6 +1,13 @@
 import express from 'express';
-import { body, param, validationResult } from 'express-validator';
-import { query } from '../config/database';
+import { body, param, query as queryParam, validationResult } from 'express-validator';
+import { query, getClient } from '../config/database';
+import { CONSUMPTION_POLICIES, getConsumptionPolicy } from '../config/credits';
+import { authorize } from '../middleware/auth';
+import { auditContext, recordAuditEvent } from '../services/audit';
+import { planCreditConsumption } from '../services/balance';
+import { transferCredits } from '../services/creditTransfers';
+import { enrollStudent, promoteFromWaitlist } from '../services/enrollments';
+import { buildMonthlyStatements, buildStatement, renderStatementsCsv, renderStatementsPdf, Statement } from '../services/statements';
 
 const router = express.Router();
 
@@ -12,6 +19,7 @@ const studentValidation = [
   body('phone').optional().trim().isLength({ min: 1, max: 20 }),
   body('emergency_contact').optional().trim().isLength({ min: 1, max: 100 }),
   body('emergency_phone').optional().trim().isLength({ min: 1, max: 20 }),
+  body('family_id').optional({ nullable: true }).isUUID().withMessage('Invalid family ID format'),
   body('notes').optional().trim().isLength({ max: 1000 })
 ];
 
@@ -19,8 +27,75 @@ const studentIdValidation = [
   param('id').isUUID().withMessage('Invalid student ID format')
 ];
 
+const statementFormatValidation = queryParam('format').optional().isIn(['json', 'csv', 'pdf']).withMessage('Format must be json, csv or pdf');
+
+const statementValidation = [
+  queryParam('from').isISO8601().withMessage('From date is required (YYYY-MM-DD)'),
+  queryParam('to').isISO8601().withMessage('To date is required (YYYY-MM-DD)'),
+  statementFormatValidation
+];
+
+const monthlyStatementValidation = [
+  queryParam('month').matches(/^\d{4}-(0[1-9]|1[0-2])$/).withMessage('Month is required (YYYY-MM)'),
+  statementFormatValidation
+];
+
+const creditTransferValidation = [
+  body('from_class_id').isUUID().withMessage('Valid class to transfer from is required'),
+  body('to_class_id').optional({ nullable: true }).isUUID().withMessage('Invalid class ID format'),
+  body('to_student_id').optional({ nullable: true }).isUUID().withMessage('Invalid student ID format'),
+  body('classes').isInt({ min: 1 }).withMessage('Classes to transfer must be at least 1'),
+  body('adjust_for_price').optional().isBoolean().withMessage('Adjust for price must be boolean'),
+  body('notes').optional({ nullable: true }).trim().isLength({ max: 1000 })
+];
+
+const holdValidation = [
+  body('class_id').optional({ nullable: true }).isUUID().withMessage('Invalid class ID format'),
+  body('start_date').isISO8601().withMessage('Start date is required (YYYY-MM-DD)'),
+  body('end_date').isISO8601().withMessage('End date is required (YYYY-MM-DD)'),
+  body('reason').optional({ nullable: true }).trim().isLength({ max: 500 })
+];
+
+const enrollValidation = [
+  param('classId').isUUID().withMessage('Invalid class ID format'),
+  body('start_date').optional({ nullable: true }).isISO8601().withMessage('Start date must be a date (YYYY-MM-DD)')
+];
+
+const unenrollValidation = [
+  param('classId').isUUID().withMessage('Invalid class ID format'),
+  body('end_date').optional({ nullable: true }).isISO8601().withMessage('End date must be a date (YYYY-MM-DD)'),
+  body('end_reason').optional({ nullable: true }).trim().isLength({ max: 500 })
+];
+
+const holdIdValidation = [
+  param('holdId').isUUID().withMessage('Invalid hold ID format')
+];
+
+const creditPlanValidation = [
+  queryParam('policy').optional().isIn(CONSUMPTION_POLICIES).withMessage(`Policy must be one of ${CONSUMPTION_POLICIES.join(', ')}`),
+  queryParam('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100')
+];
+
+// Send statements as JSON, a CSV download or an inline PDF
+async function sendStatements(res: express.Response, statements: Statement[], format: string, filename: string, data: unknown) {
+  if (format === 'csv') {
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}.csv"`);
+    return res.send(renderStatementsCsv(statements));
+  }
+
+  if (format === 'pdf') {
+    const pdf = await renderStatementsPdf(statements);
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `inline; filename="${filename}.pdf"`);
+    return res.send(pdf);
+  }
+
+  return res.json({ success: true, data });
+}
+
 // Get all students with optional filters
-router.get('/', async (req, res, next) => {
+router.get('/', authorize('students', 'view'), async (req, res, next) => {
   try {
     const { page = 1, limit = 10, search, grade } = req.query;
     const offset = (Number(page) - 1) * Number(limit);
@@ -69,19 +144,24 @@ router.get('/', async (req, res, next) => {
 
     const studentsQuery = `
       SELECT
-        s.id, s.name, s.email, s.grade, s.phone, s.emergency_contact, s.emergency_phone, s.notes,
+        s.id, s.name, s.email, s.grade, s.phone, s.emergency_contact, s.emergency_phone, s.family_id, s.notes,
+        (SELECT f.name FROM families f WHERE f.id = s.family_id) as family_name,
         s.created_at, s.updated_at,
         COUNT(DISTINCT sce.class_id) as enrolled_classes_count,
         COALESCE(sb.total_classes_purchased, 0) as total_classes_purchased,
         COALESCE(sb.total_classes_remaining, 0) as total_classes_remaining,
         COALESCE(sb.classes_attended, 0) as classes_attended,
         COALESCE(sb.classes_used, 0) as classes_used,
-        sb.attendance_percentage
+        sb.attendance_percentage,
+        (
+          SELECT MAX(eh.end_date) FROM enrollment_holds eh
+          WHERE eh.student_id = s.id AND school_today() BETWEEN eh.start_date AND eh.end_date
+        ) as on_hold_until
       FROM students s
       LEFT JOIN student_class_enrollments sce ON s.id = sce.student_id AND sce.is_active = true
       LEFT JOIN student_balances sb ON s.id = sb.student_id
       ${finalWhereClause}
-      GROUP BY s.id, s.name, s.email, s.grade, s.phone, s.emergency_contact, s.emergency_phone, s.notes, s.created_at, s.updated_at, sb.total_classes_purchased, sb.total_classes_remaining, sb.classes_attended, sb.classes_used, sb.attendance_percentage
+      GROUP BY s.id, s.name, s.email, s.grade, s.phone, s.emergency_contact, s.emergency_phone, s.family_id, s.notes, s.created_at, s.updated_at, sb.total_classes_purchased, sb.total_classes_remaining, sb.classes_attended, sb.classes_used, sb.attendance_percentage
       ORDER BY s.name
       LIMIT $${paramCount} OFFSET $${paramCount + 1}
     `;
@@ -106,8 +186,25 @@ router.get('/', async (req, res, next) => {
   }
 });
 
+// Statements for every actively enrolled student for a month
+router.get('/statements/monthly', authorize('students', 'view'), monthlyStatementValidation, async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const month = String(req.query.month);
+    const statements = await buildMonthlyStatements(month);
+
+    return sendStatements(res, statements, String(req.query.format || 'json'), `statements-${month}`, statements);
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Get single student by ID
-router.get('/:id', studentIdValidation, async (req, res, next) => {
+router.get('/:id', authorize('students', 'view'), studentIdValidation, async (req, res, next) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -118,7 +215,8 @@ router.get('/:id', studentIdValidation, async (req, res, next) => {
 
     const queryStr = `
       SELECT
-        s.id, s.name, s.email, s.grade, s.phone, s.emergency_contact, s.emergency_phone, s.notes,
+        s.id, s.name, s.email, s.grade, s.phone, s.emergency_contact, s.emergency_phone, s.family_id, s.notes,
+        (SELECT f.name FROM families f WHERE f.id = s.family_id) as family_name,
         s.created_at, s.updated_at,
         COALESCE(sb.total_classes_purchased, 0) as total_classes_purchased,
         COALESCE(sb.total_classes_remaining, 0) as total_classes_remaining,
@@ -149,22 +247,30 @@ router.get('/:id', studentIdValidation, async (req, res, next) => {
 });
 
 // Create new student
-router.post('/', studentValidation, async (req, res, next) => {
+router.post('/', authorize('students', 'create'), studentValidation, async (req, res, next) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
       return res.status(400).json({ success: false, errors: errors.array() });
     }
 
-    const { name, email, grade, phone, emergency_contact, emergency_phone, notes } = req.body;
+    const { name, email, grade, phone, emergency_contact, emergency_phone, family_id, notes } = req.body;
 
     const queryStr = `
-      INSERT INTO students (name, email, grade, phone, emergency_contact, emergency_phone, notes)
-      VALUES ($1, $2, $3, $4, $5, $6, $7)
-      RETURNING id, name, email, grade, phone, emergency_contact, emergency_phone, notes, created_at, updated_at
+      INSERT INTO students (name, email, grade, phone, emergency_contact, emergency_phone, family_id, notes)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      RETURNING id, name, email, grade, phone, emergency_contact, emergency_phone, family_id, notes, created_at, updated_at
     `;
 
-    const result = await query(queryStr, [name, email, grade, phone, emergency_contact, emergency_phone, notes]);
+    const result = await query(queryStr, [name, email, grade, phone, emergency_contact, emergency_phone, family_id || null, notes]);
+
+    await recordAuditEvent(auditContext(req), {
+      action: 'student.create',
+      entityType: 'student',
+      entityId: result.rows[0].id,
+      studentId: result.rows[0].id,
+      after: result.rows[0]
+    });
 
     res.status(201).json({
       success: true,
@@ -177,7 +283,7 @@ router.post('/', studentValidation, async (req, res, next) => {
 });
 
 // Update student
-router.put('/:id', [...studentIdValidation, ...studentValidation], async (req, res, next) => {
+router.put('/:id', authorize('students', 'update'), [...studentIdValidation, ...studentValidation], async (req, res, next) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -185,16 +291,18 @@ router.put('/:id', [...studentIdValidation, ...studentValidation], async (req, r
     }
 
     const { id } = req.params;
-    const { name, email, grade, phone, emergency_contact, emergency_phone, notes } = req.body;
+    const { name, email, grade, phone, emergency_contact, emergency_phone, family_id, notes } = req.body;
+
+    const previous = await query('SELECT * FROM students WHERE id = $1', [id]);
 
     const queryStr = `
       UPDATE students
-      SET name = $1, email = $2, grade = $3, phone = $4, emergency_contact = $5, emergency_phone = $6, notes = $7
-      WHERE id = $8
-      RETURNING id, name, email, grade, phone, emergency_contact, emergency_phone, notes, created_at, updated_at
+      SET name = $1, email = $2, grade = $3, phone = $4, emergency_contact = $5, emergency_phone = $6, family_id = $7, notes = $8
+      WHERE id = $9
+      RETURNING id, name, email, grade, phone, emergency_contact, emergency_phone, family_id, notes, created_at, updated_at
     `;
 
-    const result = await query(queryStr, [name, email, grade, phone, emergency_contact, emergency_phone, notes, id]);
+    const result = await query(queryStr, [name, email, grade, phone, emergency_contact, emergency_phone, family_id || null, notes, id]);
 
     if (result.rows.length === 0) {
       return res.status(404).json({
@@ -203,6 +311,15 @@ router.put('/:id', [...studentIdValidation, ...studentValidation], async (req, r
       });
     }
 
+    await recordAuditEvent(auditContext(req), {
+      action: 'student.update',
+      entityType: 'student',
+      entityId: id,
+      studentId: id,
+      before: previous.rows[0],
+      after: result.rows[0]
+    });
+
     res.json({
       success: true,
       data: result.rows[0],
@@ -214,7 +331,7 @@ router.put('/:id', [...studentIdValidation, ...studentValidation], async (req, r
 });
 
 // Delete student
-router.delete('/:id', studentIdValidation, async (req, res, next) => {
+router.delete('/:id', authorize('students', 'delete'), studentIdValidation, async (req, res, next) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -223,7 +340,20 @@ router.delete('/:id', studentIdValidation, async (req, res, next) => {
 
     const { id } = req.params;
 
-    const result = await query('DELETE FROM students WHERE id = $1 RETURNING id', [id]);
+    // The credit ledger is append-only, so a student with credits in it (or whose payments are) stays
+    const ledgerEntries = await query(`
+      SELECT 1 FROM credit_ledger
+      WHERE student_id = $1 OR payment_id IN (SELECT id FROM payments WHERE student_id = $1)
+      LIMIT 1
+    `, [id]);
+    if (ledgerEntries.rows.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: { message: 'Student has credit history and cannot be deleted' }
+      });
+    }
+
+    const result = await query('DELETE FROM students WHERE id = $1 RETURNING *', [id]);
 
     if (result.rows.length === 0) {
       return res.status(404).json({
@@ -232,6 +362,14 @@ router.delete('/:id', studentIdValidation, async (req, res, next) => {
       });
     }
 
+    await recordAuditEvent(auditContext(req), {
+      action: 'student.delete',
+      entityType: 'student',
+      entityId: id,
+      studentId: id,
+      before: result.rows[0]
+    });
+
     res.json({
       success: true,
       message: 'Student deleted successfully'
@@ -242,7 +380,7 @@ router.delete('/:id', studentIdValidation, async (req, res, next) => {
 });
 
 // Get student's enrolled classes
-router.get('/:id/classes', studentIdValidation, async (req, res, next) => {
+router.get('/:id/classes', authorize('students', 'view'), studentIdValidation, async (req, res, next) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -254,7 +392,7 @@ router.get('/:id/classes', studentIdValidation, async (req, res, next) => {
     const queryStr = `
       SELECT
         c.id, c.name, c.subject, c.description, c.price_per_class,
-        sce.enrolled_at, sce.is_active
+        sce.enrolled_at, sce.start_date, sce.is_active
       FROM classes c
       JOIN student_class_enrollments sce ON c.id = sce.class_id
       WHERE sce.student_id = $1 AND sce.is_active = true
@@ -273,7 +411,7 @@ router.get('/:id/classes', studentIdValidation, async (req, res, next) => {
 });
 
 // Get student's per-class balances
-router.get('/:id/balances', studentIdValidation, async (req, res, next) => {
+router.get('/:id/balances', authorize('students', 'view'), studentIdValidation, async (req, res, next) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -282,35 +420,73 @@ router.get('/:id/balances', studentIdValidation, async (req, res, next) => {
 
     const { id } = req.params;
 
+    // Per-class buckets of the credit ledger
     const queryStr = `
       SELECT
         c.id as class_id,
         c.name as class_name,
         c.subject,
-        COALESCE(SUM(pca.classes_allocated), 0) as classes_purchased,
-        COALESCE(SUM(pca.classes_allocated), 0) - COUNT(DISTINCT pd.id) as classes_remaining,
-        COUNT(DISTINCT pd.id) as classes_used,
-        COUNT(DISTINCT sa.id) as classes_attended
+        COALESCE(l.classes_purchased, 0) as classes_purchased,
+        COALESCE(l.classes_remaining, 0) as classes_remaining,
+        COALESCE(l.classes_used, 0) as classes_used,
+        COALESCE(l.classes_transferred_in, 0) as classes_transferred_in,
+        COALESCE(l.classes_transferred_out, 0) as classes_transferred_out,
+        (
+          SELECT COUNT(*)
+          FROM student_attendance sa
+          JOIN class_occurrences co ON sa.class_occurrence_id = co.id
+          WHERE co.class_id = c.id AND sa.student_id = sce.student_id AND sa.attendance_status = 'present'
+        ) as classes_attended
       FROM student_class_enrollments sce
       JOIN classes c ON sce.class_id = c.id
-      LEFT JOIN payments p ON p.student_id = sce.student_id
-      LEFT JOIN payment_class_allocations pca ON pca.payment_id = p.id AND pca.class_id = c.id
-      LEFT JOIN payment_deductions pd ON pd.class_id = c.id
-        AND pd.student_id = sce.student_id
-      LEFT JOIN student_attendance sa ON sa.class_occurrence_id IN (
-        SELECT co.id FROM class_occurrences co WHERE co.class_id = c.id
-      ) AND sa.student_id = sce.student_id AND sa.attendance_status = 'present'
+      LEFT JOIN (
+        SELECT
+          class_id,
+          COALESCE(SUM(classes) FILTER (WHERE entry_type IN ('allocation', 'transfer', 'adjustment')), 0) as classes_purchased,
+          SUM(classes) as classes_remaining,
+          COALESCE(-SUM(classes) FILTER (WHERE entry_type IN ('deduction', 'refund')), 0) as classes_used,
+          COALESCE(SUM(classes) FILTER (WHERE entry_type = 'transfer' AND classes > 0), 0) as classes_transferred_in,
+          COALESCE(-SUM(classes) FILTER (WHERE entry_type = 'transfer' AND classes < 0), 0) as classes_transferred_out
+        FROM credit_ledger
+        WHERE student_id = $1 AND class_id IS NOT NULL
+        GROUP BY class_id
+      ) l ON l.class_id = c.id
       WHERE sce.student_id = $1 AND sce.is_active = true
-      GROUP BY c.id, c.name, c.subject
       ORDER BY c.name
     `;
 
     const result = await query(queryStr, [id]);
 
+    // Credits bought but not yet allocated to any class
+    const unallocatedResult = await query(
+      'SELECT COALESCE(SUM(classes), 0) as unallocated_classes FROM credit_ledger WHERE student_id = $1 AND class_id IS NULL',
+      [id]
+    );
+
+    // Credits moved between classes or siblings, to or from this student
+    const transfersResult = await query(`
+      SELECT
+        ct.*,
+        p.receipt_number,
+        fs.name as from_student_name, fc.name as from_class_name,
+        ts.name as to_student_name, tc.name as to_class_name
+      FROM credit_transfers ct
+      JOIN payments p ON ct.payment_id = p.id
+      JOIN students fs ON ct.from_student_id = fs.id
+      JOIN students ts ON ct.to_student_id = ts.id
+      LEFT JOIN classes fc ON ct.from_class_id = fc.id
+      LEFT JOIN classes tc ON ct.to_class_id = tc.id
+      WHERE ct.from_student_id = $1 OR ct.to_student_id = $1
+      ORDER BY ct.created_at DESC
+      LIMIT 50
+    `, [id]);
+
     res.json({
       success: true,
       data: {
-        balances: result.rows
+        balances: result.rows,
+        unallocated_classes: parseInt(unallocatedResult.rows[0].unallocated_classes),
+        transfers: transfersResult.rows
       }
     });
   } catch (error) {
@@ -318,65 +494,536 @@ router.get('/:id/balances', studentIdValidation, async (req, res, next) => {
   }
 });
 
-// Enroll student in class
-router.post('/:id/enroll/:classId', [studentIdValidation, param('classId').isUUID()], async (req, res, next) => {
+// Move remaining credits from one of the student's classes to another class, or to a
+// sibling (same family). Optionally converts the number of classes by price.
+router.post('/:id/credit-transfers', authorize('students', 'transfer_credits'), [...studentIdValidation, ...creditTransferValidation], async (req, res, next) => {
+  const client = await getClient();
+
   try {
+    await client.query('BEGIN');
+
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
+      await client.query('ROLLBACK');
       return res.status(400).json({ success: false, errors: errors.array() });
     }
 
-    const { id, classId } = req.params;
+    const { id } = req.params;
+    const { from_class_id, to_class_id, to_student_id, classes, adjust_for_price = false, notes } = req.body;
+
+    const student = await client.query('SELECT id FROM students WHERE id = $1', [id]);
+    if (student.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({
+        success: false,
+        error: { message: 'Student not found' }
+      });
+    }
+
+    const result = await transferCredits(client, {
+      studentId: id,
+      fromClassId: from_class_id,
+      toClassId: to_class_id || from_class_id,
+      toStudentId: to_student_id || id,
+      classes: Number(classes),
+      adjustForPrice: adjust_for_price === true || adjust_for_price === 'true',
+      notes: notes || null,
+      userId: req.user?.id ?? null
+    }, auditContext(req));
+
+    if (!result.success) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        error: { message: result.message }
+      });
+    }
+
+    await client.query('COMMIT');
+
+    const { success, ...transfer } = result;
+
+    res.status(201).json({
+      success: true,
+      data: transfer,
+      message: `${transfer.classes_out} classes transferred${transfer.classes_in !== transfer.classes_out ? ` as ${transfer.classes_in}` : ''}`
+    });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    next(error);
+  } finally {
+    client.release();
+  }
+});
+
+// Get student's owed classes (attended without credit), oldest first
+router.get('/:id/overdue', authorize('students', 'view'), studentIdValidation, async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const { id } = req.params;
 
     const queryStr = `
-      INSERT INTO student_class_enrollments (student_id, class_id)
-      VALUES ($1, $2)
-      ON CONFLICT (student_id, class_id) DO UPDATE SET
-        is_active = true,
-        enrolled_at = CURRENT_TIMESTAMP
-      RETURNING id
+      SELECT
+        pd.id as deduction_id,
+        pd.occurrence_id,
+        co.occurrence_date,
+        co.start_time,
+        co.end_time,
+        c.id as class_id,
+        c.name as class_name,
+        c.subject,
+        c.price_per_class,
+        pd.classes_deducted as classes_owed,
+        pd.overdue_amount as amount_owed,
+        pd.created_at
+      FROM payment_deductions pd
+      JOIN class_occurrences co ON pd.occurrence_id = co.id
+      JOIN classes c ON pd.class_id = c.id
+      WHERE pd.student_id = $1 AND pd.payment_id IS NULL
+      ORDER BY co.occurrence_date, co.start_time
     `;
 
-    await query(queryStr, [id, classId]);
+    const result = await query(queryStr, [id]);
+
+    const totals = result.rows.reduce((acc, row) => {
+      acc.classes_owed += parseInt(row.classes_owed);
+      acc.amount_owed += parseFloat(row.amount_owed);
+      return acc;
+    }, { classes_owed: 0, amount_owed: 0 });
+
+    res.json({
+      success: true,
+      data: {
+        sessions: result.rows,
+        totals
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Dry run of credit consumption: which payment each of the student's next deductions
+// would draw from, per class, under the configured policy or the one given
+router.get('/:id/credit-plan', authorize('students', 'view'), [...studentIdValidation, ...creditPlanValidation], async (req, res, next) => {
+  const client = await getClient();
+
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const configuredPolicy = getConsumptionPolicy();
+    const policy = (req.query.policy as typeof configuredPolicy | undefined) || configuredPolicy;
+    const limit = parseInt(String(req.query.limit || 20));
+
+    const classes = await planCreditConsumption(client, req.params.id, policy, limit);
+
+    res.json({
+      success: true,
+      data: {
+        policy,
+        configured_policy: configuredPolicy,
+        classes
+      }
+    });
+  } catch (error) {
+    next(error);
+  } finally {
+    client.release();
+  }
+});
+
+// Get student's account statement for a date range
+router.get('/:id/statement', authorize('students', 'view'), [...studentIdValidation, ...statementValidation], async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const from = String(req.query.from).slice(0, 10);
+    const to = String(req.query.to).slice(0, 10);
+
+    if (from > to) {
+      return res.status(400).json({
+        success: false,
+        error: { message: 'From date must be on or before to date' }
+      });
+    }
+
+    const statement = await buildStatement(req.params.id, { from, to });
+
+    if (!statement) {
+      return res.status(404).json({
+        success: false,
+        error: { message: 'Student not found' }
+      });
+    }
+
+    return sendStatements(res, [statement], String(req.query.format || 'json'), `statement-${from}-${to}`, statement);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get student's enrollment holds, latest first
+router.get('/:id/holds', authorize('students', 'view'), studentIdValidation, async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const result = await query(`
+      SELECT
+        eh.*,
+        c.name as class_name,
+        school_today() BETWEEN eh.start_date AND eh.end_date as is_current,
+        u.name as created_by_name
+      FROM enrollment_holds eh
+      LEFT JOIN classes c ON eh.class_id = c.id
+      LEFT JOIN users u ON eh.created_by = u.id
+      WHERE eh.student_id = $1
+      ORDER BY eh.start_date DESC
+    `, [req.params.id]);
+
+    res.json({
+      success: true,
+      data: result.rows
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get student's make-up credits (from excused absences), newest first
+router.get('/:id/make-up-credits', authorize('students', 'view'), studentIdValidation, async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const result = await query(`
+      SELECT
+        muc.*,
+        c.name as class_name,
+        source.occurrence_date as missed_date,
+        used.occurrence_date as used_date,
+        used_class.name as used_class_name,
+        muc.status = 'available' AND muc.expires_at < school_today() as is_expired
+      FROM make_up_credits muc
+      LEFT JOIN classes c ON muc.class_id = c.id
+      JOIN class_occurrences source ON muc.source_occurrence_id = source.id
+      LEFT JOIN class_occurrences used ON muc.used_occurrence_id = used.id
+      LEFT JOIN classes used_class ON used.class_id = used_class.id
+      WHERE muc.student_id = $1
+      ORDER BY source.occurrence_date DESC
+    `, [req.params.id]);
+
+    res.json({
+      success: true,
+      data: result.rows
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Check a hold's dates and, for a single class, that the student is enrolled in it
+async function checkHold(studentId: string, body: any): Promise<string | null> {
+  if (String(body.start_date).slice(0, 10) > String(body.end_date).slice(0, 10)) {
+    return 'End date must be on or after start date';
+  }
+
+  if (body.class_id) {
+    const enrollment = await query(
+      'SELECT id FROM student_class_enrollments WHERE student_id = $1 AND class_id = $2',
+      [studentId, body.class_id]
+    );
+    if (enrollment.rows.length === 0) {
+      return 'Student is not enrolled in that class';
+    }
+  }
+
+  return null;
+}
+
+// Put a student on hold (leave of absence) for one class, or all of them when no
+// class is given. Occurrences within the dates exclude the student instead of
+// deducting a credit; occurrences already taken are not changed.
+router.post('/:id/holds', authorize('students', 'holds'), [...studentIdValidation, ...holdValidation], async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const { id } = req.params;
+    const { class_id, start_date, end_date, reason } = req.body;
+
+    const student = await query('SELECT id FROM students WHERE id = $1', [id]);
+    if (student.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: { message: 'Student not found' }
+      });
+    }
+
+    const problem = await checkHold(id, req.body);
+    if (problem) {
+      return res.status(400).json({
+        success: false,
+        error: { message: problem }
+      });
+    }
+
+    const result = await query(`
+      INSERT INTO enrollment_holds (student_id, class_id, start_date, end_date, reason, created_by)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING *
+    `, [id, class_id || null, start_date, end_date, reason || null, req.user?.id ?? null]);
+
+    await recordAuditEvent(auditContext(req), {
+      action: 'hold.create',
+      entityType: 'enrollment_hold',
+      entityId: result.rows[0].id,
+      studentId: id,
+      after: result.rows[0]
+    });
+
+    res.status(201).json({
+      success: true,
+      data: result.rows[0],
+      message: 'Hold added successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Change a hold, e.g. end it early when the student comes back
+router.put('/:id/holds/:holdId', authorize('students', 'holds'), [...studentIdValidation, ...holdIdValidation, ...holdValidation], async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const { id, holdId } = req.params;
+    const { class_id, start_date, end_date, reason } = req.body;
+
+    const existing = await query('SELECT * FROM enrollment_holds WHERE id = $1 AND student_id = $2', [holdId, id]);
+    if (existing.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: { message: 'Hold not found' }
+      });
+    }
+
+    const problem = await checkHold(id, req.body);
+    if (problem) {
+      return res.status(400).json({
+        success: false,
+        error: { message: problem }
+      });
+    }
+
+    const result = await query(`
+      UPDATE enrollment_holds
+      SET class_id = $1, start_date = $2, end_date = $3, reason = $4
+      WHERE id = $5
+      RETURNING *
+    `, [class_id || null, start_date, end_date, reason || null, holdId]);
+
+    await recordAuditEvent(auditContext(req), {
+      action: 'hold.update',
+      entityType: 'enrollment_hold',
+      entityId: holdId,
+      studentId: id,
+      before: existing.rows[0],
+      after: result.rows[0]
+    });
+
+    res.json({
+      success: true,
+      data: result.rows[0],
+      message: 'Hold updated successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Remove a hold
+router.delete('/:id/holds/:holdId', authorize('students', 'holds'), [...studentIdValidation, ...holdIdValidation], async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const { id, holdId } = req.params;
+
+    const result = await query('DELETE FROM enrollment_holds WHERE id = $1 AND student_id = $2 RETURNING *', [holdId, id]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: { message: 'Hold not found' }
+      });
+    }
+
+    await recordAuditEvent(auditContext(req), {
+      action: 'hold.delete',
+      entityType: 'enrollment_hold',
+      entityId: holdId,
+      studentId: id,
+      before: result.rows[0]
+    });
+
+    res.json({
+      success: true,
+      message: 'Hold removed successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Enroll student in class, starting a new enrollment period (today unless
+// start_date is given). Earlier periods are kept as the student's history. A class at
+// max_students puts the student on its waitlist instead.
+router.post('/:id/enroll/:classId', authorize('students', 'enroll'), [...studentIdValidation, ...enrollValidation], async (req, res, next) => {
+  const client = await getClient();
+
+  try {
+    await client.query('BEGIN');
+
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const { id, classId } = req.params;
+
+    const result = await enrollStudent(client, id, classId, req.body?.start_date || null, auditContext(req), req.user?.id ?? null);
+
+    if (!result.success) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        error: { message: result.message }
+      });
+    }
+
+    await client.query('COMMIT');
+
+    if (result.waitlisted) {
+      return res.status(201).json({
+        success: true,
+        data: { waitlisted: true, waitlist_entry: result.entry },
+        message: `Class is full; student added to the waitlist at position ${result.entry.position}`
+      });
+    }
+
     console.log('Student enrolled in class successfully', id, classId);
 
     res.status(201).json({
       success: true,
+      data: { waitlisted: false, enrollment: result.enrollment },
       message: 'Student enrolled in class successfully'
     });
   } catch (error) {
+    await client.query('ROLLBACK');
     next(error);
+  } finally {
+    client.release();
   }
 });
 
-// Unenroll student from class
-router.delete('/:id/unenroll/:classId', [studentIdValidation, param('classId').isUUID()], async (req, res, next) => {
+// Unenroll student from class by ending the open enrollment period. end_date is the
+// first day the student is no longer enrolled (today unless given; it cannot be later).
+// The freed seat goes to the first student on the class's waitlist.
+router.delete('/:id/unenroll/:classId', authorize('students', 'enroll'), [...studentIdValidation, ...unenrollValidation], async (req, res, next) => {
+  const client = await getClient();
+
   try {
+    await client.query('BEGIN');
+
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
+      await client.query('ROLLBACK');
       return res.status(400).json({ success: false, errors: errors.array() });
     }
 
     const { id, classId } = req.params;
+    const endDate = req.body?.end_date || null;
 
-    const result = await query(
-      'UPDATE student_class_enrollments SET is_active = false WHERE student_id = $1 AND class_id = $2 RETURNING id',
-      [id, classId]
-    );
+    const existing = await client.query(`
+      SELECT
+        *,
+        start_date > COALESCE($3::date, school_today()) as ends_before_start,
+        COALESCE($3::date, school_today()) > school_today() as ends_in_future
+      FROM student_class_enrollments
+      WHERE student_id = $1 AND class_id = $2 AND end_date IS NULL
+    `, [id, classId, endDate]);
 
-    if (result.rows.length === 0) {
+    if (existing.rows.length === 0) {
+      await client.query('ROLLBACK');
       return res.status(404).json({
         success: false,
         error: { message: 'Enrollment not found' }
       });
     }
 
+    const { ends_before_start, ends_in_future, ...before } = existing.rows[0];
+
+    if (ends_before_start || ends_in_future) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        error: { message: ends_in_future ? 'End date cannot be in the future' : 'End date cannot be before the enrollment started' }
+      });
+    }
+
+    const result = await client.query(`
+      UPDATE student_class_enrollments
+      SET end_date = COALESCE($2::date, school_today()), end_reason = $3
+      WHERE id = $1
+      RETURNING *
+    `, [before.id, endDate, req.body?.end_reason || null]);
+
+    await recordAuditEvent(auditContext(req), {
+      action: 'enrollment.unenroll',
+      entityType: 'student_class_enrollment',
+      entityId: result.rows[0].id,
+      studentId: id,
+      before,
+      after: result.rows[0]
+    }, client);
+
+    const promoted = await promoteFromWaitlist(client, classId, auditContext(req));
+
+    await client.query('COMMIT');
+
     res.json({
       success: true,
-      message: 'Student unenrolled from class successfully'
+      data: { enrollment: result.rows[0], promoted },
+      message: `Student unenrolled from class successfully${promoted.length > 0 ? `; ${promoted.length} student${promoted.length === 1 ? '' : 's'} enrolled from the waitlist` : ''}`
     });
   } catch (error) {
+    await client.query('ROLLBACK');
     next(error);
+  } finally {
+    client.release();
   }
 });
 
@@ -0,0 +1,160 @@
+import express from 'express';
+import bcrypt from 'bcryptjs';
+import { body, param, validationResult } from 'express-validator';
+import { query } from '../config/database';
+import { ROLES } from '../config/permissions';
+import { authorize } from '../middleware/auth';
+
+const router = express.Router();
+
+// Validation rules
+const userValidation = [
+  body('email').trim().toLowerCase().isEmail().withMessage('Please provide a valid email'),
+  body('name').trim().isLength({ min: 1, max: 100 }).withMessage('Name must be between 1 and 100 characters'),
+  body('role').isIn(ROLES).withMessage(`Role must be one of: ${ROLES.join(', ')}`),
+  body('is_active').optional().isBoolean()
+];
+
+const userIdValidation = [
+  param('id').isUUID().withMessage('Invalid user ID format')
+];
+
+// Get all staff users (optionally only one role, e.g. teachers for the class form)
+router.get('/', authorize('users', 'view'), async (req, res, next) => {
+  try {
+    const { role, include_inactive = false } = req.query;
+
+    let whereClause = 'WHERE 1=1';
+    const params: any[] = [];
+
+    if (role) {
+      params.push(role);
+      whereClause += ` AND role = $${params.length}`;
+    }
+
+    if (!include_inactive) {
+      whereClause += ' AND is_active = true';
+    }
+
+    const result = await query(`
+      SELECT id, email, name, role, is_active, last_login_at, created_at, updated_at
+      FROM users
+      ${whereClause}
+      ORDER BY name
+    `, params);
+
+    res.json({
+      success: true,
+      data: result.rows
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Create new staff user
+router.post('/', authorize('users', 'manage'), [
+  ...userValidation,
+  body('password').isLength({ min: 8 }).withMessage('Password must be at least 8 characters')
+], async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const { email, name, role, password } = req.body;
+
+    const existing = await query('SELECT id FROM users WHERE email = $1', [email]);
+    if (existing.rows.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: { message: 'A user with this email already exists' }
+      });
+    }
+
+    const passwordHash = await bcrypt.hash(password, 12);
+
+    const result = await query(`
+      INSERT INTO users (email, password_hash, name, role)
+      VALUES ($1, $2, $3, $4)
+      RETURNING id, email, name, role, is_active, created_at, updated_at
+    `, [email, passwordHash, name, role]);
+
+    res.status(201).json({
+      success: true,
+      data: result.rows[0],
+      message: 'User created successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Update staff user (password is only changed when provided)
+router.put('/:id', authorize('users', 'manage'), [
+  ...userIdValidation,
+  ...userValidation,
+  body('password').optional({ checkFalsy: true }).isLength({ min: 8 }).withMessage('Password must be at least 8 characters')
+], async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const { id } = req.params;
+    const { email, name, role, password, is_active = true } = req.body;
+
+    // Owners cannot lock themselves out
+    if (id === req.user!.id && (role !== req.user!.role || !is_active)) {
+      return res.status(400).json({
+        success: false,
+        error: { message: 'You cannot change your own role or deactivate yourself' }
+      });
+    }
+
+    const existing = await query('SELECT id FROM users WHERE email = $1 AND id != $2', [email, id]);
+    if (existing.rows.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: { message: 'A user with this email already exists' }
+      });
+    }
+
+    const passwordHash = password ? await bcrypt.hash(password, 12) : null;
+
+    const result = await query(`
+      UPDATE users
+      SET email = $1, name = $2, role = $3, is_active = $4,
+          password_hash = COALESCE($5, password_hash)
+      WHERE id = $6
+      RETURNING id, email, name, role, is_active, created_at, updated_at
+    `, [email, name, role, is_active, passwordHash, id]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: { message: 'User not found' }
+      });
+    }
+
+    // End open sessions of deactivated users right away
+    if (!is_active) {
+      await query(
+        'UPDATE user_sessions SET revoked_at = CURRENT_TIMESTAMP WHERE user_id = $1 AND revoked_at IS NULL',
+        [id]
+      );
+    }
+
+    res.json({
+      success: true,
+      data: result.rows[0],
+      message: 'User updated successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
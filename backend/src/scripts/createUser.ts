@@ -0,0 +1,42 @@
+import 'dotenv/config';
+import bcrypt from 'bcryptjs';
+import pool, { query } from '../config/database';
+import { ROLES } from '../config/permissions';
+
+// Create (or reset the password of) a staff login.
+// Usage: npm run create-user -- <email> <password> <name> [role]
+async function createUser() {
+  const [email, password, name, role = 'owner'] = process.argv.slice(2);
+
+  if (!email || !password || !name) {
+    console.error('Usage: npm run create-user -- <email> <password> <name> [role]');
+    process.exit(1);
+  }
+
+  if (!(ROLES as readonly string[]).includes(role)) {
+    console.error(`Role must be one of: ${ROLES.join(', ')}`);
+    process.exit(1);
+  }
+
+  const passwordHash = await bcrypt.hash(password, 12);
+
+  const result = await query(`
+    INSERT INTO users (email, password_hash, name, role)
+    VALUES ($1, $2, $3, $4)
+    ON CONFLICT (email) DO UPDATE SET
+      password_hash = EXCLUDED.password_hash,
+      name = EXCLUDED.name,
+      role = EXCLUDED.role,
+      is_active = true
+    RETURNING id, email, name, role
+  `, [email.trim().toLowerCase(), passwordHash, name, role]);
+
+  console.log('✅ User saved:', result.rows[0]);
+}
+
+createUser()
+  .catch((error) => {
+    console.error('❌ Failed to create user:', error.message);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
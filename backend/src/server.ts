@@ -8,16 +8,28 @@ import dotenv from 'dotenv';
 import cron from 'node-cron';
 import { errorHandler } from './middleware/errorHandler';
 import { notFoundHandler } from './middleware/notFoundHandler';
+import { authenticate } from './middleware/auth';
+import { requestId } from './middleware/requestId';
 import { startAutomatedScheduler } from './services/automatedScheduler';
 
 // Import routes
+import authRoutes from './routes/auth';
 import studentRoutes from './routes/students';
+import familyRoutes from './routes/families';
 import classRoutes from './routes/classes';
 import paymentRoutes from './routes/payments';
 import attendanceRoutes from './routes/attendance';
 import dashboardRoutes from './routes/dashboard';
+import userRoutes from './routes/users';
+import auditRoutes from './routes/audit';
+import ledgerRoutes from './routes/ledger';
+import packageRoutes from './routes/packages';
+import discountRoutes from './routes/discounts';
+import closureRoutes from './routes/closures';
+import schedulerRoutes from './routes/scheduler';
 
-// Load environment variables
+// Load environment variables. The imports above run before this, so config/ reads
+// process.env in getters called at use time rather than in module-level constants.
 dotenv.config();
 
 const app = express();
@@ -40,6 +52,9 @@ app.use(cors({
   credentials: true,
 }));
 
+// Request id (used to group audit events)
+app.use(requestId);
+
 // Compression middleware
 app.use(compression());
 
@@ -65,11 +80,22 @@ app.get('/health', (req, res) => {
 });
 
 // API routes
-app.use('/api/students', studentRoutes);
-app.use('/api/classes', classRoutes);
-app.use('/api/payments', paymentRoutes);
-app.use('/api/attendance', attendanceRoutes);
-app.use('/api/dashboard', dashboardRoutes);
+app.use('/api/auth', authRoutes);
+
+// Everything below requires a logged in user
+app.use('/api/students', authenticate, studentRoutes);
+app.use('/api/families', authenticate, familyRoutes);
+app.use('/api/classes', authenticate, classRoutes);
+app.use('/api/payments', authenticate, paymentRoutes);
+app.use('/api/attendance', authenticate, attendanceRoutes);
+app.use('/api/dashboard', authenticate, dashboardRoutes);
+app.use('/api/users', authenticate, userRoutes);
+app.use('/api/audit', authenticate, auditRoutes);
+app.use('/api/ledger', authenticate, ledgerRoutes);
+app.use('/api/packages', authenticate, packageRoutes);
+app.use('/api/discounts', authenticate, discountRoutes);
+app.use('/api/closures', authenticate, closureRoutes);
+app.use('/api/scheduler', authenticate, schedulerRoutes);
 
 // Error handling middleware (must be last)
 app.use(notFoundHandler);
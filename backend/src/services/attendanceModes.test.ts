@@ -0,0 +1,119 @@
+import { applyAttendanceCharge, closeSession, initialAttendance } from './attendanceModes';
+import { AuditContext, recordAuditEvent } from './audit';
+import { deductClassCredit, refundClassCredit } from './balance';
+import { issueMakeUpCredit, setMakeUpAttended } from './makeUps';
+
+jest.mock('./audit', () => ({ recordAuditEvent: jest.fn() }));
+jest.mock('./balance', () => ({
+  deductClassCredit: jest.fn(async () => ({ success: true, deduction_id: 'deduction-1' })),
+  refundClassCredit: jest.fn(async () => ({ success: true }))
+}));
+jest.mock('./makeUps', () => ({
+  cancelMakeUpCredit: jest.fn(async () => ({ success: true, credit: null })),
+  issueMakeUpCredit: jest.fn(async () => null),
+  setMakeUpAttended: jest.fn(async () => ({ success: true, credit: null }))
+}));
+
+const audit: AuditContext = { actorUserId: 'user-1', actorName: 'Front Desk', requestId: 'request-1' };
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('initialAttendance', () => {
+  it('starts pending classes uncharged and the others present and charged', () => {
+    expect(initialAttendance('pending')).toEqual({ status: 'pending', charge: false });
+    expect(initialAttendance('auto_present')).toEqual({ status: 'present', charge: true });
+    expect(initialAttendance('charge_regardless')).toEqual({ status: 'present', charge: true });
+  });
+});
+
+describe('closeSession', () => {
+  it('marks the students still pending present, charges them and closes the occurrence', async () => {
+    const pending = [
+      { id: 'attendance-1', student_id: 'student-1', attendance_status: 'present' },
+      { id: 'attendance-2', student_id: 'student-2', attendance_status: 'present' }
+    ];
+    (deductClassCredit as jest.Mock)
+      .mockResolvedValueOnce({ success: true, deduction_id: 'deduction-1' })
+      .mockResolvedValueOnce({ success: false, reason: 'no_payment_available_overdue', deduction_id: 'deduction-2' });
+    const client = { query: jest.fn(async () => ({ rows: pending })) };
+
+    const charged = await closeSession(client, { id: 'occurrence-1', class_id: 'class-1' }, audit);
+
+    expect(client.query.mock.calls[0]).toEqual([expect.stringContaining("attendance_status = 'pending'"), ['occurrence-1']]);
+    expect(deductClassCredit).toHaveBeenCalledWith(client, 'student-1', 'class-1', 'occurrence-1', audit);
+    expect(deductClassCredit).toHaveBeenCalledWith(client, 'student-2', 'class-1', 'occurrence-1', audit);
+    expect(charged).toEqual([
+      { student_id: 'student-1', deduction: { success: true, deduction_id: 'deduction-1' } },
+      { student_id: 'student-2', deduction: { success: false, reason: 'no_payment_available_overdue', deduction_id: 'deduction-2' } }
+    ]);
+    expect(recordAuditEvent).toHaveBeenCalledWith(audit, expect.objectContaining({
+      action: 'attendance.close',
+      studentId: 'student-1',
+      before: { ...pending[0], attendance_status: 'pending' }
+    }), client);
+    expect(client.query).toHaveBeenLastCalledWith(expect.stringContaining('SET closed_at'), ['occurrence-1']);
+  });
+
+  it('charges nobody when every student was marked', async () => {
+    const client = { query: jest.fn(async () => ({ rows: [] })) };
+
+    const charged = await closeSession(client, { id: 'occurrence-1', class_id: 'class-1' }, audit);
+
+    expect(charged).toEqual([]);
+    expect(deductClassCredit).not.toHaveBeenCalled();
+    expect(client.query).toHaveBeenLastCalledWith(expect.stringContaining('SET closed_at'), ['occurrence-1']);
+  });
+});
+
+describe('applyAttendanceCharge', () => {
+  const client = { query: jest.fn() };
+  const occurrence = (attendance_mode: 'auto_present' | 'pending' | 'charge_regardless') =>
+    ({ id: 'occurrence-1', class_id: 'class-1', attendance_mode });
+  const attendance = (attendance_status: string, make_up_credit_id: string | null = null) =>
+    ({ student_id: 'student-1', attendance_status, make_up_credit_id });
+
+  it('charges a pending student marked present', async () => {
+    const result = await applyAttendanceCharge(client, occurrence('pending'), { attendance_status: 'pending' }, attendance('present'), audit);
+
+    expect(result).toEqual({ success: true });
+    expect(deductClassCredit).toHaveBeenCalledWith(client, 'student-1', 'class-1', 'occurrence-1', audit);
+  });
+
+  it('charges nobody for a pending student marked absent', async () => {
+    await applyAttendanceCharge(client, occurrence('pending'), { attendance_status: 'pending' }, attendance('absent'), audit);
+
+    expect(deductClassCredit).not.toHaveBeenCalled();
+    expect(refundClassCredit).not.toHaveBeenCalled();
+  });
+
+  it('refunds a present student marked absent', async () => {
+    await applyAttendanceCharge(client, occurrence('pending'), { attendance_status: 'present' }, attendance('absent'), audit);
+
+    expect(refundClassCredit).toHaveBeenCalledWith(client, 'student-1', 'occurrence-1', audit);
+  });
+
+  it('keeps charge_regardless students charged when marked absent', async () => {
+    await applyAttendanceCharge(client, occurrence('charge_regardless'), { attendance_status: 'present' }, attendance('absent'), audit);
+
+    expect(deductClassCredit).toHaveBeenCalledWith(client, 'student-1', 'class-1', 'occurrence-1', audit);
+    expect(refundClassCredit).not.toHaveBeenCalled();
+  });
+
+  it('turns an excused absence into a make-up credit, refunding it when the class was unpaid', async () => {
+    await applyAttendanceCharge(client, occurrence('auto_present'), { attendance_status: 'present' }, attendance('excused'), audit);
+
+    expect(issueMakeUpCredit).toHaveBeenCalledWith(client, 'student-1', 'occurrence-1', audit);
+    expect(refundClassCredit).toHaveBeenCalledWith(client, 'student-1', 'occurrence-1', audit);
+  });
+
+  it('uses the make-up credit of a make-up attendee instead of a class credit', async () => {
+    const makeUpAttendance = attendance('present', 'credit-1');
+
+    await applyAttendanceCharge(client, occurrence('pending'), { attendance_status: 'absent' }, makeUpAttendance, audit);
+
+    expect(setMakeUpAttended).toHaveBeenCalledWith(client, makeUpAttendance, true, audit);
+    expect(deductClassCredit).not.toHaveBeenCalled();
+  });
+});
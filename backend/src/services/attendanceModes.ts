@@ -0,0 +1,131 @@
+import { getAttendanceGraceHours } from '../config/scheduler';
+import { AuditContext, recordAuditEvent } from './audit';
+import { deductClassCredit, refundClassCredit } from './balance';
+import { cancelMakeUpCredit, issueMakeUpCredit, setMakeUpAttended } from './makeUps';
+import { schoolNow } from './schoolTime';
+
+// Attendance modes: how a class's occurrences take attendance for its enrolled students.
+//   auto_present      - everyone starts present and is charged at once; staff undo absences
+//   pending           - everyone starts pending (not recorded) and is charged when marked present,
+//                       or when the session closes ATTENDANCE_GRACE_HOURS after the class ends
+//   charge_regardless - everyone starts present and is charged, and stays charged when absent
+
+export const ATTENDANCE_MODES = ['auto_present', 'pending', 'charge_regardless'] as const;
+export type AttendanceMode = typeof ATTENDANCE_MODES[number];
+
+// The status enrolled students start with on a new occurrence, and whether they are charged right away
+export const initialAttendance = (mode: AttendanceMode) =>
+  mode === 'pending'
+    ? { status: 'pending', charge: false }
+    : { status: 'present', charge: true };
+
+// Charge or refund a student's class credit for a change in their attendance, the way the class's mode
+// takes attendance: charged when marked present, refunded when no longer present (an excused absence
+// keeps the paid class as a make-up credit), and always charged in charge_regardless classes.
+// Make-up attendees pay with their make-up credit instead.
+export async function applyAttendanceCharge(
+  client: any,
+  occurrence: { id: string; class_id: string; attendance_mode: AttendanceMode },
+  previous: { attendance_status: string } | null,
+  attendance: { student_id: string; attendance_status: string; make_up_credit_id: string | null },
+  audit: AuditContext
+): Promise<{ success: true } | { success: false; message: string }> {
+  const studentId = attendance.student_id;
+  const wasPresent = previous?.attendance_status === 'present';
+  const isPresent = attendance.attendance_status === 'present';
+  const wasExcused = previous?.attendance_status === 'excused';
+  const isExcused = attendance.attendance_status === 'excused';
+
+  if (attendance.make_up_credit_id) {
+    if (wasPresent !== isPresent) {
+      const makeUp = await setMakeUpAttended(client, attendance, isPresent, audit);
+      if (!makeUp.success) {
+        return makeUp;
+      }
+    }
+    return { success: true };
+  }
+
+  if (occurrence.attendance_mode === 'charge_regardless') {
+    // Charged whether or not the student came - only make sure the class is paid for
+    await deductClassCredit(client, studentId, occurrence.class_id, occurrence.id, audit);
+    return { success: true };
+  }
+
+  if (wasExcused && !isExcused) {
+    // No longer excused - withdraw the make-up credit, and the paid class it kept with it
+    const cancelled = await cancelMakeUpCredit(client, studentId, occurrence.id, audit);
+    if (!cancelled.success) {
+      return cancelled;
+    }
+    if (cancelled.credit && !isPresent) {
+      await refundClassCredit(client, studentId, occurrence.id, audit);
+    }
+  }
+
+  if (wasPresent && isExcused) {
+    // Excused absence - the paid class becomes a make-up credit, or is refunded if unpaid
+    const credit = await issueMakeUpCredit(client, studentId, occurrence.id, audit);
+    if (!credit) {
+      await refundClassCredit(client, studentId, occurrence.id, audit);
+    }
+  } else if (wasPresent && !isPresent) {
+    // Student was present but now is not - reverse deduction
+    await refundClassCredit(client, studentId, occurrence.id, audit);
+  } else if (!wasPresent && isPresent) {
+    // Student was not present but now is - deduct payment
+    await deductClassCredit(client, studentId, occurrence.class_id, occurrence.id, audit);
+  }
+
+  return { success: true };
+}
+
+// Occurrences with students still pending whose grace period has passed, in school time
+export async function findSessionsToClose(client: any) {
+  const now = schoolNow();
+
+  const result = await client.query(`
+    SELECT co.id, co.class_id, c.name as class_name, TO_CHAR(co.occurrence_date, 'YYYY-MM-DD') as date
+    FROM class_occurrences co
+    JOIN classes c ON co.class_id = c.id
+    WHERE co.closed_at IS NULL
+      AND EXISTS (
+        SELECT 1 FROM student_attendance sa
+        WHERE sa.class_occurrence_id = co.id AND sa.attendance_status = 'pending'
+      )
+      AND co.occurrence_date + COALESCE(co.end_time, co.start_time, '23:59') + $1 * INTERVAL '1 hour' <= $2::timestamp
+    ORDER BY co.occurrence_date, co.start_time
+  `, [getAttendanceGraceHours(), `${now.date} ${now.time}`]);
+
+  return result.rows;
+}
+
+// Close a session: students nobody marked are taken to have attended, and are charged
+export async function closeSession(client: any, occurrence: { id: string; class_id: string }, audit: AuditContext) {
+  const marked = await client.query(`
+    UPDATE student_attendance
+    SET attendance_status = 'present'
+    WHERE class_occurrence_id = $1 AND attendance_status = 'pending'
+    RETURNING *
+  `, [occurrence.id]);
+
+  const charged = [];
+  for (const attendance of marked.rows) {
+    await recordAuditEvent(audit, {
+      action: 'attendance.close',
+      entityType: 'student_attendance',
+      entityId: attendance.id,
+      studentId: attendance.student_id,
+      occurrenceId: occurrence.id,
+      before: { ...attendance, attendance_status: 'pending' },
+      after: attendance
+    }, client);
+
+    const deduction = await deductClassCredit(client, attendance.student_id, occurrence.class_id, occurrence.id, audit);
+    charged.push({ student_id: attendance.student_id, deduction });
+  }
+
+  await client.query('UPDATE class_occurrences SET closed_at = CURRENT_TIMESTAMP WHERE id = $1', [occurrence.id]);
+
+  return charged;
+}
@@ -0,0 +1,59 @@
+import { Request } from 'express';
+import { query } from '../config/database';
+
+// Who is making a change, passed down to helpers that write balance changes
+export interface AuditContext {
+  actorUserId: string | null;
+  actorName: string;
+  requestId: string | null;
+}
+
+export interface AuditEvent {
+  action: string;
+  entityType: string;
+  entityId?: string | null;
+  studentId?: string | null;
+  paymentId?: string | null;
+  occurrenceId?: string | null;
+  before?: unknown;
+  after?: unknown;
+}
+
+// Changes made by the automated scheduler have no logged in user
+export const SCHEDULER_AUDIT_CONTEXT: AuditContext = {
+  actorUserId: null,
+  actorName: 'Automated scheduler',
+  requestId: null
+};
+
+export const auditContext = (req: Request): AuditContext => ({
+  actorUserId: req.user?.id ?? null,
+  actorName: req.user?.name ?? 'Unknown',
+  requestId: req.requestId ?? null
+});
+
+// Append an event to audit_events. Pass the transaction client so the event is
+// rolled back together with the change it describes.
+export async function recordAuditEvent(context: AuditContext, event: AuditEvent, client?: any) {
+  const run = client ? client.query.bind(client) : query;
+
+  await run(`
+    INSERT INTO audit_events (
+      actor_user_id, actor_name, action, entity_type, entity_id,
+      student_id, payment_id, occurrence_id, before_data, after_data, request_id
+    )
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+  `, [
+    context.actorUserId,
+    context.actorName,
+    event.action,
+    event.entityType,
+    event.entityId ?? null,
+    event.studentId ?? null,
+    event.paymentId ?? null,
+    event.occurrenceId ?? null,
+    event.before === undefined ? null : JSON.stringify(event.before),
+    event.after === undefined ? null : JSON.stringify(event.after),
+    context.requestId
+  ]);
+}
@@ -0,0 +1,161 @@
+import { getClient, query } from '../config/database';
+import { testScheduler } from './automatedScheduler';
+import { schoolNow } from './schoolTime';
+
+jest.mock('../config/database', () => ({ getClient: jest.fn(), query: jest.fn() }));
+jest.mock('./schoolTime', () => ({ ...jest.requireActual('./schoolTime'), schoolNow: jest.fn() }));
+jest.mock('./holds', () => ({ excludeHeldStudents: jest.fn(async () => []) }));
+jest.mock('./attendanceModes', () => ({
+  ...jest.requireActual('./attendanceModes'),
+  findSessionsToClose: jest.fn(async () => [])
+}));
+
+const schedule = {
+  id: 'schedule-1',
+  class_id: 'class-1',
+  class_name: 'Algebra',
+  start_time: '09:00',
+  duration_minutes: 60,
+  attendance_mode: 'auto_present'
+};
+
+// A scheduler database with one class scheduled every day, where the class fails on the given dates
+function fakeDatabase(watermark: { date: string; time: string; retry_from: string | null } | null, failingDates: string[] = []) {
+  const occurrences = new Set<string>();
+  const saved: { watermarks: any[][]; backfills: any[][] } = { watermarks: [], backfills: [] };
+
+  const client = {
+    release: jest.fn(),
+    query: jest.fn(async (sql: string, params: any[] = []) => {
+      if (sql.includes('pg_try_advisory_xact_lock')) {
+        return { rows: [{ locked: true }] };
+      }
+      if (sql.includes('FROM scheduler_state')) {
+        return { rows: watermark ? [watermark] : [] };
+      }
+      if (sql.includes('INSERT INTO scheduler_state')) {
+        saved.watermarks.push(params);
+        return { rows: [] };
+      }
+      if (sql.includes('FROM class_schedules')) {
+        return { rows: [schedule] };
+      }
+      if (sql.includes('SELECT id FROM class_occurrences')) {
+        if (failingDates.includes(params[2])) {
+          throw new Error('connection reset');
+        }
+        return { rows: occurrences.has(params[2]) ? [{ id: `occurrence-${params[2]}` }] : [] };
+      }
+      if (sql.includes('INSERT INTO class_occurrences')) {
+        occurrences.add(params[2]);
+        return { rows: [{ id: `occurrence-${params[2]}` }] };
+      }
+      if (sql.includes('INSERT INTO scheduler_backfills')) {
+        saved.backfills.push(params);
+        return { rows: [{ id: 'backfill-1' }] };
+      }
+      return { rows: [] };
+    })
+  };
+
+  (getClient as jest.Mock).mockResolvedValue(client);
+  return { client, occurrences, saved };
+}
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  (schoolNow as jest.Mock).mockReturnValue({ date: '2026-10-16', time: '10:00', dayOfWeek: 5 });
+  // Runs are recorded with the status they finished with
+  (query as jest.Mock).mockImplementation(async (sql: string, params: any[] = []) =>
+    ({ rows: [sql.includes('UPDATE scheduler_runs') ? { id: params[0], status: params[1] } : { id: 'run-1' }] }));
+  delete process.env.SCHEDULER_MAX_BACKFILL_DAYS;
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('scheduler watermark', () => {
+  it('moves the watermark to now once every class is processed', async () => {
+    const { occurrences, saved } = fakeDatabase({ date: '2026-10-15', time: '18:00', retry_from: null });
+
+    await testScheduler();
+
+    expect([...occurrences]).toEqual(['2026-10-15', '2026-10-16']);
+    expect(saved.watermarks).toEqual([['2026-10-16', '10:00', null]]);
+  });
+
+  it('holds the retry date at a class that failed during the backfill', async () => {
+    const { occurrences, saved } = fakeDatabase({ date: '2026-10-13', time: '18:00', retry_from: null }, ['2026-10-14']);
+
+    await testScheduler();
+
+    expect([...occurrences]).toEqual(['2026-10-13', '2026-10-15', '2026-10-16']);
+    expect(saved.watermarks).toEqual([['2026-10-16', '10:00', '2026-10-14']]);
+  });
+
+  it('retries a failed class on the next run and then clears the retry date', async () => {
+    const { occurrences, saved } = fakeDatabase({ date: '2026-10-16', time: '09:55', retry_from: '2026-10-14' });
+
+    await testScheduler();
+
+    expect(occurrences.has('2026-10-14')).toBe(true);
+    expect(saved.watermarks).toEqual([['2026-10-16', '10:00', null]]);
+    expect(saved.backfills).toHaveLength(1);
+  });
+
+  it('keeps no backfill report for a retry with nothing left to create', async () => {
+    const { occurrences, saved } = fakeDatabase({ date: '2026-10-16', time: '09:55', retry_from: '2026-10-16' });
+    occurrences.add('2026-10-16');
+
+    await testScheduler();
+
+    expect(saved.backfills).toHaveLength(0);
+    expect(saved.watermarks).toEqual([['2026-10-16', '10:00', null]]);
+  });
+
+  it('gives up on failed classes past the lookback', async () => {
+    process.env.SCHEDULER_MAX_BACKFILL_DAYS = '2';
+    const { occurrences, saved } = fakeDatabase({ date: '2026-10-16', time: '09:55', retry_from: '2026-10-10' }, ['2026-10-10']);
+
+    await testScheduler();
+
+    expect([...occurrences]).toEqual(['2026-10-14', '2026-10-15', '2026-10-16']);
+    expect(saved.watermarks).toEqual([['2026-10-16', '10:00', null]]);
+  });
+});
+
+describe('scheduler run result', () => {
+  it('reports a rolled-back run as failed', async () => {
+    const { client, saved } = fakeDatabase({ date: '2026-10-16', time: '09:55', retry_from: null });
+    client.query.mockImplementation(async (sql: string) => {
+      if (sql.includes('pg_try_advisory_xact_lock')) {
+        return { rows: [{ locked: true }] };
+      }
+      if (sql.includes('FROM scheduler_state')) {
+        throw new Error('relation "scheduler_state" does not exist');
+      }
+      return { rows: [] };
+    });
+
+    const result = await testScheduler();
+
+    expect(result).toEqual({
+      success: false,
+      reason: 'failed',
+      error: 'relation "scheduler_state" does not exist',
+      run: { id: 'run-1', status: 'failed' }
+    });
+    expect(client.query).toHaveBeenCalledWith('ROLLBACK');
+    expect(saved.watermarks).toHaveLength(0);
+  });
+
+  it('reports a run that finished with class errors as a success', async () => {
+    fakeDatabase({ date: '2026-10-16', time: '09:55', retry_from: null }, ['2026-10-16']);
+
+    const result = await testScheduler();
+
+    expect(result).toEqual({ success: true, run: { id: 'run-1', status: 'completed_with_errors' } });
+  });
+});
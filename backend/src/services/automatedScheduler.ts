@@ -1,319 +1,493 @@
 import cron from 'node-cron';
-import { getClient } from '../config/database';
+import { getClient, query } from '../config/database';
+import { getMaxBackfillDays } from '../config/scheduler';
+import { getSchoolTimezone } from '../config/school';
+import { closeSession, findSessionsToClose, initialAttendance } from './attendanceModes';
+import { SCHEDULER_AUDIT_CONTEXT } from './audit';
+import { deductClassCredit, expireCredits } from './balance';
+import { closureCovering, findClosures } from './closures';
+import { excludeHeldStudents } from './holds';
+import { addDays, addMinutes, datesBetween, dayOfWeek, schoolNow } from './schoolTime';
+
+// An occurrence the scheduler created, as kept in backfill reports
+interface CreatedOccurrence {
+  occurrence_id: string;
+  class_name: string;
+  date: string;
+  start_time: string;
+}
+
+type RunTrigger = 'startup' | 'scheduled' | 'manual';
+
+// What one scheduler run did, kept in scheduler_runs. Skip reasons are the deduction's
+// (e.g. no_payment_available_overdue), on_hold, or error.
+interface RunReport {
+  occurrences_created: number;
+  students_processed: number;
+  sessions_closed: number;
+  skipped: { student_id: string; student_name: string | null; class_name: string; date: string; reason: string }[];
+  errors: { class_name: string; date: string; student_name?: string; error: string }[];
+  // Earliest date a class failed on; not kept in the run, but retried from on the next one
+  retry_from: string | null;
+}
 
 export async function startAutomatedScheduler() {
   console.log('🚀 Starting scheduler...');
 
-  // Run immediately on startup to catch up on any missed occurrences
-  await checkAndCreateOccurrences();
+  // Run immediately on startup to catch up on any missed occurrences and expirations
+  await checkAndCreateOccurrences('startup');
+  await expireOverdueCredits();
 
   // Run every 5 minutes to check for classes that should have occurred
   const scheduledTask = cron.schedule('*/5 * * * *', async () => {
-    await checkAndCreateOccurrences();
+    await checkAndCreateOccurrences('scheduled');
   });
 
   console.log('✅ Scheduler running every 5 minutes');
 
-  // Return the scheduled task so it can be stopped if needed
-  return scheduledTask;
-}
+  // Expire credits past their expiry every night, shortly after midnight school time
+  const expirationTask = cron.schedule('5 0 * * *', async () => {
+    await expireOverdueCredits();
+  }, { timezone: getSchoolTimezone() });
 
-// Export function for manual testing
-export async function testScheduler() {
-  await checkAndCreateOccurrences();
-}
+  console.log(`✅ Credit expiration running nightly at 00:05 (${getSchoolTimezone()})`);
 
-// Helper function to get Eastern Time
-function getEasternTime() {
-  const now = new Date();
-  const etTime = new Date(now.toLocaleString("en-US", {timeZone: "America/New_York"}));
-  return etTime;
+  // Return the scheduled tasks so they can be stopped if needed
+  return { scheduledTask, expirationTask };
 }
 
-async function checkAndCreateOccurrences() {
+// Record the expiration of every credit bucket whose expiry has passed
+export async function expireOverdueCredits() {
   const client = await getClient();
 
   try {
     await client.query('BEGIN');
 
-    // Use Eastern Time for all operations
-    const etNow = getEasternTime();
-    const currentTime = etNow.toTimeString().slice(0, 5); // HH:MM format in ET
-    const today = etNow.toISOString().split('T')[0]; // YYYY-MM-DD format in ET
-    const dayOfWeek = etNow.getDay(); // 0 = Sunday, 1 = Monday, etc. in ET
-
-    // Show current UTC time for comparison
-    const utcNow = new Date();
-    const utcTime = utcNow.toTimeString().slice(0, 5);
-    const utcDate = utcNow.toISOString().split('T')[0];
-    const utcDayOfWeek = utcNow.getUTCDay();
-
-    // Find all active class schedules that should have occurred but don't have occurrences yet
-    const schedulesQuery = `
-      SELECT
-        cs.*,
-        c.name as class_name,
-        c.price_per_class,
-        c.duration_minutes,
-        c.max_students
-      FROM class_schedules cs
-      JOIN classes c ON cs.class_id = c.id
-      WHERE cs.day_of_week = $1
-        AND cs.is_active = true
-        AND cs.start_time <= $2
-    `;
-
-    const schedules = await client.query(schedulesQuery, [dayOfWeek, currentTime]);
-
-    if (schedules.rows.length > 0) {
-      console.log(`[ET] Found ${schedules.rows.length} classes for today: ${schedules.rows.map(s => s.class_name).join(', ')}`);
+    if (!(await tryJobLock(client, 'expirations'))) {
+      await client.query('ROLLBACK');
+      console.log('⏭️  Credit expiration already running on another instance');
+      return [];
     }
 
-    for (const schedule of schedules.rows) {
-      try {
-        // Check if occurrence already exists for this schedule today
-        const existingQuery = `
-          SELECT id FROM class_occurrences
-          WHERE class_id = $1
-            AND schedule_id = $2
-            AND occurrence_date = $3
-            AND start_time = $4
-        `;
-
-        const existing = await client.query(existingQuery, [
-          schedule.class_id,
-          schedule.id,
-          today,
-          schedule.start_time
-        ]);
-
-        if (existing.rows.length > 0) {
-          console.log(`⏭️  Skipping ${schedule.class_name} - occurrence already exists`);
-          continue;
-        }
+    const expired = await expireCredits(client, SCHEDULER_AUDIT_CONTEXT);
 
-        // Calculate end time using Eastern Time
-        const startTime = schedule.start_time;
-        console.log(`  Processing ${schedule.class_name}: start=${startTime}, duration=${schedule.duration_minutes || 'null'}`);
+    await client.query('COMMIT');
 
-        const [startHours, startMinutes] = startTime.split(':').map(Number);
+    if (expired.length > 0) {
+      const classes = expired.reduce((total, bucket) => total + bucket.classes, 0);
+      console.log(`⌛ Expired ${classes} unused classes across ${expired.length} credit buckets`);
+    }
 
-        // Create start time in ET using more robust method
-        const startDateTime = new Date(today);
-        startDateTime.setHours(startHours, startMinutes, 0, 0);
+    return expired;
+  } catch (error: any) {
+    await client.query('ROLLBACK');
+    console.error('❌ Credit expiration error:', error.message);
+    return [];
+  } finally {
+    client.release();
+  }
+}
 
-        // Calculate end time by adding duration in minutes
-        const durationMs = (schedule.duration_minutes || 60) * 60000; // Default to 60 minutes if null
-        const endDateTime = new Date(startDateTime.getTime() + durationMs);
+// Advisory lock so only one backend instance runs a scheduler job at a time. Taken inside the
+// job's transaction, it is released when that commits or rolls back.
+async function tryJobLock(client: any, job: string): Promise<boolean> {
+  const result = await client.query('SELECT pg_try_advisory_xact_lock(hashtext($1)) as locked', [`scheduler:${job}`]);
+  return result.rows[0].locked;
+}
 
-        console.log(`  Start datetime: ${startDateTime.toISOString()}`);
-        console.log(`  End datetime: ${endDateTime.toISOString()}`);
+// Export function for manual testing; returns the recorded run
+export async function testScheduler() {
+  return checkAndCreateOccurrences('manual');
+}
 
-        // Format end time as HH:MM
-        const endHours = endDateTime.getHours().toString().padStart(2, '0');
-        const endMinutes = endDateTime.getMinutes().toString().padStart(2, '0');
-        const endTime = `${endHours}:${endMinutes}`;
+// Create the occurrences (and attendance and deductions) for scheduled classes on a date that
+// started by a time (HH:MM), or on the whole date when no time is given
+async function createOccurrencesFor(client: any, date: string, upTo: string | null, run: RunReport) {
+  // Find all active class schedules that should have occurred but don't have occurrences yet
+  const schedulesQuery = `
+    SELECT
+      cs.*,
+      c.name as class_name,
+      c.subject,
+      c.price_per_class,
+      c.duration_minutes,
+      c.max_students,
+      c.attendance_mode
+    FROM class_schedules cs
+    JOIN classes c ON cs.class_id = c.id
+    WHERE cs.day_of_week = $1
+      AND cs.is_active = true
+      AND ($2::time IS NULL OR cs.start_time <= $2::time)
+  `;
+
+  const schedules = await client.query(schedulesQuery, [dayOfWeek(date), upTo]);
+  const closures = await findClosures(client, date, date);
+  const created: CreatedOccurrence[] = [];
+
+  if (schedules.rows.length > 0) {
+    console.log(`[${getSchoolTimezone()}] Found ${schedules.rows.length} classes for ${date}: ${schedules.rows.map((s: any) => s.class_name).join(', ')}`);
+  }
 
-        // Validate the end time
-        if (isNaN(endDateTime.getTime()) || endHours === 'NaN' || endMinutes === 'NaN') {
-          console.error(`  ❌ Invalid end time calculated for ${schedule.class_name}: ${endTime}`);
-          console.error(`     Start time: ${startTime}, Duration: ${schedule.duration_minutes}`);
-          console.error(`     Start datetime: ${startDateTime.toISOString()}, End datetime: ${endDateTime.toISOString()}`);
-          continue;
-        }
+  for (const schedule of schedules.rows) {
+    // No class on holidays and other closures
+    const closure = closureCovering(closures, schedule.class_id, schedule.subject, date);
+    if (closure) {
+      console.log(`🚫 Skipping ${schedule.class_name} - closed (${closure.name})`);
+      continue;
+    }
 
-        console.log(`  ✅ End time calculated: ${endTime}`);
-
-        // Create the occurrence
-        const occurrenceQuery = `
-          INSERT INTO class_occurrences (class_id, schedule_id, occurrence_date, start_time, end_time, is_auto_created)
-          VALUES ($1, $2, $3, $4, $5, true)
-          RETURNING *
-        `;
-
-        console.log(`  📝 Creating occurrence: ${schedule.class_name} from ${startTime} to ${endTime}`);
-
-        const occurrenceResult = await client.query(occurrenceQuery, [
-          schedule.class_id,
-          schedule.id,
-          today,
-          startTime,
-          endTime
-        ]);
-
-        const occurrence = occurrenceResult.rows[0];
-        console.log(`  ✅ Occurrence created with ID: ${occurrence.id}`);
-
-        try {
-          // Get all enrolled students for this class (excluding already processed ones)
-        const enrolledStudentsQuery = `
-          SELECT sce.student_id, s.name as student_name, s.email, s.grade
-          FROM student_class_enrollments sce
-          JOIN students s ON sce.student_id = s.id
-          WHERE sce.class_id = $1
-            AND sce.is_active = true
-            AND NOT EXISTS (
-              SELECT 1 FROM student_attendance sa
-              WHERE sa.student_id = sce.student_id
-                AND sa.class_occurrence_id = $2
-            )
-          ORDER BY s.name
-        `;
-
-        const enrolledStudents = await client.query(enrolledStudentsQuery, [schedule.class_id, occurrence.id]);
-
-        let processedCount = 0;
-        let skippedCount = 0;
-
-        // Create attendance records and deduct payments for each student
-        for (const student of enrolledStudents.rows) {
-          try {
-                // Create attendance record as 'present' by default
-            await client.query(`
-              INSERT INTO student_attendance (student_id, class_occurrence_id, attendance_status)
-              VALUES ($1, $2, 'present')
-            `, [student.student_id, occurrence.id]);
-
-            // Deduct payment balance (includes overdue logic)
-            const deductionResult = await deductPaymentBalance(client, student.student_id, schedule.class_id, occurrence.id);
-
-            if (deductionResult.success) {
-              processedCount++;
-            } else {
-              skippedCount++;
-            }
-
-          } catch (studentError: any) {
-            skippedCount++;
-          }
-        }
+    // Each class is processed in its own savepoint, so a failing class is rolled back (and retried
+    // on the next run) without losing the others
+    await client.query('SAVEPOINT schedule');
 
-        if (processedCount > 0) {
-          console.log(`✅ ${schedule.class_name}: ${processedCount} students processed${skippedCount > 0 ? `, ${skippedCount} skipped` : ''}`);
-        }
-        } catch (studentProcessingError: any) {
-          console.error(`❌ Error processing students for ${schedule.class_name}:`, studentProcessingError.message);
-        }
+    try {
+      const occurrence = await createScheduledOccurrence(client, schedule, date);
+      await client.query('RELEASE SAVEPOINT schedule');
 
-      } catch (scheduleError: any) {
-        console.error(`❌ ${schedule.class_name}:`, scheduleError.message);
+      if (occurrence) {
+        created.push({ occurrence_id: occurrence.id, class_name: schedule.class_name, date, start_time: occurrence.start_time });
+        run.occurrences_created++;
+        run.students_processed += occurrence.processed;
+        run.skipped.push(...occurrence.skipped);
+        run.errors.push(...occurrence.errors);
+      }
+    } catch (scheduleError: any) {
+      await client.query('ROLLBACK TO SAVEPOINT schedule');
+      console.error(`❌ ${schedule.class_name}:`, scheduleError.message);
+      run.errors.push({ class_name: schedule.class_name, date, error: scheduleError.message });
+      if (!run.retry_from || date < run.retry_from) {
+        run.retry_from = date;
       }
     }
+  }
 
-    await client.query('COMMIT');
-    console.log('✅ Scheduler completed');
+  return created;
+}
 
-  } catch (error: any) {
-    await client.query('ROLLBACK');
-    console.error('❌ Scheduler error:', error.message);
-  } finally {
-    client.release();
+// Create one scheduled class's occurrence on a date, marking its enrolled students present and
+// deducting their credits. Returns null when there is nothing to create.
+async function createScheduledOccurrence(client: any, schedule: any, date: string) {
+  // Check if occurrence already exists for this schedule on the date
+  const existingQuery = `
+    SELECT id FROM class_occurrences
+    WHERE class_id = $1
+      AND schedule_id = $2
+      AND occurrence_date = $3
+      AND start_time = $4
+  `;
+
+  const existing = await client.query(existingQuery, [
+    schedule.class_id,
+    schedule.id,
+    date,
+    schedule.start_time
+  ]);
+
+  if (existing.rows.length > 0) {
+    console.log(`⏭️  Skipping ${schedule.class_name} - occurrence already exists`);
+    return null;
   }
-}
 
-// Helper function to deduct payment balance for a student (includes overdue logic)
-async function deductPaymentBalance(client: any, studentId: string, classId: string, occurrenceId: string) {
-  try {
-    // Check if deduction already exists for this occurrence to prevent double deduction
-    const existingDeduction = await client.query(
-      'SELECT id FROM payment_deductions WHERE student_id = $1 AND occurrence_id = $2',
-      [studentId, occurrenceId]
-    );
-
-    if (existingDeduction.rows.length > 0) {
-      return { success: false, reason: 'already_exists' };
-    }
+  // End time is wall-clock time, so a DST change that day doesn't shift it
+  const startTime = schedule.start_time;
+  console.log(`  Processing ${schedule.class_name}: start=${startTime}, duration=${schedule.duration_minutes || 'null'}`);
 
-    // Find available payment for this student and class
-    const paymentQuery = `
-      SELECT
-        p.id,
-        p.classes_remaining,
-        pca.classes_allocated,
-        (pca.classes_allocated - COALESCE(used.classes_used, 0)) as available_classes,
-        p.payment_date,
-        c.price_per_class
-      FROM payments p
-      JOIN payment_class_allocations pca ON p.id = pca.payment_id
-      JOIN classes c ON c.id = pca.class_id
-      LEFT JOIN (
-        SELECT pd.payment_id, SUM(pd.classes_deducted) as classes_used
-        FROM payment_deductions pd
-        WHERE pd.student_id = $1 AND pd.class_id = $2
-        GROUP BY pd.payment_id
-      ) used ON p.id = used.payment_id
-      WHERE p.student_id = $1
-        AND pca.class_id = $2
-        AND p.classes_remaining > 0
-        AND (pca.classes_allocated - COALESCE(used.classes_used, 0)) > 0
-      ORDER BY p.payment_date DESC
-      LIMIT 1
-    `;
-
-    const paymentResult = await client.query(paymentQuery, [studentId, classId]);
-
-    if (paymentResult.rows.length === 0) {
-      // No payment available - mark occurrence as overdue for this student
-      await client.query(`
-        UPDATE class_occurrences
-        SET is_overdue = true
-        WHERE id = $1
-      `, [occurrenceId]);
+  const endTime = addMinutes(startTime, schedule.duration_minutes || 60); // Default to 60 minutes if null
 
-      return { success: false, reason: 'no_payment_available_overdue' };
-    }
+  if (endTime.includes('NaN')) {
+    console.error(`  ❌ Invalid end time calculated for ${schedule.class_name}: ${endTime}`);
+    console.error(`     Start time: ${startTime}, Duration: ${schedule.duration_minutes}`);
+    return null;
+  }
+
+  console.log(`  ✅ End time calculated: ${endTime}`);
+
+  // Create the occurrence
+  const occurrenceQuery = `
+    INSERT INTO class_occurrences (class_id, schedule_id, occurrence_date, start_time, end_time, is_auto_created)
+    VALUES ($1, $2, $3, $4, $5, true)
+    RETURNING *
+  `;
 
-    const payment = paymentResult.rows[0];
-    const classPrice = parseFloat(payment.price_per_class || '0');
+  console.log(`  📝 Creating occurrence: ${schedule.class_name} from ${startTime} to ${endTime}`);
 
-    // Double-check that we have classes remaining in this payment
-    if (payment.classes_remaining <= 0) {
-      // Mark as overdue
+  const occurrenceResult = await client.query(occurrenceQuery, [
+    schedule.class_id,
+    schedule.id,
+    date,
+    startTime,
+    endTime
+  ]);
+
+  const occurrence = occurrenceResult.rows[0];
+  console.log(`  ✅ Occurrence created with ID: ${occurrence.id}`);
+
+  const skipped: RunReport['skipped'] = [];
+  const errors: RunReport['errors'] = [];
+  let processed = 0;
+
+  // Students on hold are excluded rather than marked present
+  const held = await excludeHeldStudents(client, occurrence.id, SCHEDULER_AUDIT_CONTEXT);
+  if (held.length > 0) {
+    console.log(`  ⏸️  ${held.length} students on hold excluded`);
+  }
+  for (const exclusion of held) {
+    skipped.push({ student_id: exclusion.student_id, student_name: null, class_name: schedule.class_name, date, reason: 'on_hold' });
+  }
+
+  // Get all students enrolled in this class on the date (excluding already processed and excluded ones)
+  const enrolledStudentsQuery = `
+    SELECT sce.student_id, s.name as student_name, s.email, s.grade
+    FROM student_class_enrollments sce
+    JOIN students s ON sce.student_id = s.id
+    WHERE sce.class_id = $1
+      AND sce.start_date <= $3
+      AND (sce.end_date IS NULL OR sce.end_date > $3)
+      AND NOT EXISTS (
+        SELECT 1 FROM student_attendance sa
+        WHERE sa.student_id = sce.student_id
+          AND sa.class_occurrence_id = $2
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM occurrence_exclusions oe
+        WHERE oe.student_id = sce.student_id
+          AND oe.occurrence_id = $2
+      )
+    ORDER BY s.name
+  `;
+
+  const enrolledStudents = await client.query(enrolledStudentsQuery, [schedule.class_id, occurrence.id, date]);
+
+  // Students start present and charged, or pending in classes that take attendance first
+  const attendance = initialAttendance(schedule.attendance_mode);
+
+  // Create attendance records and deduct payments for each student, each in its own savepoint
+  // so a failing student leaves the rest of the class intact
+  for (const student of enrolledStudents.rows) {
+    await client.query('SAVEPOINT student');
+
+    try {
       await client.query(`
-        UPDATE class_occurrences
-        SET is_overdue = true
-        WHERE id = $1
-      `, [occurrenceId]);
+        INSERT INTO student_attendance (student_id, class_occurrence_id, attendance_status)
+        VALUES ($1, $2, $3)
+      `, [student.student_id, occurrence.id, attendance.status]);
+
+      if (!attendance.charge) {
+        await client.query('RELEASE SAVEPOINT student');
+        continue;
+      }
+
+      // Deduct payment balance (includes overdue logic)
+      const deductionResult = await deductClassCredit(client, student.student_id, schedule.class_id, occurrence.id, SCHEDULER_AUDIT_CONTEXT);
+      await client.query('RELEASE SAVEPOINT student');
 
-      return { success: false, reason: 'no_classes_remaining_overdue' };
+      if (deductionResult.success) {
+        processed++;
+      } else {
+        skipped.push({ student_id: student.student_id, student_name: student.student_name, class_name: schedule.class_name, date, reason: deductionResult.reason });
+      }
+    } catch (studentError: any) {
+      await client.query('ROLLBACK TO SAVEPOINT student');
+      skipped.push({ student_id: student.student_id, student_name: student.student_name, class_name: schedule.class_name, date, reason: 'error' });
+      errors.push({ class_name: schedule.class_name, date, student_name: student.student_name, error: studentError.message });
     }
+  }
 
-    const availableClasses = payment.classes_allocated - (payment.available_classes || 0);
-    if (availableClasses <= 0) {
-      // Mark as overdue
-      await client.query(`
-        UPDATE class_occurrences
-        SET is_overdue = true
-        WHERE id = $1
-      `, [occurrenceId]);
+  if (!attendance.charge && enrolledStudents.rows.length > 0) {
+    console.log(`📋 ${schedule.class_name}: ${enrolledStudents.rows.length} students pending attendance`);
+  }
 
-      return { success: false, reason: 'no_allocated_classes_overdue' };
+  if (processed > 0) {
+    const skippedCount = skipped.length - held.length;
+    console.log(`✅ ${schedule.class_name}: ${processed} students processed${skippedCount > 0 ? `, ${skippedCount} skipped` : ''}`);
+  }
+
+  return { id: occurrence.id, start_time: startTime, processed, skipped, errors };
+}
+
+// Close pending-attendance sessions whose grace period has passed, charging the students
+// nobody marked; each session in its own savepoint, like the classes above
+async function closeDueSessions(client: any, run: RunReport) {
+  const sessions = await findSessionsToClose(client);
+
+  for (const session of sessions) {
+    await client.query('SAVEPOINT session');
+
+    try {
+      const charged = await closeSession(client, session, SCHEDULER_AUDIT_CONTEXT);
+      await client.query('RELEASE SAVEPOINT session');
+
+      run.sessions_closed++;
+      for (const { student_id, deduction } of charged) {
+        if (deduction.success) {
+          run.students_processed++;
+        } else {
+          run.skipped.push({ student_id, student_name: null, class_name: session.class_name, date: session.date, reason: deduction.reason });
+        }
+      }
+      console.log(`🔒 Closed ${session.class_name} on ${session.date}: ${charged.length} pending students charged`);
+    } catch (sessionError: any) {
+      await client.query('ROLLBACK TO SAVEPOINT session');
+      console.error(`❌ Closing ${session.class_name} on ${session.date}:`, sessionError.message);
+      run.errors.push({ class_name: session.class_name, date: session.date, error: sessionError.message });
     }
+  }
+}
 
-    // Create payment deduction record
-    const deductionResult = await client.query(`
-      INSERT INTO payment_deductions (student_id, class_id, occurrence_id, payment_id, classes_deducted)
-      VALUES ($1, $2, $3, $4, 1)
-      RETURNING id
-    `, [studentId, classId, occurrenceId, payment.id]);
-
-    // Update payment remaining count
-    await client.query(`
-      UPDATE payments
-      SET classes_remaining = classes_remaining - 1
-      WHERE id = $1
-    `, [payment.id]);
+// The scheduler watermark: the school date and time up to which scheduled classes have been processed,
+// and the earliest date a class failed on, which the next run goes back to
+async function getWatermark(client: any): Promise<{ date: string; time: string; retry_from: string | null } | null> {
+  const result = await client.query(`
+    SELECT
+      TO_CHAR(processed_through, 'YYYY-MM-DD') as date,
+      TO_CHAR(processed_through, 'HH24:MI') as time,
+      TO_CHAR(retry_from, 'YYYY-MM-DD') as retry_from
+    FROM scheduler_state
+    WHERE name = 'occurrences'
+  `);
+
+  return result.rows[0] || null;
+}
+
+async function setWatermark(client: any, date: string, time: string, retryFrom: string | null) {
+  await client.query(`
+    INSERT INTO scheduler_state (name, processed_through, retry_from)
+    VALUES ('occurrences', $1::date + $2::time, $3)
+    ON CONFLICT (name) DO UPDATE SET processed_through = EXCLUDED.processed_through, retry_from = EXCLUDED.retry_from
+  `, [date, time, retryFrom]);
+}
+
+// Catch up on the dates from the watermark's (or the earlier retry date) up to yesterday, as far back
+// as the lookback allows, and keep a report of what was created. Returns the report's id, if one was kept.
+async function backfillMissedDays(client: any, watermarkDate: string, retryFrom: string | null, today: string, run: RunReport): Promise<string | null> {
+  const firstMissed = retryFrom && retryFrom < watermarkDate ? retryFrom : watermarkDate;
+  const lastMissed = addDays(today, -1);
+  const earliest = addDays(today, -getMaxBackfillDays());
+  const dates = datesBetween(firstMissed < earliest ? earliest : firstMissed, lastMissed);
+
+  const created: CreatedOccurrence[] = [];
+  for (const date of dates) {
+    created.push(...await createOccurrencesFor(client, date, null, run));
+  }
+
+  // Finishing the watermark's own day, or retrying failed classes, with nothing left to create is
+  // routine, not a catch-up
+  if (created.length === 0 && watermarkDate >= lastMissed) {
+    return null;
+  }
+
+  const backfilledFrom = dates[0] ?? null;
+  const backfill = await client.query(`
+    INSERT INTO scheduler_backfills (from_date, to_date, backfilled_from, occurrences_created, occurrences)
+    VALUES ($1, $2, $3, $4, $5)
+    RETURNING id
+  `, [firstMissed, lastMissed, backfilledFrom, created.length, JSON.stringify(created)]);
+
+  console.log(`⏪ Missed ${firstMissed} to ${lastMissed}: backfilled ${created.length} occurrences${backfilledFrom === firstMissed ? '' : ` (${backfilledFrom ? `from ${backfilledFrom}, ` : ''}past the ${getMaxBackfillDays()}-day lookback)`}`);
+  return backfill.rows[0].id;
+}
+
+// Runs are recorded outside the run's own transaction, so failed and rolled-back runs are kept too
+async function startRun(trigger: RunTrigger): Promise<string | null> {
+  try {
+    const result = await query('INSERT INTO scheduler_runs (triggered_by) VALUES ($1) RETURNING id', [trigger]);
+    return result.rows[0].id;
+  } catch (error: any) {
+    console.error('❌ Failed to record scheduler run:', error.message);
+    return null;
+  }
+}
+
+async function finishRun(runId: string | null, run: RunReport, backfillId: string | null, failure: string | null) {
+  if (!runId) {
+    return null;
+  }
 
-    // Remove overdue status if it was set
-    await client.query(`
-      UPDATE class_occurrences
-      SET is_overdue = false
+  const status = failure ? 'failed' : run.errors.length > 0 ? 'completed_with_errors' : 'succeeded';
+
+  try {
+    const result = await query(`
+      UPDATE scheduler_runs
+      SET status = $2, finished_at = CURRENT_TIMESTAMP, backfill_id = $3,
+          occurrences_created = $4, students_processed = $5, students_skipped = $6,
+          skipped = $7, errors = $8, error_message = $9, sessions_closed = $10
       WHERE id = $1
-    `, [occurrenceId]);
+      RETURNING *
+    `, [
+      runId,
+      status,
+      backfillId,
+      run.occurrences_created,
+      run.students_processed,
+      run.skipped.length,
+      JSON.stringify(run.skipped),
+      JSON.stringify(run.errors),
+      failure,
+      run.sessions_closed
+    ]);
+    return result.rows[0];
+  } catch (error: any) {
+    console.error('❌ Failed to record scheduler run:', error.message);
+    return null;
+  }
+}
+
+async function checkAndCreateOccurrences(trigger: RunTrigger): Promise<
+  | { success: true; run: any }
+  | { success: false; reason: 'already_running' }
+  | { success: false; reason: 'failed'; error: string; run: any }
+> {
+  const run: RunReport = { occurrences_created: 0, students_processed: 0, sessions_closed: 0, skipped: [], errors: [], retry_from: null };
+  let runId: string | null = null;
+  let backfillId: string | null = null;
+  let failure: string | null = null;
+
+  const client = await getClient();
+
+  try {
+    await client.query('BEGIN');
+
+    // Another instance holding the lock is already creating these occurrences
+    if (!(await tryJobLock(client, 'occurrences'))) {
+      await client.query('ROLLBACK');
+      console.log('⏭️  Scheduler already running on another instance');
+      return { success: false, reason: 'already_running' };
+    }
+
+    runId = await startRun(trigger);
 
-    return { success: true, payment_id: payment.id, deduction_id: deductionResult.rows[0].id };
+    // Class dates and times are in the school's timezone
+    const now = schoolNow();
+    const watermark = await getWatermark(client);
+
+    // Days missed while the server was down, including the rest of the watermark's own day, and
+    // earlier days with classes that failed
+    if (watermark && (watermark.date < now.date || (watermark.retry_from && watermark.retry_from < now.date))) {
+      backfillId = await backfillMissedDays(client, watermark.date, watermark.retry_from, now.date, run);
+    }
+
+    await createOccurrencesFor(client, now.date, now.time, run);
+    await closeDueSessions(client, run);
+    // Classes that failed this run are retried from their date on the next one, until they are past the lookback
+    await setWatermark(client, now.date, now.time, run.retry_from);
+
+    await client.query('COMMIT');
+    console.log('✅ Scheduler completed');
 
   } catch (error: any) {
-    return { success: false, reason: 'error', error: error.message };
+    await client.query('ROLLBACK');
+    console.error('❌ Scheduler error:', error.message);
+    failure = error.message;
+    // Nothing from a rolled-back run was kept
+    backfillId = null;
+  } finally {
+    client.release();
   }
+
+  const recorded = await finishRun(runId, run, backfillId, failure);
+  if (failure) {
+    return { success: false, reason: 'failed', error: failure, run: recorded };
+  }
+
+  return { success: true, run: recorded };
 }
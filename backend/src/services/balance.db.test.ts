@@ -0,0 +1,160 @@
+import { PGlite } from '@electric-sql/pglite';
+import { buyClasses } from '../test/fixtures';
+import { createSchemaDatabase, insertRow } from '../test/schemaDatabase';
+import { AuditContext } from './audit';
+import { clawBackUnusedCredits, deductClassCredit, expireCredits, findCreditSources, settleOwedClasses } from './balance';
+
+jest.mock('../config/database', () => ({ query: jest.fn() }));
+
+// The balance service against the real schema, so its SQL runs through the tables' triggers and constraints
+
+const audit: AuditContext = { actorUserId: null, actorName: 'Test', requestId: null };
+
+let db: PGlite;
+
+beforeAll(async () => {
+  db = await createSchemaDatabase();
+});
+
+afterAll(async () => {
+  await db.close();
+});
+
+// Every test's rows are rolled back after it
+beforeEach(async () => {
+  await db.query('BEGIN');
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterEach(async () => {
+  await db.query('ROLLBACK');
+  jest.restoreAllMocks();
+});
+
+const addOccurrence = (classId: string, date: string) =>
+  insertRow(db, 'class_occurrences', { class_id: classId, occurrence_date: date, start_time: '09:00' });
+
+const classesRemaining = async (paymentId: string) =>
+  (await db.query<{ classes_remaining: number }>('SELECT classes_remaining FROM payments WHERE id = $1', [paymentId])).rows[0]!.classes_remaining;
+
+describe('owed classes', () => {
+  it('settles owed classes, oldest first, from a later payment', async () => {
+    const student = await insertRow(db, 'students', { name: 'Ada' });
+    const algebra = await insertRow(db, 'classes', { name: 'Algebra', price_per_class: 25 });
+    const first = await addOccurrence(algebra.id, '2026-10-01');
+    const second = await addOccurrence(algebra.id, '2026-10-08');
+
+    const owed = await deductClassCredit(db, student.id, algebra.id, first.id, audit);
+    await deductClassCredit(db, student.id, algebra.id, second.id, audit);
+    expect(owed).toMatchObject({ success: false, reason: 'no_payment_available_overdue' });
+
+    const payment = await buyClasses(db, student.id, algebra.id, 1);
+    const settled = await settleOwedClasses(db, student.id, payment.id, algebra.id, audit);
+
+    expect(settled).toBe(1);
+    expect(await classesRemaining(payment.id)).toBe(0);
+    const deductions = await db.query<{ occurrence_id: string; payment_id: string | null }>(
+      'SELECT occurrence_id, payment_id FROM payment_deductions WHERE student_id = $1 ORDER BY occurrence_id = $2 DESC',
+      [student.id, first.id]
+    );
+    expect(deductions.rows).toEqual([
+      { occurrence_id: first.id, payment_id: payment.id },
+      { occurrence_id: second.id, payment_id: null }
+    ]);
+  });
+
+  it('deducts from a payment once the student has credits', async () => {
+    const student = await insertRow(db, 'students', { name: 'Ada' });
+    const algebra = await insertRow(db, 'classes', { name: 'Algebra', price_per_class: 25 });
+    const occurrence = await addOccurrence(algebra.id, '2026-10-01');
+    const payment = await buyClasses(db, student.id, algebra.id, 4);
+
+    const result = await deductClassCredit(db, student.id, algebra.id, occurrence.id, audit);
+
+    expect(result).toMatchObject({ success: true, payment_id: payment.id });
+    expect(await classesRemaining(payment.id)).toBe(3);
+    expect(await deductClassCredit(db, student.id, algebra.id, occurrence.id, audit)).toEqual({ success: false, reason: 'already_exists' });
+  });
+});
+
+describe('refund claw-back', () => {
+  it('shrinks an allocation when a partial refund takes some of its credits', async () => {
+    const student = await insertRow(db, 'students', { name: 'Ada' });
+    const algebra = await insertRow(db, 'classes', { name: 'Algebra', price_per_class: 25 });
+    const payment = await buyClasses(db, student.id, algebra.id, 4);
+
+    const clawedBack = await clawBackUnusedCredits(db, student.id, payment.id, 1, 'Partial refund');
+
+    expect(clawedBack).toEqual([{ class_id: algebra.id, classes: 1 }]);
+    expect(await classesRemaining(payment.id)).toBe(3);
+    const allocation = await db.query('SELECT classes_allocated FROM payment_class_allocations WHERE payment_id = $1', [payment.id]);
+    expect(allocation.rows).toEqual([{ classes_allocated: 3 }]);
+  });
+
+  it('removes an allocation once a refund takes all of its credits', async () => {
+    const student = await insertRow(db, 'students', { name: 'Ada' });
+    const algebra = await insertRow(db, 'classes', { name: 'Algebra', price_per_class: 25 });
+    const payment = await buyClasses(db, student.id, algebra.id, 2);
+
+    await clawBackUnusedCredits(db, student.id, payment.id, 2, 'Full refund');
+
+    expect(await classesRemaining(payment.id)).toBe(0);
+    const allocation = await db.query('SELECT id FROM payment_class_allocations WHERE payment_id = $1', [payment.id]);
+    expect(allocation.rows).toEqual([]);
+  });
+});
+
+describe('credit expiry', () => {
+  // The database session runs on UTC while the school's clock is hours away from it
+  async function setClocks(schoolTimezone: string) {
+    await db.query("SET LOCAL TimeZone = 'UTC'");
+    await db.query("SELECT set_config('app.school_timezone', $1, true)", [schoolTimezone]);
+  }
+
+  it('expires credits once the school clock passes the expiry', async () => {
+    await setClocks('Pacific/Kiritimati');
+    const student = await insertRow(db, 'students', { name: 'Ada' });
+    const algebra = await insertRow(db, 'classes', { name: 'Algebra', price_per_class: 25 });
+    const payment = await buyClasses(db, student.id, algebra.id, 4);
+    await db.query("UPDATE payments SET expires_at = school_now() - INTERVAL '1 hour' WHERE id = $1", [payment.id]);
+
+    expect(await findCreditSources(db, student.id, algebra.id)).toEqual([]);
+    const expired = await expireCredits(db, audit);
+
+    expect(expired).toMatchObject([{ student_id: student.id, payment_id: payment.id, class_id: algebra.id, classes: 4 }]);
+    expect(await classesRemaining(payment.id)).toBe(0);
+  });
+
+  it('keeps credits the school clock has not reached the expiry of', async () => {
+    await setClocks('Pacific/Pago_Pago');
+    const student = await insertRow(db, 'students', { name: 'Ada' });
+    const algebra = await insertRow(db, 'classes', { name: 'Algebra', price_per_class: 25 });
+    const payment = await buyClasses(db, student.id, algebra.id, 4);
+    await db.query("UPDATE payment_class_allocations SET expires_at = school_now() + INTERVAL '1 hour' WHERE payment_id = $1", [payment.id]);
+
+    expect(await findCreditSources(db, student.id, algebra.id)).toMatchObject([{ payment_id: payment.id }]);
+    expect(await expireCredits(db, audit)).toEqual([]);
+    expect(await classesRemaining(payment.id)).toBe(4);
+  });
+});
+
+describe('consumption order', () => {
+  it.each([
+    ['fifo', ['January', 'February', 'March']],
+    ['lifo', ['March', 'February', 'January']],
+    ['soonest_expiry', ['March', 'January', 'February']],
+    ['cheapest', ['February', 'March', 'January']]
+  ] as const)('%s uses payments in its order', async (policy, expected) => {
+    const student = await insertRow(db, 'students', { name: 'Ada' });
+    const algebra = await insertRow(db, 'classes', { name: 'Algebra', price_per_class: 25 });
+    const payments = {
+      January: await buyClasses(db, student.id, algebra.id, 4, { payment_date: '2026-01-01', amount: 120, list_price: 120, expires_at: '2099-06-30' }),
+      February: await buyClasses(db, student.id, algebra.id, 4, { payment_date: '2026-02-01', amount: 80, list_price: 80 }),
+      March: await buyClasses(db, student.id, algebra.id, 4, { payment_date: '2026-03-01', amount: 100, list_price: 100, expires_at: '2099-01-31' })
+    };
+
+    const sources = await findCreditSources(db, student.id, algebra.id, policy);
+
+    expect(sources.map((source: any) => source.payment_id)).toEqual(expected.map(month => payments[month].id));
+  });
+});
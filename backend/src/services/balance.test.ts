@@ -0,0 +1,175 @@
+import { AuditContext, recordAuditEvent } from './audit';
+import {
+  clawBackUnusedCredits,
+  countClawableCredits,
+  deductClassCredit,
+  refundClassCredit,
+  settleOwedClasses
+} from './balance';
+
+jest.mock('../config/database', () => ({ query: jest.fn() }));
+jest.mock('./audit', () => ({ recordAuditEvent: jest.fn() }));
+
+const audit: AuditContext = { actorUserId: 'user-1', actorName: 'Front Desk', requestId: 'request-1' };
+
+// A client answering each query by the first matching piece of SQL; unmatched queries return no rows
+function fakeClient(responses: Array<[string, any[]]>) {
+  return {
+    query: jest.fn(async (sql: string, _params?: any[]) => {
+      const response = responses.find(([match]) => sql.includes(match));
+      return { rows: response ? response[1] : [] };
+    })
+  };
+}
+
+// The signed classes of every ledger entry written, with its bucket
+const ledgerEntries = (client: ReturnType<typeof fakeClient>) =>
+  client.query.mock.calls
+    .filter(([sql]) => sql.includes('INSERT INTO credit_ledger'))
+    .map(([, params]) => ({ paymentId: params![2], classId: params![3], entryType: params![5], classes: params![6] }));
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('deductClassCredit', () => {
+  it('does not deduct twice for the same occurrence', async () => {
+    const client = fakeClient([['SELECT id FROM payment_deductions', [{ id: 'deduction-1' }]]]);
+
+    const result = await deductClassCredit(client, 'student-1', 'class-1', 'occurrence-1', audit);
+
+    expect(result).toEqual({ success: false, reason: 'already_exists' });
+    expect(ledgerEntries(client)).toEqual([]);
+  });
+
+  it('takes a credit from the first payment the policy picks', async () => {
+    const client = fakeClient([
+      ['FROM payments p', [{ payment_id: 'payment-1', classes_remaining: 3 }, { payment_id: 'payment-2', classes_remaining: 5 }]],
+      ['INSERT INTO payment_deductions', [{ id: 'deduction-1' }]]
+    ]);
+
+    const result = await deductClassCredit(client, 'student-1', 'class-1', 'occurrence-1', audit);
+
+    expect(result).toEqual({ success: true, payment_id: 'payment-1', deduction_id: 'deduction-1' });
+    expect(ledgerEntries(client)).toEqual([{ paymentId: 'payment-1', classId: 'class-1', entryType: 'deduction', classes: -1 }]);
+    expect(recordAuditEvent).toHaveBeenCalledWith(audit, expect.objectContaining({
+      action: 'balance.deduct',
+      before: { classes_remaining: 3 },
+      after: expect.objectContaining({ classes_remaining: 2 })
+    }), client);
+  });
+
+  it('records an owed class, without touching the ledger, when no credit is left', async () => {
+    const client = fakeClient([['INSERT INTO payment_deductions', [{ id: 'owed-1', payment_id: null }]]]);
+
+    const result = await deductClassCredit(client, 'student-1', 'class-1', 'occurrence-1', audit);
+
+    expect(result).toEqual({ success: false, reason: 'no_payment_available_overdue', deduction_id: 'owed-1' });
+    expect(ledgerEntries(client)).toEqual([]);
+    expect(recordAuditEvent).toHaveBeenCalledWith(audit, expect.objectContaining({ action: 'balance.overdue' }), client);
+  });
+});
+
+describe('refundClassCredit', () => {
+  it('returns false when there is no deduction to refund', async () => {
+    const client = fakeClient([]);
+
+    expect(await refundClassCredit(client, 'student-1', 'occurrence-1', audit)).toBe(false);
+    expect(recordAuditEvent).not.toHaveBeenCalled();
+  });
+
+  it('returns the credit to the payment it came from', async () => {
+    const deduction = { id: 'deduction-1', payment_id: 'payment-1', class_id: 'class-1', classes_deducted: 1 };
+    const client = fakeClient([
+      ['DELETE FROM payment_deductions', [deduction]],
+      ['SELECT classes_remaining FROM payments', [{ classes_remaining: 4 }]]
+    ]);
+
+    expect(await refundClassCredit(client, 'student-1', 'occurrence-1', audit)).toBe(true);
+
+    expect(ledgerEntries(client)).toEqual([{ paymentId: 'payment-1', classId: 'class-1', entryType: 'refund', classes: 1 }]);
+    expect(recordAuditEvent).toHaveBeenCalledWith(audit, expect.objectContaining({
+      action: 'balance.refund',
+      before: { classes_remaining: 3, deduction },
+      after: { classes_remaining: 4 }
+    }), client);
+  });
+
+  it('removes an owed class with no ledger entry and no payment balance in the audit', async () => {
+    const deduction = { id: 'owed-1', payment_id: null, class_id: 'class-1', classes_deducted: 1 };
+    const client = fakeClient([['DELETE FROM payment_deductions', [deduction]]]);
+
+    expect(await refundClassCredit(client, 'student-1', 'occurrence-1', audit)).toBe(true);
+
+    expect(ledgerEntries(client)).toEqual([]);
+    expect(recordAuditEvent).toHaveBeenCalledWith(audit, expect.objectContaining({
+      before: { deduction },
+      after: undefined
+    }), client);
+  });
+});
+
+describe('settleOwedClasses', () => {
+  it('pays off owed classes from the payment, oldest first', async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    const client = fakeClient([
+      ['FROM payment_deductions pd', [
+        { id: 'owed-1', occurrence_id: 'occurrence-1', occurrence_date: '2026-10-01', classes_deducted: 1, overdue_amount: '25.00' },
+        { id: 'owed-2', occurrence_id: 'occurrence-2', occurrence_date: '2026-10-08', classes_deducted: 1, overdue_amount: '25.00' }
+      ]],
+      ['UPDATE payment_deductions', [{ id: 'settled' }]]
+    ]);
+
+    const settled = await settleOwedClasses(client, 'student-1', 'payment-1', 'class-1', audit);
+
+    expect(settled).toBe(2);
+    expect(client.query).toHaveBeenCalledWith(expect.stringContaining('UPDATE payment_deductions'), ['payment-1', 'owed-1']);
+    expect(client.query).toHaveBeenCalledWith(expect.stringContaining('UPDATE payment_deductions'), ['payment-1', 'owed-2']);
+    expect(ledgerEntries(client)).toEqual([
+      { paymentId: 'payment-1', classId: 'class-1', entryType: 'deduction', classes: -1 },
+      { paymentId: 'payment-1', classId: 'class-1', entryType: 'deduction', classes: -1 }
+    ]);
+  });
+});
+
+describe('refund claw-back', () => {
+  const buckets: Array<[string, any[]]> = [
+    ['GROUP BY class_id', [{ class_id: null, balance: '2' }, { class_id: 'class-1', balance: '3' }]],
+    ['FROM payment_class_allocations', [{ id: 'allocation-1', classes_allocated: 5 }]]
+  ];
+
+  it('counts only the credits the payer still holds', async () => {
+    const client = fakeClient(buckets);
+
+    expect(await countClawableCredits(client, 'student-1', 'payment-1')).toBe(5);
+    expect(client.query).toHaveBeenCalledWith(expect.stringContaining('student_id = $2'), ['payment-1', 'student-1']);
+  });
+
+  it('takes unallocated credits first, then shrinks the class allocation', async () => {
+    const client = fakeClient(buckets);
+
+    const clawedBack = await clawBackUnusedCredits(client, 'student-1', 'payment-1', 4, 'Refund');
+
+    expect(clawedBack).toEqual([{ class_id: null, classes: 2 }, { class_id: 'class-1', classes: 2 }]);
+    expect(ledgerEntries(client)).toEqual([
+      { paymentId: 'payment-1', classId: null, entryType: 'adjustment', classes: -2 },
+      { paymentId: 'payment-1', classId: 'class-1', entryType: 'adjustment', classes: -2 }
+    ]);
+    expect(client.query).toHaveBeenCalledWith(expect.stringContaining('SET classes_allocated = classes_allocated - $1'), [2, 'allocation-1']);
+  });
+
+  it('removes an allocation once all its credits are clawed back', async () => {
+    const client = fakeClient([
+      ['GROUP BY class_id', [{ class_id: 'class-1', balance: '5' }]],
+      ['FROM payment_class_allocations', [{ id: 'allocation-1', classes_allocated: 5 }]]
+    ]);
+
+    await clawBackUnusedCredits(client, 'student-1', 'payment-1', 5, 'Refund');
+
+    expect(client.query).toHaveBeenCalledWith('DELETE FROM payment_class_allocations WHERE id = $1', ['allocation-1']);
+  });
+});
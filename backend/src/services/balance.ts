@@ -0,0 +1,414 @@
+import { ConsumptionPolicy, getConsumptionPolicy } from '../config/credits';
+import { AuditContext, recordAuditEvent } from './audit';
+import { addLedgerEntry } from './creditLedger';
+
+// Every path that takes, returns or settles a student's class credit goes through
+// these helpers so that the scheduler, attendance and payment routes behave the same.
+// All of them run inside the caller's transaction.
+
+export type DeductionResult =
+  | { success: true; payment_id: string; deduction_id: string }
+  | { success: false; reason: 'already_exists' }
+  | { success: false; reason: 'no_payment_available_overdue'; deduction_id: string };
+
+// Record an owed class: a deduction with no payment, priced at the class's current rate
+async function recordOwedClass(client: any, studentId: string, classId: string, occurrenceId: string, audit: AuditContext) {
+  const deductionResult = await client.query(`
+    INSERT INTO payment_deductions (student_id, class_id, occurrence_id, payment_id, classes_deducted, is_overdue_deduction, overdue_amount)
+    SELECT $1, c.id, $3, NULL, 1, true, COALESCE(c.price_per_class, 0)
+    FROM classes c
+    WHERE c.id = $2
+    RETURNING *
+  `, [studentId, classId, occurrenceId]);
+
+  await recordAuditEvent(audit, {
+    action: 'balance.overdue',
+    entityType: 'payment_deduction',
+    entityId: deductionResult.rows[0].id,
+    studentId,
+    occurrenceId,
+    after: deductionResult.rows[0]
+  }, client);
+
+  return deductionResult.rows[0];
+}
+
+// ORDER BY for each consumption policy; ties go to the oldest payment
+const consumptionOrder: Record<ConsumptionPolicy, string> = {
+  fifo: 'p.payment_date ASC',
+  lifo: 'p.payment_date DESC',
+  soonest_expiry: 'COALESCE(pca.expires_at, p.expires_at) ASC NULLS LAST, p.payment_date ASC',
+  cheapest: 'p.amount / p.classes_purchased ASC, p.payment_date ASC'
+};
+
+// Payments with unexpired credits allocated to a student's class (or to any of their
+// classes when classId is null), in the order the policy uses them up. Credits a
+// sibling transferred in count even though the payment is the sibling's.
+export async function findCreditSources(
+  client: any,
+  studentId: string,
+  classId: string | null,
+  policy: ConsumptionPolicy = getConsumptionPolicy()
+) {
+  const result = await client.query(`
+    SELECT
+      p.id as payment_id, p.receipt_number, p.payment_date, p.classes_remaining,
+      ROUND(p.amount / p.classes_purchased, 2) as price_per_class,
+      cl.class_id, c.name as class_name,
+      COALESCE(pca.expires_at, p.expires_at) as expires_at,
+      SUM(cl.classes) as classes_available
+    FROM payments p
+    JOIN credit_ledger cl ON p.id = cl.payment_id
+    JOIN classes c ON cl.class_id = c.id
+    LEFT JOIN payment_class_allocations pca ON p.id = pca.payment_id AND pca.class_id = cl.class_id AND pca.student_id = cl.student_id
+    WHERE cl.student_id = $1
+      AND ($2::uuid IS NULL OR cl.class_id = $2::uuid)
+      AND COALESCE(pca.expires_at, p.expires_at, 'infinity') > school_now()
+    GROUP BY p.id, cl.class_id, c.name, pca.expires_at
+    HAVING SUM(cl.classes) > 0
+    ORDER BY c.name, cl.class_id, ${consumptionOrder[policy]}, p.id
+  `, [studentId, classId]);
+
+  return result.rows;
+}
+
+export interface ClassCreditPlan {
+  class_id: string;
+  class_name: string;
+  classes_available: number;
+  deductions: Array<{
+    sequence: number;
+    payment_id: string;
+    receipt_number: number;
+    payment_date: Date;
+    price_per_class: string;
+    expires_at: Date | null;
+  }>;
+}
+
+// Which payment each of a student's next deductions would draw from, per class, if
+// nothing else changed. Nothing is written.
+export async function planCreditConsumption(client: any, studentId: string, policy: ConsumptionPolicy, limitPerClass: number) {
+  const sources = await findCreditSources(client, studentId, null, policy);
+  const plan = new Map<string, ClassCreditPlan>();
+
+  for (const source of sources) {
+    const entry: ClassCreditPlan = plan.get(source.class_id) || {
+      class_id: source.class_id,
+      class_name: source.class_name,
+      classes_available: 0,
+      deductions: []
+    };
+    const available = parseInt(source.classes_available);
+
+    for (let i = 0; i < available && entry.deductions.length < limitPerClass; i++) {
+      entry.deductions.push({
+        sequence: entry.deductions.length + 1,
+        payment_id: source.payment_id,
+        receipt_number: source.receipt_number,
+        payment_date: source.payment_date,
+        price_per_class: source.price_per_class,
+        expires_at: source.expires_at
+      });
+    }
+
+    entry.classes_available += available;
+    plan.set(source.class_id, entry);
+  }
+
+  return [...plan.values()];
+}
+
+// Deduct one class credit for a student attending an occurrence, from the first
+// payment the consumption policy picks; without any the class is recorded as owed.
+export async function deductClassCredit(
+  client: any,
+  studentId: string,
+  classId: string,
+  occurrenceId: string,
+  audit: AuditContext
+): Promise<DeductionResult> {
+  // Check if deduction already exists for this occurrence to prevent double deduction
+  const existingDeduction = await client.query(
+    'SELECT id FROM payment_deductions WHERE student_id = $1 AND occurrence_id = $2',
+    [studentId, occurrenceId]
+  );
+
+  if (existingDeduction.rows.length > 0) {
+    return { success: false, reason: 'already_exists' };
+  }
+
+  // Find a payment with unexpired credits left in this class's bucket of the ledger
+  const sources = await findCreditSources(client, studentId, classId);
+
+  if (sources.length === 0) {
+    const owed = await recordOwedClass(client, studentId, classId, occurrenceId, audit);
+    return { success: false, reason: 'no_payment_available_overdue', deduction_id: owed.id };
+  }
+
+  const payment = { id: sources[0].payment_id, classes_remaining: sources[0].classes_remaining };
+
+  const deductionResult = await client.query(`
+    INSERT INTO payment_deductions (student_id, class_id, occurrence_id, payment_id, classes_deducted)
+    VALUES ($1, $2, $3, $4, 1)
+    RETURNING *
+  `, [studentId, classId, occurrenceId, payment.id]);
+
+  await addLedgerEntry(client, {
+    studentId,
+    paymentId: payment.id,
+    classId,
+    occurrenceId,
+    entryType: 'deduction',
+    classes: -1
+  });
+
+  await recordAuditEvent(audit, {
+    action: 'balance.deduct',
+    entityType: 'payment_deduction',
+    entityId: deductionResult.rows[0].id,
+    studentId,
+    paymentId: payment.id,
+    occurrenceId,
+    before: { classes_remaining: payment.classes_remaining },
+    after: { classes_remaining: payment.classes_remaining - 1, deduction: deductionResult.rows[0] }
+  }, client);
+
+  return { success: true, payment_id: payment.id, deduction_id: deductionResult.rows[0].id };
+}
+
+// Undo the deduction for a student's occurrence (excluded, or no longer present).
+// Returns false when there was nothing to refund.
+export async function refundClassCredit(client: any, studentId: string, occurrenceId: string, audit: AuditContext) {
+  const deductionResult = await client.query(
+    'DELETE FROM payment_deductions WHERE student_id = $1 AND occurrence_id = $2 RETURNING *',
+    [studentId, occurrenceId]
+  );
+
+  if (deductionResult.rows.length === 0) {
+    return false;
+  }
+
+  const deduction = deductionResult.rows[0];
+
+  // Owed classes never took a credit, so there is nothing to return
+  if (deduction.payment_id) {
+    await addLedgerEntry(client, {
+      studentId,
+      paymentId: deduction.payment_id,
+      classId: deduction.class_id,
+      occurrenceId,
+      entryType: 'refund',
+      classes: deduction.classes_deducted
+    });
+  }
+
+  // Only a paid deduction has a payment balance to show
+  let before: Record<string, unknown> = { deduction };
+  let after: unknown;
+  if (deduction.payment_id) {
+    const updatedPayment = await client.query('SELECT classes_remaining FROM payments WHERE id = $1', [deduction.payment_id]);
+    const classesRemaining = updatedPayment.rows[0].classes_remaining;
+    before = { classes_remaining: classesRemaining - deduction.classes_deducted, deduction };
+    after = { classes_remaining: classesRemaining };
+  }
+
+  await recordAuditEvent(audit, {
+    action: 'balance.refund',
+    entityType: 'payment_deduction',
+    entityId: deduction.id,
+    studentId,
+    paymentId: deduction.payment_id,
+    occurrenceId,
+    before,
+    after
+  }, client);
+
+  return true;
+}
+
+// Remove the credits left in buckets whose expiry has passed: the allocation's
+// expires_at for credits allocated to a class, otherwise the payment's. Returns the
+// expired buckets.
+export async function expireCredits(client: any, audit: AuditContext) {
+  const buckets = await client.query(`
+    SELECT
+      cl.student_id, cl.payment_id, cl.class_id,
+      COALESCE(pca.expires_at, p.expires_at) as expires_at,
+      SUM(cl.classes) as balance
+    FROM credit_ledger cl
+    JOIN payments p ON cl.payment_id = p.id
+    LEFT JOIN payment_class_allocations pca ON cl.payment_id = pca.payment_id AND pca.class_id = cl.class_id AND pca.student_id = cl.student_id
+    WHERE COALESCE(pca.expires_at, p.expires_at) <= school_now()
+    GROUP BY cl.student_id, cl.payment_id, cl.class_id, COALESCE(pca.expires_at, p.expires_at)
+    HAVING SUM(cl.classes) > 0
+  `);
+
+  const expired: Array<{ student_id: string; payment_id: string; class_id: string | null; classes: number; expires_at: Date }> = [];
+
+  for (const bucket of buckets.rows) {
+    const classes = parseInt(bucket.balance);
+
+    const entry = await addLedgerEntry(client, {
+      studentId: bucket.student_id,
+      paymentId: bucket.payment_id,
+      classId: bucket.class_id,
+      entryType: 'expiration',
+      classes: -classes,
+      notes: `Credits expired at ${new Date(bucket.expires_at).toISOString()}`
+    });
+
+    await recordAuditEvent(audit, {
+      action: 'balance.expire',
+      entityType: 'credit_ledger',
+      entityId: entry.id,
+      studentId: bucket.student_id,
+      paymentId: bucket.payment_id,
+      before: { class_id: bucket.class_id, classes_remaining: classes, expires_at: bucket.expires_at },
+      after: { class_id: bucket.class_id, classes_remaining: 0 }
+    }, client);
+
+    expired.push({
+      student_id: bucket.student_id,
+      payment_id: bucket.payment_id,
+      class_id: bucket.class_id,
+      classes,
+      expires_at: bucket.expires_at
+    });
+  }
+
+  return expired;
+}
+
+// Pay off a student's owed classes (oldest first) from a payment's credits for that
+// class. Returns the number of owed classes settled.
+export async function settleOwedClasses(
+  client: any,
+  studentId: string,
+  paymentId: string,
+  classId: string,
+  audit: AuditContext
+) {
+  const owedClasses = await client.query(`
+    SELECT pd.*, co.occurrence_date
+    FROM payment_deductions pd
+    JOIN class_occurrences co ON pd.occurrence_id = co.id
+    WHERE pd.student_id = $1
+      AND pd.class_id = $2
+      AND pd.payment_id IS NULL
+    ORDER BY co.occurrence_date ASC, co.start_time ASC
+    LIMIT (
+      SELECT GREATEST(COALESCE(SUM(classes), 0), 0)
+      FROM credit_ledger
+      WHERE student_id = $1 AND payment_id = $3 AND class_id = $2
+    )
+  `, [studentId, classId, paymentId]);
+
+  for (const owed of owedClasses.rows) {
+    const deductionResult = await client.query(`
+      UPDATE payment_deductions
+      SET payment_id = $1, deduction_date = CURRENT_TIMESTAMP
+      WHERE id = $2
+      RETURNING *
+    `, [paymentId, owed.id]);
+
+    await addLedgerEntry(client, {
+      studentId,
+      paymentId,
+      classId,
+      occurrenceId: owed.occurrence_id,
+      entryType: 'deduction',
+      classes: -owed.classes_deducted
+    });
+
+    await recordAuditEvent(audit, {
+      action: 'balance.settle_overdue',
+      entityType: 'payment_deduction',
+      entityId: owed.id,
+      studentId,
+      paymentId,
+      occurrenceId: owed.occurrence_id,
+      before: { payment_id: null, overdue_amount: owed.overdue_amount },
+      after: deductionResult.rows[0]
+    }, client);
+
+    console.log(`✅ Owed class settled for occurrence ${owed.occurrence_id} on ${owed.occurrence_date}`);
+  }
+
+  return owedClasses.rows.length;
+}
+
+// A payment's unused credits still held by the student, bucket by bucket: unallocated
+// credits first, then the classes with the most credits left. Credits transferred to a
+// sibling are theirs and not included.
+async function findClawableBuckets(client: any, studentId: string, paymentId: string) {
+  const buckets = await client.query(`
+    SELECT class_id, SUM(classes) as balance
+    FROM credit_ledger
+    WHERE payment_id = $1 AND student_id = $2
+    GROUP BY class_id
+    HAVING SUM(classes) > 0
+    ORDER BY class_id IS NOT NULL, SUM(classes) DESC
+  `, [paymentId, studentId]);
+
+  return buckets.rows as Array<{ class_id: string | null; balance: string }>;
+}
+
+// How many of a payment's unused credits a refund can remove from the student
+export async function countClawableCredits(client: any, studentId: string, paymentId: string) {
+  const buckets = await findClawableBuckets(client, studentId, paymentId);
+  return buckets.reduce((total, bucket) => total + parseInt(bucket.balance), 0);
+}
+
+// Remove unused credits from a payment for a refund, in the order findClawableBuckets
+// gives. Allocations shrink to match. Callers must check countClawableCredits first.
+export async function clawBackUnusedCredits(
+  client: any,
+  studentId: string,
+  paymentId: string,
+  classes: number,
+  notes: string
+) {
+  const buckets = await findClawableBuckets(client, studentId, paymentId);
+
+  const clawedBack: Array<{ class_id: string | null; classes: number }> = [];
+  let outstanding = classes;
+
+  for (const bucket of buckets) {
+    if (outstanding === 0) {
+      break;
+    }
+
+    const taken = Math.min(outstanding, parseInt(bucket.balance));
+
+    await addLedgerEntry(client, {
+      studentId,
+      paymentId,
+      classId: bucket.class_id,
+      entryType: 'adjustment',
+      classes: -taken,
+      notes
+    });
+
+    if (bucket.class_id) {
+      const allocation = await client.query(
+        'SELECT id, classes_allocated FROM payment_class_allocations WHERE payment_id = $1 AND class_id = $2 AND student_id = $3',
+        [paymentId, bucket.class_id, studentId]
+      );
+
+      if (allocation.rows.length > 0 && allocation.rows[0].classes_allocated > taken) {
+        await client.query(
+          'UPDATE payment_class_allocations SET classes_allocated = classes_allocated - $1 WHERE id = $2',
+          [taken, allocation.rows[0].id]
+        );
+      } else if (allocation.rows.length > 0) {
+        await client.query('DELETE FROM payment_class_allocations WHERE id = $1', [allocation.rows[0].id]);
+      }
+    }
+
+    clawedBack.push({ class_id: bucket.class_id, classes: taken });
+    outstanding -= taken;
+  }
+
+  return clawedBack;
+}
@@ -0,0 +1,36 @@
+// Closures: date ranges when the school, one class or one subject is closed. Scheduled
+// classes are not held on those dates, so no occurrence is created and no credit used.
+
+export interface Closure {
+  id: string;
+  name: string;
+  start_date: string;
+  end_date: string;
+  class_id: string | null;
+  subject: string | null;
+}
+
+// Whether a closure applies to a class: whole-school closures apply to every class
+const appliesTo = (closure: Closure, classId: string, subject: string | null) =>
+  (closure.class_id === null && closure.subject === null) ||
+  closure.class_id === classId ||
+  (closure.subject !== null && closure.subject === subject);
+
+// The closure covering a class on a date (YYYY-MM-DD), if any, from closures already loaded
+export function closureCovering(closures: Closure[], classId: string, subject: string | null, date: string) {
+  return closures.find(closure =>
+    closure.start_date <= date && closure.end_date >= date && appliesTo(closure, classId, subject)
+  ) || null;
+}
+
+// Closures overlapping a date range, with dates as YYYY-MM-DD strings
+export async function findClosures(client: any, from: string, to: string): Promise<Closure[]> {
+  const result = await client.query(`
+    SELECT id, name, TO_CHAR(start_date, 'YYYY-MM-DD') as start_date, TO_CHAR(end_date, 'YYYY-MM-DD') as end_date, class_id, subject
+    FROM closures
+    WHERE start_date <= $2::date AND end_date >= $1::date
+    ORDER BY start_date
+  `, [from, to]);
+
+  return result.rows;
+}
@@ -0,0 +1,61 @@
+import { addLedgerEntry, getBucketBalance, moveCredits } from './creditLedger';
+
+jest.mock('../config/database', () => ({ query: jest.fn() }));
+
+// A client that returns each inserted ledger row back, as Postgres would
+const ledgerClient = () => ({
+  query: jest.fn(async (_sql: string, params: any[]) => ({
+    rows: [{ id: `entry-${params[2]}-${params[6]}`, transaction_id: params[0], classes: params[6] }]
+  }))
+});
+
+describe('addLedgerEntry', () => {
+  it('writes one signed entry, leaving unset buckets and notes null', async () => {
+    const client = ledgerClient();
+
+    await addLedgerEntry(client, { studentId: 'student-1', paymentId: 'payment-1', entryType: 'purchase', classes: 10 });
+
+    expect(client.query).toHaveBeenCalledWith(expect.stringContaining('INSERT INTO credit_ledger'), [
+      expect.any(String), 'student-1', 'payment-1', null, null, 'purchase', 10, null
+    ]);
+  });
+
+  it('keeps a transaction id it is given', async () => {
+    const client = ledgerClient();
+
+    const entry = await addLedgerEntry(client, {
+      studentId: 'student-1', paymentId: 'payment-1', entryType: 'adjustment', classes: -1, transactionId: 'transaction-1'
+    });
+
+    expect(entry.transaction_id).toBe('transaction-1');
+  });
+});
+
+describe('moveCredits', () => {
+  it('debits one bucket and credits the other in the same transaction', async () => {
+    const client = ledgerClient();
+
+    const moved = await moveCredits(
+      client,
+      'allocation',
+      { studentId: 'student-1', paymentId: 'payment-1', classId: null },
+      { studentId: 'student-1', paymentId: 'payment-1', classId: 'class-1' },
+      4
+    );
+
+    const [debit, credit] = client.query.mock.calls.map(([, params]) => params);
+    expect(debit).toEqual([moved.transactionId, 'student-1', 'payment-1', null, null, 'allocation', -4, null]);
+    expect(credit).toEqual([moved.transactionId, 'student-1', 'payment-1', 'class-1', null, 'allocation', 4, null]);
+  });
+});
+
+describe('getBucketBalance', () => {
+  it('sums the bucket as a number', async () => {
+    const client = { query: jest.fn(async () => ({ rows: [{ balance: '7' }] })) };
+
+    const balance = await getBucketBalance(client, { studentId: 'student-1', paymentId: 'payment-1', classId: 'class-1' });
+
+    expect(balance).toBe(7);
+    expect(client.query).toHaveBeenCalledWith(expect.stringContaining('IS NOT DISTINCT FROM'), ['student-1', 'payment-1', 'class-1']);
+  });
+});
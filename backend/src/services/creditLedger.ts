@@ -0,0 +1,145 @@
+import crypto from 'crypto';
+import { query } from '../config/database';
+
+export type LedgerEntryType = 'purchase' | 'allocation' | 'deduction' | 'refund' | 'adjustment' | 'transfer' | 'expiration';
+
+export interface LedgerEntry {
+  studentId: string;
+  paymentId?: string | null;
+  classId?: string | null; // null = the payment's unallocated bucket
+  occurrenceId?: string | null;
+  entryType: LedgerEntryType;
+  classes: number;
+  notes?: string | null;
+  transactionId?: string;
+}
+
+// A bucket of credits: one payment's unallocated credits, or the part allocated to one class
+export interface LedgerBucket {
+  studentId: string;
+  paymentId: string | null;
+  classId: string | null;
+}
+
+// Append a single signed entry. payments.classes_remaining is updated by the
+// sync_payment_classes_remaining trigger, so callers never touch it directly.
+export async function addLedgerEntry(client: any, entry: LedgerEntry) {
+  const result = await client.query(`
+    INSERT INTO credit_ledger (transaction_id, student_id, payment_id, class_id, occurrence_id, entry_type, classes, notes)
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+    RETURNING *
+  `, [
+    entry.transactionId || crypto.randomUUID(),
+    entry.studentId,
+    entry.paymentId ?? null,
+    entry.classId ?? null,
+    entry.occurrenceId ?? null,
+    entry.entryType,
+    entry.classes,
+    entry.notes ?? null
+  ]);
+
+  return result.rows[0];
+}
+
+// Move credits between two buckets as a balanced pair of entries
+export async function moveCredits(
+  client: any,
+  entryType: 'allocation' | 'transfer',
+  from: LedgerBucket,
+  to: LedgerBucket,
+  classes: number,
+  notes?: string | null
+) {
+  const transactionId = crypto.randomUUID();
+
+  const debit = await addLedgerEntry(client, {
+    ...from,
+    entryType,
+    classes: -classes,
+    notes: notes ?? null,
+    transactionId
+  });
+
+  const credit = await addLedgerEntry(client, {
+    ...to,
+    entryType,
+    classes,
+    notes: notes ?? null,
+    transactionId
+  });
+
+  return { transactionId, debit, credit };
+}
+
+// Current balance of one bucket
+export async function getBucketBalance(client: any, bucket: LedgerBucket): Promise<number> {
+  const result = await client.query(`
+    SELECT COALESCE(SUM(classes), 0) as balance
+    FROM credit_ledger
+    WHERE student_id = $1
+      AND payment_id IS NOT DISTINCT FROM $2
+      AND class_id IS NOT DISTINCT FROM $3
+  `, [bucket.studentId, bucket.paymentId, bucket.classId]);
+
+  return parseInt(result.rows[0].balance);
+}
+
+// Students whose stored counters disagree with the ledger: payments.classes_remaining
+// that differs from the payment's ledger sum, or paid payment_deductions that the
+// ledger's deduction/refund entries do not account for
+export async function findLedgerMismatches() {
+  const paymentMismatches = await query(`
+    SELECT
+      p.id as payment_id,
+      p.student_id,
+      p.classes_remaining as stored_classes_remaining,
+      COALESCE(l.balance, 0) as ledger_classes_remaining
+    FROM payments p
+    LEFT JOIN (
+      SELECT payment_id, SUM(classes) as balance
+      FROM credit_ledger
+      WHERE payment_id IS NOT NULL
+      GROUP BY payment_id
+    ) l ON p.id = l.payment_id
+    WHERE p.classes_remaining <> COALESCE(l.balance, 0)
+  `);
+
+  const deductionMismatches = await query(`
+    SELECT
+      COALESCE(pd.student_id, l.student_id) as student_id,
+      COALESCE(pd.classes_deducted, 0) as stored_classes_deducted,
+      COALESCE(l.classes_deducted, 0) as ledger_classes_deducted
+    FROM (
+      SELECT student_id, SUM(classes_deducted) as classes_deducted
+      FROM payment_deductions
+      WHERE payment_id IS NOT NULL
+      GROUP BY student_id
+    ) pd
+    FULL OUTER JOIN (
+      SELECT student_id, -SUM(classes) as classes_deducted
+      FROM credit_ledger
+      WHERE entry_type IN ('deduction', 'refund')
+      GROUP BY student_id
+    ) l ON pd.student_id = l.student_id
+    WHERE COALESCE(pd.classes_deducted, 0) <> COALESCE(l.classes_deducted, 0)
+  `);
+
+  const studentIds = [...new Set([
+    ...paymentMismatches.rows.map((row: any) => row.student_id),
+    ...deductionMismatches.rows.map((row: any) => row.student_id)
+  ])];
+
+  if (studentIds.length === 0) {
+    return [];
+  }
+
+  const students = await query('SELECT id, name FROM students WHERE id = ANY($1::uuid[]) ORDER BY name', [studentIds]);
+
+  return students.rows.map((student: any) => ({
+    student_id: student.id,
+    student_name: student.name,
+    payments: paymentMismatches.rows.filter((row: any) => row.student_id === student.id),
+    deductions: deductionMismatches.rows.find((row: any) => row.student_id === student.id) || null
+  }));
+}
@@ -0,0 +1,90 @@
+import { PGlite } from '@electric-sql/pglite';
+import { buyClasses } from '../test/fixtures';
+import { createSchemaDatabase, insertRow } from '../test/schemaDatabase';
+import { AuditContext } from './audit';
+import { getBucketBalance } from './creditLedger';
+import { CreditTransferRequest, transferCredits } from './creditTransfers';
+
+jest.mock('../config/database', () => ({ query: jest.fn() }));
+
+const audit: AuditContext = { actorUserId: null, actorName: 'Test', requestId: null };
+
+let db: PGlite;
+
+beforeAll(async () => {
+  db = await createSchemaDatabase();
+});
+
+afterAll(async () => {
+  await db.close();
+});
+
+beforeEach(async () => {
+  await db.query('BEGIN');
+});
+
+afterEach(async () => {
+  await db.query('ROLLBACK');
+});
+
+const enroll = (studentId: string, classId: string) =>
+  insertRow(db, 'student_class_enrollments', { student_id: studentId, class_id: classId });
+
+const allocations = async (paymentId: string) =>
+  (await db.query(
+    'SELECT student_id, class_id, classes_allocated FROM payment_class_allocations WHERE payment_id = $1 ORDER BY classes_allocated DESC',
+    [paymentId]
+  )).rows;
+
+function transfer(overrides: Partial<CreditTransferRequest> & Pick<CreditTransferRequest, 'studentId' | 'fromClassId' | 'toClassId'>) {
+  return transferCredits(db, { toStudentId: overrides.studentId, classes: 1, adjustForPrice: false, userId: null, ...overrides }, audit);
+}
+
+describe('transferCredits', () => {
+  it('moves part of an allocation to another class', async () => {
+    const student = await insertRow(db, 'students', { name: 'Ada' });
+    const algebra = await insertRow(db, 'classes', { name: 'Algebra', price_per_class: 25 });
+    const geometry = await insertRow(db, 'classes', { name: 'Geometry', price_per_class: 25 });
+    await enroll(student.id, geometry.id);
+    const payment = await buyClasses(db, student.id, algebra.id, 4);
+
+    const result = await transfer({ studentId: student.id, fromClassId: algebra.id, toClassId: geometry.id });
+
+    expect(result).toMatchObject({ success: true, classes_out: 1, classes_in: 1 });
+    expect(await allocations(payment.id)).toEqual([
+      { student_id: student.id, class_id: algebra.id, classes_allocated: 3 },
+      { student_id: student.id, class_id: geometry.id, classes_allocated: 1 }
+    ]);
+    expect(await getBucketBalance(db, { studentId: student.id, paymentId: payment.id, classId: geometry.id })).toBe(1);
+  });
+
+  it('adds to the allocation a sibling already holds from the payment', async () => {
+    const family = await insertRow(db, 'families', { name: 'Lovelace' });
+    const student = await insertRow(db, 'students', { name: 'Ada', family_id: family.id });
+    const sibling = await insertRow(db, 'students', { name: 'Byron', family_id: family.id });
+    const algebra = await insertRow(db, 'classes', { name: 'Algebra', price_per_class: 25 });
+    await enroll(sibling.id, algebra.id);
+    const payment = await buyClasses(db, student.id, algebra.id, 4);
+
+    await transfer({ studentId: student.id, toStudentId: sibling.id, fromClassId: algebra.id, toClassId: algebra.id });
+    await transfer({ studentId: student.id, toStudentId: sibling.id, fromClassId: algebra.id, toClassId: algebra.id, classes: 2 });
+
+    expect(await allocations(payment.id)).toEqual([
+      { student_id: sibling.id, class_id: algebra.id, classes_allocated: 3 },
+      { student_id: student.id, class_id: algebra.id, classes_allocated: 1 }
+    ]);
+    expect(await getBucketBalance(db, { studentId: sibling.id, paymentId: payment.id, classId: algebra.id })).toBe(3);
+  });
+
+  it('only transfers to a student in the same family', async () => {
+    const student = await insertRow(db, 'students', { name: 'Ada' });
+    const stranger = await insertRow(db, 'students', { name: 'Charles' });
+    const algebra = await insertRow(db, 'classes', { name: 'Algebra', price_per_class: 25 });
+    await enroll(stranger.id, algebra.id);
+    await buyClasses(db, student.id, algebra.id, 4);
+
+    const result = await transfer({ studentId: student.id, toStudentId: stranger.id, fromClassId: algebra.id, toClassId: algebra.id });
+
+    expect(result).toEqual({ success: false, message: 'Credits can only be transferred to a student in the same family' });
+  });
+});
@@ -0,0 +1,163 @@
+import { AuditContext, recordAuditEvent } from './audit';
+import { findCreditSources, settleOwedClasses } from './balance';
+import { addLedgerEntry, moveCredits } from './creditLedger';
+
+// Moving a student's remaining credits from one class to another, or to a sibling
+// (a student in the same family). Credits keep their payment and are taken in the
+// consumption policy's order. Runs inside the caller's transaction.
+
+export interface CreditTransferRequest {
+  studentId: string;
+  fromClassId: string;
+  toClassId: string;
+  toStudentId: string;
+  classes: number;
+  adjustForPrice: boolean; // convert by price_per_class, e.g. 10 classes at $20 become 8 at $25
+  notes?: string | null;
+  userId: string | null;
+}
+
+export type CreditTransferResult =
+  | { success: true; classes_out: number; classes_in: number; transfers: any[] }
+  | { success: false; message: string };
+
+export async function transferCredits(client: any, request: CreditTransferRequest, audit: AuditContext): Promise<CreditTransferResult> {
+  const { studentId, fromClassId, toClassId, toStudentId, classes } = request;
+
+  if (studentId === toStudentId && fromClassId === toClassId) {
+    return { success: false, message: 'Credits must move to another class or another student' };
+  }
+
+  if (studentId !== toStudentId) {
+    const siblings = await client.query(`
+      SELECT 1
+      FROM students me
+      JOIN students sibling ON sibling.family_id = me.family_id
+      WHERE me.id = $1 AND sibling.id = $2
+    `, [studentId, toStudentId]);
+
+    if (siblings.rows.length === 0) {
+      return { success: false, message: 'Credits can only be transferred to a student in the same family' };
+    }
+  }
+
+  const enrollment = await client.query(
+    'SELECT id FROM student_class_enrollments WHERE student_id = $1 AND class_id = $2 AND is_active = true',
+    [toStudentId, toClassId]
+  );
+
+  if (enrollment.rows.length === 0) {
+    return { success: false, message: 'The receiving student is not enrolled in that class' };
+  }
+
+  let classesIn = classes;
+
+  if (request.adjustForPrice && fromClassId !== toClassId) {
+    const prices = await client.query('SELECT id, name, price_per_class FROM classes WHERE id = ANY($1::uuid[])', [[fromClassId, toClassId]]);
+    const fromPrice = Number(prices.rows.find((row: any) => row.id === fromClassId)?.price_per_class || 0);
+    const toPrice = Number(prices.rows.find((row: any) => row.id === toClassId)?.price_per_class || 0);
+
+    if (fromPrice <= 0 || toPrice <= 0) {
+      return { success: false, message: 'Both classes need a price per class to adjust for price' };
+    }
+
+    classesIn = Math.floor(classes * fromPrice / toPrice);
+  }
+
+  const sources = await findCreditSources(client, studentId, fromClassId);
+  const available = sources.reduce((sum: number, source: any) => sum + parseInt(source.classes_available), 0);
+
+  if (available < classes) {
+    return { success: false, message: `Only ${available} unexpired classes are left in that class` };
+  }
+
+  const note = request.notes || (studentId === toStudentId ? 'Credits moved to another class' : 'Credits transferred to a sibling');
+  const transfers: any[] = [];
+  let outstanding = classes;
+  let adjustment = classesIn - classes;
+
+  for (const source of sources) {
+    if (outstanding === 0) {
+      break;
+    }
+
+    const taken = Math.min(outstanding, parseInt(source.classes_available));
+    outstanding -= taken;
+
+    const from = { studentId, paymentId: source.payment_id, classId: fromClassId };
+    const to = { studentId: toStudentId, paymentId: source.payment_id, classId: toClassId };
+    const { transactionId } = await moveCredits(client, 'transfer', from, to, taken, note);
+
+    // A price adjustment lands on the receiving buckets: a gain all on the last one,
+    // a loss taken from each in turn
+    let received = taken;
+    const bucketAdjustment = adjustment > 0
+      ? (outstanding === 0 ? adjustment : 0)
+      : Math.max(adjustment, -taken);
+
+    if (bucketAdjustment !== 0) {
+      await addLedgerEntry(client, {
+        ...to,
+        entryType: 'adjustment',
+        classes: bucketAdjustment,
+        notes: 'Price adjustment for a credit transfer',
+        transactionId
+      });
+      received += bucketAdjustment;
+      adjustment -= bucketAdjustment;
+    }
+
+    // The payment's allocations follow the credits: out of the sender's class and into
+    // the receiver's, keeping the sender's expiry
+    const allocation = await client.query(`
+      SELECT id, classes_allocated, expires_at FROM payment_class_allocations
+      WHERE payment_id = $1 AND class_id = $2 AND student_id = $3
+    `, [source.payment_id, fromClassId, studentId]);
+
+    if (allocation.rows.length > 0 && allocation.rows[0].classes_allocated > taken) {
+      await client.query(
+        'UPDATE payment_class_allocations SET classes_allocated = classes_allocated - $1 WHERE id = $2',
+        [taken, allocation.rows[0].id]
+      );
+    } else if (allocation.rows.length > 0) {
+      await client.query('DELETE FROM payment_class_allocations WHERE id = $1', [allocation.rows[0].id]);
+    }
+
+    if (received > 0) {
+      await client.query(`
+        INSERT INTO payment_class_allocations (payment_id, class_id, student_id, classes_allocated, expires_at)
+        VALUES ($1, $2, $3, $4, $5)
+        ON CONFLICT (payment_id, class_id, student_id) DO UPDATE SET classes_allocated = payment_class_allocations.classes_allocated + $4
+      `, [source.payment_id, toClassId, toStudentId, received, allocation.rows[0]?.expires_at ?? null]);
+    }
+
+    const transferResult = await client.query(`
+      INSERT INTO credit_transfers (
+        transaction_id, payment_id, from_student_id, from_class_id, to_student_id, to_class_id,
+        classes_out, classes_in, notes, transferred_by
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      RETURNING *
+    `, [transactionId, source.payment_id, studentId, fromClassId, toStudentId, toClassId, taken, received, request.notes || null, request.userId]);
+
+    const transfer = transferResult.rows[0];
+
+    await recordAuditEvent(audit, {
+      action: 'balance.transfer',
+      entityType: 'credit_transfer',
+      entityId: transfer.id,
+      studentId,
+      paymentId: source.payment_id,
+      after: transfer
+    }, client);
+
+    // Credits arriving in a class pay off anything owed there first
+    if (received > 0) {
+      await settleOwedClasses(client, toStudentId, source.payment_id, toClassId, audit);
+    }
+
+    transfers.push(transfer);
+  }
+
+  return { success: true, classes_out: classes, classes_in: classesIn, transfers };
+}
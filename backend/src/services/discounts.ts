@@ -0,0 +1,92 @@
+// Discounts applied when a payment is recorded. Every matching rule applies: percentages
+// and fixed amounts are both taken off the list price, and the total may not reach it.
+// Runs inside the caller's transaction.
+
+export interface DiscountRequest {
+  studentId: string;
+  listPrice: number;
+  classIds: string[]; // classes the payment is allocated to
+  packageClassId?: string | null;
+  packageSubject?: string | null;
+  code?: string | null;
+}
+
+export interface AppliedDiscount {
+  discount_rule_id: string;
+  rule_name: string;
+  rule_type: string;
+  amount: number;
+}
+
+export type DiscountEvaluation =
+  | { success: true; list_price: number; discounts: AppliedDiscount[]; discount_amount: number; amount: number }
+  | { success: false; message: string };
+
+const toCents = (amount: number) => Math.round(amount * 100) / 100;
+
+export async function evaluateDiscounts(client: any, request: DiscountRequest): Promise<DiscountEvaluation> {
+  const code = request.code?.trim() || null;
+
+  const rulesResult = await client.query(`
+    SELECT dr.*
+    FROM discount_rules dr
+    WHERE dr.is_active = true
+      AND (dr.valid_from IS NULL OR dr.valid_from <= school_today())
+      AND (dr.valid_until IS NULL OR dr.valid_until >= school_today())
+      AND (
+        (dr.class_id IS NULL AND dr.subject IS NULL)
+        OR dr.class_id = ANY($1::uuid[])
+        OR dr.class_id = $2::uuid
+        OR dr.subject = $3::varchar
+        OR dr.subject IN (SELECT subject FROM classes WHERE id = ANY($1::uuid[]))
+      )
+      AND (
+        dr.rule_type = 'general'
+        OR (dr.rule_type = 'promo_code' AND LOWER(dr.code) = LOWER($4::varchar))
+        OR (dr.rule_type = 'sibling' AND EXISTS (
+          SELECT 1
+          FROM students me
+          JOIN students sibling ON sibling.family_id = me.family_id AND sibling.id <> me.id
+          JOIN student_class_enrollments sce ON sce.student_id = sibling.id AND sce.is_active = true
+          WHERE me.id = $5
+        ))
+      )
+    ORDER BY dr.created_at
+  `, [request.classIds, request.packageClassId || null, request.packageSubject || null, code, request.studentId]);
+
+  if (code && !rulesResult.rows.some((rule: any) => rule.rule_type === 'promo_code')) {
+    return { success: false, message: `Promo code ${code} is not valid for this payment` };
+  }
+
+  const discounts: AppliedDiscount[] = rulesResult.rows.map((rule: any) => ({
+    discount_rule_id: rule.id,
+    rule_name: rule.name,
+    rule_type: rule.rule_type,
+    amount: rule.discount_type === 'percentage'
+      ? toCents(request.listPrice * Number(rule.value) / 100)
+      : Number(rule.value)
+  })).filter((discount: AppliedDiscount) => discount.amount > 0);
+
+  const discountAmount = toCents(discounts.reduce((sum, discount) => sum + discount.amount, 0));
+
+  if (discountAmount >= request.listPrice) {
+    return { success: false, message: 'Discounts cannot cover the whole price of the payment' };
+  }
+
+  return {
+    success: true,
+    list_price: request.listPrice,
+    discounts,
+    discount_amount: discountAmount,
+    amount: toCents(request.listPrice - discountAmount)
+  };
+}
+
+export async function recordPaymentDiscounts(client: any, paymentId: string, discounts: AppliedDiscount[]) {
+  for (const discount of discounts) {
+    await client.query(`
+      INSERT INTO payment_discounts (payment_id, discount_rule_id, rule_name, rule_type, amount)
+      VALUES ($1, $2, $3, $4, $5)
+    `, [paymentId, discount.discount_rule_id, discount.rule_name, discount.rule_type, discount.amount]);
+  }
+}
@@ -0,0 +1,111 @@
+import PDFDocument from 'pdfkit';
+import { SchoolInfo } from '../config/school';
+
+// Shared helpers for printable documents (receipts, statements)
+
+export const paymentMethodLabels: Record<string, string> = {
+  wechat: 'WeChat',
+  cash: 'Cash',
+  zelle: 'Zelle',
+  paypal: 'PayPal',
+  credit_card: 'Credit Card',
+  bank_transfer: 'Bank Transfer'
+};
+
+export const formatCurrency = (amount: number | string) => `$${Number(amount).toFixed(2)}`;
+
+export const formatDate = (date: Date | string) =>
+  new Date(date).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+
+export const escapeHtml = (value: unknown) =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// School contact line (address, phone, email), skipping what is not configured
+export const schoolContactLine = (school: SchoolInfo) =>
+  [school.address, school.phone, school.email].filter(Boolean).join(' · ');
+
+// Minimal print stylesheet shared by the HTML versions
+export const documentStyles = `
+  body { font-family: Helvetica, Arial, sans-serif; color: #222; max-width: 720px; margin: 32px auto; padding: 0 16px; }
+  h1 { font-size: 22px; margin: 0; }
+  h2 { font-size: 16px; margin: 24px 0 8px; }
+  .muted { color: #777; font-size: 12px; }
+  table { width: 100%; border-collapse: collapse; margin-top: 8px; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #e5e5e5; font-size: 13px; }
+  td.number, th.number { text-align: right; }
+  .header { display: flex; justify-content: space-between; align-items: flex-start; border-bottom: 2px solid #222; padding-bottom: 12px; }
+  @media print { body { margin: 0; } }
+`;
+
+// Create a PDF and collect it into a Buffer once the caller has drawn it and called doc.end()
+export function createPdf() {
+  const doc = new PDFDocument({ size: 'LETTER', margin: 50 });
+  const chunks: Buffer[] = [];
+
+  const buffer = new Promise<Buffer>((resolve, reject) => {
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  return { doc, buffer };
+}
+
+// School name and contact line, then the document title
+export function drawPdfHeader(doc: PDFKit.PDFDocument, school: SchoolInfo, title: string, subtitle: string) {
+  doc.fontSize(18).font('Helvetica-Bold').text(school.name);
+  const contact = schoolContactLine(school);
+  if (contact) {
+    doc.fontSize(9).font('Helvetica').fillColor('#777777').text(contact).fillColor('#000000');
+  }
+
+  doc.moveDown();
+  doc.fontSize(14).font('Helvetica-Bold').text(title);
+  doc.fontSize(10).font('Helvetica').text(subtitle);
+  doc.moveDown();
+}
+
+// Two-column label/value rows
+export function drawPdfFields(doc: PDFKit.PDFDocument, fields: Array<[string, string]>) {
+  for (const [label, value] of fields) {
+    const y = doc.y;
+    doc.fontSize(10).font('Helvetica-Bold').text(label, 50, y, { width: 150 });
+    doc.font('Helvetica').text(value, 200, y, { width: 360 });
+    doc.moveDown(0.3);
+  }
+}
+
+// Simple table: header row then rows, with column widths in points
+export function drawPdfTable(doc: PDFKit.PDFDocument, headers: string[], rows: string[][], widths: number[]) {
+  const drawRow = (cells: string[], bold: boolean) => {
+    const y = doc.y;
+    let x = 50;
+    let rowHeight = 0;
+    doc.fontSize(9).font(bold ? 'Helvetica-Bold' : 'Helvetica');
+    cells.forEach((cell, index) => {
+      const width = widths[index] ?? 100;
+      doc.text(cell, x, y, { width });
+      rowHeight = Math.max(rowHeight, doc.heightOfString(cell, { width }));
+      x += width;
+    });
+    doc.y = y + rowHeight + 4;
+    if (doc.y > doc.page.height - 80) {
+      doc.addPage();
+    }
+  };
+
+  drawRow(headers, true);
+  for (const row of rows) {
+    drawRow(row, false);
+  }
+  doc.x = 50;
+}
+
+// CSV with every field quoted
+export const toCsv = (rows: unknown[][]) =>
+  rows.map((row) => row.map((value) => `"${String(value ?? '').replace(/"/g, '""')}"`).join(',')).join('\r\n') + '\r\n';
@@ -0,0 +1,118 @@
+import { PGlite } from '@electric-sql/pglite';
+import { createSchemaDatabase, insertRow } from '../test/schemaDatabase';
+import { AuditContext } from './audit';
+import { enrollStudent, moveWaitlistEntry, promoteFromWaitlist, removeFromWaitlist } from './enrollments';
+
+jest.mock('../config/database', () => ({ query: jest.fn() }));
+
+const audit: AuditContext = { actorUserId: null, actorName: 'Test', requestId: null };
+
+let db: PGlite;
+
+beforeAll(async () => {
+  db = await createSchemaDatabase();
+});
+
+afterAll(async () => {
+  await db.close();
+});
+
+beforeEach(async () => {
+  await db.query('BEGIN');
+});
+
+afterEach(async () => {
+  await db.query('ROLLBACK');
+});
+
+describe('enrollment periods', () => {
+  it('refuses a second open enrollment in the same class', async () => {
+    const student = await insertRow(db, 'students', { name: 'Ada' });
+    const algebra = await insertRow(db, 'classes', { name: 'Algebra' });
+
+    expect(await enrollStudent(db, student.id, algebra.id, '2026-09-01', audit, null)).toMatchObject({ success: true, waitlisted: false });
+    expect(await enrollStudent(db, student.id, algebra.id, '2026-10-01', audit, null))
+      .toEqual({ success: false, message: 'Student is already enrolled in this class' });
+  });
+
+  it('starts a new period once the earlier one has ended, but not inside it', async () => {
+    const student = await insertRow(db, 'students', { name: 'Ada' });
+    const algebra = await insertRow(db, 'classes', { name: 'Algebra' });
+    await insertRow(db, 'student_class_enrollments', { student_id: student.id, class_id: algebra.id, start_date: '2026-01-05', end_date: '2026-03-01' });
+
+    expect(await enrollStudent(db, student.id, algebra.id, '2026-02-01', audit, null))
+      .toEqual({ success: false, message: 'Start date overlaps an earlier enrollment in this class' });
+
+    const result = await enrollStudent(db, student.id, algebra.id, '2026-03-01', audit, null);
+
+    expect(result).toMatchObject({ success: true, waitlisted: false, enrollment: { is_active: true } });
+    const periods = await db.query('SELECT COUNT(*)::int as periods FROM student_class_enrollments WHERE student_id = $1', [student.id]);
+    expect(periods.rows).toEqual([{ periods: 2 }]);
+  });
+});
+
+describe('capacity and waitlist', () => {
+  // A class with one seat, taken, and the given students waiting in that order
+  async function fullClassWith(...waiting: string[]) {
+    const algebra = await insertRow(db, 'classes', { name: 'Algebra', max_students: 1 });
+    const seated = await insertRow(db, 'students', { name: 'Ada' });
+    await enrollStudent(db, seated.id, algebra.id, null, audit, null);
+
+    const students: Record<string, any> = {};
+    for (const name of waiting) {
+      students[name] = await insertRow(db, 'students', { name });
+      await enrollStudent(db, students[name].id, algebra.id, null, audit, null);
+    }
+
+    return { algebra, seated, students };
+  }
+
+  const waitlist = async (classId: string) =>
+    (await db.query<{ name: string; position: number }>(`
+      SELECT s.name, w.position FROM class_waitlist w JOIN students s ON w.student_id = s.id
+      WHERE w.class_id = $1 ORDER BY w.position
+    `, [classId])).rows;
+
+  const entryFor = async (studentId: string) =>
+    (await db.query('SELECT * FROM class_waitlist WHERE student_id = $1', [studentId])).rows[0];
+
+  it('puts students on the waitlist, in order, once the class is full', async () => {
+    const { algebra } = await fullClassWith('Byron', 'Charles');
+
+    const enrolled = await db.query('SELECT COUNT(*)::int as enrolled FROM student_class_enrollments WHERE class_id = $1', [algebra.id]);
+    expect(enrolled.rows).toEqual([{ enrolled: 1 }]);
+    expect(await waitlist(algebra.id)).toEqual([{ name: 'Byron', position: 1 }, { name: 'Charles', position: 2 }]);
+  });
+
+  it('enrolls the first in line when a seat opens', async () => {
+    const { algebra, seated, students } = await fullClassWith('Byron', 'Charles');
+    await db.query('UPDATE student_class_enrollments SET end_date = start_date WHERE student_id = $1', [seated.id]);
+
+    const promoted = await promoteFromWaitlist(db, algebra.id, audit);
+
+    expect(promoted).toMatchObject([{ student_id: students.Byron.id, class_id: algebra.id }]);
+    expect(await waitlist(algebra.id)).toEqual([{ name: 'Charles', position: 1 }]);
+  });
+
+  it('closes the gap when an entry leaves the line', async () => {
+    const { algebra, students } = await fullClassWith('Byron', 'Charles', 'Dora');
+
+    await removeFromWaitlist(db, await entryFor(students.Byron.id), audit);
+
+    expect(await waitlist(algebra.id)).toEqual([{ name: 'Charles', position: 1 }, { name: 'Dora', position: 2 }]);
+  });
+
+  it('moves an entry within the line, clamped to its length', async () => {
+    const { algebra, students } = await fullClassWith('Byron', 'Charles', 'Dora');
+
+    await moveWaitlistEntry(db, await entryFor(students.Dora.id), 1, audit);
+    expect(await waitlist(algebra.id)).toEqual([
+      { name: 'Dora', position: 1 }, { name: 'Byron', position: 2 }, { name: 'Charles', position: 3 }
+    ]);
+
+    await moveWaitlistEntry(db, await entryFor(students.Dora.id), 10, audit);
+    expect(await waitlist(algebra.id)).toEqual([
+      { name: 'Byron', position: 1 }, { name: 'Charles', position: 2 }, { name: 'Dora', position: 3 }
+    ]);
+  });
+});
@@ -0,0 +1,228 @@
+import { AuditContext, recordAuditEvent } from './audit';
+
+// Enrollment periods, class capacity (classes.max_students) and the waitlist.
+// Functions lock the class row so concurrent enrollments cannot overfill it, and
+// run inside the caller's transaction.
+
+export type EnrollResult =
+  | { success: true; waitlisted: false; enrollment: any }
+  | { success: true; waitlisted: true; entry: any }
+  | { success: false; message: string };
+
+export type WaitlistResult =
+  | { success: true; entry: any }
+  | { success: false; message: string };
+
+async function lockClass(client: any, classId: string) {
+  const result = await client.query('SELECT id, name, max_students FROM classes WHERE id = $1 FOR UPDATE', [classId]);
+  return result.rows[0] || null;
+}
+
+async function openEnrollmentCount(client: any, classId: string) {
+  const result = await client.query(
+    'SELECT COUNT(*) as enrolled FROM student_class_enrollments WHERE class_id = $1 AND end_date IS NULL',
+    [classId]
+  );
+  return parseInt(result.rows[0].enrolled);
+}
+
+const hasRoom = (cls: { max_students: number | null }, enrolled: number) =>
+  cls.max_students === null || enrolled < cls.max_students;
+
+// Start an enrollment period without checking capacity
+async function insertEnrollment(client: any, studentId: string, classId: string, startDate: string | null, audit: AuditContext) {
+  const result = await client.query(`
+    INSERT INTO student_class_enrollments (student_id, class_id, start_date)
+    VALUES ($1, $2, COALESCE($3::date, school_today()))
+    RETURNING *
+  `, [studentId, classId, startDate]);
+
+  const enrollment = result.rows[0];
+
+  await recordAuditEvent(audit, {
+    action: 'enrollment.enroll',
+    entityType: 'student_class_enrollment',
+    entityId: enrollment.id,
+    studentId,
+    after: enrollment
+  }, client);
+
+  return enrollment;
+}
+
+// Enroll a student from startDate (default today). A full class puts the student
+// on its waitlist instead.
+export async function enrollStudent(
+  client: any,
+  studentId: string,
+  classId: string,
+  startDate: string | null,
+  audit: AuditContext,
+  userId: string | null
+): Promise<EnrollResult> {
+  const cls = await lockClass(client, classId);
+  if (!cls) {
+    return { success: false, message: 'Class not found' };
+  }
+
+  const periods = await client.query(`
+    SELECT
+      COUNT(*) FILTER (WHERE end_date IS NULL) as open_enrollments,
+      MAX(end_date) > COALESCE($3::date, school_today()) as overlaps
+    FROM student_class_enrollments
+    WHERE student_id = $1 AND class_id = $2
+  `, [studentId, classId, startDate]);
+
+  if (parseInt(periods.rows[0].open_enrollments) > 0) {
+    return { success: false, message: 'Student is already enrolled in this class' };
+  }
+
+  if (periods.rows[0].overlaps) {
+    return { success: false, message: 'Start date overlaps an earlier enrollment in this class' };
+  }
+
+  if (!hasRoom(cls, await openEnrollmentCount(client, classId))) {
+    const waitlisted = await addToWaitlist(client, classId, studentId, null, audit, userId);
+    return waitlisted.success ? { success: true, waitlisted: true, entry: waitlisted.entry } : waitlisted;
+  }
+
+  const enrollment = await insertEnrollment(client, studentId, classId, startDate, audit);
+
+  // A student enrolled directly no longer needs their place in line
+  const entry = await client.query('SELECT * FROM class_waitlist WHERE class_id = $1 AND student_id = $2', [classId, studentId]);
+  if (entry.rows.length > 0) {
+    await removeFromWaitlist(client, entry.rows[0], audit);
+  }
+
+  return { success: true, waitlisted: false, enrollment };
+}
+
+// Add a student to the end of a class's waitlist
+export async function addToWaitlist(
+  client: any,
+  classId: string,
+  studentId: string,
+  notes: string | null,
+  audit: AuditContext,
+  userId: string | null
+): Promise<WaitlistResult> {
+  const cls = await lockClass(client, classId);
+  if (!cls) {
+    return { success: false, message: 'Class not found' };
+  }
+
+  const existing = await client.query(`
+    SELECT
+      EXISTS (SELECT 1 FROM student_class_enrollments WHERE student_id = $1 AND class_id = $2 AND end_date IS NULL) as enrolled,
+      EXISTS (SELECT 1 FROM class_waitlist WHERE student_id = $1 AND class_id = $2) as waitlisted
+  `, [studentId, classId]);
+
+  if (existing.rows[0].enrolled) {
+    return { success: false, message: 'Student is already enrolled in this class' };
+  }
+  if (existing.rows[0].waitlisted) {
+    return { success: false, message: 'Student is already on the waitlist for this class' };
+  }
+
+  const result = await client.query(`
+    INSERT INTO class_waitlist (class_id, student_id, position, notes, added_by)
+    SELECT $1, $2, COALESCE(MAX(position), 0) + 1, $3, $4
+    FROM class_waitlist
+    WHERE class_id = $1
+    RETURNING *
+  `, [classId, studentId, notes, userId]);
+
+  const entry = result.rows[0];
+
+  await recordAuditEvent(audit, {
+    action: 'waitlist.add',
+    entityType: 'class_waitlist',
+    entityId: entry.id,
+    studentId,
+    after: entry
+  }, client);
+
+  return { success: true, entry };
+}
+
+// Take an entry off the waitlist, moving everyone behind it up one place
+export async function removeFromWaitlist(client: any, entry: any, audit: AuditContext, action = 'waitlist.remove') {
+  await client.query('DELETE FROM class_waitlist WHERE id = $1', [entry.id]);
+  await client.query(
+    'UPDATE class_waitlist SET position = position - 1 WHERE class_id = $1 AND position > $2',
+    [entry.class_id, entry.position]
+  );
+
+  await recordAuditEvent(audit, {
+    action,
+    entityType: 'class_waitlist',
+    entityId: entry.id,
+    studentId: entry.student_id,
+    before: entry
+  }, client);
+}
+
+// Move an entry to another place in line (clamped to the waitlist's length)
+export async function moveWaitlistEntry(client: any, entry: any, position: number, audit: AuditContext) {
+  await lockClass(client, entry.class_id);
+
+  const count = await client.query('SELECT COUNT(*) as waiting FROM class_waitlist WHERE class_id = $1', [entry.class_id]);
+  const target = Math.max(1, Math.min(position, parseInt(count.rows[0].waiting)));
+
+  if (target < entry.position) {
+    await client.query(
+      'UPDATE class_waitlist SET position = position + 1 WHERE class_id = $1 AND position >= $2 AND position < $3',
+      [entry.class_id, target, entry.position]
+    );
+  } else if (target > entry.position) {
+    await client.query(
+      'UPDATE class_waitlist SET position = position - 1 WHERE class_id = $1 AND position > $2 AND position <= $3',
+      [entry.class_id, entry.position, target]
+    );
+  }
+
+  const result = await client.query('UPDATE class_waitlist SET position = $1 WHERE id = $2 RETURNING *', [target, entry.id]);
+
+  await recordAuditEvent(audit, {
+    action: 'waitlist.move',
+    entityType: 'class_waitlist',
+    entityId: entry.id,
+    studentId: entry.student_id,
+    before: entry,
+    after: result.rows[0]
+  }, client);
+
+  return result.rows[0];
+}
+
+// Enroll students from the front of the waitlist while the class has room, e.g.
+// after an unenrollment or a capacity increase. Returns the new enrollments.
+export async function promoteFromWaitlist(client: any, classId: string, audit: AuditContext) {
+  const cls = await lockClass(client, classId);
+  if (!cls) {
+    return [];
+  }
+
+  const promoted: any[] = [];
+  let enrolled = await openEnrollmentCount(client, classId);
+
+  while (hasRoom(cls, enrolled)) {
+    const next = await client.query(
+      'SELECT * FROM class_waitlist WHERE class_id = $1 ORDER BY position LIMIT 1',
+      [classId]
+    );
+
+    if (next.rows.length === 0) {
+      break;
+    }
+
+    const entry = next.rows[0];
+    const enrollment = await insertEnrollment(client, entry.student_id, classId, null, audit);
+    await removeFromWaitlist(client, entry, audit, 'waitlist.promote');
+
+    promoted.push(enrollment);
+    enrolled++;
+  }
+
+  return promoted;
+}
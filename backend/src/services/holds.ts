@@ -0,0 +1,37 @@
+import { AuditContext, recordAuditEvent } from './audit';
+
+// Enrollment holds: a student on leave is excluded from their classes' occurrences
+// between the hold's start and end dates, so no attendance is taken and no credit used.
+
+// Exclude every enrolled student with a hold covering the occurrence's date. Call this
+// before taking attendance; the exclusions are then skipped like any other.
+export async function excludeHeldStudents(client: any, occurrenceId: string, audit: AuditContext) {
+  const result = await client.query(`
+    INSERT INTO occurrence_exclusions (occurrence_id, student_id, reason)
+    SELECT DISTINCT ON (eh.student_id)
+      co.id, eh.student_id, 'On hold' || COALESCE(': ' || NULLIF(eh.reason, ''), '')
+    FROM class_occurrences co
+    JOIN student_class_enrollments sce ON sce.class_id = co.class_id
+      AND sce.start_date <= co.occurrence_date AND (sce.end_date IS NULL OR sce.end_date > co.occurrence_date)
+    JOIN enrollment_holds eh ON eh.student_id = sce.student_id
+      AND (eh.class_id IS NULL OR eh.class_id = co.class_id)
+      AND co.occurrence_date BETWEEN eh.start_date AND eh.end_date
+    WHERE co.id = $1
+    ORDER BY eh.student_id, eh.start_date
+    ON CONFLICT (occurrence_id, student_id) DO NOTHING
+    RETURNING *
+  `, [occurrenceId]);
+
+  for (const exclusion of result.rows) {
+    await recordAuditEvent(audit, {
+      action: 'exclusion.add',
+      entityType: 'occurrence_exclusion',
+      entityId: exclusion.id,
+      studentId: exclusion.student_id,
+      occurrenceId,
+      after: exclusion
+    }, client);
+  }
+
+  return result.rows;
+}
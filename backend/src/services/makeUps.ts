@@ -0,0 +1,246 @@
+import { getMakeUpValidityDays } from '../config/credits';
+import { AuditContext, recordAuditEvent } from './audit';
+
+// Make-up classes. An excused absence from a paid class keeps its credit deduction and
+// earns a make-up credit instead of a refund; the student can then be booked into
+// another occurrence of the same class or subject, which uses the make-up credit
+// rather than a class credit. Runs inside the caller's transaction.
+
+export type MakeUpResult =
+  | { success: true; credit: any | null }
+  | { success: false; message: string };
+
+export type MakeUpBookingResult =
+  | { success: true; attendance: any; credit: any }
+  | { success: false; message: string };
+
+async function audited(client: any, audit: AuditContext, action: string, credit: any, before?: any) {
+  await recordAuditEvent(audit, {
+    action,
+    entityType: 'make_up_credit',
+    entityId: credit.id,
+    studentId: credit.student_id,
+    occurrenceId: credit.used_occurrence_id || credit.source_occurrence_id,
+    before,
+    after: credit
+  }, client);
+}
+
+// Turn the paid deduction for an excused absence into a make-up credit. Returns null
+// when the class was not paid from a credit, in which case there is nothing to make up.
+export async function issueMakeUpCredit(client: any, studentId: string, occurrenceId: string, audit: AuditContext) {
+  const deduction = await client.query(
+    'SELECT id FROM payment_deductions WHERE student_id = $1 AND occurrence_id = $2 AND payment_id IS NOT NULL',
+    [studentId, occurrenceId]
+  );
+
+  if (deduction.rows.length === 0) {
+    return null;
+  }
+
+  const days = getMakeUpValidityDays();
+  const result = await client.query(`
+    INSERT INTO make_up_credits (student_id, class_id, source_occurrence_id, expires_at)
+    SELECT $1, co.class_id, co.id, CASE WHEN $3::integer > 0 THEN co.occurrence_date + $3::integer END
+    FROM class_occurrences co
+    WHERE co.id = $2
+    ON CONFLICT (student_id, source_occurrence_id) DO UPDATE SET
+      status = 'available', expires_at = EXCLUDED.expires_at, used_occurrence_id = NULL, used_at = NULL
+    WHERE make_up_credits.status = 'cancelled'
+    RETURNING *
+  `, [studentId, occurrenceId, days]);
+
+  const credit = result.rows[0];
+  if (credit) {
+    await audited(client, audit, 'makeup.issue', credit);
+  }
+
+  return credit || null;
+}
+
+// Withdraw the make-up credit earned by an absence, e.g. when it is no longer excused.
+// Fails once the make-up has been booked, since that class was already given.
+export async function cancelMakeUpCredit(
+  client: any,
+  studentId: string,
+  sourceOccurrenceId: string,
+  audit: AuditContext
+): Promise<MakeUpResult> {
+  const existing = await client.query(
+    `SELECT * FROM make_up_credits WHERE student_id = $1 AND source_occurrence_id = $2 AND status <> 'cancelled' FOR UPDATE`,
+    [studentId, sourceOccurrenceId]
+  );
+
+  if (existing.rows.length === 0) {
+    return { success: true, credit: null };
+  }
+
+  if (existing.rows[0].status === 'used') {
+    return { success: false, message: 'The make-up class for this absence has already been booked; cancel that booking first' };
+  }
+
+  const result = await client.query(
+    `UPDATE make_up_credits SET status = 'cancelled' WHERE id = $1 RETURNING *`,
+    [existing.rows[0].id]
+  );
+
+  await audited(client, audit, 'makeup.cancel', result.rows[0], existing.rows[0]);
+
+  return { success: true, credit: result.rows[0] };
+}
+
+// Available make-up credits that could be used for an occurrence: same class or subject,
+// not expired by the occurrence date, for students not enrolled in it and not already
+// on its register. Soonest to expire first.
+export async function findMakeUpCandidates(client: any, occurrenceId: string, studentId: string | null = null) {
+  const result = await client.query(`
+    SELECT
+      muc.*,
+      s.name as student_name, s.grade,
+      missed.name as missed_class_name,
+      source.occurrence_date as missed_date
+    FROM class_occurrences target
+    JOIN classes tc ON target.class_id = tc.id
+    JOIN make_up_credits muc ON muc.status = 'available' AND muc.source_occurrence_id <> target.id
+    JOIN classes missed ON muc.class_id = missed.id
+    JOIN class_occurrences source ON muc.source_occurrence_id = source.id
+    JOIN students s ON muc.student_id = s.id
+    WHERE target.id = $1
+      AND ($2::uuid IS NULL OR muc.student_id = $2)
+      AND (missed.id = tc.id OR (missed.subject IS NOT NULL AND missed.subject = tc.subject))
+      AND (muc.expires_at IS NULL OR muc.expires_at >= target.occurrence_date)
+      AND NOT EXISTS (
+        SELECT 1 FROM student_class_enrollments sce
+        WHERE sce.student_id = muc.student_id AND sce.class_id = tc.id
+          AND sce.start_date <= target.occurrence_date AND (sce.end_date IS NULL OR sce.end_date > target.occurrence_date)
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM student_attendance sa
+        WHERE sa.student_id = muc.student_id AND sa.class_occurrence_id = target.id
+      )
+    ORDER BY s.name, muc.expires_at NULLS LAST, muc.created_at
+  `, [occurrenceId, studentId]);
+
+  return result.rows;
+}
+
+// Book a student into an occurrence as a make-up, using the given make-up credit or
+// their soonest-expiring eligible one. The occurrence's class must have a free seat.
+export async function bookMakeUp(
+  client: any,
+  studentId: string,
+  occurrenceId: string,
+  makeUpCreditId: string | null,
+  audit: AuditContext
+): Promise<MakeUpBookingResult> {
+  const occurrence = await client.query(`
+    SELECT co.id, co.class_id, co.occurrence_date, c.max_students
+    FROM class_occurrences co
+    JOIN classes c ON co.class_id = c.id
+    WHERE co.id = $1
+    FOR UPDATE OF c
+  `, [occurrenceId]);
+
+  if (occurrence.rows.length === 0) {
+    return { success: false, message: 'Class occurrence not found' };
+  }
+
+  const candidates = await findMakeUpCandidates(client, occurrenceId, studentId);
+  const credit = makeUpCreditId
+    ? candidates.find((candidate: any) => candidate.id === makeUpCreditId)
+    : candidates[0];
+
+  if (!credit) {
+    return { success: false, message: 'Student has no unused make-up credit for this class' };
+  }
+
+  const { max_students } = occurrence.rows[0];
+  if (max_students !== null) {
+    const seats = await client.query(`
+      SELECT
+        (SELECT COUNT(*)
+         FROM student_class_enrollments sce
+         WHERE sce.class_id = co.class_id
+           AND sce.start_date <= co.occurrence_date AND (sce.end_date IS NULL OR sce.end_date > co.occurrence_date)
+           AND NOT EXISTS (
+             SELECT 1 FROM occurrence_exclusions oe WHERE oe.occurrence_id = co.id AND oe.student_id = sce.student_id
+           )
+        ) +
+        (SELECT COUNT(*) FROM student_attendance sa WHERE sa.class_occurrence_id = co.id AND sa.make_up_credit_id IS NOT NULL)
+        as seats_taken
+      FROM class_occurrences co
+      WHERE co.id = $1
+    `, [occurrenceId]);
+
+    if (parseInt(seats.rows[0].seats_taken) >= max_students) {
+      return { success: false, message: `This class is full (${max_students} students)` };
+    }
+  }
+
+  const attendance = await client.query(`
+    INSERT INTO student_attendance (student_id, class_occurrence_id, attendance_status, make_up_credit_id, notes)
+    VALUES ($1, $2, 'present', $3, 'Make-up class')
+    RETURNING *
+  `, [studentId, occurrenceId, credit.id]);
+
+  const used = await client.query(`
+    UPDATE make_up_credits SET status = 'used', used_occurrence_id = $2, used_at = CURRENT_TIMESTAMP
+    WHERE id = $1
+    RETURNING *
+  `, [credit.id, occurrenceId]);
+
+  await audited(client, audit, 'makeup.book', used.rows[0], credit);
+
+  return { success: true, attendance: attendance.rows[0], credit: used.rows[0] };
+}
+
+// Cancel a make-up booking: the student comes off the register and gets the credit back
+export async function cancelMakeUpBooking(client: any, studentId: string, occurrenceId: string, audit: AuditContext): Promise<MakeUpResult> {
+  const attendance = await client.query(`
+    DELETE FROM student_attendance
+    WHERE student_id = $1 AND class_occurrence_id = $2 AND make_up_credit_id IS NOT NULL
+    RETURNING *
+  `, [studentId, occurrenceId]);
+
+  if (attendance.rows.length === 0) {
+    return { success: false, message: 'Make-up booking not found' };
+  }
+
+  const result = await client.query(`
+    UPDATE make_up_credits SET status = 'available', used_occurrence_id = NULL, used_at = NULL
+    WHERE id = $1 AND status = 'used' AND used_occurrence_id = $2
+    RETURNING *
+  `, [attendance.rows[0].make_up_credit_id, occurrenceId]);
+
+  if (result.rows[0]) {
+    await audited(client, audit, 'makeup.unbook', result.rows[0], { ...result.rows[0], status: 'used', used_occurrence_id: occurrenceId });
+  }
+
+  return { success: true, credit: result.rows[0] || null };
+}
+
+// A make-up attendee marked not present gets the make-up credit back; marked present
+// again, it is used again (if it has not been booked elsewhere in the meantime)
+export async function setMakeUpAttended(client: any, attendance: any, attended: boolean, audit: AuditContext): Promise<MakeUpResult> {
+  const result = attended
+    ? await client.query(`
+        UPDATE make_up_credits SET status = 'used', used_occurrence_id = $2, used_at = CURRENT_TIMESTAMP
+        WHERE id = $1 AND status = 'available'
+        RETURNING *
+      `, [attendance.make_up_credit_id, attendance.class_occurrence_id])
+    : await client.query(`
+        UPDATE make_up_credits SET status = 'available', used_occurrence_id = NULL, used_at = NULL
+        WHERE id = $1 AND status = 'used' AND used_occurrence_id = $2
+        RETURNING *
+      `, [attendance.make_up_credit_id, attendance.class_occurrence_id]);
+
+  if (result.rows.length === 0) {
+    return attended
+      ? { success: false, message: 'The make-up credit for this booking has been used for another class' }
+      : { success: true, credit: null };
+  }
+
+  await audited(client, audit, attended ? 'makeup.use' : 'makeup.release', result.rows[0]);
+
+  return { success: true, credit: result.rows[0] };
+}
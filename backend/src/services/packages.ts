@@ -0,0 +1,80 @@
+// Selling a class package: the package sets the amount and classes purchased, and
+// credits go to the class the package covers. Runs inside the caller's transaction.
+
+export interface PackageAllocation {
+  class_id: string;
+  allocated_classes: number;
+}
+
+export type PackageSale =
+  | { success: true; package: any; amount: number; classes_purchased: number; class_allocations: PackageAllocation[] }
+  | { success: false; message: string };
+
+export async function applyPackage(
+  client: any,
+  packageId: string,
+  studentId: string,
+  requestedAllocations?: PackageAllocation[]
+): Promise<PackageSale> {
+  const packageResult = await client.query('SELECT * FROM class_packages WHERE id = $1', [packageId]);
+
+  if (packageResult.rows.length === 0) {
+    return { success: false, message: 'Package not found' };
+  }
+
+  const pkg = packageResult.rows[0];
+
+  if (!pkg.is_active) {
+    return { success: false, message: `Package ${pkg.name} is no longer sold` };
+  }
+
+  // Explicit allocations must stay within the package's class or subject
+  if (requestedAllocations && requestedAllocations.length > 0) {
+    if (pkg.class_id || pkg.subject) {
+      const outside = await client.query(`
+        SELECT id, name
+        FROM classes
+        WHERE id = ANY($1::uuid[])
+          AND NOT COALESCE(id = $2::uuid, false)
+          AND NOT COALESCE(subject = $3::varchar, false)
+      `, [requestedAllocations.map((allocation) => allocation.class_id), pkg.class_id, pkg.subject]);
+
+      if (outside.rows.length > 0) {
+        return { success: false, message: `Package ${pkg.name} does not cover ${outside.rows[0].name}` };
+      }
+    }
+
+    return {
+      success: true,
+      package: pkg,
+      amount: Number(pkg.price),
+      classes_purchased: pkg.classes_count,
+      class_allocations: requestedAllocations
+    };
+  }
+
+  // Otherwise allocate everything to the package's class, or to the student's only
+  // enrolled class in the package's subject. Anything else stays unallocated.
+  let classId: string | null = pkg.class_id;
+
+  if (!classId && pkg.subject) {
+    const enrolled = await client.query(`
+      SELECT c.id
+      FROM student_class_enrollments sce
+      JOIN classes c ON sce.class_id = c.id
+      WHERE sce.student_id = $1 AND sce.is_active = true AND c.subject = $2
+    `, [studentId, pkg.subject]);
+
+    if (enrolled.rows.length === 1) {
+      classId = enrolled.rows[0].id;
+    }
+  }
+
+  return {
+    success: true,
+    package: pkg,
+    amount: Number(pkg.price),
+    classes_purchased: pkg.classes_count,
+    class_allocations: classId ? [{ class_id: classId, allocated_classes: pkg.classes_count }] : []
+  };
+}
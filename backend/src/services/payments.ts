@@ -0,0 +1,49 @@
+import { query } from '../config/database';
+
+// Payment with its student, class allocations, discounts and refunds, or null if it does not exist.
+// Shared by the payment detail endpoint and receipts.
+export async function getPaymentDetail(id: string) {
+  const paymentQuery = `
+    SELECT
+      p.*,
+      s.name as student_name, s.grade, s.email,
+      cp.name as package_name
+    FROM payments p
+    JOIN students s ON p.student_id = s.id
+    LEFT JOIN class_packages cp ON p.package_id = cp.id
+    WHERE p.id = $1
+  `;
+
+  const paymentResult = await query(paymentQuery, [id]);
+
+  if (paymentResult.rows.length === 0) {
+    return null;
+  }
+
+  // Get allocated classes
+  const allocationsQuery = `
+    SELECT
+      c.id, c.name, c.subject,
+      pca.student_id, s.name as student_name,
+      pca.classes_allocated,
+      COALESCE(pca.expires_at, p.expires_at) as expires_at
+    FROM payment_class_allocations pca
+    JOIN classes c ON pca.class_id = c.id
+    JOIN payments p ON pca.payment_id = p.id
+    JOIN students s ON pca.student_id = s.id
+    WHERE pca.payment_id = $1
+    ORDER BY pca.student_id = p.student_id DESC, s.name, c.name
+  `;
+  const allocationsResult = await query(allocationsQuery, [id]);
+
+  const refundsResult = await query('SELECT * FROM payment_refunds WHERE payment_id = $1 ORDER BY refund_date DESC', [id]);
+
+  const discountsResult = await query('SELECT * FROM payment_discounts WHERE payment_id = $1 ORDER BY created_at', [id]);
+
+  return {
+    ...paymentResult.rows[0],
+    class_allocations: allocationsResult.rows,
+    discounts: discountsResult.rows,
+    refunds: refundsResult.rows
+  };
+}
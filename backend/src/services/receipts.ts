@@ -0,0 +1,119 @@
+import { getSchoolInfo } from '../config/school';
+import {
+  createPdf, documentStyles, drawPdfHeader, drawPdfFields, drawPdfTable, escapeHtml,
+  formatCurrency, formatDate, paymentMethodLabels, schoolContactLine
+} from './documents';
+
+// Receipt numbers come from payments.receipt_number, printed as R-001001
+export const formatReceiptNumber = (receiptNumber: number) => `R-${String(receiptNumber).padStart(6, '0')}`;
+
+// payment is the result of getPaymentDetail
+export function renderReceiptHtml(payment: any) {
+  const school = getSchoolInfo();
+  const receiptNumber = formatReceiptNumber(payment.receipt_number);
+  const refunded = payment.refunds.reduce((sum: number, refund: any) => sum + Number(refund.amount), 0);
+
+  const allocationRows = payment.class_allocations.map((allocation: any) => `
+        <tr>
+          <td>${escapeHtml(allocation.name)}</td>
+          <td>${escapeHtml(allocation.subject)}</td>
+          <td class="number">${escapeHtml(allocation.classes_allocated)}</td>
+        </tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Receipt ${receiptNumber}</title>
+  <style>${documentStyles}</style>
+</head>
+<body>
+  <div class="header">
+    <div>
+      <h1>${escapeHtml(school.name)}</h1>
+      <div class="muted">${escapeHtml(schoolContactLine(school))}</div>
+    </div>
+    <div style="text-align: right">
+      <h1>Receipt</h1>
+      <div>${receiptNumber}</div>
+      <div class="muted">${formatDate(payment.payment_date)}</div>
+    </div>
+  </div>
+
+  <table>
+    <tr><th>Student</th><td>${escapeHtml(payment.student_name)}${payment.grade ? ` (${escapeHtml(payment.grade)})` : ''}</td></tr>
+    <tr><th>Payment method</th><td>${escapeHtml(paymentMethodLabels[payment.payment_method] || payment.payment_method)}</td></tr>
+    <tr><th>Reference</th><td>${escapeHtml(payment.payment_reference || '—')}</td></tr>
+    ${Number(payment.discount_amount) > 0 ? `<tr><th>List price</th><td>${formatCurrency(payment.list_price)}</td></tr>` : ''}
+    ${payment.discounts.map((discount: any) => `<tr><th>${escapeHtml(discount.rule_name)}</th><td>-${formatCurrency(discount.amount)}</td></tr>`).join('')}
+    <tr><th>Amount paid</th><td>${formatCurrency(payment.amount)}</td></tr>
+    ${refunded > 0 ? `<tr><th>Refunded</th><td>${formatCurrency(refunded)}</td></tr>` : ''}
+    ${payment.package_name ? `<tr><th>Package</th><td>${escapeHtml(payment.package_name)}</td></tr>` : ''}
+    <tr><th>Classes purchased</th><td>${escapeHtml(payment.classes_purchased)}</td></tr>
+    ${payment.expires_at ? `<tr><th>Credits expire</th><td>${formatDate(payment.expires_at)}</td></tr>` : ''}
+  </table>
+
+  ${payment.class_allocations.length > 0 ? `
+  <h2>Class allocations</h2>
+  <table>
+    <thead>
+      <tr><th>Class</th><th>Subject</th><th class="number">Classes</th></tr>
+    </thead>
+    <tbody>${allocationRows}
+    </tbody>
+  </table>` : ''}
+
+  <p class="muted" style="margin-top: 32px">Thank you for your payment.</p>
+</body>
+</html>`;
+}
+
+export async function renderReceiptPdf(payment: any): Promise<Buffer> {
+  const school = getSchoolInfo();
+  const refunded = payment.refunds.reduce((sum: number, refund: any) => sum + Number(refund.amount), 0);
+
+  const { doc, buffer } = createPdf();
+  drawPdfHeader(doc, school, `Receipt ${formatReceiptNumber(payment.receipt_number)}`, formatDate(payment.payment_date));
+
+  const fields: Array<[string, string]> = [
+    ['Student', payment.grade ? `${payment.student_name} (${payment.grade})` : payment.student_name],
+    ['Payment method', paymentMethodLabels[payment.payment_method] || payment.payment_method],
+    ['Reference', payment.payment_reference || '—']
+  ];
+  if (Number(payment.discount_amount) > 0) {
+    fields.push(['List price', formatCurrency(payment.list_price)]);
+  }
+  for (const discount of payment.discounts) {
+    fields.push([discount.rule_name, `-${formatCurrency(discount.amount)}`]);
+  }
+  fields.push(['Amount paid', formatCurrency(payment.amount)]);
+  if (refunded > 0) {
+    fields.push(['Refunded', formatCurrency(refunded)]);
+  }
+  if (payment.package_name) {
+    fields.push(['Package', payment.package_name]);
+  }
+  fields.push(['Classes purchased', String(payment.classes_purchased)]);
+  if (payment.expires_at) {
+    fields.push(['Credits expire', formatDate(payment.expires_at)]);
+  }
+  drawPdfFields(doc, fields);
+
+  if (payment.class_allocations.length > 0) {
+    doc.moveDown();
+    doc.fontSize(12).font('Helvetica-Bold').text('Class allocations');
+    doc.moveDown(0.5);
+    drawPdfTable(
+      doc,
+      ['Class', 'Subject', 'Classes'],
+      payment.class_allocations.map((allocation: any) => [allocation.name, allocation.subject || '', String(allocation.classes_allocated)]),
+      [240, 180, 80]
+    );
+  }
+
+  doc.moveDown(2);
+  doc.fontSize(9).font('Helvetica').fillColor('#777777').text('Thank you for your payment.');
+  doc.end();
+
+  return buffer;
+}
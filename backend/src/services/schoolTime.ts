@@ -0,0 +1,55 @@
+import { getSchoolTimezone } from '../config/school';
+
+// Dates and times in the school's timezone. Calendar dates are YYYY-MM-DD strings and times HH:MM,
+// so nothing depends on the server's own timezone, and Intl applies the zone's DST changes.
+
+export interface SchoolClock {
+  date: string;
+  time: string;
+  dayOfWeek: number;
+}
+
+// The school's date, wall-clock time and weekday at an instant (default: now)
+export function schoolNow(at: Date = new Date()): SchoolClock {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: getSchoolTimezone(),
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(at);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value ?? '';
+
+  const date = `${part('year')}-${part('month')}-${part('day')}`;
+  return { date, time: `${part('hour')}:${part('minute')}`, dayOfWeek: dayOfWeek(date) };
+}
+
+export const schoolToday = (): string => schoolNow().date;
+
+// Weekday of a calendar date, 0 = Sunday
+export const dayOfWeek = (date: string): number =>
+  new Date(`${date.slice(0, 10)}T00:00:00Z`).getUTCDay();
+
+export function addDays(date: string, days: number): string {
+  const result = new Date(`${date.slice(0, 10)}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().slice(0, 10);
+}
+
+// Every calendar date from one date to another, inclusive
+export function datesBetween(from: string, to: string): string[] {
+  const dates = [];
+  for (let date = from.slice(0, 10); date <= to.slice(0, 10); date = addDays(date, 1)) {
+    dates.push(date);
+  }
+  return dates;
+}
+
+// Wall-clock time (HH:MM) a number of minutes after another, wrapping past midnight
+export function addMinutes(time: string, minutes: number): string {
+  const [hours, mins] = time.split(':').map(Number);
+  const total = ((((hours ?? 0) * 60 + (mins ?? 0) + minutes) % 1440) + 1440) % 1440;
+  return `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+}
@@ -0,0 +1,301 @@
+import { query } from '../config/database';
+import { getSchoolInfo } from '../config/school';
+import {
+  createPdf, drawPdfFields, drawPdfHeader, drawPdfTable, formatCurrency, formatDate,
+  paymentMethodLabels, toCsv
+} from './documents';
+import { formatReceiptNumber } from './receipts';
+
+// Account statement for one student over an inclusive date range (YYYY-MM-DD).
+// Credit balances come from the ledger, so opening + changes = closing.
+
+export interface StatementPeriod {
+  from: string;
+  to: string;
+}
+
+// First and last day of a YYYY-MM month
+export function monthPeriod(month: string): StatementPeriod {
+  const [year, monthNumber] = month.split('-').map(Number) as [number, number];
+  const lastDay = new Date(Date.UTC(year, monthNumber, 0)).getUTCDate();
+  return {
+    from: `${month}-01`,
+    to: `${month}-${String(lastDay).padStart(2, '0')}`
+  };
+}
+
+// Statement for a student, or null if the student does not exist
+export async function buildStatement(studentId: string, period: StatementPeriod) {
+  const studentResult = await query('SELECT id, name, grade, email, phone FROM students WHERE id = $1', [studentId]);
+
+  if (studentResult.rows.length === 0) {
+    return null;
+  }
+
+  const params = [studentId, period.from, period.to];
+
+  // Ledger entries are timestamped, so the period ends at midnight after `to`
+  const balancesResult = await query(`
+    SELECT
+      COALESCE(SUM(classes) FILTER (WHERE created_at < $2::date), 0) as opening_balance,
+      COALESCE(SUM(classes) FILTER (WHERE created_at < $3::date + 1), 0) as closing_balance,
+      COALESCE(SUM(classes) FILTER (WHERE entry_type = 'purchase' AND created_at >= $2::date AND created_at < $3::date + 1), 0) as purchased,
+      COALESCE(SUM(classes) FILTER (WHERE entry_type = 'deduction' AND created_at >= $2::date AND created_at < $3::date + 1), 0) as deducted,
+      COALESCE(SUM(classes) FILTER (WHERE entry_type = 'refund' AND created_at >= $2::date AND created_at < $3::date + 1), 0) as returned,
+      COALESCE(SUM(classes) FILTER (WHERE entry_type IN ('adjustment', 'transfer', 'allocation') AND created_at >= $2::date AND created_at < $3::date + 1), 0) as adjusted,
+      COALESCE(SUM(classes) FILTER (WHERE entry_type = 'expiration' AND created_at >= $2::date AND created_at < $3::date + 1), 0) as expired
+    FROM credit_ledger
+    WHERE student_id = $1
+  `, params);
+
+  const purchasesResult = await query(`
+    SELECT id, receipt_number, payment_date, payment_method, payment_reference, amount, classes_purchased
+    FROM payments
+    WHERE student_id = $1 AND payment_date >= $2::date AND payment_date < $3::date + 1
+    ORDER BY payment_date
+  `, params);
+
+  // Every class taken in the period, whether paid from a credit or owed
+  const attendedResult = await query(`
+    SELECT
+      pd.occurrence_id, co.occurrence_date, co.start_time,
+      c.id as class_id, c.name as class_name, c.subject,
+      pd.classes_deducted, pd.payment_id, pd.is_overdue_deduction, pd.overdue_amount
+    FROM payment_deductions pd
+    JOIN class_occurrences co ON pd.occurrence_id = co.id
+    JOIN classes c ON pd.class_id = c.id
+    WHERE pd.student_id = $1 AND co.occurrence_date BETWEEN $2::date AND $3::date
+    ORDER BY co.occurrence_date, co.start_time
+  `, params);
+
+  const refundsResult = await query(`
+    SELECT pr.id, pr.payment_id, p.receipt_number, pr.refund_date, pr.payment_method, pr.amount, pr.classes_refunded, pr.reason
+    FROM payment_refunds pr
+    JOIN payments p ON pr.payment_id = p.id
+    WHERE p.student_id = $1 AND pr.refund_date >= $2::date AND pr.refund_date < $3::date + 1
+    ORDER BY pr.refund_date
+  `, params);
+
+  // Classes from the period (or earlier) still owed at the end of it
+  const owedResult = await query(`
+    SELECT
+      pd.occurrence_id, co.occurrence_date, c.name as class_name,
+      pd.classes_deducted as classes_owed, pd.overdue_amount as amount_owed
+    FROM payment_deductions pd
+    JOIN class_occurrences co ON pd.occurrence_id = co.id
+    JOIN classes c ON pd.class_id = c.id
+    WHERE pd.student_id = $1 AND pd.payment_id IS NULL AND co.occurrence_date <= $3::date
+    ORDER BY co.occurrence_date, co.start_time
+  `, params);
+
+  const balances = balancesResult.rows[0];
+  const sum = (rows: any[], field: string) => rows.reduce((total, row) => total + Number(row[field]), 0);
+
+  return {
+    student: studentResult.rows[0],
+    period,
+    opening_balance: parseInt(balances.opening_balance),
+    closing_balance: parseInt(balances.closing_balance),
+    credit_changes: {
+      purchased: parseInt(balances.purchased),
+      deducted: parseInt(balances.deducted),
+      returned: parseInt(balances.returned),
+      adjusted: parseInt(balances.adjusted),
+      expired: parseInt(balances.expired)
+    },
+    purchases: purchasesResult.rows,
+    classes_attended: attendedResult.rows,
+    refunds: refundsResult.rows,
+    overdue_sessions: owedResult.rows,
+    totals: {
+      amount_paid: sum(purchasesResult.rows, 'amount'),
+      classes_purchased: sum(purchasesResult.rows, 'classes_purchased'),
+      classes_attended: sum(attendedResult.rows, 'classes_deducted'),
+      amount_refunded: sum(refundsResult.rows, 'amount'),
+      classes_refunded: sum(refundsResult.rows, 'classes_refunded'),
+      classes_owed: sum(owedResult.rows, 'classes_owed'),
+      amount_owed: sum(owedResult.rows, 'amount_owed')
+    }
+  };
+}
+
+export type Statement = NonNullable<Awaited<ReturnType<typeof buildStatement>>>;
+
+// Statements for every student with an active enrollment, by name
+export async function buildMonthlyStatements(month: string) {
+  const period = monthPeriod(month);
+  const studentsResult = await query(`
+    SELECT DISTINCT s.id, s.name
+    FROM students s
+    JOIN student_class_enrollments sce ON s.id = sce.student_id AND sce.is_active = true
+    ORDER BY s.name
+  `);
+
+  const statements: Statement[] = [];
+  for (const student of studentsResult.rows) {
+    const statement = await buildStatement(student.id, period);
+    if (statement) {
+      statements.push(statement);
+    }
+  }
+
+  return statements;
+}
+
+const toDateString = (date: Date | string) => new Date(date).toISOString().slice(0, 10);
+
+// One line per activity, with the balances first and last. Batch CSVs repeat the
+// student name on every line.
+export function renderStatementsCsv(statements: Statement[]) {
+  const rows: unknown[][] = [['Student', 'Date', 'Type', 'Description', 'Classes', 'Amount']];
+
+  for (const statement of statements) {
+    const name = statement.student.name;
+    rows.push([name, statement.period.from, 'opening_balance', 'Opening credit balance', statement.opening_balance, '']);
+
+    for (const payment of statement.purchases) {
+      rows.push([
+        name, toDateString(payment.payment_date), 'purchase',
+        `Payment ${formatReceiptNumber(payment.receipt_number)} (${paymentMethodLabels[payment.payment_method] || payment.payment_method})`,
+        payment.classes_purchased, payment.amount
+      ]);
+    }
+    for (const session of statement.classes_attended) {
+      rows.push([
+        name, toDateString(session.occurrence_date), session.payment_id ? 'attended' : 'owed',
+        session.class_name, -session.classes_deducted, session.payment_id ? '' : session.overdue_amount
+      ]);
+    }
+    for (const refund of statement.refunds) {
+      rows.push([
+        name, toDateString(refund.refund_date), 'refund',
+        `Refund on ${formatReceiptNumber(refund.receipt_number)}${refund.reason ? `: ${refund.reason}` : ''}`,
+        -refund.classes_refunded, -refund.amount
+      ]);
+    }
+
+    if (statement.credit_changes.expired !== 0) {
+      rows.push([name, statement.period.to, 'expired', 'Unused credits expired', statement.credit_changes.expired, '']);
+    }
+
+    rows.push([name, statement.period.to, 'closing_balance', 'Closing credit balance', statement.closing_balance, '']);
+    if (statement.totals.classes_owed > 0) {
+      rows.push([name, statement.period.to, 'amount_owed', 'Classes owed', statement.totals.classes_owed, statement.totals.amount_owed]);
+    }
+  }
+
+  return toCsv(rows);
+}
+
+function drawStatement(doc: PDFKit.PDFDocument, statement: Statement) {
+  const school = getSchoolInfo();
+  const student = statement.student;
+
+  drawPdfHeader(
+    doc,
+    school,
+    'Account Statement',
+    `${formatDate(statement.period.from)} – ${formatDate(statement.period.to)}`
+  );
+
+  const fields: Array<[string, string]> = [
+    ['Student', student.grade ? `${student.name} (${student.grade})` : student.name],
+    ['Opening balance', `${statement.opening_balance} classes`],
+    ['Classes purchased', String(statement.totals.classes_purchased)],
+    ['Classes attended', String(statement.totals.classes_attended)],
+    ['Amount paid', formatCurrency(statement.totals.amount_paid)],
+    ['Amount refunded', formatCurrency(statement.totals.amount_refunded)]
+  ];
+  if (statement.credit_changes.expired !== 0) {
+    fields.push(['Classes expired', String(-statement.credit_changes.expired)]);
+  }
+  fields.push(['Closing balance', `${statement.closing_balance} classes`]);
+  fields.push(['Owed', `${statement.totals.classes_owed} classes (${formatCurrency(statement.totals.amount_owed)})`]);
+  drawPdfFields(doc, fields);
+
+  const section = (title: string) => {
+    doc.moveDown();
+    doc.fontSize(12).font('Helvetica-Bold').text(title);
+    doc.moveDown(0.5);
+  };
+
+  if (statement.purchases.length > 0) {
+    section('Purchases');
+    drawPdfTable(
+      doc,
+      ['Date', 'Receipt', 'Method', 'Classes', 'Amount'],
+      statement.purchases.map((payment: any) => [
+        formatDate(payment.payment_date),
+        formatReceiptNumber(payment.receipt_number),
+        paymentMethodLabels[payment.payment_method] || payment.payment_method,
+        String(payment.classes_purchased),
+        formatCurrency(payment.amount)
+      ]),
+      [100, 100, 120, 80, 100]
+    );
+  }
+
+  if (statement.classes_attended.length > 0) {
+    section('Classes attended');
+    drawPdfTable(
+      doc,
+      ['Date', 'Class', 'Paid from', 'Classes'],
+      statement.classes_attended.map((session: any) => [
+        formatDate(session.occurrence_date),
+        session.class_name,
+        session.payment_id ? 'Credit' : `Owed (${formatCurrency(session.overdue_amount)})`,
+        String(session.classes_deducted)
+      ]),
+      [100, 200, 120, 80]
+    );
+  }
+
+  if (statement.refunds.length > 0) {
+    section('Refunds');
+    drawPdfTable(
+      doc,
+      ['Date', 'Receipt', 'Reason', 'Classes', 'Amount'],
+      statement.refunds.map((refund: any) => [
+        formatDate(refund.refund_date),
+        formatReceiptNumber(refund.receipt_number),
+        refund.reason || '',
+        String(refund.classes_refunded),
+        formatCurrency(refund.amount)
+      ]),
+      [100, 100, 140, 60, 100]
+    );
+  }
+
+  if (statement.overdue_sessions.length > 0) {
+    section('Overdue sessions');
+    drawPdfTable(
+      doc,
+      ['Date', 'Class', 'Amount owed'],
+      statement.overdue_sessions.map((session: any) => [
+        formatDate(session.occurrence_date),
+        session.class_name,
+        formatCurrency(session.amount_owed)
+      ]),
+      [100, 300, 100]
+    );
+  }
+}
+
+// Each student's statement starts on a new page
+export async function renderStatementsPdf(statements: Statement[]): Promise<Buffer> {
+  const { doc, buffer } = createPdf();
+
+  statements.forEach((statement, index) => {
+    if (index > 0) {
+      doc.addPage();
+    }
+    drawStatement(doc, statement);
+  });
+
+  if (statements.length === 0) {
+    doc.fontSize(10).font('Helvetica').text('No statements for this period.');
+  }
+
+  doc.end();
+  return buffer;
+}
@@ -0,0 +1,15 @@
+import { PGlite } from '@electric-sql/pglite';
+import { addLedgerEntry, moveCredits } from '../services/creditLedger';
+import { insertRow } from './schemaDatabase';
+
+// A cash payment for some classes (at $25 unless the payment columns given say otherwise),
+// all allocated to one class for the payer
+export async function buyClasses(db: PGlite, studentId: string, classId: string, classes: number, payment: Record<string, unknown> = {}) {
+  const created = await insertRow(db, 'payments', {
+    student_id: studentId, payment_method: 'cash', amount: classes * 25, list_price: classes * 25, classes_purchased: classes, ...payment
+  });
+  await addLedgerEntry(db, { studentId, paymentId: created.id, entryType: 'purchase', classes });
+  await moveCredits(db, 'allocation', { studentId, paymentId: created.id, classId: null }, { studentId, paymentId: created.id, classId }, classes);
+  await insertRow(db, 'payment_class_allocations', { payment_id: created.id, class_id: classId, student_id: studentId, classes_allocated: classes });
+  return created;
+}
@@ -0,0 +1,28 @@
+import { PGlite } from '@electric-sql/pglite';
+import { createSchemaDatabase } from './schemaDatabase';
+
+let db: PGlite;
+
+beforeAll(async () => {
+  db = await createSchemaDatabase();
+});
+
+afterAll(async () => {
+  await db.close();
+});
+
+describe('database schema', () => {
+  it('gives every table with an updated_at trigger an updated_at column', async () => {
+    const result = await db.query<{ table_name: string }>(`
+      SELECT DISTINCT t.event_object_table as table_name
+      FROM information_schema.triggers t
+      WHERE t.action_statement LIKE '%update_updated_at_column%'
+        AND NOT EXISTS (
+          SELECT 1 FROM information_schema.columns c
+          WHERE c.table_name = t.event_object_table AND c.column_name = 'updated_at'
+        )
+    `);
+
+    expect(result.rows).toEqual([]);
+  });
+});
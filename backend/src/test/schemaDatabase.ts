@@ -0,0 +1,26 @@
+import fs from 'fs';
+import path from 'path';
+import { PGlite } from '@electric-sql/pglite';
+
+// database/schema.sql loaded into an in-memory Postgres, for tests that need the real tables,
+// triggers and constraints. The psql lines that create and connect to the database are skipped,
+// and uuid-ossp's uuid_generate_v4() is stood in for by the built-in gen_random_uuid().
+// It answers client.query(sql, params) with { rows } like a pg client, so services take it as is.
+export async function createSchemaDatabase() {
+  const db = new PGlite();
+  const schema = fs.readFileSync(path.join(__dirname, '../../../database/schema.sql'), 'utf8')
+    .replace(/^(create database|\\c) .*$/gim, '')
+    .replace('CREATE EXTENSION IF NOT EXISTS "uuid-ossp";', () => 'CREATE FUNCTION uuid_generate_v4() RETURNS uuid AS $$ SELECT gen_random_uuid() $$ LANGUAGE sql;');
+  await db.exec(schema);
+  return db;
+}
+
+// Insert a row and return it, for test fixtures
+export async function insertRow(db: PGlite, table: string, values: Record<string, unknown>): Promise<any> {
+  const columns = Object.keys(values);
+  const result = await db.query(
+    `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map((_, i) => `$${i + 1}`).join(', ')}) RETURNING *`,
+    Object.values(values)
+  );
+  return result.rows[0];
+}
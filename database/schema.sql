@@ -7,6 +7,44 @@ create database student_payment_tracker;
 -- Enable UUID extension
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 
+-- Today's date in the school's timezone, which the backend sets as app.school_timezone on each connection.
+-- Used instead of CURRENT_DATE so dates don't depend on the database server's timezone.
+CREATE OR REPLACE FUNCTION school_today()
+RETURNS DATE AS $$
+    SELECT (CURRENT_TIMESTAMP AT TIME ZONE COALESCE(NULLIF(current_setting('app.school_timezone', true), ''), 'America/New_York'))::date;
+$$ LANGUAGE sql STABLE;
+
+-- The current time on the school's clock, for comparing with local timestamps such as credit expiries
+CREATE OR REPLACE FUNCTION school_now()
+RETURNS TIMESTAMP AS $$
+    SELECT CURRENT_TIMESTAMP AT TIME ZONE COALESCE(NULLIF(current_setting('app.school_timezone', true), ''), 'America/New_York');
+$$ LANGUAGE sql STABLE;
+
+-- Staff users (login accounts for the tracker itself)
+CREATE TABLE users (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    email VARCHAR(255) UNIQUE NOT NULL,
+    password_hash VARCHAR(255) NOT NULL,
+    name VARCHAR(100) NOT NULL,
+    role VARCHAR(20) NOT NULL DEFAULT 'owner' CHECK (role IN ('owner', 'front_desk', 'teacher')),
+    is_active BOOLEAN DEFAULT true,
+    last_login_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Families: a guardian's household. Students linked to the same family are siblings
+CREATE TABLE families (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(100) NOT NULL,
+    guardian_name VARCHAR(100),
+    guardian_email VARCHAR(255),
+    guardian_phone VARCHAR(20),
+    notes TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
 -- Students table
 CREATE TABLE students (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -16,6 +54,7 @@ CREATE TABLE students (
     phone VARCHAR(20),
     emergency_contact VARCHAR(100),
     emergency_phone VARCHAR(20),
+    family_id UUID REFERENCES families(id) ON DELETE SET NULL, -- students in the same family are siblings
     notes TEXT,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
@@ -30,6 +69,10 @@ CREATE TABLE classes (
     duration_minutes INTEGER DEFAULT 60,
     max_students INTEGER,
     price_per_class DECIMAL(10,2),
+    teacher_id UUID REFERENCES users(id) ON DELETE SET NULL, -- teacher who runs the class (limits what teachers can see)
+    -- How occurrences take attendance: auto_present (everyone present and charged), pending (charged when marked
+    -- present or when the session closes) or charge_regardless (charged even when absent, e.g. private lessons)
+    attendance_mode VARCHAR(20) NOT NULL DEFAULT 'auto_present' CHECK (attendance_mode IN ('auto_present', 'pending', 'charge_regardless')),
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
@@ -47,14 +90,65 @@ CREATE TABLE class_schedules (
     UNIQUE(class_id, day_of_week, start_time) -- Prevent duplicate schedules
 );
 
--- Student class enrollments (many-to-many relationship)
+-- Days the school (or one class or subject) is closed, e.g. public holidays and breaks.
+-- Scheduled classes are not held on these dates; both dates are inclusive.
+CREATE TABLE closures (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(100) NOT NULL,
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+    class_id UUID REFERENCES classes(id) ON DELETE CASCADE, -- NULL with no subject = whole school
+    subject VARCHAR(100),
+    notes TEXT,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    CHECK (end_date >= start_date),
+    CHECK (class_id IS NULL OR subject IS NULL)
+);
+
+-- Student class enrollments (many-to-many relationship). One row per enrollment
+-- period, so re-enrolling adds a row and past rosters can be rebuilt for any date:
+-- a student is enrolled on dates from start_date up to, but not including, end_date.
 CREATE TABLE student_class_enrollments (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
     class_id UUID NOT NULL REFERENCES classes(id) ON DELETE CASCADE,
     enrolled_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-    is_active BOOLEAN DEFAULT true,
-    UNIQUE(student_id, class_id) -- Prevent duplicate enrollments
+    start_date DATE NOT NULL DEFAULT school_today(),
+    end_date DATE, -- first day no longer enrolled; NULL while the enrollment is open
+    end_reason TEXT,
+    is_active BOOLEAN GENERATED ALWAYS AS (end_date IS NULL) STORED,
+    CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+-- Students waiting for a seat in a full class (classes.max_students), in order of
+-- position (1 is next). The first in line is enrolled when a seat opens up.
+CREATE TABLE class_waitlist (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    class_id UUID NOT NULL REFERENCES classes(id) ON DELETE CASCADE,
+    student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL CHECK (position > 0),
+    notes TEXT,
+    added_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(class_id, student_id) -- One place in line per student
+);
+
+-- Leave of absence from a student's classes (all of them when class_id is NULL).
+-- Occurrences between start_date and end_date (inclusive) exclude the student
+-- instead of marking them present and deducting a credit.
+CREATE TABLE enrollment_holds (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+    class_id UUID REFERENCES classes(id) ON DELETE CASCADE,
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+    reason TEXT,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    CHECK (end_date >= start_date)
 );
 
 -- Class occurrences (actual instances of classes that took place)
@@ -69,7 +163,7 @@ CREATE TABLE class_occurrences (
     notes TEXT,
     was_cancelled BOOLEAN DEFAULT false,
     is_auto_created BOOLEAN DEFAULT false,
-    is_overdue BOOLEAN DEFAULT false,
+    closed_at TIMESTAMP, -- when the grace period closed the session, charging students still pending
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     UNIQUE(class_id, occurrence_date, start_time) -- Prevent duplicate occurrences
@@ -86,87 +180,340 @@ CREATE TABLE occurrence_exclusions (
     UNIQUE(occurrence_id, student_id) -- One exclusion per student per occurrence
 );
 
+-- A make-up class owed to a student for an excused absence. The missed class keeps
+-- its credit deduction; the make-up (another occurrence of the same subject) then
+-- uses this instead of a class credit.
+CREATE TABLE make_up_credits (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+    class_id UUID REFERENCES classes(id) ON DELETE SET NULL, -- the class missed
+    source_occurrence_id UUID NOT NULL REFERENCES class_occurrences(id) ON DELETE CASCADE,
+    status VARCHAR(20) NOT NULL DEFAULT 'available' CHECK (status IN ('available', 'used', 'cancelled')),
+    expires_at DATE, -- last day it can be used; NULL means never
+    used_occurrence_id UUID REFERENCES class_occurrences(id) ON DELETE SET NULL,
+    used_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(student_id, source_occurrence_id) -- One make-up per missed class
+);
+
 -- Student attendance tracking
 CREATE TABLE student_attendance (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
     class_occurrence_id UUID NOT NULL REFERENCES class_occurrences(id) ON DELETE CASCADE,
-    attendance_status VARCHAR(20) NOT NULL CHECK (attendance_status IN ('present', 'absent', 'late', 'excused')),
+    attendance_status VARCHAR(20) NOT NULL CHECK (attendance_status IN ('present', 'absent', 'late', 'excused', 'pending')), -- pending: not recorded yet
     check_in_time TIME,
     check_out_time TIME,
     notes TEXT,
+    make_up_credit_id UUID REFERENCES make_up_credits(id) ON DELETE SET NULL, -- set when attending as a make-up
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     UNIQUE(student_id, class_occurrence_id) -- One attendance record per student per occurrence
 );
+
+-- Prospective students attending a class on trial or as a paid drop-in. Guests have
+-- no students row; student_id links the student they became, for lead conversion.
+CREATE TABLE occurrence_guests (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    occurrence_id UUID NOT NULL REFERENCES class_occurrences(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    email VARCHAR(255),
+    phone VARCHAR(20),
+    is_free_trial BOOLEAN NOT NULL DEFAULT true,
+    drop_in_price DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (drop_in_price >= 0), -- charged at the door; 0 for a free trial
+    attendance_status VARCHAR(20) NOT NULL DEFAULT 'present' CHECK (attendance_status IN ('present', 'absent', 'late', 'excused')),
+    student_id UUID REFERENCES students(id) ON DELETE SET NULL,
+    notes TEXT,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    CHECK (NOT is_free_trial OR drop_in_price = 0)
+);
+-- Class packages: bundles of classes sold at a set price (e.g. a 10-pack). A package
+-- is scoped to one class, to every class of a subject, or to any class when both are NULL.
+CREATE TABLE class_packages (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(100) NOT NULL,
+    description TEXT,
+    class_id UUID REFERENCES classes(id) ON DELETE CASCADE,
+    subject VARCHAR(100),
+    classes_count INTEGER NOT NULL CHECK (classes_count > 0),
+    price DECIMAL(10,2) NOT NULL CHECK (price > 0),
+    validity_days INTEGER CHECK (validity_days > 0), -- NULL means the credits do not expire
+    is_active BOOLEAN DEFAULT true, -- inactive packages stay on past payments but cannot be sold
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    CHECK (class_id IS NULL OR subject IS NULL)
+);
+
 -- Payment types enum
 CREATE TYPE payment_method AS ENUM ('wechat', 'cash', 'zelle', 'paypal', 'credit_card', 'bank_transfer');
 
+-- Receipt numbers are issued in order as payments are recorded
+CREATE SEQUENCE payment_receipt_number_seq START 1001;
+
 CREATE TABLE payments (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    receipt_number INTEGER NOT NULL UNIQUE DEFAULT nextval('payment_receipt_number_seq'),
     student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+    package_id UUID REFERENCES class_packages(id) ON DELETE SET NULL, -- package sold, if any
     payment_method payment_method NOT NULL,
     amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+    list_price DECIMAL(10,2) NOT NULL, -- price before discounts
+    discount_amount DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (discount_amount >= 0),
     classes_purchased INTEGER NOT NULL CHECK (classes_purchased > 0),
-    classes_remaining INTEGER NOT NULL CHECK (classes_remaining >= 0),
+    classes_remaining INTEGER NOT NULL DEFAULT 0 CHECK (classes_remaining >= 0), -- derived from credit_ledger (see sync_payment_classes_remaining)
     payment_date TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    expires_at TIMESTAMP, -- unused credits expire at this time; NULL = never (set from the package's validity_days)
     payment_reference VARCHAR(100), -- Transaction ID or reference number
     notes TEXT,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    CHECK (amount = list_price - discount_amount) -- amount is what was actually charged
 );
 
+-- Discount rules evaluated when a payment is recorded. Sibling rules apply when the
+-- student has a sibling with an active enrollment, promo code rules when the code is
+-- given, general rules always. Scope (class or subject) and dates work as for packages.
+CREATE TABLE discount_rules (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(100) NOT NULL,
+    rule_type VARCHAR(20) NOT NULL CHECK (rule_type IN ('sibling', 'promo_code', 'general')),
+    discount_type VARCHAR(20) NOT NULL CHECK (discount_type IN ('percentage', 'fixed')),
+    value DECIMAL(10,2) NOT NULL CHECK (value > 0),
+    code VARCHAR(50) UNIQUE, -- promo code, matched case-insensitively
+    class_id UUID REFERENCES classes(id) ON DELETE CASCADE,
+    subject VARCHAR(100),
+    valid_from DATE,
+    valid_until DATE,
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    CHECK (discount_type <> 'percentage' OR value <= 100),
+    CHECK ((rule_type = 'promo_code') = (code IS NOT NULL)),
+    CHECK (class_id IS NULL OR subject IS NULL),
+    CHECK (valid_until IS NULL OR valid_from IS NULL OR valid_until >= valid_from)
+);
 
+-- Discounts applied to each payment (their sum is payments.discount_amount)
+CREATE TABLE payment_discounts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    payment_id UUID NOT NULL REFERENCES payments(id) ON DELETE CASCADE,
+    discount_rule_id UUID REFERENCES discount_rules(id) ON DELETE SET NULL,
+    rule_name VARCHAR(100) NOT NULL, -- copied so the payment keeps it if the rule is deleted
+    rule_type VARCHAR(20) NOT NULL,
+    amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Refunds against a payment: money returned, unused class credits clawed back, or both
+CREATE TABLE payment_refunds (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    payment_id UUID NOT NULL REFERENCES payments(id) ON DELETE CASCADE,
+    payment_method payment_method NOT NULL, -- method the money went back through (the original payment's)
+    amount DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (amount >= 0),
+    classes_refunded INTEGER NOT NULL DEFAULT 0 CHECK (classes_refunded >= 0),
+    reason TEXT,
+    refunded_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    refund_date TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    CHECK (amount > 0 OR classes_refunded > 0)
+);
 
--- Payment deductions tracking (links attendance to payment usage)
+-- Payment deductions tracking (links attendance to payment usage). A row with no
+-- payment_id is an owed class: the student attended without credit and owes overdue_amount.
+-- A payment that paid for classes can't be deleted, or its classes would read as owed.
 CREATE TABLE payment_deductions (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
     class_id UUID NOT NULL REFERENCES classes(id) ON DELETE CASCADE,
     occurrence_id UUID NOT NULL REFERENCES class_occurrences(id) ON DELETE CASCADE,
-    payment_id UUID REFERENCES payments(id) ON DELETE SET NULL,
+    payment_id UUID REFERENCES payments(id) ON DELETE RESTRICT,
     classes_deducted INTEGER NOT NULL DEFAULT 1 CHECK (classes_deducted > 0),
-    is_overdue_deduction BOOLEAN DEFAULT false,
-    overdue_amount DECIMAL(10,2) DEFAULT 0,
+    is_overdue_deduction BOOLEAN DEFAULT false, -- true if the class was owed, even after it is settled
+    overdue_amount DECIMAL(10,2) DEFAULT 0, -- price_per_class at the time the class became owed
     deduction_date TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     UNIQUE(student_id, occurrence_id) -- One deduction per student per occurrence
 );
 
--- Payment class allocation (which classes the payment covers)
+-- Payment class allocation (which classes the payment covers, and for whom: the payer,
+-- or a sibling the credits were transferred to)
 CREATE TABLE payment_class_allocations (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     payment_id UUID NOT NULL REFERENCES payments(id) ON DELETE CASCADE,
     class_id UUID NOT NULL REFERENCES classes(id) ON DELETE CASCADE,
+    student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE, -- who holds the allocated credits
     classes_allocated INTEGER NOT NULL CHECK (classes_allocated > 0),
+    expires_at TIMESTAMP, -- overrides the payment's expires_at for credits allocated to this class
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-    UNIQUE(payment_id, class_id)
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(payment_id, class_id, student_id)
+);
+
+-- Credit ledger: every change to a student's class credits is a signed entry, and
+-- balances are sums over it. Credits sit in buckets per payment: class_id NULL means
+-- not yet allocated, otherwise allocated to that class. Allocations and transfers are
+-- balanced pairs sharing a transaction_id; purchases, deductions, refunds,
+-- adjustments and expirations move credits into or out of the student's account.
+CREATE TABLE credit_ledger (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    transaction_id UUID NOT NULL DEFAULT uuid_generate_v4(),
+    student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+    payment_id UUID REFERENCES payments(id) ON DELETE RESTRICT, -- the ledger is append-only: payments with entries stay
+    class_id UUID REFERENCES classes(id) ON DELETE SET NULL,
+    occurrence_id UUID REFERENCES class_occurrences(id) ON DELETE SET NULL,
+    entry_type VARCHAR(20) NOT NULL CHECK (entry_type IN ('purchase', 'allocation', 'deduction', 'refund', 'adjustment', 'transfer', 'expiration')),
+    classes INTEGER NOT NULL CHECK (classes <> 0), -- positive adds credits to the bucket, negative removes them
+    notes TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Credits moved from one of a student's classes to another class, or to a sibling.
+-- One row per payment the credits came from; the ledger holds the matching transfer
+-- pair (transaction_id) and, when the class prices differ, an adjustment for the difference.
+CREATE TABLE credit_transfers (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    transaction_id UUID NOT NULL,
+    payment_id UUID NOT NULL REFERENCES payments(id) ON DELETE CASCADE,
+    from_student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+    from_class_id UUID REFERENCES classes(id) ON DELETE SET NULL,
+    to_student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+    to_class_id UUID REFERENCES classes(id) ON DELETE SET NULL,
+    classes_out INTEGER NOT NULL CHECK (classes_out > 0),
+    classes_in INTEGER NOT NULL CHECK (classes_in >= 0), -- differs from classes_out after a price adjustment
+    notes TEXT,
+    transferred_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Login sessions (one row per issued refresh token)
+CREATE TABLE user_sessions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    refresh_token_hash VARCHAR(64) NOT NULL UNIQUE, -- SHA-256 hex of the refresh token
+    user_agent TEXT,
+    ip_address VARCHAR(45),
+    expires_at TIMESTAMP NOT NULL,
+    revoked_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Audit log of every write (append-only, see prevent_audit_event_changes below).
+-- student/payment/occurrence ids are plain columns (no FK) so history survives deletes.
+CREATE TABLE audit_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    actor_user_id UUID REFERENCES users(id) ON DELETE SET NULL, -- NULL for the automated scheduler
+    actor_name VARCHAR(100) NOT NULL,
+    action VARCHAR(50) NOT NULL, -- e.g. payment.update, balance.deduct
+    entity_type VARCHAR(50) NOT NULL,
+    entity_id UUID,
+    student_id UUID,
+    payment_id UUID,
+    occurrence_id UUID,
+    before_data JSONB,
+    after_data JSONB,
+    request_id VARCHAR(64),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Scheduler watermarks: the school-local date and time up to which each job has processed
+CREATE TABLE scheduler_state (
+    name VARCHAR(50) PRIMARY KEY, -- 'occurrences'
+    processed_through TIMESTAMP NOT NULL,
+    retry_from DATE, -- earliest date a class failed on, processed again on the next run
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Catch-ups on scheduled classes missed while the scheduler was not running
+CREATE TABLE scheduler_backfills (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    from_date DATE NOT NULL, -- first and last missed dates
+    to_date DATE NOT NULL,
+    backfilled_from DATE, -- first date caught up; later than from_date when past the lookback, NULL when none was
+    occurrences_created INTEGER NOT NULL DEFAULT 0,
+    occurrences JSONB NOT NULL DEFAULT '[]', -- the occurrences created: id, class, date and start time
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- One row per scheduler run: what it created, which students it skipped and why, and what failed.
+-- Written outside the run's transaction, so a run that was rolled back is still recorded.
+CREATE TABLE scheduler_runs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    triggered_by VARCHAR(20) NOT NULL CHECK (triggered_by IN ('startup', 'scheduled', 'manual')),
+    status VARCHAR(30) NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'succeeded', 'completed_with_errors', 'failed')),
+    started_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    finished_at TIMESTAMP,
+    backfill_id UUID REFERENCES scheduler_backfills(id) ON DELETE SET NULL,
+    occurrences_created INTEGER NOT NULL DEFAULT 0,
+    students_processed INTEGER NOT NULL DEFAULT 0,
+    students_skipped INTEGER NOT NULL DEFAULT 0,
+    sessions_closed INTEGER NOT NULL DEFAULT 0, -- pending-attendance sessions closed by the grace period
+    skipped JSONB NOT NULL DEFAULT '[]', -- student, class, date and reason (e.g. no_payment_available_overdue, on_hold)
+    errors JSONB NOT NULL DEFAULT '[]', -- class, date and error message
+    error_message TEXT -- why a failed run was rolled back
 );
 
 -- Indexes for better performance
 CREATE INDEX idx_students_name ON students(name);
 CREATE INDEX idx_students_grade ON students(grade);
+CREATE INDEX idx_students_family_id ON students(family_id);
 CREATE INDEX idx_classes_name ON classes(name);
+CREATE INDEX idx_classes_teacher_id ON classes(teacher_id);
 CREATE INDEX idx_class_schedules_class_id ON class_schedules(class_id);
 CREATE INDEX idx_class_schedules_day_time ON class_schedules(day_of_week, start_time);
+CREATE INDEX idx_closures_dates ON closures(start_date, end_date);
+CREATE INDEX idx_scheduler_backfills_created_at ON scheduler_backfills(created_at);
+CREATE INDEX idx_scheduler_runs_started_at ON scheduler_runs(started_at);
 CREATE INDEX idx_student_enrollments_student_id ON student_class_enrollments(student_id);
 CREATE INDEX idx_student_enrollments_class_id ON student_class_enrollments(class_id);
+CREATE UNIQUE INDEX idx_student_enrollments_open ON student_class_enrollments(student_id, class_id) WHERE end_date IS NULL; -- One open enrollment per student and class
+CREATE INDEX idx_class_waitlist_class_position ON class_waitlist(class_id, position);
+CREATE INDEX idx_class_waitlist_student_id ON class_waitlist(student_id);
+CREATE INDEX idx_enrollment_holds_student_dates ON enrollment_holds(student_id, start_date, end_date);
+CREATE INDEX idx_enrollment_holds_class_id ON enrollment_holds(class_id);
 CREATE INDEX idx_class_occurrences_class_id ON class_occurrences(class_id);
 CREATE INDEX idx_class_occurrences_date ON class_occurrences(occurrence_date);
 CREATE INDEX idx_class_occurrences_auto_created ON class_occurrences(is_auto_created);
 CREATE INDEX idx_occurrence_exclusions_occurrence_id ON occurrence_exclusions(occurrence_id);
 CREATE INDEX idx_occurrence_exclusions_student_id ON occurrence_exclusions(student_id);
+CREATE INDEX idx_make_up_credits_student_status ON make_up_credits(student_id, status);
+CREATE INDEX idx_make_up_credits_used_occurrence_id ON make_up_credits(used_occurrence_id);
 CREATE INDEX idx_student_attendance_student_id ON student_attendance(student_id);
 CREATE INDEX idx_student_attendance_occurrence_id ON student_attendance(class_occurrence_id);
+CREATE INDEX idx_student_attendance_pending ON student_attendance(class_occurrence_id) WHERE attendance_status = 'pending';
+CREATE INDEX idx_occurrence_guests_occurrence_id ON occurrence_guests(occurrence_id);
+CREATE INDEX idx_occurrence_guests_email ON occurrence_guests(LOWER(email));
+CREATE INDEX idx_occurrence_guests_student_id ON occurrence_guests(student_id);
 CREATE INDEX idx_payment_deductions_student_id ON payment_deductions(student_id);
 CREATE INDEX idx_payment_deductions_class_id ON payment_deductions(class_id);
 CREATE INDEX idx_payment_deductions_occurrence_id ON payment_deductions(occurrence_id);
 CREATE INDEX idx_payment_deductions_payment_id ON payment_deductions(payment_id);
-CREATE INDEX idx_class_occurrences_overdue ON class_occurrences(is_overdue);
 CREATE INDEX idx_payment_deductions_overdue ON payment_deductions(is_overdue_deduction);
+CREATE INDEX idx_payment_deductions_owed ON payment_deductions(student_id, class_id) WHERE payment_id IS NULL;
 CREATE INDEX idx_payments_student_id ON payments(student_id);
 CREATE INDEX idx_payments_date ON payments(payment_date);
+CREATE INDEX idx_payments_package_id ON payments(package_id);
+CREATE INDEX idx_payments_expires_at ON payments(expires_at) WHERE expires_at IS NOT NULL;
+CREATE INDEX idx_class_packages_class_id ON class_packages(class_id);
+CREATE INDEX idx_payment_discounts_payment_id ON payment_discounts(payment_id);
+CREATE INDEX idx_payment_discounts_rule_id ON payment_discounts(discount_rule_id);
+CREATE INDEX idx_payment_refunds_payment_id ON payment_refunds(payment_id);
+CREATE INDEX idx_payment_refunds_date ON payment_refunds(refund_date);
 CREATE INDEX idx_payment_allocations_payment_id ON payment_class_allocations(payment_id);
+CREATE INDEX idx_user_sessions_user_id ON user_sessions(user_id);
+CREATE INDEX idx_credit_ledger_student_class ON credit_ledger(student_id, class_id);
+CREATE INDEX idx_credit_ledger_payment_class ON credit_ledger(payment_id, class_id);
+CREATE INDEX idx_credit_ledger_transaction_id ON credit_ledger(transaction_id);
+CREATE INDEX idx_credit_transfers_from_student_id ON credit_transfers(from_student_id);
+CREATE INDEX idx_credit_transfers_to_student_id ON credit_transfers(to_student_id);
+CREATE INDEX idx_credit_transfers_payment_id ON credit_transfers(payment_id);
+CREATE INDEX idx_audit_events_student_id ON audit_events(student_id);
+CREATE INDEX idx_audit_events_payment_id ON audit_events(payment_id);
+CREATE INDEX idx_audit_events_occurrence_id ON audit_events(occurrence_id);
+CREATE INDEX idx_audit_events_created_at ON audit_events(created_at);
 
 -- Triggers to update updated_at timestamp
 CREATE OR REPLACE FUNCTION update_updated_at_column()
@@ -177,6 +524,9 @@ BEGIN
 END;
 $$ language 'plpgsql';
 
+CREATE TRIGGER update_families_updated_at BEFORE UPDATE ON families
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 CREATE TRIGGER update_students_updated_at BEFORE UPDATE ON students
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
@@ -186,15 +536,30 @@ CREATE TRIGGER update_classes_updated_at BEFORE UPDATE ON classes
 CREATE TRIGGER update_class_schedules_updated_at BEFORE UPDATE ON class_schedules
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_closures_updated_at BEFORE UPDATE ON closures
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_scheduler_state_updated_at BEFORE UPDATE ON scheduler_state
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_enrollment_holds_updated_at BEFORE UPDATE ON enrollment_holds
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 CREATE TRIGGER update_class_occurrences_updated_at BEFORE UPDATE ON class_occurrences
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
 CREATE TRIGGER update_occurrence_exclusions_updated_at BEFORE UPDATE ON occurrence_exclusions
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_make_up_credits_updated_at BEFORE UPDATE ON make_up_credits
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 CREATE TRIGGER update_student_attendance_updated_at BEFORE UPDATE ON student_attendance
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_occurrence_guests_updated_at BEFORE UPDATE ON occurrence_guests
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 CREATE TRIGGER update_payment_deductions_updated_at BEFORE UPDATE ON payment_deductions
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
@@ -204,34 +569,91 @@ CREATE TRIGGER update_payment_class_allocations_updated_at BEFORE UPDATE ON paym
 CREATE TRIGGER update_payments_updated_at BEFORE UPDATE ON payments
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_class_packages_updated_at BEFORE UPDATE ON class_packages
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_discount_rules_updated_at BEFORE UPDATE ON discount_rules
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_users_updated_at BEFORE UPDATE ON users
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- payments.classes_remaining is a cached sum of the payment's ledger entries
+CREATE OR REPLACE FUNCTION sync_payment_classes_remaining()
+RETURNS TRIGGER AS $$
+DECLARE
+    affected_payment_id UUID;
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        affected_payment_id := OLD.payment_id;
+    ELSE
+        affected_payment_id := NEW.payment_id;
+    END IF;
+
+    IF affected_payment_id IS NOT NULL THEN
+        UPDATE payments
+        SET classes_remaining = (
+            SELECT COALESCE(SUM(classes), 0) FROM credit_ledger WHERE payment_id = affected_payment_id
+        )
+        WHERE id = affected_payment_id;
+    END IF;
+
+    RETURN NULL;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER sync_payment_classes_remaining AFTER INSERT OR DELETE ON credit_ledger
+    FOR EACH ROW EXECUTE FUNCTION sync_payment_classes_remaining();
+
+-- Audit events are immutable
+CREATE OR REPLACE FUNCTION prevent_audit_event_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'audit_events rows cannot be updated or deleted';
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER prevent_audit_events_changes BEFORE UPDATE OR DELETE ON audit_events
+    FOR EACH ROW EXECUTE FUNCTION prevent_audit_event_changes();
+
 -- Views for common queries
 
--- Student balance view (classes purchased - classes attended)
+-- Student balance view (derived from the credit ledger, plus owed classes)
 CREATE VIEW student_balances AS
 SELECT
     s.id as student_id,
     s.name as student_name,
     s.grade,
-    COALESCE(SUM(p.classes_purchased), 0) as total_classes_purchased,
-    COALESCE(SUM(p.classes_remaining), 0) as total_classes_remaining,
-    COALESCE(attended.classes_attended, 0) as classes_attended,
-    (COALESCE(SUM(p.classes_purchased), 0) - COALESCE(attended.classes_attended, 0)) as classes_used,
+    COALESCE(l.classes_purchased, 0) as total_classes_purchased,
+    COALESCE(l.classes_remaining, 0) as total_classes_remaining,
+    COALESCE(l.classes_attended, 0) as classes_attended,
+    (COALESCE(l.classes_purchased, 0) - COALESCE(l.classes_attended, 0)) as classes_used,
     CASE
-        WHEN COALESCE(SUM(p.classes_purchased), 0) > 0
+        WHEN COALESCE(l.classes_purchased, 0) > 0
         THEN ROUND(
-            (COALESCE(attended.classes_attended, 0)::decimal /
-             COALESCE(SUM(p.classes_purchased), 0)::decimal) * 100, 2
+            (COALESCE(l.classes_attended, 0)::decimal /
+             l.classes_purchased::decimal) * 100, 2
         )
         ELSE 0
-    END as attendance_percentage
+    END as attendance_percentage,
+    COALESCE(o.classes_owed, 0) as classes_owed,
+    COALESCE(o.amount_owed, 0) as amount_owed
 FROM students s
-LEFT JOIN payments p ON s.id = p.student_id
 LEFT JOIN (
-    SELECT pd.student_id, SUM(pd.classes_deducted) as classes_attended
-    FROM payment_deductions pd
-    GROUP BY pd.student_id
-) attended ON s.id = attended.student_id
-GROUP BY s.id, s.name, s.grade, attended.classes_attended;
+    SELECT
+        student_id,
+        SUM(classes) FILTER (WHERE entry_type IN ('purchase', 'adjustment', 'transfer')) as classes_purchased,
+        SUM(classes) as classes_remaining,
+        -SUM(classes) FILTER (WHERE entry_type IN ('deduction', 'refund')) as classes_attended
+    FROM credit_ledger
+    GROUP BY student_id
+) l ON s.id = l.student_id
+LEFT JOIN (
+    SELECT student_id, SUM(classes_deducted) as classes_owed, SUM(overdue_amount) as amount_owed
+    FROM payment_deductions
+    WHERE payment_id IS NULL
+    GROUP BY student_id
+) o ON s.id = o.student_id;
 
 -- Class enrollment summary view
 CREATE VIEW class_enrollment_summary AS
@@ -245,7 +667,8 @@ SELECT
         WHEN c.max_students IS NOT NULL
         THEN ROUND((COUNT(sce.student_id)::decimal / c.max_students::decimal) * 100, 2)
         ELSE NULL
-    END as enrollment_percentage
+    END as enrollment_percentage,
+    (SELECT COUNT(*) FROM class_waitlist cw WHERE cw.class_id = c.id) as waitlisted_students
 FROM classes c
 LEFT JOIN student_class_enrollments sce ON c.id = sce.class_id AND sce.is_active = true
 GROUP BY c.id, c.name, c.subject, c.max_students;
@@ -265,7 +688,7 @@ SELECT
 FROM payments p
 JOIN students s ON p.student_id = s.id
 LEFT JOIN payment_class_allocations pca ON p.id = pca.payment_id
-WHERE p.payment_date >= CURRENT_DATE - INTERVAL '30 days'
+WHERE p.payment_date >= school_today() - INTERVAL '30 days'
 GROUP BY p.id, p.amount, p.classes_purchased, p.classes_remaining, p.payment_method, p.payment_date, s.name, s.grade
 ORDER BY p.payment_date DESC;
 
@@ -8,19 +8,73 @@ import Students from './pages/Students';
 import Classes from './pages/Classes';
 import Payments from './pages/Payments';
 import Attendance from './pages/Attendance';
+import Login from './pages/Login';
+import Users from './pages/Users';
+import Packages from './pages/Packages';
+import Discounts from './pages/Discounts';
+import Closures from './pages/Closures';
+import Scheduler from './pages/Scheduler';
 import Sidebar from './components/Sidebar';
 import Header from './components/Header';
+import { AuthProvider, useAuth } from './context/AuthContext';
 
 // Styles
 import './App.css';
 
 const { Content } = Layout;
 
-const App: React.FC = () => {
+const AppRoutes: React.FC = () => {
+  const { user, can } = useAuth();
   const {
     token: { colorBgContainer, borderRadiusLG },
   } = theme.useToken();
 
+  if (!user) {
+    return (
+      <Routes>
+        <Route path="*" element={<Login />} />
+      </Routes>
+    );
+  }
+
+  // Land on the first page the user's role can open (teachers have no dashboard)
+  const homePath = can('dashboard:view') ? '/dashboard' : '/attendance';
+
+  return (
+    <Layout style={{ minHeight: '100vh' }}>
+      <Sidebar />
+      <Layout style={{ marginLeft: 200 }}>
+        <Header />
+        <Content
+          style={{
+            margin: '24px 16px',
+            padding: 24,
+            background: colorBgContainer,
+            borderRadius: borderRadiusLG,
+            minHeight: 280,
+          }}
+        >
+          <Routes>
+            <Route path="/" element={<Navigate to={homePath} replace />} />
+            {can('dashboard:view') && <Route path="/dashboard" element={<Dashboard />} />}
+            {can('students:view') && <Route path="/students" element={<Students />} />}
+            {can('classes:view') && <Route path="/classes" element={<Classes />} />}
+            {can('payments:view') && <Route path="/payments" element={<Payments />} />}
+            {can('packages:view') && <Route path="/packages" element={<Packages />} />}
+            {can('discounts:view') && <Route path="/discounts" element={<Discounts />} />}
+            {can('attendance:view') && <Route path="/attendance" element={<Attendance />} />}
+            {can('closures:view') && <Route path="/closures" element={<Closures />} />}
+            {can('users:manage') && <Route path="/users" element={<Users />} />}
+            {can('scheduler:view') && <Route path="/scheduler" element={<Scheduler />} />}
+            <Route path="*" element={<Navigate to={homePath} replace />} />
+          </Routes>
+        </Content>
+      </Layout>
+    </Layout>
+  );
+};
+
+const App: React.FC = () => {
   return (
     <ConfigProvider
       theme={{
@@ -30,32 +84,11 @@ const App: React.FC = () => {
         },
       }}
     >
-      <Router>
-        <Layout style={{ minHeight: '100vh' }}>
-          <Sidebar />
-          <Layout style={{ marginLeft: 200 }}>
-            <Header />
-            <Content
-              style={{
-                margin: '24px 16px',
-                padding: 24,
-                background: colorBgContainer,
-                borderRadius: borderRadiusLG,
-                minHeight: 280,
-              }}
-            >
-              <Routes>
-                <Route path="/" element={<Navigate to="/dashboard" replace />} />
-                <Route path="/dashboard" element={<Dashboard />} />
-                <Route path="/students" element={<Students />} />
-                <Route path="/classes" element={<Classes />} />
-                <Route path="/payments" element={<Payments />} />
-                <Route path="/attendance" element={<Attendance />} />
-              </Routes>
-            </Content>
-          </Layout>
-        </Layout>
-      </Router>
+      <AuthProvider>
+        <Router>
+          <AppRoutes />
+        </Router>
+      </AuthProvider>
     </ConfigProvider>
   );
 };
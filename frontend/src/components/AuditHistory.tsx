@@ -0,0 +1,125 @@
+import React, { useState, useEffect } from 'react';
+import { Table, Tag, Typography, message } from 'antd';
+import axios from 'axios';
+import dayjs from 'dayjs';
+import type { ColumnsType } from 'antd/es/table';
+
+const { Text } = Typography;
+
+interface AuditEvent {
+  id: string;
+  actor_name: string;
+  action: string;
+  entity_type: string;
+  before_data: any;
+  after_data: any;
+  request_id?: string;
+  created_at: string;
+}
+
+interface AuditHistoryProps {
+  studentId?: string;
+  paymentId?: string;
+  occurrenceId?: string;
+}
+
+const actionColors: Record<string, string> = {
+  create: 'green',
+  update: 'blue',
+  delete: 'red',
+  deduct: 'orange',
+  refund: 'cyan',
+  reverse: 'cyan',
+  overdue: 'volcano',
+  settle_overdue: 'purple',
+};
+
+// Keys whose value changed between the before and after snapshots
+const describeChanges = (before: any, after: any) => {
+  if (!before || !after || typeof before !== 'object' || typeof after !== 'object') {
+    return null;
+  }
+
+  return Object.keys(after)
+    .filter((key) => key !== 'updated_at' && typeof after[key] !== 'object')
+    .filter((key) => JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+    .map((key) => `${key}: ${before[key] ?? '—'} → ${after[key] ?? '—'}`);
+};
+
+// Audit trail for a student, payment or occurrence (newest first)
+const AuditHistory: React.FC<AuditHistoryProps> = ({ studentId, paymentId, occurrenceId }) => {
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const fetchEvents = async () => {
+      try {
+        setLoading(true);
+        const response = await axios.get('/api/audit', {
+          params: { student_id: studentId, payment_id: paymentId, occurrence_id: occurrenceId, limit: 100 }
+        });
+        setEvents(response.data.data?.events || []);
+      } catch (error: any) {
+        console.error('Error fetching history:', error);
+        message.error(error.response?.data?.error?.message || 'Failed to load history');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchEvents();
+  }, [studentId, paymentId, occurrenceId]);
+
+  const columns: ColumnsType<AuditEvent> = [
+    {
+      title: 'When',
+      dataIndex: 'created_at',
+      key: 'created_at',
+      width: 160,
+      render: (date: string) => dayjs(date).format('MMM D, YYYY h:mm A'),
+    },
+    {
+      title: 'Who',
+      dataIndex: 'actor_name',
+      key: 'actor_name',
+      width: 140,
+    },
+    {
+      title: 'Action',
+      dataIndex: 'action',
+      key: 'action',
+      width: 170,
+      render: (action: string) => (
+        <Tag color={actionColors[action.split('.')[1]] || 'default'}>{action}</Tag>
+      ),
+    },
+    {
+      title: 'Changes',
+      key: 'changes',
+      render: (record: AuditEvent) => {
+        const changes = describeChanges(record.before_data, record.after_data);
+        if (changes && changes.length > 0) {
+          return changes.map((change) => (
+            <div key={change}>
+              <Text style={{ fontSize: '12px' }}>{change}</Text>
+            </div>
+          ));
+        }
+        return <Text type="secondary" style={{ fontSize: '12px' }}>{record.entity_type}</Text>;
+      },
+    },
+  ];
+
+  return (
+    <Table
+      columns={columns}
+      dataSource={events}
+      loading={loading}
+      rowKey="id"
+      size="small"
+      pagination={{ pageSize: 10 }}
+    />
+  );
+};
+
+export default AuditHistory;
@@ -1,12 +1,38 @@
-import React from 'react';
-import { Layout, Typography, Avatar, Dropdown, Button } from 'antd';
+import React, { useState } from 'react';
+import { Layout, Typography, Avatar, Dropdown, Button, Modal, Descriptions, Tag, message } from 'antd';
 import { UserOutlined, LogoutOutlined, SettingOutlined } from '@ant-design/icons';
 import type { MenuProps } from 'antd';
+import axios from 'axios';
+import { useAuth } from '../context/AuthContext';
 
 const { Header: AntHeader } = Layout;
 const { Title } = Typography;
 
+interface Profile {
+  id: string;
+  email: string;
+  name: string;
+  role: string;
+  last_login_at?: string;
+  created_at: string;
+}
+
 const Header: React.FC = () => {
+  const { user, logout } = useAuth();
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [profileModalVisible, setProfileModalVisible] = useState(false);
+
+  const showProfile = async () => {
+    try {
+      const response = await axios.get('/api/auth/me');
+      setProfile(response.data.data);
+      setProfileModalVisible(true);
+    } catch (error: any) {
+      console.error('Error fetching profile:', error);
+      message.error(error.response?.data?.error?.message || 'Failed to load profile');
+    }
+  };
+
   const userMenuItems: MenuProps['items'] = [
     {
       key: 'profile',
@@ -31,12 +57,10 @@ const Header: React.FC = () => {
   const handleMenuClick: MenuProps['onClick'] = (e) => {
     switch (e.key) {
       case 'logout':
-        // Handle logout
-        console.log('Logout clicked');
+        logout();
         break;
       case 'profile':
-        // Handle profile
-        console.log('Profile clicked');
+        showProfile();
         break;
       case 'settings':
         // Handle settings
@@ -85,9 +109,27 @@ const Header: React.FC = () => {
       >
         <Button type="text" style={{ display: 'flex', alignItems: 'center' }}>
           <Avatar icon={<UserOutlined />} style={{ marginRight: 8 }} />
-          Admin
+          {user?.name}
         </Button>
       </Dropdown>
+
+      <Modal
+        title="Profile"
+        open={profileModalVisible}
+        onCancel={() => setProfileModalVisible(false)}
+        footer={null}
+      >
+        {profile && (
+          <Descriptions column={1} bordered size="small">
+            <Descriptions.Item label="Name">{profile.name}</Descriptions.Item>
+            <Descriptions.Item label="Email">{profile.email}</Descriptions.Item>
+            <Descriptions.Item label="Role"><Tag color="blue">{profile.role}</Tag></Descriptions.Item>
+            <Descriptions.Item label="Last Login">
+              {profile.last_login_at ? new Date(profile.last_login_at).toLocaleString() : '-'}
+            </Descriptions.Item>
+          </Descriptions>
+        )}
+      </Modal>
     </AntHeader>
   );
 };
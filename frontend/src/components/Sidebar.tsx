@@ -7,42 +7,89 @@ import {
   BookOutlined,
   DollarOutlined,
   CalendarOutlined,
-  BarChartOutlined
+  BarChartOutlined,
+  TeamOutlined,
+  ShoppingOutlined,
+  TagsOutlined,
+  StopOutlined,
+  ClockCircleOutlined
 } from '@ant-design/icons';
+import { useAuth } from '../context/AuthContext';
 
 const { Sider } = Layout;
 
 const Sidebar: React.FC = () => {
   const location = useLocation();
+  const { can } = useAuth();
 
-  const menuItems = [
+  const allMenuItems = [
     {
       key: '/dashboard',
       icon: <DashboardOutlined />,
       label: <Link to="/dashboard">Dashboard</Link>,
+      permission: 'dashboard:view',
     },
     {
       key: '/students',
       icon: <UserOutlined />,
       label: <Link to="/students">Students</Link>,
+      permission: 'students:view',
     },
     {
       key: '/classes',
       icon: <BookOutlined />,
       label: <Link to="/classes">Classes</Link>,
+      permission: 'classes:view',
     },
     {
       key: '/payments',
       icon: <DollarOutlined />,
       label: <Link to="/payments">Payments</Link>,
+      permission: 'payments:view',
+    },
+    {
+      key: '/packages',
+      icon: <ShoppingOutlined />,
+      label: <Link to="/packages">Packages</Link>,
+      permission: 'packages:view',
+    },
+    {
+      key: '/discounts',
+      icon: <TagsOutlined />,
+      label: <Link to="/discounts">Discounts</Link>,
+      permission: 'discounts:view',
     },
     {
       key: '/attendance',
       icon: <CalendarOutlined />,
       label: <Link to="/attendance">Attendance</Link>,
+      permission: 'attendance:view',
+    },
+    {
+      key: '/closures',
+      icon: <StopOutlined />,
+      label: <Link to="/closures">Closures</Link>,
+      permission: 'closures:view',
+    },
+    {
+      key: '/users',
+      icon: <TeamOutlined />,
+      label: <Link to="/users">Users</Link>,
+      permission: 'users:manage',
+    },
+    {
+      key: '/scheduler',
+      icon: <ClockCircleOutlined />,
+      label: <Link to="/scheduler">Scheduler</Link>,
+      permission: 'scheduler:view',
     }
   ];
 
+  // Only show pages the user's role can open
+  const menuItems = allMenuItems
+    .filter((item) => can(item.permission))
+    .map(({ permission, ...item }) => item);
+
   return (
     <Sider
       collapsible
@@ -0,0 +1,137 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import axios from 'axios';
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  name: string;
+  role: string;
+  permissions: string[]; // "resource:action" entries granted to the role
+}
+
+interface AuthContextValue {
+  user: AuthUser | null;
+  can: (permission: string) => boolean;
+  login: (email: string, password: string) => Promise<void>;
+  logout: () => Promise<void>;
+}
+
+const ACCESS_TOKEN_KEY = 'auth.accessToken';
+const REFRESH_TOKEN_KEY = 'auth.refreshToken';
+const USER_KEY = 'auth.user';
+
+const AuthContext = createContext<AuthContextValue | undefined>(undefined);
+
+const loadStoredUser = (): AuthUser | null => {
+  const stored = localStorage.getItem(USER_KEY);
+  return stored && localStorage.getItem(REFRESH_TOKEN_KEY) ? JSON.parse(stored) : null;
+};
+
+const storeSession = (session: any) => {
+  localStorage.setItem(ACCESS_TOKEN_KEY, session.access_token);
+  localStorage.setItem(REFRESH_TOKEN_KEY, session.refresh_token);
+  localStorage.setItem(USER_KEY, JSON.stringify(session.user));
+};
+
+const clearSession = () => {
+  localStorage.removeItem(ACCESS_TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+  localStorage.removeItem(USER_KEY);
+};
+
+// Shared refresh request so parallel 401s only rotate the refresh token once
+let refreshPromise: Promise<string> | null = null;
+
+const refreshAccessToken = () => {
+  if (!refreshPromise) {
+    refreshPromise = axios
+      .post('/api/auth/refresh', { refresh_token: localStorage.getItem(REFRESH_TOKEN_KEY) })
+      .then((response) => {
+        storeSession(response.data.data);
+        return response.data.data.access_token as string;
+      })
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+  return refreshPromise;
+};
+
+// Called when a refresh fails and the user has to log in again
+let onSessionEnded: () => void = () => {};
+
+// Attach the access token to every API call
+axios.interceptors.request.use((config) => {
+  const token = localStorage.getItem(ACCESS_TOKEN_KEY);
+  if (token && config.headers) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+  return config;
+});
+
+// On 401, refresh the access token once and retry; otherwise end the session
+axios.interceptors.response.use(
+  (response) => response,
+  async (error) => {
+    const originalRequest = error.config;
+    const isAuthCall = originalRequest?.url?.startsWith('/api/auth/');
+
+    if (error.response?.status === 401 && originalRequest && !isAuthCall && !originalRequest._retried) {
+      originalRequest._retried = true;
+      try {
+        const token = await refreshAccessToken();
+        originalRequest.headers.Authorization = `Bearer ${token}`;
+        return axios(originalRequest);
+      } catch (refreshError) {
+        clearSession();
+        onSessionEnded();
+      }
+    }
+
+    return Promise.reject(error);
+  }
+);
+
+export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [user, setUser] = useState<AuthUser | null>(loadStoredUser);
+
+  useEffect(() => {
+    onSessionEnded = () => setUser(null);
+    return () => {
+      onSessionEnded = () => {};
+    };
+  }, []);
+
+  const login = async (email: string, password: string) => {
+    const response = await axios.post('/api/auth/login', { email, password });
+    storeSession(response.data.data);
+    setUser(response.data.data.user);
+  };
+
+  const can = (permission: string) => Boolean(user?.permissions?.includes(permission));
+
+  const logout = async () => {
+    try {
+      await axios.post('/api/auth/logout', { refresh_token: localStorage.getItem(REFRESH_TOKEN_KEY) });
+    } catch (error) {
+      console.error('Error logging out:', error);
+    } finally {
+      clearSession();
+      setUser(null);
+    }
+  };
+
+  return (
+    <AuthContext.Provider value={{ user, can, login, logout }}>
+      {children}
+    </AuthContext.Provider>
+  );
+};
+
+export const useAuth = () => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+};
@@ -33,6 +33,23 @@ interface AnalyticsData {
       avg_payment?: number;
       growth_percentage?: number;
     };
+    data?: {
+      discounts?: {
+        totals: {
+          total_list_price: number;
+          total_discount: number;
+          total_net: number;
+          discounted_payments: number;
+        };
+        by_rule: Array<{
+          discount_rule_id: string | null;
+          rule_name: string;
+          rule_type: string;
+          times_applied: number;
+          total_discount: number;
+        }>;
+      };
+    };
   };
   attendance?: {
     overall_rate?: number;
@@ -87,8 +104,35 @@ interface AnalyticsData {
       underutilized_classes?: number;
     };
   };
+  leads?: {
+    summary?: {
+      leads: number;
+      visits: number;
+      free_trials: number;
+      drop_in_revenue: number;
+      converted: number;
+      conversion_rate: number;
+    };
+    leads?: Array<{
+      name: string;
+      email?: string;
+      first_visit: string;
+      visits: number;
+      classes_tried: string;
+      student_name?: string;
+      converted: boolean;
+      first_payment_date?: string;
+      total_paid: number;
+    }>;
+  };
 }
 
+const discountTypeLabels: Record<string, string> = {
+  sibling: 'Sibling',
+  promo_code: 'Promo code',
+  general: 'General'
+};
+
 const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884D8', '#82CA9D'];
 
 const Analytics: React.FC = () => {
@@ -106,18 +150,20 @@ const Analytics: React.FC = () => {
         params.date_to = dateRange[1]?.format?.('YYYY-MM-DD');
       }
 
-      const [paymentsRes, attendanceRes, studentsRes, classesRes] = await Promise.all([
+      const [paymentsRes, attendanceRes, studentsRes, classesRes, leadsRes] = await Promise.all([
         axios.get('/api/dashboard/payments/analytics', { params }),
         axios.get('/api/dashboard/attendance/analytics', { params }),
         axios.get('/api/dashboard/students/performance', { params }),
-        axios.get('/api/dashboard/overview', { params })
+        axios.get('/api/dashboard/overview', { params }),
+        axios.get('/api/dashboard/leads/conversion', { params })
       ]);
 
       setData({
         payments: paymentsRes.data ?? {},
         attendance: attendanceRes.data ?? {},
         students: studentsRes.data ?? {},
-        classes: classesRes.data ?? {}
+        classes: classesRes.data ?? {},
+        leads: leadsRes.data?.data ?? {}
       });
     } catch (error: any) {
       console.error('Error fetching analytics data:', error);
@@ -171,6 +217,82 @@ const Analytics: React.FC = () => {
     },
   ];
 
+  const discountColumns = [
+    {
+      title: 'Discount',
+      dataIndex: 'rule_name',
+      key: 'rule_name',
+      render: (name: string, record: any) => (
+        <Space>
+          <Text strong>{name}</Text>
+          <Tag>{discountTypeLabels[record.rule_type] || record.rule_type}</Tag>
+        </Space>
+      ),
+    },
+    {
+      title: 'Times Applied',
+      dataIndex: 'times_applied',
+      key: 'times_applied',
+    },
+    {
+      title: 'Total Discount',
+      dataIndex: 'total_discount',
+      key: 'total_discount',
+      render: (amount: number) => `$${Number(amount ?? 0).toFixed(2)}`,
+    },
+  ];
+
+  const discountTotals = data?.payments?.data?.discounts?.totals;
+
+  const leadSummary = data?.leads?.summary;
+
+  const leadColumns = [
+    {
+      title: 'Lead',
+      dataIndex: 'name',
+      key: 'name',
+      render: (name: string, record: any) => (
+        <Space direction="vertical" size={0}>
+          <Text strong>{name}</Text>
+          {record.email && <Text type="secondary" style={{ fontSize: '12px' }}>{record.email}</Text>}
+        </Space>
+      ),
+    },
+    {
+      title: 'First Visit',
+      dataIndex: 'first_visit',
+      key: 'first_visit',
+      render: (date: string, record: any) => `${dayjs(date).format('MMM DD, YYYY')} (${record.visits} visit${Number(record.visits) === 1 ? '' : 's'})`,
+    },
+    {
+      title: 'Classes Tried',
+      dataIndex: 'classes_tried',
+      key: 'classes_tried',
+    },
+    {
+      title: 'Converted',
+      dataIndex: 'converted',
+      key: 'converted',
+      render: (converted: boolean, record: any) => converted ? (
+        <Space direction="vertical" size={0}>
+          <Tag color="green">Paid {dayjs(record.first_payment_date).format('MMM DD, YYYY')}</Tag>
+          <Text type="secondary" style={{ fontSize: '12px' }}>
+            {record.student_name} · ${Number(record.total_paid ?? 0).toFixed(2)}
+          </Text>
+        </Space>
+      ) : (
+        record.student_name
+          ? <Tag color="orange">Enrolled as {record.student_name}, not paid</Tag>
+          : <Tag>Not yet</Tag>
+      ),
+      filters: [
+        { text: 'Converted', value: true },
+        { text: 'Not converted', value: false },
+      ],
+      onFilter: (value: any, record: any) => record.converted === value,
+    },
+  ];
+
   const studentPerformanceColumns = [
     {
       title: 'Student',
@@ -302,6 +424,32 @@ const Analytics: React.FC = () => {
               size="small"
             />
           </Card>
+
+          <Card title="Discounts" style={{ marginTop: 16 }}>
+            <Row gutter={[16, 16]} style={{ marginBottom: 16 }}>
+              <Col xs={24} sm={8}>
+                <Statistic title="List Price" value={Number(discountTotals?.total_list_price ?? 0)} precision={2} prefix="$" />
+              </Col>
+              <Col xs={24} sm={8}>
+                <Statistic
+                  title={`Discounts (${discountTotals?.discounted_payments ?? 0} payments)`}
+                  value={Number(discountTotals?.total_discount ?? 0)}
+                  precision={2}
+                  prefix="$"
+                />
+              </Col>
+              <Col xs={24} sm={8}>
+                <Statistic title="Net Revenue" value={Number(discountTotals?.total_net ?? 0)} precision={2} prefix="$" />
+              </Col>
+            </Row>
+            <Table
+              columns={discountColumns}
+              dataSource={data?.payments?.data?.discounts?.by_rule ?? []}
+              rowKey={(record) => record.discount_rule_id || record.rule_name}
+              pagination={false}
+              size="small"
+            />
+          </Card>
         </TabPane>
 
         {/* Students Tab */}
@@ -320,6 +468,43 @@ const Analytics: React.FC = () => {
           </Card>
         </TabPane>
 
+        {/* Leads Tab */}
+        <TabPane tab="Leads" key="leads">
+          <Card title="Trial Conversion">
+            <Row gutter={[16, 16]} style={{ marginBottom: 16 }}>
+              <Col xs={24} sm={6}>
+                <Statistic title="Leads" value={leadSummary?.leads ?? 0} prefix={<UserOutlined />} />
+              </Col>
+              <Col xs={24} sm={6}>
+                <Statistic title="Free Trials" value={leadSummary?.free_trials ?? 0} />
+              </Col>
+              <Col xs={24} sm={6}>
+                <Statistic title="Drop-in Revenue" value={Number(leadSummary?.drop_in_revenue ?? 0)} precision={2} prefix="$" />
+              </Col>
+              <Col xs={24} sm={6}>
+                <Statistic
+                  title={`Converted (${leadSummary?.converted ?? 0})`}
+                  value={leadSummary?.conversion_rate ?? 0}
+                  precision={1}
+                  suffix="%"
+                  valueStyle={{ color: '#3f8600' }}
+                />
+              </Col>
+            </Row>
+            <Text type="secondary">
+              Trial and drop-in guests, matched to students by the student they were linked to or their email. A lead converts when that student pays for classes after their first visit.
+            </Text>
+            <Table
+              columns={leadColumns}
+              dataSource={data?.leads?.leads ?? []}
+              rowKey={(record) => `${record.name}-${record.first_visit}`}
+              pagination={{ pageSize: 10 }}
+              size="small"
+              style={{ marginTop: 16 }}
+            />
+          </Card>
+        </TabPane>
+
         {/* Classes Tab */}
         <TabPane tab="Classes" key="classes">
           <Card title="Class Enrollment">
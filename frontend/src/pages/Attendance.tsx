@@ -3,7 +3,7 @@ import {
   Typography, Table, Button, Space, Modal, Form, Select,
   Popconfirm, message, Tag, Card, Statistic, Row, Col, Progress,
   Tabs, List, DatePicker, Calendar, Badge, Divider, Input, TimePicker,
-  Transfer, Checkbox, Tooltip
+  Transfer, Checkbox, Tooltip, InputNumber
 } from 'antd';
 import {
   PlusOutlined, EditOutlined, DeleteOutlined, SearchOutlined,
@@ -16,6 +16,7 @@ import type { ColumnsType } from 'antd/es/table';
 import type { TransferDirection } from 'antd/es/transfer';
 import type { Key } from 'react';
 import dayjs, { Dayjs } from 'dayjs';
+import { useAuth } from '../context/AuthContext';
 
 const { Title, Text } = Typography;
 const { Option } = Select;
@@ -42,11 +43,35 @@ interface AttendanceRecord {
   student_name: string;
   grade: string;
   enrollment_id: string;
-  attendance_status: 'present' | 'absent' | 'late' | 'excused' | 'not_recorded';
+  attendance_status: 'present' | 'absent' | 'late' | 'excused' | 'pending' | 'not_recorded';
   notes?: string;
   attendance_notes?: string;
   is_excluded?: boolean;
   exclusion_reason?: string;
+  is_make_up?: boolean;
+}
+
+interface Guest {
+  id: string;
+  name: string;
+  email?: string;
+  phone?: string;
+  is_free_trial: boolean;
+  drop_in_price: number;
+  attendance_status: 'present' | 'absent' | 'late' | 'excused';
+  student_id?: string;
+  student_name?: string;
+  notes?: string;
+}
+
+interface MakeUpCandidate {
+  id: string;
+  student_id: string;
+  student_name: string;
+  grade: string;
+  missed_class_name: string;
+  missed_date: string;
+  expires_at?: string;
 }
 
 interface ScheduledClass {
@@ -63,6 +88,8 @@ interface ScheduledClass {
   description: string;
   has_occurrence: boolean;
   is_scheduled: boolean;
+  is_closed?: boolean;
+  closure_name?: string;
 }
 
 interface StudentExclusion {
@@ -87,6 +114,7 @@ const statusColors = {
   absent: 'red',
   late: 'orange',
   excused: 'blue',
+  pending: 'gold',
   not_recorded: 'default'
 };
 
@@ -95,10 +123,12 @@ const statusLabels = {
   absent: 'Absent',
   late: 'Late',
   excused: 'Excused',
+  pending: 'Pending',
   not_recorded: 'Not Recorded'
 };
 
 const Attendance: React.FC = () => {
+  const { can } = useAuth();
   const [occurrences, setOccurrences] = useState<ClassOccurrence[]>([]);
   const [students, setStudents] = useState<Student[]>([]);
   const [classes, setClasses] = useState<Class[]>([]);
@@ -119,6 +149,12 @@ const Attendance: React.FC = () => {
   const [editOccurrenceModalVisible, setEditOccurrenceModalVisible] = useState(false);
   const [editingOccurrence, setEditingOccurrence] = useState<ClassOccurrence | null>(null);
   const [editForm] = Form.useForm();
+  const [makeUpForm] = Form.useForm();
+  const [makeUpModalVisible, setMakeUpModalVisible] = useState(false);
+  const [makeUpCandidates, setMakeUpCandidates] = useState<MakeUpCandidate[]>([]);
+  const [guests, setGuests] = useState<Guest[]>([]);
+  const [guestModalVisible, setGuestModalVisible] = useState(false);
+  const [guestForm] = Form.useForm();
   const [scheduledClasses, setScheduledClasses] = useState<ScheduledClass[]>([]);
   const [selectedView, setSelectedView] = useState<'month' | 'day'>('month');
 
@@ -231,9 +267,12 @@ const Attendance: React.FC = () => {
     }
   };
 
-  const fetchEnrolledStudents = async (classId: string) => {
+  // Students enrolled on the given date (today if none)
+  const fetchEnrolledStudents = async (classId: string, date?: Dayjs) => {
     try {
-      const response = await axios.get(`/api/classes/${classId}/enrollments`);
+      const response = await axios.get(`/api/classes/${classId}/enrollments`, {
+        params: { as_of: date ? date.format('YYYY-MM-DD') : undefined }
+      });
       const enrolledData = response.data.data?.enrollments || [];
       const studentsData = enrolledData.map((enrollment: any) => ({
         id: enrollment.student_id,
@@ -251,6 +290,7 @@ const Attendance: React.FC = () => {
     try {
       const response = await axios.get(`/api/attendance/occurrences/${occurrenceId}`);
       setAttendanceRecords(response.data.data?.attendance || []);
+      setGuests(response.data.data?.guests || []);
     } catch (error: any) {
       console.error('Error fetching attendance:', error);
       message.error(error.response?.data?.message || 'Failed to fetch attendance records');
@@ -260,7 +300,9 @@ const Attendance: React.FC = () => {
   useEffect(() => {
     fetchOccurrences();
     fetchScheduledClasses();
-    fetchStudents();
+    if (can('students:view')) {
+      fetchStudents();
+    }
     fetchClasses();
   }, [selectedDate, searchText]);
 
@@ -296,6 +338,7 @@ const Attendance: React.FC = () => {
   const handleUpdateAttendance = async (occurrenceId: string, studentId: string, status: string, notes?: string) => {
     try {
       await axios.put(`/api/attendance/occurrences/${occurrenceId}/attendance/${studentId}`, {
+        student_id: studentId,
         attendance_status: status,
         notes
       });
@@ -305,14 +348,14 @@ const Attendance: React.FC = () => {
       }
     } catch (error: any) {
       console.error('Error updating attendance:', error);
-      message.error(error.response?.data?.message || 'Failed to update attendance');
+      message.error(error.response?.data?.error?.message || 'Failed to update attendance');
     }
   };
 
   const handleBulkAttendance = async (occurrenceId: string, attendanceData: any[]) => {
     try {
       await axios.post(`/api/attendance/occurrences/${occurrenceId}/bulk-attendance`, {
-        attendance: attendanceData
+        attendance_records: attendanceData
       });
       message.success('Bulk attendance updated successfully');
       if (selectedOccurrence) {
@@ -320,7 +363,7 @@ const Attendance: React.FC = () => {
       }
     } catch (error: any) {
       console.error('Error updating bulk attendance:', error);
-      message.error(error.response?.data?.message || 'Failed to update bulk attendance');
+      message.error(error.response?.data?.error?.message || 'Failed to update bulk attendance');
     }
   };
 
@@ -333,7 +376,7 @@ const Attendance: React.FC = () => {
   const handleClassChange = async (classId: string) => {
     setSelectedClassId(classId);
     if (classId) {
-      await fetchEnrolledStudents(classId);
+      await fetchEnrolledStudents(classId, form.getFieldValue('occurrence_date'));
       setExcludedStudents([]);
     } else {
       setEnrolledStudents([]);
@@ -392,6 +435,93 @@ const Attendance: React.FC = () => {
     }
   };
 
+  const openMakeUpModal = async () => {
+    if (!selectedOccurrence) return;
+
+    try {
+      const response = await axios.get(`/api/attendance/occurrences/${selectedOccurrence.id}/make-up-candidates`);
+      setMakeUpCandidates(response.data.data || []);
+      setMakeUpModalVisible(true);
+    } catch (error: any) {
+      console.error('Error fetching make-up candidates:', error);
+      message.error(error.response?.data?.error?.message || 'Failed to fetch make-up credits');
+    }
+  };
+
+  const handleBookMakeUp = async (values: any) => {
+    const candidate = makeUpCandidates.find(c => c.id === values.make_up_credit_id);
+    if (!selectedOccurrence || !candidate) return;
+
+    try {
+      await axios.post(`/api/attendance/occurrences/${selectedOccurrence.id}/make-ups`, {
+        student_id: candidate.student_id,
+        make_up_credit_id: candidate.id
+      });
+      message.success(`${candidate.student_name} booked in for a make-up class`);
+      setMakeUpModalVisible(false);
+      makeUpForm.resetFields();
+      await fetchAttendanceForOccurrence(selectedOccurrence.id);
+    } catch (error: any) {
+      console.error('Error booking make-up class:', error);
+      message.error(error.response?.data?.error?.message || 'Failed to book make-up class');
+    }
+  };
+
+  const handleCancelMakeUp = async (studentId: string) => {
+    if (!selectedOccurrence) return;
+
+    try {
+      await axios.delete(`/api/attendance/occurrences/${selectedOccurrence.id}/make-ups/${studentId}`);
+      message.success('Make-up booking cancelled');
+      await fetchAttendanceForOccurrence(selectedOccurrence.id);
+    } catch (error: any) {
+      console.error('Error cancelling make-up booking:', error);
+      message.error(error.response?.data?.error?.message || 'Failed to cancel make-up booking');
+    }
+  };
+
+  const handleAddGuest = async (values: any) => {
+    if (!selectedOccurrence) return;
+
+    try {
+      await axios.post(`/api/attendance/occurrences/${selectedOccurrence.id}/guests`, values);
+      message.success(values.is_free_trial ? 'Trial guest added' : 'Drop-in guest added');
+      setGuestModalVisible(false);
+      guestForm.resetFields();
+      await fetchAttendanceForOccurrence(selectedOccurrence.id);
+    } catch (error: any) {
+      console.error('Error adding guest:', error);
+      message.error(error.response?.data?.error?.message || 'Failed to add guest');
+    }
+  };
+
+  const handleUpdateGuest = async (guest: Guest, changes: Partial<Guest>) => {
+    if (!selectedOccurrence) return;
+
+    try {
+      const { id, student_name, ...fields } = { ...guest, ...changes };
+      await axios.put(`/api/attendance/occurrences/${selectedOccurrence.id}/guests/${id}`, fields);
+      message.success('Guest updated');
+      await fetchAttendanceForOccurrence(selectedOccurrence.id);
+    } catch (error: any) {
+      console.error('Error updating guest:', error);
+      message.error(error.response?.data?.error?.message || 'Failed to update guest');
+    }
+  };
+
+  const handleRemoveGuest = async (guestId: string) => {
+    if (!selectedOccurrence) return;
+
+    try {
+      await axios.delete(`/api/attendance/occurrences/${selectedOccurrence.id}/guests/${guestId}`);
+      message.success('Guest removed');
+      await fetchAttendanceForOccurrence(selectedOccurrence.id);
+    } catch (error: any) {
+      console.error('Error removing guest:', error);
+      message.error(error.response?.data?.error?.message || 'Failed to remove guest');
+    }
+  };
+
   const handleEditOccurrence = async (values: any) => {
     try {
       if (!editingOccurrence) return;
@@ -429,7 +559,7 @@ const Attendance: React.FC = () => {
   const handleAutoCreateOccurrences = async () => {
     try {
       const response = await axios.post('/api/attendance/auto-create-occurrences');
-      const { created, occurrences, errors } = response.data.data;
+      const { created, occurrences, closed, errors } = response.data.data;
 
       if (created > 0) {
         message.success(`Successfully created ${created} class occurrences`);
@@ -438,6 +568,10 @@ const Attendance: React.FC = () => {
         message.info('No new occurrences were created (may already exist for today)');
       }
 
+      if (closed && closed.length > 0) {
+        message.info(`Skipped ${closed.length} classes closed today (${closed[0].closure})`);
+      }
+
       if (errors && errors.length > 0) {
         console.error('Auto-creation errors:', errors);
         message.warning(`${errors.length} occurrences failed to create. Check console for details.`);
@@ -512,12 +646,14 @@ const Attendance: React.FC = () => {
           >
             View Attendance
           </Button>
-          <Button
-            icon={<EditOutlined />}
-            onClick={() => showEditOccurrenceModal(record)}
-          >
-            Edit
-          </Button>
+          {can('attendance:occurrences') && (
+            <Button
+              icon={<EditOutlined />}
+              onClick={() => showEditOccurrenceModal(record)}
+            >
+              Edit
+            </Button>
+          )}
         </Space>
       ),
     },
@@ -541,6 +677,7 @@ const Attendance: React.FC = () => {
               {record.exclusion_reason && `: ${record.exclusion_reason}`}
             </Tag>
           )}
+          {record.is_make_up && <Tag color="purple">Make-up</Tag>}
         </Space>
       ),
     },
@@ -580,7 +717,7 @@ const Attendance: React.FC = () => {
             )}
           >
             {Object.entries(statusLabels).map(([key, label]) => (
-              <Option key={key} value={key}>{label}</Option>
+              <Option key={key} value={key} disabled={key === 'pending'}>{label}</Option>
             ))}
           </Select>
           <Tooltip title="Update with payment balance changes">
@@ -595,6 +732,16 @@ const Attendance: React.FC = () => {
               Update Balance
             </Checkbox>
           </Tooltip>
+          {record.is_make_up && can('attendance:make_ups') && (
+            <Popconfirm
+              title="Cancel this make-up booking? The student gets the make-up credit back."
+              onConfirm={() => handleCancelMakeUp(record.student_id)}
+            >
+              <Button type="link" size="small" danger style={{ padding: 0 }}>
+                Cancel Make-up
+              </Button>
+            </Popconfirm>
+          )}
         </Space>
       ),
     },
@@ -662,9 +809,9 @@ const Attendance: React.FC = () => {
               {dayScheduledClasses.map((item, index) => (
                 <li key={`scheduled-${index}`} style={{ marginBottom: '2px' }}>
                   <Badge
-                    status={item.has_occurrence ? 'default' : 'processing'}
+                    status={item.is_closed ? 'error' : item.has_occurrence ? 'default' : 'processing'}
                     text={
-                      <span style={{ fontSize: '10px', fontWeight: '500' }}>
+                      <span style={{ fontSize: '10px', fontWeight: '500', textDecoration: item.is_closed ? 'line-through' : undefined }}>
                         {item.class_name}
                         {item.has_occurrence && (
                           <span style={{ marginLeft: '4px', color: '#52c41a' }}>✅</span>
@@ -815,13 +962,15 @@ const Attendance: React.FC = () => {
                                 >
                                   View Details
                                 </Button>
-                                <Button
-                                  size="small"
-                                  icon={<EditOutlined />}
-                                  onClick={() => showEditOccurrenceModal(occurrence)}
-                                >
-                                  Edit
-                                </Button>
+                                {can('attendance:occurrences') && (
+                                  <Button
+                                    size="small"
+                                    icon={<EditOutlined />}
+                                    onClick={() => showEditOccurrenceModal(occurrence)}
+                                  >
+                                    Edit
+                                  </Button>
+                                )}
                               </Space>
                             </List.Item>
                           )}
@@ -859,6 +1008,9 @@ const Attendance: React.FC = () => {
                                     {scheduledClass.has_occurrence && (
                                       <Tag color="green">Created</Tag>
                                     )}
+                                    {scheduledClass.is_closed && (
+                                      <Tag color="red">Closed: {scheduledClass.closure_name}</Tag>
+                                    )}
                                   </Space>
                                 }
                                 description={
@@ -909,29 +1061,33 @@ const Attendance: React.FC = () => {
                 allowClear={false}
               />
             </Col>
-            <Col xs={24} sm={12} md={6}>
-              <Button
-                type="primary"
-                icon={<PlusOutlined />}
-                onClick={() => {
-                  form.resetFields();
-                  setModalVisible(true);
-                }}
-                style={{ width: '100%' }}
-              >
-                Add Occurrence
-              </Button>
-            </Col>
-            <Col xs={24} sm={12} md={6}>
-              <Button
-                type="default"
-                icon={<CalendarOutlined />}
-                onClick={handleAutoCreateOccurrences}
-                style={{ width: '100%' }}
-              >
-                Auto-Create Today
-              </Button>
-            </Col>
+            {can('attendance:occurrences') && (
+              <>
+                <Col xs={24} sm={12} md={6}>
+                  <Button
+                    type="primary"
+                    icon={<PlusOutlined />}
+                    onClick={() => {
+                      form.resetFields();
+                      setModalVisible(true);
+                    }}
+                    style={{ width: '100%' }}
+                  >
+                    Add Occurrence
+                  </Button>
+                </Col>
+                <Col xs={24} sm={12} md={6}>
+                  <Button
+                    type="default"
+                    icon={<CalendarOutlined />}
+                    onClick={handleAutoCreateOccurrences}
+                    style={{ width: '100%' }}
+                  >
+                    Auto-Create Today
+                  </Button>
+                </Col>
+              </>
+            )}
           </Row>
 
           <Table
@@ -994,7 +1150,14 @@ const Attendance: React.FC = () => {
                 label="Date"
                 rules={[{ required: true, message: 'Please select date' }]}
               >
-                <DatePicker style={{ width: '100%' }} />
+                <DatePicker
+                  style={{ width: '100%' }}
+                  onChange={(date) => {
+                    if (selectedClassId) {
+                      fetchEnrolledStudents(selectedClassId, date || undefined);
+                    }
+                  }}
+                />
               </Form.Item>
             </Col>
           </Row>
@@ -1105,15 +1268,29 @@ const Attendance: React.FC = () => {
           setOccurrenceModalVisible(false);
           setSelectedOccurrence(null);
           setAttendanceRecords([]);
+          setGuests([]);
         }}
         footer={[
-          <Button key="add-exclusion" onClick={() => setExclusionModalVisible(true)}>
-            Add Exclusion
-          </Button>,
+          can('attendance:exclusions') && (
+            <Button key="add-exclusion" onClick={() => setExclusionModalVisible(true)}>
+              Add Exclusion
+            </Button>
+          ),
+          can('attendance:make_ups') && (
+            <Button key="book-make-up" onClick={openMakeUpModal}>
+              Book Make-up
+            </Button>
+          ),
+          can('attendance:guests') && (
+            <Button key="add-guest" onClick={() => setGuestModalVisible(true)}>
+              Add Trial / Drop-in
+            </Button>
+          ),
           <Button key="close" onClick={() => {
             setOccurrenceModalVisible(false);
             setSelectedOccurrence(null);
             setAttendanceRecords([]);
+            setGuests([]);
           }}>
             Close
           </Button>
@@ -1151,7 +1328,7 @@ const Attendance: React.FC = () => {
             <Col span={6}>
               <Statistic
                 title="Not Recorded"
-                value={attendanceRecords.filter(r => r.attendance_status === 'not_recorded').length}
+                value={attendanceRecords.filter(r => r.attendance_status === 'pending' || r.attendance_status === 'not_recorded').length}
                 valueStyle={{ color: '#8c8c8c' }}
               />
             </Col>
@@ -1176,6 +1353,72 @@ const Attendance: React.FC = () => {
           }}
           scroll={{ x: 800 }}
         />
+
+        {guests.length > 0 && (
+          <>
+            <Divider orientation="left">Guests</Divider>
+            <List
+              dataSource={guests}
+              renderItem={(guest) => (
+                <List.Item
+                  actions={can('attendance:guests') ? [
+                    <Select
+                      key="status"
+                      value={guest.attendance_status}
+                      style={{ width: 110 }}
+                      onChange={(value) => handleUpdateGuest(guest, { attendance_status: value })}
+                    >
+                      {Object.entries(statusLabels)
+                        .filter(([key]) => key !== 'pending' && key !== 'not_recorded')
+                        .map(([key, label]) => (
+                          <Option key={key} value={key}>{label}</Option>
+                        ))}
+                    </Select>,
+                    can('students:view') && (
+                      <Select
+                        key="student"
+                        value={guest.student_id}
+                        placeholder="Enrolled as..."
+                        allowClear
+                        showSearch
+                        optionFilterProp="children"
+                        style={{ width: 180 }}
+                        onChange={(value) => handleUpdateGuest(guest, { student_id: value })}
+                      >
+                        {students.map(student => (
+                          <Option key={student.id} value={student.id}>{student.name}</Option>
+                        ))}
+                      </Select>
+                    ),
+                    <Popconfirm
+                      key="remove"
+                      title="Remove this guest?"
+                      onConfirm={() => handleRemoveGuest(guest.id)}
+                    >
+                      <Button size="small" danger icon={<DeleteOutlined />} />
+                    </Popconfirm>
+                  ] : []}
+                >
+                  <List.Item.Meta
+                    title={
+                      <Space>
+                        <Text strong>{guest.name}</Text>
+                        {guest.is_free_trial
+                          ? <Tag color="cyan">Trial</Tag>
+                          : <Tag color="gold">Drop-in ${Number(guest.drop_in_price).toFixed(2)}</Tag>}
+                        {!can('attendance:guests') && (
+                          <Tag color={statusColors[guest.attendance_status]}>{statusLabels[guest.attendance_status]}</Tag>
+                        )}
+                        {guest.student_name && <Tag color="green">Enrolled as {guest.student_name}</Tag>}
+                      </Space>
+                    }
+                    description={[guest.email, guest.phone, guest.notes].filter(Boolean).join(' · ')}
+                  />
+                </List.Item>
+              )}
+            />
+          </>
+        )}
       </Modal>
 
       <Modal
@@ -1283,7 +1526,7 @@ const Attendance: React.FC = () => {
               optionFilterProp="children"
             >
               {attendanceRecords
-                .filter(record => !record.is_excluded)
+                .filter(record => !record.is_excluded && !record.is_make_up)
                 .map(record => (
                   <Option key={record.student_id} value={record.student_id}>
                     {record.student_name} ({record.grade})
@@ -1319,6 +1562,138 @@ const Attendance: React.FC = () => {
           </Form.Item>
         </Form>
       </Modal>
+
+      <Modal
+        title="Book Make-up Class"
+        open={makeUpModalVisible}
+        onCancel={() => {
+          setMakeUpModalVisible(false);
+          makeUpForm.resetFields();
+        }}
+        footer={null}
+        width={600}
+      >
+        <Form
+          form={makeUpForm}
+          layout="vertical"
+          onFinish={handleBookMakeUp}
+        >
+          <Form.Item
+            name="make_up_credit_id"
+            label="Student"
+            extra="Students with an unused make-up credit from an excused absence in this class or subject"
+            rules={[{ required: true, message: 'Please select a student' }]}
+          >
+            <Select
+              placeholder={makeUpCandidates.length > 0 ? 'Select student to book in' : 'No make-up credits available'}
+              showSearch
+              optionFilterProp="children"
+            >
+              {makeUpCandidates.map(candidate => (
+                <Option key={candidate.id} value={candidate.id}>
+                  {candidate.student_name} ({candidate.grade}) - missed {candidate.missed_class_name} on {dayjs(candidate.missed_date).format('MMM DD')}
+                  {candidate.expires_at && `, expires ${dayjs(candidate.expires_at).format('MMM DD, YYYY')}`}
+                </Option>
+              ))}
+            </Select>
+          </Form.Item>
+
+          <Form.Item>
+            <Space>
+              <Button type="primary" htmlType="submit">
+                Book Make-up
+              </Button>
+              <Button
+                onClick={() => {
+                  setMakeUpModalVisible(false);
+                  makeUpForm.resetFields();
+                }}
+              >
+                Cancel
+              </Button>
+            </Space>
+          </Form.Item>
+        </Form>
+      </Modal>
+
+      <Modal
+        title="Add Trial / Drop-in Guest"
+        open={guestModalVisible}
+        onCancel={() => {
+          setGuestModalVisible(false);
+          guestForm.resetFields();
+        }}
+        footer={null}
+        width={500}
+      >
+        <Form
+          form={guestForm}
+          layout="vertical"
+          onFinish={handleAddGuest}
+          initialValues={{ is_free_trial: true }}
+        >
+          <Form.Item
+            name="name"
+            label="Name"
+            rules={[{ required: true, message: 'Please enter the guest\'s name' }]}
+          >
+            <Input placeholder="Prospective student's name" />
+          </Form.Item>
+
+          <Row gutter={16}>
+            <Col span={12}>
+              <Form.Item
+                name="email"
+                label="Email"
+                rules={[{ type: 'email', message: 'Please enter a valid email' }]}
+              >
+                <Input placeholder="For following up" />
+              </Form.Item>
+            </Col>
+            <Col span={12}>
+              <Form.Item name="phone" label="Phone">
+                <Input />
+              </Form.Item>
+            </Col>
+          </Row>
+
+          <Form.Item name="is_free_trial" valuePropName="checked">
+            <Checkbox>Free trial class</Checkbox>
+          </Form.Item>
+
+          <Form.Item noStyle dependencies={['is_free_trial']}>
+            {({ getFieldValue }) => !getFieldValue('is_free_trial') && (
+              <Form.Item
+                name="drop_in_price"
+                label="Drop-in Price"
+                extra="Leave empty to charge the class's price per class"
+              >
+                <InputNumber min={0} precision={2} prefix="$" style={{ width: '100%' }} />
+              </Form.Item>
+            )}
+          </Form.Item>
+
+          <Form.Item name="notes" label="Notes">
+            <Input.TextArea placeholder="e.g., How they heard about us" rows={2} />
+          </Form.Item>
+
+          <Form.Item>
+            <Space>
+              <Button type="primary" htmlType="submit">
+                Add Guest
+              </Button>
+              <Button
+                onClick={() => {
+                  setGuestModalVisible(false);
+                  guestForm.resetFields();
+                }}
+              >
+                Cancel
+              </Button>
+            </Space>
+          </Form.Item>
+        </Form>
+      </Modal>
     </div>
   );
 };
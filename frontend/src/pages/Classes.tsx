@@ -6,10 +6,11 @@ import {
 } from 'antd';
 import {
   PlusOutlined, EditOutlined, DeleteOutlined, SearchOutlined,
-  BookOutlined, ClockCircleOutlined, TeamOutlined
+  BookOutlined, ClockCircleOutlined, TeamOutlined, ArrowUpOutlined, ArrowDownOutlined
 } from '@ant-design/icons';
 import axios from 'axios';
 import type { ColumnsType } from 'antd/es/table';
+import { useAuth } from '../context/AuthContext';
 
 const { Title, Text } = Typography;
 const { Option } = Select;
@@ -24,12 +25,34 @@ interface Class {
   duration_minutes?: number;
   max_students?: number;
   price_per_class?: number;
+  attendance_mode: 'auto_present' | 'pending' | 'charge_regardless';
+  teacher_id?: string | null;
+  teacher_name?: string | null;
   created_at: string;
   updated_at: string;
   enrolled_students?: number;
   enrollment_percentage?: number;
+  waitlisted_students?: number;
 }
 
+const attendanceModeLabels: Record<string, { label: string; color: string; description: string }> = {
+  auto_present: {
+    label: 'Auto-present',
+    color: 'green',
+    description: 'Everyone is marked present and charged; mark absences to refund'
+  },
+  pending: {
+    label: 'Pending',
+    color: 'gold',
+    description: 'Attendance starts unrecorded; students are charged when marked present or when the session closes'
+  },
+  charge_regardless: {
+    label: 'Charge regardless',
+    color: 'purple',
+    description: 'Everyone is charged, even when absent (e.g. private lessons)'
+  },
+};
+
 interface Schedule {
   id: string;
   day_of_week: number;
@@ -40,6 +63,11 @@ interface Schedule {
   updated_at: string;
 }
 
+interface Teacher {
+  id: string;
+  name: string;
+}
+
 interface EnrolledStudent {
   id: string;
   name: string;
@@ -49,8 +77,26 @@ interface EnrolledStudent {
   is_active: boolean;
 }
 
+interface WaitlistEntry {
+  id: string;
+  student_id: string;
+  student_name: string;
+  grade?: string;
+  position: number;
+  notes?: string;
+  created_at: string;
+  added_by_name?: string;
+}
+
+interface StudentOption {
+  id: string;
+  name: string;
+}
+
 const Classes: React.FC = () => {
+  const { can } = useAuth();
   const [classes, setClasses] = useState<Class[]>([]);
+  const [teachers, setTeachers] = useState<Teacher[]>([]);
   const [loading, setLoading] = useState(false);
   const [modalVisible, setModalVisible] = useState(false);
   const [scheduleModalVisible, setScheduleModalVisible] = useState(false);
@@ -59,10 +105,13 @@ const Classes: React.FC = () => {
   const [selectedClass, setSelectedClass] = useState<Class | null>(null);
   const [selectedClassSchedules, setSelectedClassSchedules] = useState<Schedule[]>([]);
   const [selectedClassStudents, setSelectedClassStudents] = useState<EnrolledStudent[]>([]);
+  const [waitlist, setWaitlist] = useState<WaitlistEntry[]>([]);
+  const [studentOptions, setStudentOptions] = useState<StudentOption[]>([]);
   const [searchText, setSearchText] = useState('');
   const [subjectFilter, setSubjectFilter] = useState<string | undefined>();
   const [form] = Form.useForm();
   const [scheduleForm] = Form.useForm();
+  const [waitlistForm] = Form.useForm();
 
   // Search caching
   const searchCache = useRef<Map<string, { data: Class[], timestamp: number }>>(new Map());
@@ -109,6 +158,16 @@ const Classes: React.FC = () => {
 
   const subjects = ['Mathematics', 'English', 'Science', 'Physics', 'Chemistry', 'Biology', 'History', 'Geography', 'Art', 'Music', 'Computer Science', 'Other'];
 
+  // Fetch teachers for the class form
+  const fetchTeachers = async () => {
+    try {
+      const response = await axios.get('/api/users', { params: { role: 'teacher' } });
+      setTeachers(response.data.data || []);
+    } catch (error) {
+      console.error('Error fetching teachers:', error);
+    }
+  };
+
   // Fetch classes with caching
   const fetchClasses = async () => {
     try {
@@ -145,13 +204,15 @@ const Classes: React.FC = () => {
   // Fetch class details with schedules and students
   const fetchClassDetails = async (classId: string) => {
     try {
-      const [schedulesResponse, studentsResponse] = await Promise.all([
+      const [schedulesResponse, studentsResponse, waitlistResponse] = await Promise.all([
         axios.get(`/api/classes/${classId}/schedules`),
-        axios.get(`/api/classes/${classId}`)
+        axios.get(`/api/classes/${classId}`),
+        axios.get(`/api/classes/${classId}/waitlist`)
       ]);
 
       setSelectedClassSchedules(schedulesResponse.data.data);
       setSelectedClassStudents(studentsResponse.data.data.enrolled_students || []);
+      setWaitlist(waitlistResponse.data.data || []);
     } catch (error) {
       console.error('Error fetching class details:', error);
       message.error('Failed to load class details');
@@ -162,6 +223,12 @@ const Classes: React.FC = () => {
     fetchClasses();
   }, [searchText, subjectFilter]);
 
+  useEffect(() => {
+    if (can('users:view')) {
+      fetchTeachers();
+    }
+  }, []);
+
   // Handle form submission
   const handleSubmit = async (values: any) => {
     try {
@@ -192,7 +259,62 @@ const Classes: React.FC = () => {
       fetchClasses();
     } catch (error: any) {
       console.error('Error deleting class:', error);
-      message.error(error.response?.data?.message || 'Failed to delete class');
+      message.error(error.response?.data?.error?.message || 'Failed to delete class');
+    }
+  };
+
+  // Students to pick from when adding to a waitlist
+  const fetchStudentOptions = async () => {
+    try {
+      const response = await axios.get('/api/students', { params: { limit: 500 } });
+      setStudentOptions(response.data.data?.students || []);
+    } catch (error) {
+      console.error('Error fetching students:', error);
+    }
+  };
+
+  const refreshWaitlist = (classId: string) => {
+    clearCache(); // Enrollment and waitlist counts change
+    fetchClassDetails(classId);
+    fetchClasses();
+  };
+
+  const handleWaitlistAdd = async (values: any) => {
+    if (!selectedClass) return;
+
+    try {
+      const response = await axios.post(`/api/classes/${selectedClass.id}/waitlist`, values);
+      message.success(response.data.message || 'Student added to the waitlist');
+      waitlistForm.resetFields();
+      refreshWaitlist(selectedClass.id);
+    } catch (error: any) {
+      console.error('Error adding to waitlist:', error);
+      message.error(error.response?.data?.error?.message || 'Failed to add student to the waitlist');
+    }
+  };
+
+  const handleWaitlistMove = async (entry: WaitlistEntry, position: number) => {
+    if (!selectedClass) return;
+
+    try {
+      await axios.put(`/api/classes/${selectedClass.id}/waitlist/${entry.id}`, { position });
+      fetchClassDetails(selectedClass.id);
+    } catch (error: any) {
+      console.error('Error moving waitlist entry:', error);
+      message.error(error.response?.data?.error?.message || 'Failed to move waitlist entry');
+    }
+  };
+
+  const handleWaitlistRemove = async (entry: WaitlistEntry) => {
+    if (!selectedClass) return;
+
+    try {
+      await axios.delete(`/api/classes/${selectedClass.id}/waitlist/${entry.id}`);
+      message.success('Student removed from the waitlist');
+      refreshWaitlist(selectedClass.id);
+    } catch (error: any) {
+      console.error('Error removing from waitlist:', error);
+      message.error(error.response?.data?.error?.message || 'Failed to remove student from the waitlist');
     }
   };
 
@@ -240,6 +362,11 @@ const Classes: React.FC = () => {
           {record.subject && (
             <Tag color="blue">{record.subject}</Tag>
           )}
+          {record.teacher_name && (
+            <Text type="secondary" style={{ fontSize: '12px' }}>
+              Teacher: {record.teacher_name}
+            </Text>
+          )}
         </Space>
       ),
     },
@@ -295,6 +422,9 @@ const Classes: React.FC = () => {
               </Text>
             </div>
           )}
+          {Number(record.waitlisted_students) > 0 && (
+            <Tag color="orange">{record.waitlisted_students} waiting</Tag>
+          )}
         </Space>
       ),
     },
@@ -311,6 +441,11 @@ const Classes: React.FC = () => {
               </Text>
             </div>
           )}
+          {record.attendance_mode !== 'auto_present' && (
+            <Tag color={attendanceModeLabels[record.attendance_mode]?.color}>
+              {attendanceModeLabels[record.attendance_mode]?.label || record.attendance_mode}
+            </Tag>
+          )}
         </Space>
       ),
     },
@@ -319,14 +454,16 @@ const Classes: React.FC = () => {
       key: 'actions',
       render: (record: Class) => (
         <Space>
-          <Button
-            icon={<EditOutlined />}
-            onClick={() => {
-              setEditingClass(record);
-              form.setFieldsValue(record);
-              setModalVisible(true);
-            }}
-          />
+          {can('classes:update') && (
+            <Button
+              icon={<EditOutlined />}
+              onClick={() => {
+                setEditingClass(record);
+                form.setFieldsValue(record);
+                setModalVisible(true);
+              }}
+            />
+          )}
           <Button
             icon={<ClockCircleOutlined />}
             onClick={() => {
@@ -337,14 +474,16 @@ const Classes: React.FC = () => {
           >
             Schedules
           </Button>
-          <Popconfirm
-            title="Are you sure you want to delete this class?"
-            onConfirm={() => handleDelete(record.id)}
-            okText="Yes"
-            cancelText="No"
-          >
-            <Button icon={<DeleteOutlined />} danger />
-          </Popconfirm>
+          {can('classes:delete') && (
+            <Popconfirm
+              title="Are you sure you want to delete this class?"
+              onConfirm={() => handleDelete(record.id)}
+              okText="Yes"
+              cancelText="No"
+            >
+              <Button icon={<DeleteOutlined />} danger />
+            </Popconfirm>
+          )}
         </Space>
       ),
     },
@@ -377,7 +516,7 @@ const Classes: React.FC = () => {
     {
       title: 'Actions',
       key: 'actions',
-      render: (record: Schedule) => (
+      render: (record: Schedule) => can('classes:schedules') && (
         <Popconfirm
           title="Are you sure you want to delete this schedule?"
           onConfirm={() => handleScheduleDelete(record.id)}
@@ -479,19 +618,21 @@ const Classes: React.FC = () => {
             ))}
           </Select>
         </Col>
-        <Col>
-          <Button
-            type="primary"
-            icon={<PlusOutlined />}
-            onClick={() => {
-              setEditingClass(null);
-              form.resetFields();
-              setModalVisible(true);
-            }}
-          >
-            Add Class
-          </Button>
-        </Col>
+        {can('classes:create') && (
+          <Col>
+            <Button
+              type="primary"
+              icon={<PlusOutlined />}
+              onClick={() => {
+                setEditingClass(null);
+                form.resetFields();
+                setModalVisible(true);
+              }}
+            >
+              Add Class
+            </Button>
+          </Col>
+        )}
       </Row>
 
       {/* Classes Table */}
@@ -587,6 +728,31 @@ const Classes: React.FC = () => {
             </Col>
           </Row>
 
+          <Form.Item
+            name="attendance_mode"
+            label="Attendance"
+            initialValue="auto_present"
+          >
+            <Select>
+              {Object.entries(attendanceModeLabels).map(([key, mode]) => (
+                <Option key={key} value={key}>
+                  {mode.label} <Text type="secondary">- {mode.description}</Text>
+                </Option>
+              ))}
+            </Select>
+          </Form.Item>
+
+          <Form.Item
+            name="teacher_id"
+            label="Teacher"
+          >
+            <Select placeholder="Select teacher" allowClear>
+              {teachers.map(teacher => (
+                <Option key={teacher.id} value={teacher.id}>{teacher.name}</Option>
+              ))}
+            </Select>
+          </Form.Item>
+
           <Form.Item>
             <Space>
               <Button type="primary" htmlType="submit">
@@ -615,75 +781,89 @@ const Classes: React.FC = () => {
           setSelectedClass(null);
           setSelectedClassSchedules([]);
           setSelectedClassStudents([]);
+          setWaitlist([]);
+          waitlistForm.resetFields();
         }}
         footer={null}
         width={800}
       >
-        <Tabs defaultActiveKey="schedules" size="large">
+        <Tabs
+          defaultActiveKey="schedules"
+          size="large"
+          onChange={(key) => {
+            if (key === 'waitlist' && can('classes:waitlist') && studentOptions.length === 0) {
+              fetchStudentOptions();
+            }
+          }}
+        >
           <TabPane tab="Schedules" key="schedules">
-            <div style={{ marginBottom: 16 }}>
-              <Button
-                type="primary"
-                icon={<PlusOutlined />}
-                onClick={() => {
-                  scheduleForm.resetFields();
-                  setAddScheduleModalVisible(true);
-                }}
-              >
-                Add Schedule
-              </Button>
-            </div>
-
-            <Form
-              form={scheduleForm}
-              layout="vertical"
-              onFinish={handleScheduleSubmit}
-              style={{ marginBottom: 16 }}
-            >
-              <Row gutter={16}>
-                <Col span={8}>
-                  <Form.Item
-                    name="day_of_week"
-                    label="Day of Week"
-                    rules={[{ required: true, message: 'Please select day' }]}
+            {can('classes:schedules') && (
+              <>
+                <div style={{ marginBottom: 16 }}>
+                  <Button
+                    type="primary"
+                    icon={<PlusOutlined />}
+                    onClick={() => {
+                      scheduleForm.resetFields();
+                      setAddScheduleModalVisible(true);
+                    }}
                   >
-                    <Select placeholder="Select day">
-                      {daysOfWeek.map(day => (
-                        <Option key={day.value} value={day.value}>{day.label}</Option>
-                      ))}
-                    </Select>
-                  </Form.Item>
-                </Col>
-                <Col span={8}>
-                  <Form.Item
-                    name="start_time"
-                    label="Start Time"
-                    rules={[{ required: true, message: 'Please select start time' }]}
-                  >
-                    <Input placeholder="09:00" />
-                  </Form.Item>
-                </Col>
-                <Col span={8}>
-                  <Form.Item
-                    name="end_time"
-                    label="End Time"
-                    rules={[{ required: true, message: 'Please select end time' }]}
-                  >
-                    <Input placeholder="10:30" />
-                  </Form.Item>
-                </Col>
-              </Row>
-              <Form.Item>
-                <Space>
-                  <Button type="primary" htmlType="submit">
                     Add Schedule
                   </Button>
-                  <Button onClick={() => scheduleForm.resetFields()}>
-                    Reset
-                  </Button>
-                </Space>
-              </Form.Item>
-            </Form>
+                </div>
+
+                <Form
+                  form={scheduleForm}
+                  layout="vertical"
+                  onFinish={handleScheduleSubmit}
+                  style={{ marginBottom: 16 }}
+                >
+                  <Row gutter={16}>
+                    <Col span={8}>
+                      <Form.Item
+                        name="day_of_week"
+                        label="Day of Week"
+                        rules={[{ required: true, message: 'Please select day' }]}
+                      >
+                        <Select placeholder="Select day">
+                          {daysOfWeek.map(day => (
+                            <Option key={day.value} value={day.value}>{day.label}</Option>
+                          ))}
+                        </Select>
+                      </Form.Item>
+                    </Col>
+                    <Col span={8}>
+                      <Form.Item
+                        name="start_time"
+                        label="Start Time"
+                        rules={[{ required: true, message: 'Please select start time' }]}
+                      >
+                        <Input placeholder="09:00" />
+                      </Form.Item>
+                    </Col>
+                    <Col span={8}>
+                      <Form.Item
+                        name="end_time"
+                        label="End Time"
+                        rules={[{ required: true, message: 'Please select end time' }]}
+                      >
+                        <Input placeholder="10:30" />
+                      </Form.Item>
+                    </Col>
+                  </Row>
+                  <Form.Item>
+                    <Space>
+                      <Button type="primary" htmlType="submit">
+                        Add Schedule
+                      </Button>
+                      <Button onClick={() => scheduleForm.resetFields()}>
+                        Reset
+                      </Button>
+                    </Space>
+                  </Form.Item>
+                </Form>
+              </>
+            )}
 
             {selectedClassSchedules.length > 0 ? (
               <Table
@@ -730,6 +910,84 @@ const Classes: React.FC = () => {
               </div>
             )}
           </TabPane>
+
+          <TabPane tab={`Waitlist (${waitlist.length})`} key="waitlist">
+            <div style={{ marginBottom: 16 }}>
+              <Text type="secondary">
+                {selectedClass?.max_students
+                  ? `${selectedClassStudents.length} of ${selectedClass.max_students} seats taken. When a seat opens up, the first student in line is enrolled.`
+                  : 'This class has no maximum, so students are enrolled straight away.'}
+              </Text>
+            </div>
+
+            {can('classes:waitlist') && (
+              <Form form={waitlistForm} layout="inline" onFinish={handleWaitlistAdd} style={{ marginBottom: 16, rowGap: 8 }}>
+                <Form.Item name="student_id" rules={[{ required: true, message: 'Please select a student' }]}>
+                  <Select placeholder="Select student" showSearch optionFilterProp="children" style={{ width: 220 }}>
+                    {studentOptions
+                      .filter(student => !waitlist.some(entry => entry.student_id === student.id))
+                      .map(student => (
+                        <Option key={student.id} value={student.id}>{student.name}</Option>
+                      ))}
+                  </Select>
+                </Form.Item>
+                <Form.Item name="notes">
+                  <Input placeholder="Notes" />
+                </Form.Item>
+                <Form.Item>
+                  <Button type="primary" htmlType="submit">Add to Waitlist</Button>
+                </Form.Item>
+              </Form>
+            )}
+
+            {waitlist.length > 0 ? (
+              <List
+                dataSource={waitlist}
+                renderItem={(entry) => (
+                  <List.Item
+                    actions={can('classes:waitlist') ? [
+                      <Button
+                        key="up"
+                        size="small"
+                        icon={<ArrowUpOutlined />}
+                        disabled={entry.position === 1}
+                        onClick={() => handleWaitlistMove(entry, entry.position - 1)}
+                      />,
+                      <Button
+                        key="down"
+                        size="small"
+                        icon={<ArrowDownOutlined />}
+                        disabled={entry.position === waitlist.length}
+                        onClick={() => handleWaitlistMove(entry, entry.position + 1)}
+                      />,
+                      <Popconfirm
+                        key="remove"
+                        title="Remove from the waitlist?"
+                        onConfirm={() => handleWaitlistRemove(entry)}
+                        okText="Yes"
+                        cancelText="No"
+                      >
+                        <Button size="small" danger icon={<DeleteOutlined />} />
+                      </Popconfirm>
+                    ] : []}
+                  >
+                    <List.Item.Meta
+                      title={<Space><Tag>#{entry.position}</Tag>{entry.student_name}</Space>}
+                      description={[
+                        entry.grade,
+                        `added ${new Date(entry.created_at).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' })}`,
+                        entry.notes
+                      ].filter(Boolean).join(' · ')}
+                    />
+                  </List.Item>
+                )}
+              />
+            ) : (
+              <div style={{ textAlign: 'center', padding: '20px' }}>
+                <Text type="secondary">No one is waiting for this class.</Text>
+              </div>
+            )}
+          </TabPane>
         </Tabs>
       </Modal>
 
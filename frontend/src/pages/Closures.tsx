@@ -0,0 +1,351 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Typography, Table, Button, Space, Modal, Form, Input, Select,
+  Popconfirm, message, Tag, Row, Col, DatePicker, Calendar, Card
+} from 'antd';
+import { PlusOutlined, EditOutlined, DeleteOutlined } from '@ant-design/icons';
+import axios from 'axios';
+import dayjs, { Dayjs } from 'dayjs';
+import type { ColumnsType } from 'antd/es/table';
+import { useAuth } from '../context/AuthContext';
+
+const { Title, Text } = Typography;
+const { Option } = Select;
+
+interface Closure {
+  id: string;
+  name: string;
+  start_date: string;
+  end_date: string;
+  class_id?: string;
+  class_name?: string;
+  subject?: string;
+  notes?: string;
+  created_by_name?: string;
+}
+
+interface Class {
+  id: string;
+  name: string;
+  subject?: string;
+}
+
+type Scope = 'all' | 'class' | 'subject';
+
+const Closures: React.FC = () => {
+  const { can } = useAuth();
+  const [closures, setClosures] = useState<Closure[]>([]);
+  const [classes, setClasses] = useState<Class[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [month, setMonth] = useState<Dayjs>(dayjs());
+  const [modalVisible, setModalVisible] = useState(false);
+  const [editingClosure, setEditingClosure] = useState<Closure | null>(null);
+  const [form] = Form.useForm();
+  const scope: Scope = Form.useWatch('scope', form) || 'all';
+
+  const subjects = Array.from(new Set(classes.map((cls) => cls.subject).filter(Boolean))) as string[];
+
+  // Closures touching the month shown, including the days of the neighbouring months on screen
+  const fetchClosures = async () => {
+    try {
+      setLoading(true);
+      const response = await axios.get('/api/closures', {
+        params: {
+          from: month.startOf('month').subtract(7, 'day').format('YYYY-MM-DD'),
+          to: month.endOf('month').add(7, 'day').format('YYYY-MM-DD')
+        }
+      });
+      setClosures(response.data.data || []);
+    } catch (error: any) {
+      console.error('Error fetching closures:', error);
+      message.error(error.response?.data?.error?.message || 'Failed to fetch closures');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchClasses = async () => {
+    try {
+      const response = await axios.get('/api/classes', { params: { limit: 100 } });
+      setClasses(response.data.data?.classes || []);
+    } catch (error: any) {
+      console.error('Error fetching classes:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchClosures();
+  }, [month]);
+
+  useEffect(() => {
+    fetchClasses();
+  }, []);
+
+  const openModal = (closure: Closure | null, date?: Dayjs) => {
+    setEditingClosure(closure);
+    form.resetFields();
+    if (closure) {
+      form.setFieldsValue({
+        ...closure,
+        scope: closure.class_id ? 'class' : closure.subject ? 'subject' : 'all',
+        dates: [dayjs(closure.start_date), dayjs(closure.end_date)]
+      });
+    } else if (date) {
+      form.setFieldsValue({ dates: [date, date] });
+    }
+    setModalVisible(true);
+  };
+
+  const closeModal = () => {
+    setModalVisible(false);
+    setEditingClosure(null);
+    form.resetFields();
+  };
+
+  const handleSubmit = async (values: any) => {
+    const { scope: selectedScope, dates, ...closureData } = values;
+    const payload = {
+      ...closureData,
+      start_date: dates[0].format('YYYY-MM-DD'),
+      end_date: dates[1].format('YYYY-MM-DD'),
+      class_id: selectedScope === 'class' ? closureData.class_id : null,
+      subject: selectedScope === 'subject' ? closureData.subject : null
+    };
+
+    try {
+      if (editingClosure) {
+        await axios.put(`/api/closures/${editingClosure.id}`, payload);
+        message.success('Closure updated successfully');
+      } else {
+        await axios.post('/api/closures', payload);
+        message.success('Closure created successfully');
+      }
+      closeModal();
+      fetchClosures();
+    } catch (error: any) {
+      console.error('Error saving closure:', error);
+      message.error(error.response?.data?.error?.message || 'Failed to save closure');
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await axios.delete(`/api/closures/${id}`);
+      message.success('Closure deleted successfully');
+      fetchClosures();
+    } catch (error: any) {
+      console.error('Error deleting closure:', error);
+      message.error(error.response?.data?.error?.message || 'Failed to delete closure');
+    }
+  };
+
+  const scopeTag = (closure: Closure) => {
+    if (closure.class_id) {
+      return <Tag color="blue">{closure.class_name}</Tag>;
+    }
+    if (closure.subject) {
+      return <Tag color="purple">All {closure.subject} classes</Tag>;
+    }
+    return <Tag color="red">Whole school</Tag>;
+  };
+
+  const dateCellRender = (value: Dayjs) => {
+    const date = value.format('YYYY-MM-DD');
+    const dayClosures = closures.filter(closure =>
+      dayjs(closure.start_date).format('YYYY-MM-DD') <= date && dayjs(closure.end_date).format('YYYY-MM-DD') >= date
+    );
+
+    return (
+      <Space direction="vertical" size={2}>
+        {dayClosures.map(closure => (
+          <Tag
+            key={closure.id}
+            color={closure.class_id ? 'blue' : closure.subject ? 'purple' : 'red'}
+            style={{ cursor: can('closures:manage') ? 'pointer' : undefined, marginRight: 0 }}
+            onClick={(e) => {
+              if (!can('closures:manage')) return;
+              e.stopPropagation();
+              openModal(closure);
+            }}
+          >
+            {closure.name}
+          </Tag>
+        ))}
+      </Space>
+    );
+  };
+
+  const columns: ColumnsType<Closure> = [
+    {
+      title: 'Closure',
+      key: 'name',
+      render: (record: Closure) => (
+        <Space direction="vertical" size={0}>
+          <Text strong>{record.name}</Text>
+          {record.notes && <Text type="secondary" style={{ fontSize: '12px' }}>{record.notes}</Text>}
+        </Space>
+      ),
+    },
+    {
+      title: 'Dates',
+      key: 'dates',
+      render: (record: Closure) => (
+        record.start_date === record.end_date
+          ? dayjs(record.start_date).format('MMM DD, YYYY')
+          : `${dayjs(record.start_date).format('MMM DD')} - ${dayjs(record.end_date).format('MMM DD, YYYY')}`
+      ),
+    },
+    {
+      title: 'Applies To',
+      key: 'scope',
+      render: (record: Closure) => scopeTag(record),
+    },
+    {
+      title: 'Actions',
+      key: 'actions',
+      render: (record: Closure) => can('closures:manage') && (
+        <Space>
+          <Button icon={<EditOutlined />} onClick={() => openModal(record)} />
+          <Popconfirm
+            title="Delete this closure?"
+            description="Scheduled classes on these dates will be held again."
+            onConfirm={() => handleDelete(record.id)}
+            okText="Yes"
+            cancelText="No"
+          >
+            <Button danger icon={<DeleteOutlined />} />
+          </Popconfirm>
+        </Space>
+      ),
+    },
+  ];
+
+  return (
+    <div>
+      <Row justify="space-between" align="middle" style={{ marginBottom: 16 }}>
+        <Col>
+          <Title level={2} style={{ margin: 0 }}>Closures</Title>
+          <Text type="secondary">
+            Holidays and breaks. Scheduled classes are not held, and no credits used, on closed dates.
+          </Text>
+        </Col>
+        <Col>
+          {can('closures:manage') && (
+            <Button type="primary" icon={<PlusOutlined />} onClick={() => openModal(null)}>
+              Add Closure
+            </Button>
+          )}
+        </Col>
+      </Row>
+
+      <Card style={{ marginBottom: 16 }}>
+        <Calendar
+          value={month}
+          onPanelChange={(date) => setMonth(date)}
+          onSelect={(date, info) => {
+            if (info?.source === 'date' && can('closures:manage')) {
+              openModal(null, date);
+            }
+          }}
+          dateCellRender={dateCellRender}
+        />
+      </Card>
+
+      <Table
+        columns={columns}
+        dataSource={closures}
+        loading={loading}
+        rowKey="id"
+        pagination={false}
+      />
+
+      <Modal
+        title={editingClosure ? 'Edit Closure' : 'Add Closure'}
+        open={modalVisible}
+        onCancel={closeModal}
+        footer={null}
+        width={600}
+      >
+        <Form
+          form={form}
+          layout="vertical"
+          onFinish={handleSubmit}
+          initialValues={{ scope: 'all' }}
+        >
+          <Form.Item
+            name="name"
+            label="Name"
+            rules={[{ required: true, message: 'Please enter a name' }]}
+          >
+            <Input placeholder="e.g. Thanksgiving, Winter break" />
+          </Form.Item>
+
+          <Form.Item
+            name="dates"
+            label="Dates"
+            rules={[{ required: true, message: 'Please select the dates' }]}
+          >
+            <DatePicker.RangePicker style={{ width: '100%' }} />
+          </Form.Item>
+
+          <Row gutter={16}>
+            <Col span={12}>
+              <Form.Item name="scope" label="Closed">
+                <Select>
+                  <Option value="all">Whole school</Option>
+                  <Option value="class">One class</Option>
+                  <Option value="subject">All classes of a subject</Option>
+                </Select>
+              </Form.Item>
+            </Col>
+            <Col span={12}>
+              {scope === 'class' && (
+                <Form.Item
+                  name="class_id"
+                  label="Class"
+                  rules={[{ required: true, message: 'Please select a class' }]}
+                >
+                  <Select placeholder="Select class" showSearch optionFilterProp="children">
+                    {classes.map(cls => (
+                      <Option key={cls.id} value={cls.id}>{cls.name}</Option>
+                    ))}
+                  </Select>
+                </Form.Item>
+              )}
+              {scope === 'subject' && (
+                <Form.Item
+                  name="subject"
+                  label="Subject"
+                  rules={[{ required: true, message: 'Please select a subject' }]}
+                >
+                  <Select placeholder="Select subject">
+                    {subjects.map(subject => (
+                      <Option key={subject} value={subject}>{subject}</Option>
+                    ))}
+                  </Select>
+                </Form.Item>
+              )}
+            </Col>
+          </Row>
+
+          <Form.Item name="notes" label="Notes">
+            <Input.TextArea rows={2} />
+          </Form.Item>
+
+          <Form.Item>
+            <Space>
+              <Button type="primary" htmlType="submit">
+                {editingClosure ? 'Update' : 'Create'} Closure
+              </Button>
+              <Button onClick={closeModal}>
+                Cancel
+              </Button>
+            </Space>
+          </Form.Item>
+        </Form>
+      </Modal>
+    </div>
+  );
+};
+
+export default Closures;
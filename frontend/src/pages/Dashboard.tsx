@@ -5,7 +5,7 @@ import {
 } from 'antd';
 import {
   UserOutlined, BookOutlined, DollarOutlined, CalendarOutlined,
-  TeamOutlined, BarChartOutlined, AlertOutlined
+  TeamOutlined, BarChartOutlined, AlertOutlined, ShoppingOutlined, FieldTimeOutlined
 } from '@ant-design/icons';
 import axios from 'axios';
 import type { ColumnsType } from 'antd/es/table';
@@ -47,6 +47,25 @@ interface DashboardData {
     grade: string;
     remaining_classes: number;
     total_purchased: number;
+    classes_owed: number;
+    amount_owed: number;
+  }>;
+  expiring_credits: Array<{
+    student_id: string;
+    student_name: string;
+    payment_id: string;
+    receipt_number: number;
+    class_name: string | null;
+    classes: number;
+    expires_at: string;
+  }>;
+  expiring_within_days: number;
+  package_sales: Array<{
+    package_id: string | null;
+    package_name: string;
+    payments_count: number;
+    total_amount: number;
+    total_classes: number;
   }>;
   enrollment_stats: Array<{
     subject: string;
@@ -129,6 +148,33 @@ const Dashboard: React.FC = () => {
     },
   ];
 
+  const packageSalesColumns: ColumnsType<any> = [
+    {
+      title: 'Package',
+      dataIndex: 'package_name',
+      key: 'package_name',
+      render: (name: string, record: any) => (
+        record.package_id ? <Text strong>{name}</Text> : <Text type="secondary">{name}</Text>
+      ),
+    },
+    {
+      title: 'Sold',
+      dataIndex: 'payments_count',
+      key: 'payments_count',
+    },
+    {
+      title: 'Classes',
+      dataIndex: 'total_classes',
+      key: 'total_classes',
+    },
+    {
+      title: 'Revenue',
+      dataIndex: 'total_amount',
+      key: 'total_amount',
+      render: (amount: any) => `$${Number(amount).toFixed(2)}`,
+    },
+  ];
+
   const upcomingClassesColumns: ColumnsType<any> = [
     {
       title: 'Class',
@@ -291,7 +337,7 @@ const Dashboard: React.FC = () => {
             title={
               <Space>
                 <AlertOutlined style={{ color: '#faad14' }} />
-                Low Balance Alerts
+                Balance Alerts
               </Space>
             }
           >
@@ -311,6 +357,11 @@ const Dashboard: React.FC = () => {
                         <Text type="secondary">
                           {item.remaining_classes} classes remaining
                         </Text>
+                        {Number(item.classes_owed) > 0 && (
+                          <Text type="danger">
+                            {item.classes_owed} classes owed (${Number(item.amount_owed).toFixed(2)})
+                          </Text>
+                        )}
                         <Progress
                           percent={Math.round((item.remaining_classes / item.total_purchased) * 100)}
                           size="small"
@@ -372,6 +423,58 @@ const Dashboard: React.FC = () => {
           </Card>
         </Col>
       </Row>
+
+      <Row gutter={[16, 16]} style={{ marginTop: 16 }}>
+        {/* Package Sales */}
+        <Col xs={24} lg={12}>
+          <Card
+            title={
+              <Space>
+                <ShoppingOutlined />
+                Sales by Package (last 30 days)
+              </Space>
+            }
+          >
+            <Table
+              columns={packageSalesColumns}
+              dataSource={data.package_sales}
+              rowKey={(record) => record.package_id || 'custom'}
+              pagination={false}
+              size="small"
+            />
+          </Card>
+        </Col>
+
+        {/* Expiring Credits */}
+        <Col xs={24} lg={12}>
+          <Card
+            title={
+              <Space>
+                <FieldTimeOutlined style={{ color: '#faad14' }} />
+                Credits Expiring in {data.expiring_within_days} Days
+              </Space>
+            }
+          >
+            <List
+              dataSource={data.expiring_credits}
+              locale={{ emptyText: 'No credits expiring soon' }}
+              renderItem={(item) => (
+                <List.Item style={{ padding: '12px 0', borderBottom: '1px solid #f0f0f0' }}>
+                  <List.Item.Meta
+                    title={<Text strong>{item.student_name}</Text>}
+                    description={
+                      <Text type="secondary">
+                        {item.classes} unused {item.class_name ? `${item.class_name} ` : ''}classes
+                      </Text>
+                    }
+                  />
+                  <Tag color="orange">Expires {new Date(item.expires_at).toLocaleDateString()}</Tag>
+                </List.Item>
+              )}
+            />
+          </Card>
+        </Col>
+      </Row>
     </div>
   );
 };
@@ -0,0 +1,411 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Typography, Table, Button, Space, Modal, Form, Input, InputNumber, Select,
+  Switch, Popconfirm, message, Tag, Row, Col, DatePicker
+} from 'antd';
+import { PlusOutlined, EditOutlined, DeleteOutlined } from '@ant-design/icons';
+import axios from 'axios';
+import dayjs from 'dayjs';
+import type { ColumnsType } from 'antd/es/table';
+import { useAuth } from '../context/AuthContext';
+
+const { Title, Text } = Typography;
+const { Option } = Select;
+
+interface DiscountRule {
+  id: string;
+  name: string;
+  rule_type: 'sibling' | 'promo_code' | 'general';
+  discount_type: 'percentage' | 'fixed';
+  value: number;
+  code?: string;
+  class_id?: string;
+  class_name?: string;
+  subject?: string;
+  valid_from?: string;
+  valid_until?: string;
+  is_active: boolean;
+  times_applied: number;
+  total_discounted: number;
+}
+
+interface Class {
+  id: string;
+  name: string;
+  subject?: string;
+}
+
+type Scope = 'any' | 'class' | 'subject';
+
+const ruleTypeLabels = {
+  sibling: 'Sibling',
+  promo_code: 'Promo code',
+  general: 'Everyone',
+};
+
+const Discounts: React.FC = () => {
+  const { can } = useAuth();
+  const [discounts, setDiscounts] = useState<DiscountRule[]>([]);
+  const [classes, setClasses] = useState<Class[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [modalVisible, setModalVisible] = useState(false);
+  const [editingDiscount, setEditingDiscount] = useState<DiscountRule | null>(null);
+  const [form] = Form.useForm();
+  const scope: Scope = Form.useWatch('scope', form) || 'any';
+  const ruleType = Form.useWatch('rule_type', form);
+  const discountType = Form.useWatch('discount_type', form);
+
+  const subjects = Array.from(new Set(classes.map((cls) => cls.subject).filter(Boolean))) as string[];
+
+  const fetchDiscounts = async () => {
+    try {
+      setLoading(true);
+      const response = await axios.get('/api/discounts', { params: { include_inactive: true } });
+      setDiscounts(response.data.data || []);
+    } catch (error: any) {
+      console.error('Error fetching discounts:', error);
+      message.error(error.response?.data?.error?.message || 'Failed to fetch discounts');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchClasses = async () => {
+    try {
+      const response = await axios.get('/api/classes', { params: { limit: 100 } });
+      setClasses(response.data.data?.classes || []);
+    } catch (error: any) {
+      console.error('Error fetching classes:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchDiscounts();
+    fetchClasses();
+  }, []);
+
+  const closeModal = () => {
+    setModalVisible(false);
+    setEditingDiscount(null);
+    form.resetFields();
+  };
+
+  // Handle form submission
+  const handleSubmit = async (values: any) => {
+    const { scope: selectedScope, valid_range: validRange, ...discountData } = values;
+    const payload = {
+      ...discountData,
+      class_id: selectedScope === 'class' ? discountData.class_id : null,
+      subject: selectedScope === 'subject' ? discountData.subject : null,
+      valid_from: validRange?.[0] ? validRange[0].format('YYYY-MM-DD') : null,
+      valid_until: validRange?.[1] ? validRange[1].format('YYYY-MM-DD') : null
+    };
+
+    try {
+      if (editingDiscount) {
+        await axios.put(`/api/discounts/${editingDiscount.id}`, payload);
+        message.success('Discount updated successfully');
+      } else {
+        await axios.post('/api/discounts', payload);
+        message.success('Discount created successfully');
+      }
+      closeModal();
+      fetchDiscounts();
+    } catch (error: any) {
+      console.error('Error saving discount:', error);
+      message.error(error.response?.data?.error?.message || 'Failed to save discount');
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await axios.delete(`/api/discounts/${id}`);
+      message.success('Discount deleted successfully');
+      fetchDiscounts();
+    } catch (error: any) {
+      console.error('Error deleting discount:', error);
+      message.error(error.response?.data?.error?.message || 'Failed to delete discount');
+    }
+  };
+
+  const columns: ColumnsType<DiscountRule> = [
+    {
+      title: 'Discount',
+      key: 'name',
+      render: (record: DiscountRule) => (
+        <Space direction="vertical" size={0}>
+          <Text strong>{record.name}</Text>
+          {record.code && <Tag color="gold">{record.code}</Tag>}
+        </Space>
+      ),
+    },
+    {
+      title: 'Given To',
+      dataIndex: 'rule_type',
+      key: 'rule_type',
+      render: (ruleTypeValue: DiscountRule['rule_type']) => ruleTypeLabels[ruleTypeValue],
+    },
+    {
+      title: 'Value',
+      key: 'value',
+      render: (record: DiscountRule) => (
+        record.discount_type === 'percentage'
+          ? `${Number(record.value)}%`
+          : `$${Number(record.value).toFixed(2)}`
+      ),
+    },
+    {
+      title: 'Applies To',
+      key: 'scope',
+      render: (record: DiscountRule) => {
+        if (record.class_id) {
+          return <Tag color="blue">{record.class_name}</Tag>;
+        }
+        if (record.subject) {
+          return <Tag color="purple">All {record.subject} classes</Tag>;
+        }
+        return <Tag>Any class</Tag>;
+      },
+    },
+    {
+      title: 'Valid',
+      key: 'valid',
+      render: (record: DiscountRule) => {
+        if (!record.valid_from && !record.valid_until) {
+          return 'Always';
+        }
+        return `${record.valid_from ? dayjs(record.valid_from).format('MMM DD, YYYY') : '...'} - ${record.valid_until ? dayjs(record.valid_until).format('MMM DD, YYYY') : '...'}`;
+      },
+    },
+    {
+      title: 'Used',
+      key: 'usage',
+      render: (record: DiscountRule) => (
+        <Space direction="vertical" size={0}>
+          <Text>{record.times_applied} payments</Text>
+          <Text type="secondary" style={{ fontSize: '12px' }}>
+            ${Number(record.total_discounted).toFixed(2)} off
+          </Text>
+        </Space>
+      ),
+    },
+    {
+      title: 'Status',
+      dataIndex: 'is_active',
+      key: 'is_active',
+      render: (isActive: boolean) => (
+        <Tag color={isActive ? 'green' : 'default'}>{isActive ? 'Active' : 'Inactive'}</Tag>
+      ),
+    },
+    {
+      title: 'Actions',
+      key: 'actions',
+      render: (record: DiscountRule) => (
+        <Space>
+          {can('discounts:update') && (
+            <Button
+              icon={<EditOutlined />}
+              onClick={() => {
+                setEditingDiscount(record);
+                form.setFieldsValue({
+                  ...record,
+                  value: Number(record.value),
+                  scope: record.class_id ? 'class' : record.subject ? 'subject' : 'any',
+                  valid_range: record.valid_from || record.valid_until
+                    ? [record.valid_from ? dayjs(record.valid_from) : null, record.valid_until ? dayjs(record.valid_until) : null]
+                    : undefined
+                });
+                setModalVisible(true);
+              }}
+            />
+          )}
+          {can('discounts:delete') && (
+            <Popconfirm
+              title="Delete this discount?"
+              description="Payments keep the discounts they were given."
+              onConfirm={() => handleDelete(record.id)}
+              okText="Yes"
+              cancelText="No"
+            >
+              <Button danger icon={<DeleteOutlined />} />
+            </Popconfirm>
+          )}
+        </Space>
+      ),
+    },
+  ];
+
+  return (
+    <div>
+      <Row justify="space-between" align="middle" style={{ marginBottom: 16 }}>
+        <Col>
+          <Title level={2} style={{ margin: 0 }}>Discounts</Title>
+        </Col>
+        <Col>
+          {can('discounts:create') && (
+            <Button
+              type="primary"
+              icon={<PlusOutlined />}
+              onClick={() => {
+                setEditingDiscount(null);
+                form.resetFields();
+                setModalVisible(true);
+              }}
+            >
+              Add Discount
+            </Button>
+          )}
+        </Col>
+      </Row>
+
+      <Table
+        columns={columns}
+        dataSource={discounts}
+        loading={loading}
+        rowKey="id"
+        pagination={false}
+      />
+
+      {/* Create/Edit Modal */}
+      <Modal
+        title={editingDiscount ? 'Edit Discount' : 'Add New Discount'}
+        open={modalVisible}
+        onCancel={closeModal}
+        footer={null}
+        width={600}
+      >
+        <Form
+          form={form}
+          layout="vertical"
+          onFinish={handleSubmit}
+          initialValues={{ scope: 'any', rule_type: 'general', discount_type: 'percentage', is_active: true }}
+        >
+          <Form.Item
+            name="name"
+            label="Discount Name"
+            rules={[{ required: true, message: 'Please enter the discount name' }]}
+          >
+            <Input placeholder="e.g. Sibling 10%" />
+          </Form.Item>
+
+          <Row gutter={16}>
+            <Col span={12}>
+              <Form.Item
+                name="rule_type"
+                label="Given To"
+                extra={ruleType === 'sibling' ? 'Students with an enrolled sibling in the same family' : undefined}
+              >
+                <Select>
+                  <Option value="general">Everyone</Option>
+                  <Option value="sibling">Siblings</Option>
+                  <Option value="promo_code">Promo code holders</Option>
+                </Select>
+              </Form.Item>
+            </Col>
+            <Col span={12}>
+              {ruleType === 'promo_code' && (
+                <Form.Item
+                  name="code"
+                  label="Promo Code"
+                  rules={[{ required: true, message: 'Please enter the promo code' }]}
+                >
+                  <Input placeholder="e.g. SPRING25" />
+                </Form.Item>
+              )}
+            </Col>
+          </Row>
+
+          <Row gutter={16}>
+            <Col span={12}>
+              <Form.Item name="discount_type" label="Discount Type">
+                <Select>
+                  <Option value="percentage">Percentage of price</Option>
+                  <Option value="fixed">Fixed amount</Option>
+                </Select>
+              </Form.Item>
+            </Col>
+            <Col span={12}>
+              <Form.Item
+                name="value"
+                label="Value"
+                rules={[{ required: true, message: 'Please enter the discount value' }]}
+              >
+                <InputNumber
+                  min={0.01}
+                  max={discountType === 'percentage' ? 100 : undefined}
+                  step={discountType === 'percentage' ? 1 : 0.01}
+                  style={{ width: '100%' }}
+                  prefix={discountType === 'percentage' ? undefined : '$'}
+                  suffix={discountType === 'percentage' ? '%' : undefined}
+                />
+              </Form.Item>
+            </Col>
+          </Row>
+
+          <Row gutter={16}>
+            <Col span={12}>
+              <Form.Item name="scope" label="Applies To">
+                <Select>
+                  <Option value="any">Any class</Option>
+                  <Option value="class">One class</Option>
+                  <Option value="subject">All classes of a subject</Option>
+                </Select>
+              </Form.Item>
+            </Col>
+            <Col span={12}>
+              {scope === 'class' && (
+                <Form.Item
+                  name="class_id"
+                  label="Class"
+                  rules={[{ required: true, message: 'Please select a class' }]}
+                >
+                  <Select placeholder="Select class" showSearch optionFilterProp="children">
+                    {classes.map(cls => (
+                      <Option key={cls.id} value={cls.id}>{cls.name}</Option>
+                    ))}
+                  </Select>
+                </Form.Item>
+              )}
+              {scope === 'subject' && (
+                <Form.Item
+                  name="subject"
+                  label="Subject"
+                  rules={[{ required: true, message: 'Please select a subject' }]}
+                >
+                  <Select placeholder="Select subject">
+                    {subjects.map(subject => (
+                      <Option key={subject} value={subject}>{subject}</Option>
+                    ))}
+                  </Select>
+                </Form.Item>
+              )}
+            </Col>
+          </Row>
+
+          <Form.Item name="valid_range" label="Valid" extra="Leave empty to keep the discount open-ended">
+            <DatePicker.RangePicker allowEmpty={[true, true]} style={{ width: '100%' }} />
+          </Form.Item>
+
+          {editingDiscount && (
+            <Form.Item name="is_active" label="Active" valuePropName="checked">
+              <Switch />
+            </Form.Item>
+          )}
+
+          <Form.Item>
+            <Space>
+              <Button type="primary" htmlType="submit">
+                {editingDiscount ? 'Update' : 'Create'} Discount
+              </Button>
+              <Button onClick={closeModal}>
+                Cancel
+              </Button>
+            </Space>
+          </Form.Item>
+        </Form>
+      </Modal>
+    </div>
+  );
+};
+
+export default Discounts;
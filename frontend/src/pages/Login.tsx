@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { Card, Form, Input, Button, Typography, message } from 'antd';
+import { MailOutlined, LockOutlined } from '@ant-design/icons';
+import { useAuth } from '../context/AuthContext';
+
+const { Title, Text } = Typography;
+
+const Login: React.FC = () => {
+  const { login } = useAuth();
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (values: { email: string; password: string }) => {
+    try {
+      setLoading(true);
+      await login(values.email, values.password);
+      message.success('Logged in successfully');
+    } catch (error: any) {
+      console.error('Error logging in:', error);
+      message.error(error.response?.data?.error?.message || 'Failed to log in');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        minHeight: '100vh',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        background: 'linear-gradient(135deg, #f5f7fa 0%, #c3cfe2 100%)',
+      }}
+    >
+      <Card style={{ width: 400, boxShadow: '0 4px 12px rgba(0, 0, 0, 0.1)' }}>
+        <div style={{ textAlign: 'center', marginBottom: 24 }}>
+          <Title level={3} style={{ color: '#1890ff', marginBottom: 4 }}>
+            Student Class Balance Tracker
+          </Title>
+          <Text type="secondary">Sign in with your staff account</Text>
+        </div>
+
+        <Form layout="vertical" onFinish={handleSubmit}>
+          <Form.Item
+            name="email"
+            label="Email"
+            rules={[
+              { required: true, message: 'Please enter your email' },
+              { type: 'email', message: 'Please enter a valid email' }
+            ]}
+          >
+            <Input prefix={<MailOutlined />} placeholder="you@example.com" />
+          </Form.Item>
+
+          <Form.Item
+            name="password"
+            label="Password"
+            rules={[{ required: true, message: 'Please enter your password' }]}
+          >
+            <Input.Password prefix={<LockOutlined />} placeholder="Password" />
+          </Form.Item>
+
+          <Form.Item>
+            <Button type="primary" htmlType="submit" loading={loading} block>
+              Log In
+            </Button>
+          </Form.Item>
+        </Form>
+      </Card>
+    </div>
+  );
+};
+
+export default Login;
@@ -0,0 +1,357 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Typography, Table, Button, Space, Modal, Form, Input, InputNumber, Select,
+  Switch, Popconfirm, message, Tag, Row, Col
+} from 'antd';
+import { PlusOutlined, EditOutlined, DeleteOutlined } from '@ant-design/icons';
+import axios from 'axios';
+import type { ColumnsType } from 'antd/es/table';
+import { useAuth } from '../context/AuthContext';
+
+const { Title, Text } = Typography;
+const { Option } = Select;
+const { TextArea } = Input;
+
+interface ClassPackage {
+  id: string;
+  name: string;
+  description?: string;
+  class_id?: string;
+  class_name?: string;
+  subject?: string;
+  classes_count: number;
+  price: number;
+  price_per_class: number;
+  validity_days?: number;
+  is_active: boolean;
+}
+
+interface Class {
+  id: string;
+  name: string;
+  subject?: string;
+  price_per_class?: number;
+}
+
+type Scope = 'any' | 'class' | 'subject';
+
+const Packages: React.FC = () => {
+  const { can } = useAuth();
+  const [packages, setPackages] = useState<ClassPackage[]>([]);
+  const [classes, setClasses] = useState<Class[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [modalVisible, setModalVisible] = useState(false);
+  const [editingPackage, setEditingPackage] = useState<ClassPackage | null>(null);
+  const [form] = Form.useForm();
+  const scope: Scope = Form.useWatch('scope', form) || 'any';
+
+  const subjects = Array.from(new Set(classes.map((cls) => cls.subject).filter(Boolean))) as string[];
+
+  const fetchPackages = async () => {
+    try {
+      setLoading(true);
+      const response = await axios.get('/api/packages', { params: { include_inactive: true } });
+      setPackages(response.data.data || []);
+    } catch (error: any) {
+      console.error('Error fetching packages:', error);
+      message.error(error.response?.data?.error?.message || 'Failed to fetch packages');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchClasses = async () => {
+    try {
+      const response = await axios.get('/api/classes', { params: { limit: 100 } });
+      setClasses(response.data.data?.classes || []);
+    } catch (error: any) {
+      console.error('Error fetching classes:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchPackages();
+    fetchClasses();
+  }, []);
+
+  const closeModal = () => {
+    setModalVisible(false);
+    setEditingPackage(null);
+    form.resetFields();
+  };
+
+  // Handle form submission
+  const handleSubmit = async (values: any) => {
+    const { scope: selectedScope, ...packageData } = values;
+    const payload = {
+      ...packageData,
+      class_id: selectedScope === 'class' ? packageData.class_id : null,
+      subject: selectedScope === 'subject' ? packageData.subject : null,
+      validity_days: packageData.validity_days || null
+    };
+
+    try {
+      if (editingPackage) {
+        await axios.put(`/api/packages/${editingPackage.id}`, payload);
+        message.success('Package updated successfully');
+      } else {
+        await axios.post('/api/packages', payload);
+        message.success('Package created successfully');
+      }
+      closeModal();
+      fetchPackages();
+    } catch (error: any) {
+      console.error('Error saving package:', error);
+      message.error(error.response?.data?.error?.message || 'Failed to save package');
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      const response = await axios.delete(`/api/packages/${id}`);
+      message.success(response.data.message || 'Package deleted successfully');
+      fetchPackages();
+    } catch (error: any) {
+      console.error('Error deleting package:', error);
+      message.error(error.response?.data?.error?.message || 'Failed to delete package');
+    }
+  };
+
+  const columns: ColumnsType<ClassPackage> = [
+    {
+      title: 'Package',
+      key: 'name',
+      render: (record: ClassPackage) => (
+        <Space direction="vertical" size={0}>
+          <Text strong>{record.name}</Text>
+          {record.description && (
+            <Text type="secondary" style={{ fontSize: '12px' }}>{record.description}</Text>
+          )}
+        </Space>
+      ),
+    },
+    {
+      title: 'Applies To',
+      key: 'scope',
+      render: (record: ClassPackage) => {
+        if (record.class_id) {
+          return <Tag color="blue">{record.class_name}</Tag>;
+        }
+        if (record.subject) {
+          return <Tag color="purple">All {record.subject} classes</Tag>;
+        }
+        return <Tag>Any class</Tag>;
+      },
+    },
+    {
+      title: 'Classes',
+      dataIndex: 'classes_count',
+      key: 'classes_count',
+    },
+    {
+      title: 'Price',
+      key: 'price',
+      render: (record: ClassPackage) => (
+        <Space direction="vertical" size={0}>
+          <Text strong>${Number(record.price).toFixed(2)}</Text>
+          <Text type="secondary" style={{ fontSize: '12px' }}>
+            ${Number(record.price_per_class).toFixed(2)}/class
+          </Text>
+        </Space>
+      ),
+    },
+    {
+      title: 'Valid For',
+      dataIndex: 'validity_days',
+      key: 'validity_days',
+      render: (days?: number) => (days ? `${days} days` : 'No expiry'),
+    },
+    {
+      title: 'Status',
+      dataIndex: 'is_active',
+      key: 'is_active',
+      render: (isActive: boolean) => (
+        <Tag color={isActive ? 'green' : 'default'}>{isActive ? 'On sale' : 'Inactive'}</Tag>
+      ),
+    },
+    {
+      title: 'Actions',
+      key: 'actions',
+      render: (record: ClassPackage) => (
+        <Space>
+          {can('packages:update') && (
+            <Button
+              icon={<EditOutlined />}
+              onClick={() => {
+                setEditingPackage(record);
+                form.setFieldsValue({
+                  ...record,
+                  price: Number(record.price),
+                  scope: record.class_id ? 'class' : record.subject ? 'subject' : 'any'
+                });
+                setModalVisible(true);
+              }}
+            />
+          )}
+          {can('packages:delete') && (
+            <Popconfirm
+              title="Delete this package?"
+              description="Packages that have been sold are deactivated instead."
+              onConfirm={() => handleDelete(record.id)}
+              okText="Yes"
+              cancelText="No"
+            >
+              <Button danger icon={<DeleteOutlined />} />
+            </Popconfirm>
+          )}
+        </Space>
+      ),
+    },
+  ];
+
+  return (
+    <div>
+      <Row justify="space-between" align="middle" style={{ marginBottom: 16 }}>
+        <Col>
+          <Title level={2} style={{ margin: 0 }}>Packages</Title>
+        </Col>
+        <Col>
+          {can('packages:create') && (
+            <Button
+              type="primary"
+              icon={<PlusOutlined />}
+              onClick={() => {
+                setEditingPackage(null);
+                form.resetFields();
+                setModalVisible(true);
+              }}
+            >
+              Add Package
+            </Button>
+          )}
+        </Col>
+      </Row>
+
+      <Table
+        columns={columns}
+        dataSource={packages}
+        loading={loading}
+        rowKey="id"
+        pagination={false}
+      />
+
+      {/* Create/Edit Modal */}
+      <Modal
+        title={editingPackage ? 'Edit Package' : 'Add New Package'}
+        open={modalVisible}
+        onCancel={closeModal}
+        footer={null}
+        width={600}
+      >
+        <Form
+          form={form}
+          layout="vertical"
+          onFinish={handleSubmit}
+          initialValues={{ scope: 'any', is_active: true }}
+        >
+          <Form.Item
+            name="name"
+            label="Package Name"
+            rules={[{ required: true, message: 'Please enter the package name' }]}
+          >
+            <Input placeholder="e.g. Math 10-pack" />
+          </Form.Item>
+
+          <Form.Item name="description" label="Description">
+            <TextArea rows={2} placeholder="Optional description" />
+          </Form.Item>
+
+          <Row gutter={16}>
+            <Col span={12}>
+              <Form.Item name="scope" label="Applies To">
+                <Select>
+                  <Option value="any">Any class</Option>
+                  <Option value="class">One class</Option>
+                  <Option value="subject">All classes of a subject</Option>
+                </Select>
+              </Form.Item>
+            </Col>
+            <Col span={12}>
+              {scope === 'class' && (
+                <Form.Item
+                  name="class_id"
+                  label="Class"
+                  rules={[{ required: true, message: 'Please select a class' }]}
+                >
+                  <Select placeholder="Select class" showSearch optionFilterProp="children">
+                    {classes.map(cls => (
+                      <Option key={cls.id} value={cls.id}>{cls.name}</Option>
+                    ))}
+                  </Select>
+                </Form.Item>
+              )}
+              {scope === 'subject' && (
+                <Form.Item
+                  name="subject"
+                  label="Subject"
+                  rules={[{ required: true, message: 'Please select a subject' }]}
+                >
+                  <Select placeholder="Select subject">
+                    {subjects.map(subject => (
+                      <Option key={subject} value={subject}>{subject}</Option>
+                    ))}
+                  </Select>
+                </Form.Item>
+              )}
+            </Col>
+          </Row>
+
+          <Row gutter={16}>
+            <Col span={8}>
+              <Form.Item
+                name="classes_count"
+                label="Classes"
+                rules={[{ required: true, message: 'Please enter the number of classes' }]}
+              >
+                <InputNumber min={1} style={{ width: '100%' }} placeholder="10" />
+              </Form.Item>
+            </Col>
+            <Col span={8}>
+              <Form.Item
+                name="price"
+                label="Price"
+                rules={[{ required: true, message: 'Please enter the price' }]}
+              >
+                <InputNumber min={0.01} step={0.01} style={{ width: '100%' }} placeholder="0.00" prefix="$" />
+              </Form.Item>
+            </Col>
+            <Col span={8}>
+              <Form.Item name="validity_days" label="Valid For (days)" extra="Empty for no expiry">
+                <InputNumber min={1} style={{ width: '100%' }} placeholder="No expiry" />
+              </Form.Item>
+            </Col>
+          </Row>
+
+          {editingPackage && (
+            <Form.Item name="is_active" label="On sale" valuePropName="checked">
+              <Switch />
+            </Form.Item>
+          )}
+
+          <Form.Item>
+            <Space>
+              <Button type="primary" htmlType="submit">
+                {editingPackage ? 'Update' : 'Create'} Package
+              </Button>
+              <Button onClick={closeModal}>
+                Cancel
+              </Button>
+            </Space>
+          </Form.Item>
+        </Form>
+      </Modal>
+    </div>
+  );
+};
+
+export default Packages;
@@ -1,16 +1,20 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import {
   Typography, Table, Button, Space, Modal, Form, Input, Select,
-  Popconfirm, message, Tag, Card, Statistic, Row, Col, Progress,
-  Tabs, List, InputNumber, Divider, DatePicker
+  message, Tag, Card, Statistic, Row, Col, Progress,
+  Tabs, List, InputNumber, Divider, DatePicker, Descriptions, Switch
 } from 'antd';
 import {
-  PlusOutlined, EditOutlined, DeleteOutlined, SearchOutlined,
-  DollarOutlined, CreditCardOutlined, MoneyCollectOutlined, PieChartOutlined
+  PlusOutlined, EditOutlined, SearchOutlined,
+  DollarOutlined, CreditCardOutlined, MoneyCollectOutlined, PieChartOutlined, EyeOutlined,
+  RollbackOutlined, PrinterOutlined, FilePdfOutlined
 } from '@ant-design/icons';
 import axios from 'axios';
 import type { ColumnsType } from 'antd/es/table';
 import moment from 'moment';
+import dayjs from 'dayjs';
+import { useAuth } from '../context/AuthContext';
+import AuditHistory from '../components/AuditHistory';
 
 const { Title, Text } = Typography;
 const { Option } = Select;
@@ -25,6 +29,14 @@ interface Payment {
   amount: number;
   classes_purchased: number;
   classes_remaining: number;
+  refunded_amount?: number;
+  refundable_classes?: number;
+  receipt_number?: number;
+  package_id?: string;
+  package_name?: string;
+  list_price?: number;
+  discount_amount?: number;
+  expires_at?: string;
   payment_reference?: string;
   notes?: string;
   created_at: string;
@@ -41,6 +53,37 @@ interface Student {
   grade: string;
 }
 
+interface PaymentAllocation {
+  id: string;
+  name: string;
+  subject: string;
+  classes_allocated: number;
+  expires_at?: string;
+}
+
+interface PaymentDiscount {
+  id?: string;
+  rule_name: string;
+  rule_type: string;
+  amount: number;
+}
+
+interface PricePreview {
+  list_price: number;
+  discounts: PaymentDiscount[];
+  discount_amount: number;
+  amount: number;
+}
+
+interface PaymentRefund {
+  id: string;
+  amount: number;
+  classes_refunded: number;
+  reason?: string;
+  refunded_by_name?: string;
+  refund_date: string;
+}
+
 interface Class {
   id: string;
   name: string;
@@ -48,6 +91,16 @@ interface Class {
   price_per_class: number;
 }
 
+interface ClassPackage {
+  id: string;
+  name: string;
+  classes_count: number;
+  price: number;
+  price_per_class: number;
+  class_name?: string;
+  subject?: string;
+}
+
 const paymentMethodColors = {
   wechat: 'green',
   cash: 'blue',
@@ -63,6 +116,7 @@ const paymentMethodLabels = {
 };
 
 const Payments: React.FC = () => {
+  const { can } = useAuth();
   const [payments, setPayments] = useState<Payment[]>([]);
   const [students, setStudents] = useState<Student[]>([]);
   const [classes, setClasses] = useState<Class[]>([]);
@@ -72,10 +126,19 @@ const Payments: React.FC = () => {
   const [allocationModalVisible, setAllocationModalVisible] = useState(false);
   const [selectedPayment, setSelectedPayment] = useState<Payment | null>(null);
   const [selectedStudentClasses, setSelectedStudentClasses] = useState<Class[]>([]);
+  const [studentPackages, setStudentPackages] = useState<ClassPackage[]>([]);
+  const [detailPayment, setDetailPayment] = useState<Payment | null>(null);
+  const [detailAllocations, setDetailAllocations] = useState<PaymentAllocation[]>([]);
+  const [detailRefunds, setDetailRefunds] = useState<PaymentRefund[]>([]);
+  const [detailDiscounts, setDetailDiscounts] = useState<PaymentDiscount[]>([]);
+  const [pricePreview, setPricePreview] = useState<PricePreview | null>(null);
+  const [refundPayment, setRefundPayment] = useState<Payment | null>(null);
   const [searchText, setSearchText] = useState('');
   const [methodFilter, setMethodFilter] = useState<string | undefined>();
   const [form] = Form.useForm();
+  const selectedPackageId = Form.useWatch('package_id', form);
   const [allocationForm] = Form.useForm();
+  const [refundForm] = Form.useForm();
 
   // Search caching
   const searchCache = useRef<Map<string, { data: Payment[], timestamp: number }>>(new Map());
@@ -200,6 +263,7 @@ const Payments: React.FC = () => {
 
       const paymentData = {
         ...values,
+        expires_at: values.expires_at ? values.expires_at.format('YYYY-MM-DD') : null,
         class_allocations: classAllocations.length > 0 ? classAllocations : undefined
       };
 
@@ -214,6 +278,8 @@ const Payments: React.FC = () => {
       setModalVisible(false);
       setEditingPayment(null);
       setSelectedStudentClasses([]);
+      setStudentPackages([]);
+      setPricePreview(null);
       form.resetFields();
       clearCache(); // Clear cache when data changes
       fetchPayments();
@@ -223,23 +289,59 @@ const Payments: React.FC = () => {
     }
   };
 
+  // Show the discounts the payment would get before it is recorded
+  const handlePreviewDiscounts = async () => {
+    const values = form.getFieldsValue();
+    if (!values.student_id || (!values.package_id && !values.amount)) {
+      message.warning('Select a student and a package or amount first');
+      return;
+    }
+
+    try {
+      const response = await axios.post('/api/discounts/preview', {
+        student_id: values.student_id,
+        package_id: values.package_id || null,
+        amount: values.amount,
+        class_allocations: (values.class_allocations || []).filter(
+          (allocation: any) => allocation?.class_id && allocation.allocated_classes > 0
+        ),
+        discount_code: values.discount_code || null
+      });
+      setPricePreview(response.data.data);
+    } catch (error: any) {
+      console.error('Error previewing discounts:', error);
+      setPricePreview(null);
+      message.error(error.response?.data?.error?.message || 'Failed to check discounts');
+    }
+  };
+
+  // Packages the student can buy: scoped to one of their classes or subjects, or unscoped
+  const fetchStudentPackages = async (studentId: string) => {
+    try {
+      const response = await axios.get('/api/packages', { params: { student_id: studentId } });
+      setStudentPackages(response.data.data || []);
+    } catch (error: any) {
+      console.error('Error fetching packages:', error);
+      setStudentPackages([]);
+    }
+  };
+
   const handleStudentChange = (studentId: string) => {
+    form.setFieldsValue({ package_id: undefined });
     if (studentId) {
       fetchStudentClasses(studentId);
+      fetchStudentPackages(studentId);
     } else {
       setSelectedStudentClasses([]);
+      setStudentPackages([]);
     }
   };
 
-  const handleDelete = async (id: string) => {
-    try {
-      await axios.delete(`/api/payments/${id}`);
-      message.success('Payment deleted successfully');
-      clearCache(); // Clear cache when data changes
-      fetchPayments();
-    } catch (error: any) {
-      console.error('Error deleting payment:', error);
-      message.error(error.response?.data?.message || 'Failed to delete payment');
+  // A package sets the amount and classes; the server fills in its allocations
+  const handlePackageChange = (packageId?: string) => {
+    const selected = studentPackages.find((pkg) => pkg.id === packageId);
+    if (selected) {
+      form.setFieldsValue({ amount: Number(selected.price), classes_purchased: selected.classes_count });
     }
   };
 
@@ -272,6 +374,81 @@ const Payments: React.FC = () => {
     setAllocationModalVisible(true);
   };
 
+  const showDetailModal = async (payment: Payment) => {
+    setDetailPayment(payment);
+    try {
+      const [allocationsResponse, refundsResponse, paymentResponse] = await Promise.all([
+        axios.get(`/api/payments/${payment.id}/allocations`),
+        axios.get(`/api/payments/${payment.id}/refunds`),
+        axios.get(`/api/payments/${payment.id}`)
+      ]);
+      setDetailAllocations(allocationsResponse.data.data || []);
+      setDetailRefunds(refundsResponse.data.data || []);
+      setDetailDiscounts(paymentResponse.data.data?.discounts || []);
+    } catch (error) {
+      console.error('Error fetching payment details:', error);
+      setDetailAllocations([]);
+      setDetailRefunds([]);
+      setDetailDiscounts([]);
+    }
+  };
+
+  // Open the HTML receipt in a new window and print it
+  const handlePrintReceipt = async (payment: Payment) => {
+    const receiptWindow = window.open('', '_blank');
+    if (!receiptWindow) {
+      message.error('Please allow pop-ups to print receipts');
+      return;
+    }
+
+    try {
+      const response = await axios.get(`/api/payments/${payment.id}/receipt`, {
+        params: { format: 'html' },
+        responseType: 'text'
+      });
+      receiptWindow.document.write(response.data);
+      receiptWindow.document.close();
+      receiptWindow.focus();
+      receiptWindow.print();
+    } catch (error: any) {
+      receiptWindow.close();
+      console.error('Error loading receipt:', error);
+      message.error('Failed to load receipt');
+    }
+  };
+
+  const handleDownloadReceipt = async (payment: Payment) => {
+    try {
+      const response = await axios.get(`/api/payments/${payment.id}/receipt`, { responseType: 'blob' });
+      const url = URL.createObjectURL(response.data);
+      window.open(url, '_blank');
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+    } catch (error: any) {
+      console.error('Error downloading receipt:', error);
+      message.error('Failed to download receipt');
+    }
+  };
+
+  const closeRefundModal = () => {
+    setRefundPayment(null);
+    refundForm.resetFields();
+  };
+
+  const handleRefund = async (values: any) => {
+    if (!refundPayment) return;
+
+    try {
+      await axios.post(`/api/payments/${refundPayment.id}/refunds`, values.full ? { full: true, reason: values.reason } : values);
+      message.success('Refund recorded successfully');
+      closeRefundModal();
+      clearCache(); // Clear cache when data changes
+      fetchPayments();
+    } catch (error: any) {
+      console.error('Error recording refund:', error);
+      message.error(error.response?.data?.error?.message || 'Failed to record refund');
+    }
+  };
+
   const columns: ColumnsType<Payment> = [
     {
       title: 'Student',
@@ -288,7 +465,21 @@ const Payments: React.FC = () => {
       title: 'Amount',
       dataIndex: 'amount',
       key: 'amount',
-      render: (amount: number) => `$${Number(amount).toFixed(2)}`,
+      render: (amount: number, record: Payment) => (
+        <Space direction="vertical" size={0}>
+          <Text>${Number(amount).toFixed(2)}</Text>
+          {Number(record.discount_amount) > 0 && (
+            <Text type="secondary" style={{ fontSize: '12px' }}>
+              -${Number(record.discount_amount).toFixed(2)} discount
+            </Text>
+          )}
+          {Number(record.refunded_amount) > 0 && (
+            <Text type="danger" style={{ fontSize: '12px' }}>
+              -${Number(record.refunded_amount).toFixed(2)} refunded
+            </Text>
+          )}
+        </Space>
+      ),
       sorter: (a, b) => a.amount - b.amount,
     },
     {
@@ -301,6 +492,12 @@ const Payments: React.FC = () => {
           <Text type="secondary" style={{ fontSize: '12px' }}>
             {record.classes_remaining} remaining
           </Text>
+          {record.package_name && <Tag color="geekblue">{record.package_name}</Tag>}
+          {record.expires_at && (
+            <Tag color={moment(record.expires_at).isBefore(moment()) ? 'default' : 'orange'}>
+              {moment(record.expires_at).isBefore(moment()) ? 'Expired' : 'Expires'} {moment(record.expires_at).format('MMM DD, YYYY')}
+            </Tag>
+          )}
         </Space>
       ),
     },
@@ -332,33 +529,48 @@ const Payments: React.FC = () => {
       render: (_, record: Payment) => (
         <Space>
           <Button
-            icon={<PieChartOutlined />}
-            onClick={() => showAllocationModal(record)}
-            disabled={record.classes_remaining === 0}
-          >
-            Allocate
-          </Button>
+            icon={<EyeOutlined />}
+            onClick={() => showDetailModal(record)}
+          />
           <Button
-            icon={<EditOutlined />}
-            onClick={() => {
-              setEditingPayment(record);
-              form.setFieldsValue(record);
-              setModalVisible(true);
-            }}
+            icon={<PrinterOutlined />}
+            title="Print receipt"
+            onClick={() => handlePrintReceipt(record)}
           />
-          <Popconfirm
-            title="Are you sure you want to delete this payment?"
-            onConfirm={() => handleDelete(record.id)}
-            okText="Yes"
-            cancelText="No"
-          >
-            <Button icon={<DeleteOutlined />} danger />
-          </Popconfirm>
+          {can('payments:allocate') && (
+            <Button
+              icon={<PieChartOutlined />}
+              onClick={() => showAllocationModal(record)}
+              disabled={record.classes_remaining === 0}
+            >
+              Allocate
+            </Button>
+          )}
+          {can('payments:refund') && (
+            <Button
+              icon={<RollbackOutlined />}
+              onClick={() => setRefundPayment(record)}
+              disabled={Number(record.refunded_amount) >= Number(record.amount) && !record.refundable_classes}
+            >
+              Refund
+            </Button>
+          )}
+          {can('payments:update') && (
+            <Button
+              icon={<EditOutlined />}
+              onClick={() => {
+                setEditingPayment(record);
+                form.setFieldsValue({ ...record, expires_at: record.expires_at ? dayjs(record.expires_at) : null });
+                setModalVisible(true);
+              }}
+            />
+          )}
         </Space>
       ),
     },
   ];
-  const totalRevenue = payments.reduce((sum, p) => sum + parseFloat(p.amount.toString()), 0);
+  const totalRefunded = payments.reduce((sum, p) => sum + Number(p.refunded_amount || 0), 0);
+  const totalRevenue = payments.reduce((sum, p) => sum + parseFloat(p.amount.toString()), 0) - totalRefunded;
   const totalClassesPurchased = payments.reduce((sum, p) => sum + p.classes_purchased, 0);
   const totalClassesRemaining = payments.reduce((sum, p) => sum + p.classes_remaining, 0);
   const avgPaymentAmount = payments.length > 0 ? totalRevenue / payments.length : 0;
@@ -381,6 +593,11 @@ const Payments: React.FC = () => {
               valueStyle={{ color: '#3f8600' }}
               formatter={(value) => `$${Number(value).toFixed(2)}`}
             />
+            {totalRefunded > 0 && (
+              <Text type="secondary" style={{ fontSize: '12px' }}>
+                After ${totalRefunded.toFixed(2)} refunded
+              </Text>
+            )}
           </Card>
         </Col>
         <Col xs={24} sm={12} md={6}>
@@ -438,21 +655,25 @@ const Payments: React.FC = () => {
             ))}
           </Select>
         </Col>
-        <Col xs={24} sm={12} md={8}>
-          <Button
-            type="primary"
-            icon={<PlusOutlined />}
-            onClick={() => {
-              setEditingPayment(null);
-              setSelectedStudentClasses([]);
-              form.resetFields();
-              setModalVisible(true);
-            }}
-            style={{ width: '100%' }}
-          >
-            Add Payment
-          </Button>
-        </Col>
+        {can('payments:create') && (
+          <Col xs={24} sm={12} md={8}>
+            <Button
+              type="primary"
+              icon={<PlusOutlined />}
+              onClick={() => {
+                setEditingPayment(null);
+                setSelectedStudentClasses([]);
+                setStudentPackages([]);
+                setPricePreview(null);
+                form.resetFields();
+                setModalVisible(true);
+              }}
+              style={{ width: '100%' }}
+            >
+              Add Payment
+            </Button>
+          </Col>
+        )}
       </Row>
 
       <Table
@@ -476,6 +697,8 @@ const Payments: React.FC = () => {
           setModalVisible(false);
           setEditingPayment(null);
           setSelectedStudentClasses([]);
+          setStudentPackages([]);
+          setPricePreview(null);
           form.resetFields();
         }}
         footer={null}
@@ -485,6 +708,7 @@ const Payments: React.FC = () => {
           form={form}
           layout="vertical"
           onFinish={handleSubmit}
+          onValuesChange={() => setPricePreview(null)}
         >
           <Form.Item
             name="student_id"
@@ -506,6 +730,22 @@ const Payments: React.FC = () => {
             </Select>
           </Form.Item>
 
+          {!editingPayment && studentPackages.length > 0 && (
+            <Form.Item
+              name="package_id"
+              label="Package"
+              extra="Leave empty to enter the amount and classes by hand"
+            >
+              <Select placeholder="Select package" allowClear onChange={handlePackageChange}>
+                {studentPackages.map(pkg => (
+                  <Option key={pkg.id} value={pkg.id}>
+                    {pkg.name} - {pkg.classes_count} classes for ${Number(pkg.price).toFixed(2)} (${Number(pkg.price_per_class).toFixed(2)}/class)
+                  </Option>
+                ))}
+              </Select>
+            </Form.Item>
+          )}
+
           <Form.Item
             name="payment_method"
             label="Payment Method"
@@ -522,13 +762,14 @@ const Payments: React.FC = () => {
             <Col span={12}>
               <Form.Item
                 name="amount"
-                label="Amount"
+                label={editingPayment ? 'Amount' : 'Amount (before discounts)'}
                 rules={[{ required: true, message: 'Please enter amount' }]}
               >
                 <InputNumber
                   placeholder="0.00"
                   min={0}
                   step={0.01}
+                  disabled={!!selectedPackageId}
                   style={{ width: '100%' }}
                   formatter={(value) => `$${value}`}
                   parser={(value) => value ? value.replace('$', '') as any : ''}
@@ -544,12 +785,46 @@ const Payments: React.FC = () => {
                 <InputNumber
                   placeholder="0"
                   min={1}
+                  disabled={!!selectedPackageId}
                   style={{ width: '100%' }}
                 />
               </Form.Item>
             </Col>
           </Row>
 
+          {!editingPayment && (
+            <Form.Item label="Promo Code" extra="Sibling and general discounts apply automatically">
+              <Space.Compact style={{ width: '100%' }}>
+                <Form.Item name="discount_code" noStyle>
+                  <Input placeholder="Optional" />
+                </Form.Item>
+                <Button onClick={handlePreviewDiscounts}>Check Discounts</Button>
+              </Space.Compact>
+            </Form.Item>
+          )}
+
+          {!editingPayment && pricePreview && (
+            <div style={{ marginBottom: 16, padding: 12, background: '#fafafa', borderRadius: 8 }}>
+              <Text>List price: ${Number(pricePreview.list_price).toFixed(2)}</Text>
+              {pricePreview.discounts.map((discount, index) => (
+                <div key={index}>
+                  <Text type="secondary">{discount.rule_name}: -${Number(discount.amount).toFixed(2)}</Text>
+                </div>
+              ))}
+              <div>
+                <Text strong>To pay: ${Number(pricePreview.amount).toFixed(2)}</Text>
+              </div>
+            </div>
+          )}
+
+          <Form.Item
+            name="expires_at"
+            label="Credits Expire On"
+            extra={selectedPackageId ? "Leave empty to use the package's validity" : 'Leave empty for credits that never expire'}
+          >
+            <DatePicker style={{ width: '100%' }} />
+          </Form.Item>
+
           <Form.Item
             name="payment_reference"
             label="Payment Reference"
@@ -651,6 +926,8 @@ const Payments: React.FC = () => {
                   setModalVisible(false);
                   setEditingPayment(null);
                   setSelectedStudentClasses([]);
+                  setStudentPackages([]);
+                  setPricePreview(null);
                   form.resetFields();
                 }}
               >
@@ -780,6 +1057,201 @@ const Payments: React.FC = () => {
           </Form.Item>
         </Form>
       </Modal>
+
+      {/* Refund Modal */}
+      <Modal
+        title={`Refund Payment - ${refundPayment?.student_name}`}
+        open={!!refundPayment}
+        onCancel={closeRefundModal}
+        footer={null}
+        width={500}
+      >
+        {refundPayment && (
+          <Form
+            form={refundForm}
+            layout="vertical"
+            onFinish={handleRefund}
+            initialValues={{ full: false }}
+          >
+            <div style={{ marginBottom: 16 }}>
+              <Text type="secondary">
+                Paid ${Number(refundPayment.amount).toFixed(2)}
+                {Number(refundPayment.refunded_amount) > 0 && `, $${Number(refundPayment.refunded_amount).toFixed(2)} already refunded`}
+                . {refundPayment.refundable_classes ?? 0} unused classes
+                {refundPayment.refundable_classes !== refundPayment.classes_remaining && ' (the rest were transferred to a sibling)'}.
+              </Text>
+            </div>
+
+            <Form.Item name="full" label="Full refund" valuePropName="checked">
+              <Switch />
+            </Form.Item>
+
+            <Form.Item noStyle shouldUpdate={(prev, curr) => prev.full !== curr.full}>
+              {({ getFieldValue }) => !getFieldValue('full') && (
+                <Row gutter={16}>
+                  <Col span={12}>
+                    <Form.Item name="amount" label="Amount">
+                      <InputNumber
+                        placeholder="0.00"
+                        min={0.01}
+                        max={Number(refundPayment.amount) - Number(refundPayment.refunded_amount || 0)}
+                        step={0.01}
+                        style={{ width: '100%' }}
+                        formatter={(value) => `$${value}`}
+                        parser={(value) => value ? value.replace('$', '') as any : ''}
+                      />
+                    </Form.Item>
+                  </Col>
+                  <Col span={12}>
+                    <Form.Item name="classes" label="Unused Classes">
+                      <InputNumber
+                        placeholder="0"
+                        min={1}
+                        max={refundPayment.refundable_classes ?? 0}
+                        disabled={!refundPayment.refundable_classes}
+                        style={{ width: '100%' }}
+                      />
+                    </Form.Item>
+                  </Col>
+                </Row>
+              )}
+            </Form.Item>
+
+            <Form.Item name="reason" label="Reason">
+              <TextArea placeholder="Why is this payment being refunded?" rows={2} />
+            </Form.Item>
+
+            <Form.Item>
+              <Space>
+                <Button type="primary" danger htmlType="submit">
+                  Record Refund
+                </Button>
+                <Button onClick={closeRefundModal}>
+                  Cancel
+                </Button>
+              </Space>
+            </Form.Item>
+          </Form>
+        )}
+      </Modal>
+
+      {/* Payment Detail Modal */}
+      <Modal
+        title={`Payment Details - ${detailPayment?.student_name}`}
+        open={!!detailPayment}
+        onCancel={() => {
+          setDetailPayment(null);
+          setDetailAllocations([]);
+          setDetailRefunds([]);
+          setDetailDiscounts([]);
+        }}
+        footer={null}
+        width={800}
+      >
+        {detailPayment && (
+          <Tabs
+            defaultActiveKey="details"
+            tabBarExtraContent={
+              <Space>
+                <Button icon={<PrinterOutlined />} onClick={() => handlePrintReceipt(detailPayment)}>
+                  Print receipt
+                </Button>
+                <Button icon={<FilePdfOutlined />} onClick={() => handleDownloadReceipt(detailPayment)}>
+                  PDF
+                </Button>
+              </Space>
+            }
+          >
+            <TabPane tab="Details" key="details">
+              <Descriptions column={2} bordered size="small">
+                <Descriptions.Item label="Amount">${Number(detailPayment.amount).toFixed(2)}</Descriptions.Item>
+                {Number(detailPayment.discount_amount) > 0 && (
+                  <Descriptions.Item label="List Price">${Number(detailPayment.list_price).toFixed(2)}</Descriptions.Item>
+                )}
+                <Descriptions.Item label="Method">
+                  {paymentMethodLabels[detailPayment.payment_method] || detailPayment.payment_method}
+                </Descriptions.Item>
+                <Descriptions.Item label="Classes Purchased">{detailPayment.classes_purchased}</Descriptions.Item>
+                <Descriptions.Item label="Classes Remaining">{detailPayment.classes_remaining}</Descriptions.Item>
+                <Descriptions.Item label="Package">{detailPayment.package_name || '—'}</Descriptions.Item>
+                <Descriptions.Item label="Credits Expire">
+                  {detailPayment.expires_at ? moment(detailPayment.expires_at).format('MMM DD, YYYY') : 'Never'}
+                </Descriptions.Item>
+                <Descriptions.Item label="Reference">{detailPayment.payment_reference || '—'}</Descriptions.Item>
+                <Descriptions.Item label="Receipt">
+                  {detailPayment.receipt_number ? `R-${String(detailPayment.receipt_number).padStart(6, '0')}` : '—'}
+                </Descriptions.Item>
+                <Descriptions.Item label="Date">{moment(detailPayment.created_at).format('MMM DD, YYYY')}</Descriptions.Item>
+                <Descriptions.Item label="Notes">{detailPayment.notes || '—'}</Descriptions.Item>
+              </Descriptions>
+
+              {detailDiscounts.length > 0 && (
+                <>
+                  <Divider orientation="left">Discounts</Divider>
+                  <List
+                    dataSource={detailDiscounts}
+                    renderItem={(discount) => (
+                      <List.Item>
+                        <Text strong>{discount.rule_name}</Text>
+                        <Text>-${Number(discount.amount).toFixed(2)}</Text>
+                      </List.Item>
+                    )}
+                  />
+                </>
+              )}
+
+              <Divider orientation="left">Class Allocations</Divider>
+              <List
+                dataSource={detailAllocations}
+                locale={{ emptyText: 'No class allocations' }}
+                renderItem={(allocation) => (
+                  <List.Item>
+                    <Space>
+                      <Text strong>{allocation.name}</Text>
+                      <Tag color="blue">{allocation.subject}</Tag>
+                    </Space>
+                    <Space>
+                      <Text>{allocation.classes_allocated} classes</Text>
+                      {allocation.expires_at && (
+                        <Text type="secondary">expires {moment(allocation.expires_at).format('MMM DD, YYYY')}</Text>
+                      )}
+                    </Space>
+                  </List.Item>
+                )}
+              />
+
+              {detailRefunds.length > 0 && (
+                <>
+                  <Divider orientation="left">Refunds</Divider>
+                  <List
+                    dataSource={detailRefunds}
+                    renderItem={(refund) => (
+                      <List.Item>
+                        <Space direction="vertical" size={0}>
+                          <Text strong>
+                            ${Number(refund.amount).toFixed(2)}
+                            {refund.classes_refunded > 0 && ` and ${refund.classes_refunded} classes`}
+                          </Text>
+                          <Text type="secondary" style={{ fontSize: '12px' }}>
+                            {moment(refund.refund_date).format('MMM DD, YYYY')}
+                            {refund.refunded_by_name && ` by ${refund.refunded_by_name}`}
+                            {refund.reason && ` — ${refund.reason}`}
+                          </Text>
+                        </Space>
+                      </List.Item>
+                    )}
+                  />
+                </>
+              )}
+            </TabPane>
+            {can('audit:view') && (
+              <TabPane tab="History" key="history">
+                <AuditHistory paymentId={detailPayment.id} />
+              </TabPane>
+            )}
+          </Tabs>
+        )}
+      </Modal>
     </div>
   );
 };
@@ -0,0 +1,377 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Typography, Table, Button, Space, Switch, message, Tag, Row, Col,
+  Card, Statistic, Alert, Spin
+} from 'antd';
+import { PlayCircleOutlined, ReloadOutlined } from '@ant-design/icons';
+import axios from 'axios';
+import dayjs from 'dayjs';
+import type { ColumnsType } from 'antd/es/table';
+import { useAuth } from '../context/AuthContext';
+
+const { Title, Text } = Typography;
+
+interface SchedulerRun {
+  id: string;
+  triggered_by: string;
+  status: string;
+  started_at: string;
+  finished_at?: string;
+  backfill_id?: string;
+  occurrences_created: number;
+  students_processed: number;
+  students_skipped: number;
+  sessions_closed: number;
+  error_count: number;
+  error_message?: string;
+}
+
+interface SkippedStudent {
+  student_id: string;
+  student_name: string | null;
+  class_name: string;
+  date: string;
+  reason: string;
+}
+
+interface RunError {
+  class_name: string;
+  date: string;
+  student_name?: string;
+  error: string;
+}
+
+interface RunDetails extends SchedulerRun {
+  skipped: SkippedStudent[];
+  errors: RunError[];
+}
+
+interface Backfill {
+  id: string;
+  from_date: string;
+  to_date: string;
+  backfilled_from?: string;
+  occurrences_created: number;
+  created_at: string;
+}
+
+const statusLabels: Record<string, { label: string; color: string }> = {
+  running: { label: 'Running', color: 'processing' },
+  succeeded: { label: 'Succeeded', color: 'success' },
+  completed_with_errors: { label: 'Completed with errors', color: 'warning' },
+  failed: { label: 'Failed', color: 'error' },
+};
+
+const reasonLabels: Record<string, string> = {
+  no_payment_available_overdue: 'No credit (owes class)',
+  already_exists: 'Already deducted',
+  on_hold: 'On hold',
+  error: 'Error',
+};
+
+const formatDate = (date?: string) => (date ? dayjs(date).format('MMM D, YYYY') : '-');
+const formatTime = (date?: string) => (date ? dayjs(date).format('MMM D, YYYY h:mm A') : '-');
+
+const Scheduler: React.FC = () => {
+  const { can } = useAuth();
+  const [runs, setRuns] = useState<SchedulerRun[]>([]);
+  const [processedThrough, setProcessedThrough] = useState<string | null>(null);
+  const [lastFailure, setLastFailure] = useState<SchedulerRun | null>(null);
+  const [backfills, setBackfills] = useState<Backfill[]>([]);
+  const [maxBackfillDays, setMaxBackfillDays] = useState<number | null>(null);
+  const [runDetails, setRunDetails] = useState<Record<string, RunDetails>>({});
+  const [failuresOnly, setFailuresOnly] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [running, setRunning] = useState(false);
+
+  const fetchRuns = async () => {
+    try {
+      setLoading(true);
+      const [runsResponse, backfillsResponse] = await Promise.all([
+        axios.get('/api/scheduler/runs', { params: { failures_only: failuresOnly, limit: 50 } }),
+        axios.get('/api/scheduler/backfills', { params: { limit: 10 } })
+      ]);
+      setRuns(runsResponse.data.data?.runs || []);
+      setProcessedThrough(runsResponse.data.data?.processed_through ?? null);
+      setLastFailure(runsResponse.data.data?.last_failure ?? null);
+      setBackfills(backfillsResponse.data.data?.backfills || []);
+      setMaxBackfillDays(backfillsResponse.data.data?.max_backfill_days ?? null);
+    } catch (error: any) {
+      console.error('Error fetching scheduler runs:', error);
+      message.error(error.response?.data?.error?.message || 'Failed to fetch scheduler runs');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchRuns();
+  }, [failuresOnly]);
+
+  const fetchRunDetails = async (id: string) => {
+    if (runDetails[id]) return;
+    try {
+      const response = await axios.get(`/api/scheduler/runs/${id}`);
+      setRunDetails(prev => ({ ...prev, [id]: response.data.data }));
+    } catch (error: any) {
+      console.error('Error fetching scheduler run:', error);
+      message.error(error.response?.data?.error?.message || 'Failed to fetch scheduler run');
+    }
+  };
+
+  const handleRunNow = async () => {
+    try {
+      setRunning(true);
+      const response = await axios.post('/api/attendance/test-scheduler');
+      const run: SchedulerRun | null = response.data.data;
+      message.success(`Scheduler run finished: ${run?.occurrences_created ?? 0} occurrences created`);
+      fetchRuns();
+    } catch (error: any) {
+      console.error('Error running scheduler:', error);
+      message.error(error.response?.data?.error?.message || 'Failed to run scheduler');
+      // A failed run is still recorded
+      fetchRuns();
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const renderRunDetails = (run: SchedulerRun) => {
+    const details = runDetails[run.id];
+    if (!details) {
+      return <Spin size="small" />;
+    }
+
+    return (
+      <Space direction="vertical" style={{ width: '100%' }}>
+        {details.error_message && (
+          <Alert type="error" showIcon message="Run rolled back" description={details.error_message} />
+        )}
+        {details.errors.map((runError, index) => (
+          <Alert
+            key={index}
+            type="warning"
+            showIcon
+            message={`${runError.class_name} on ${formatDate(runError.date)}${runError.student_name ? ` (${runError.student_name})` : ''}`}
+            description={runError.error}
+          />
+        ))}
+        {details.skipped.length > 0 ? (
+          <Table
+            size="small"
+            rowKey={(record) => `${record.student_id}_${record.class_name}_${record.date}`}
+            dataSource={details.skipped}
+            pagination={false}
+            columns={[
+              {
+                title: 'Student',
+                key: 'student',
+                render: (record: SkippedStudent) => record.student_name || <Text type="secondary">{record.student_id}</Text>,
+              },
+              { title: 'Class', dataIndex: 'class_name', key: 'class_name' },
+              { title: 'Date', dataIndex: 'date', key: 'date', render: (date: string) => formatDate(date) },
+              {
+                title: 'Reason',
+                dataIndex: 'reason',
+                key: 'reason',
+                render: (reason: string) => (
+                  <Tag color={reason === 'error' ? 'red' : 'orange'}>{reasonLabels[reason] || reason}</Tag>
+                ),
+              },
+            ]}
+          />
+        ) : (
+          <Text type="secondary">No students skipped</Text>
+        )}
+      </Space>
+    );
+  };
+
+  const columns: ColumnsType<SchedulerRun> = [
+    {
+      title: 'Started',
+      dataIndex: 'started_at',
+      key: 'started_at',
+      render: (date: string) => formatTime(date),
+    },
+    {
+      title: 'Trigger',
+      dataIndex: 'triggered_by',
+      key: 'triggered_by',
+      render: (trigger: string) => <Tag>{trigger}</Tag>,
+    },
+    {
+      title: 'Status',
+      key: 'status',
+      render: (record: SchedulerRun) => {
+        const status = statusLabels[record.status] || { label: record.status, color: 'default' };
+        return (
+          <Space>
+            <Tag color={status.color}>{status.label}</Tag>
+            {record.backfill_id && <Tag color="purple">Backfill</Tag>}
+          </Space>
+        );
+      },
+    },
+    {
+      title: 'Duration',
+      key: 'duration',
+      render: (record: SchedulerRun) => (
+        record.finished_at
+          ? `${(dayjs(record.finished_at).diff(dayjs(record.started_at)) / 1000).toFixed(1)}s`
+          : '-'
+      ),
+    },
+    {
+      title: 'Occurrences',
+      dataIndex: 'occurrences_created',
+      key: 'occurrences_created',
+    },
+    {
+      title: 'Students',
+      key: 'students',
+      render: (record: SchedulerRun) => (
+        <Space>
+          <Text>{record.students_processed} processed</Text>
+          {record.students_skipped > 0 && <Text type="warning">{record.students_skipped} skipped</Text>}
+        </Space>
+      ),
+    },
+    {
+      title: 'Sessions Closed',
+      dataIndex: 'sessions_closed',
+      key: 'sessions_closed',
+    },
+    {
+      title: 'Errors',
+      dataIndex: 'error_count',
+      key: 'error_count',
+      render: (count: number) => (count > 0 ? <Text type="danger">{count}</Text> : 0),
+    },
+  ];
+
+  const backfillColumns: ColumnsType<Backfill> = [
+    {
+      title: 'Caught Up',
+      dataIndex: 'created_at',
+      key: 'created_at',
+      render: (date: string) => formatTime(date),
+    },
+    {
+      title: 'Missed Dates',
+      key: 'missed',
+      render: (record: Backfill) => `${formatDate(record.from_date)} - ${formatDate(record.to_date)}`,
+    },
+    {
+      title: 'Backfilled From',
+      key: 'backfilled_from',
+      render: (record: Backfill) => (
+        record.backfilled_from
+          ? formatDate(record.backfilled_from)
+          : <Tag color="red">Past the lookback</Tag>
+      ),
+    },
+    {
+      title: 'Occurrences',
+      dataIndex: 'occurrences_created',
+      key: 'occurrences_created',
+    },
+  ];
+
+  return (
+    <div>
+      <Row justify="space-between" align="middle" style={{ marginBottom: 16 }}>
+        <Col>
+          <Title level={2} style={{ margin: 0 }}>Scheduler</Title>
+          <Text type="secondary">Automatic class occurrences, attendance and credit deductions</Text>
+        </Col>
+        <Col>
+          <Space>
+            <Button icon={<ReloadOutlined />} onClick={fetchRuns}>Refresh</Button>
+            {can('scheduler:run') && (
+              <Button type="primary" icon={<PlayCircleOutlined />} loading={running} onClick={handleRunNow}>
+                Run Now
+              </Button>
+            )}
+          </Space>
+        </Col>
+      </Row>
+
+      <Row gutter={16} style={{ marginBottom: 16 }}>
+        <Col xs={24} md={8}>
+          <Card>
+            <Statistic title="Processed Through" value={processedThrough ? formatTime(processedThrough) : 'Never run'} />
+          </Card>
+        </Col>
+        <Col xs={24} md={8}>
+          <Card>
+            <Statistic
+              title="Last Run"
+              value={runs[0] ? formatTime(runs[0].started_at) : '-'}
+              suffix={runs[0] && !failuresOnly && (
+                <Tag color={statusLabels[runs[0].status]?.color}>{statusLabels[runs[0].status]?.label || runs[0].status}</Tag>
+              )}
+            />
+          </Card>
+        </Col>
+        <Col xs={24} md={8}>
+          <Card>
+            <Statistic
+              title="Last Failure"
+              value={lastFailure ? formatTime(lastFailure.started_at) : 'None'}
+              valueStyle={lastFailure ? { color: '#cf1322' } : undefined}
+            />
+          </Card>
+        </Col>
+      </Row>
+
+      {lastFailure?.status === 'failed' && lastFailure.error_message && (
+        <Alert
+          type="error"
+          showIcon
+          style={{ marginBottom: 16 }}
+          message={`Last failed run (${formatTime(lastFailure.started_at)}) was rolled back`}
+          description={lastFailure.error_message}
+        />
+      )}
+
+      <Card
+        title="Recent Runs"
+        style={{ marginBottom: 16 }}
+        extra={
+          <Space>
+            <Text>Failures only</Text>
+            <Switch checked={failuresOnly} onChange={setFailuresOnly} />
+          </Space>
+        }
+      >
+        <Table
+          columns={columns}
+          dataSource={runs}
+          loading={loading}
+          rowKey="id"
+          pagination={{ pageSize: 10 }}
+          expandable={{
+            expandedRowRender: renderRunDetails,
+            rowExpandable: (record) => record.students_skipped > 0 || record.error_count > 0 || !!record.error_message,
+            onExpand: (expanded, record) => {
+              if (expanded) fetchRunDetails(record.id);
+            },
+          }}
+        />
+      </Card>
+
+      <Card title={`Catch-ups After Downtime${maxBackfillDays !== null ? ` (up to ${maxBackfillDays} days back)` : ''}`}>
+        <Table
+          columns={backfillColumns}
+          dataSource={backfills}
+          loading={loading}
+          rowKey="id"
+          pagination={false}
+        />
+      </Card>
+    </div>
+  );
+};
+
+export default Scheduler;
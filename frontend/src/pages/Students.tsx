@@ -1,18 +1,29 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import {
   Typography, Table, Button, Space, Modal, Form, Input, Select,
-  Popconfirm, message, Tag, Card, Statistic, Row, Col, List
+  Popconfirm, message, Tag, Card, Statistic, Row, Col, List, Tabs, DatePicker, Divider,
+  InputNumber, Switch
 } from 'antd';
 import {
   PlusOutlined, EditOutlined, DeleteOutlined, SearchOutlined,
-  UserOutlined, MailOutlined, PhoneOutlined, BookOutlined
+  UserOutlined, MailOutlined, PhoneOutlined, BookOutlined, FilePdfOutlined, DownloadOutlined, SwapOutlined
 } from '@ant-design/icons';
 import axios from 'axios';
+import dayjs, { Dayjs } from 'dayjs';
 import type { ColumnsType } from 'antd/es/table';
+import { useAuth } from '../context/AuthContext';
+import AuditHistory from '../components/AuditHistory';
 
 const { Title, Text } = Typography;
 const { Option } = Select;
 const { TextArea } = Input;
+const { TabPane } = Tabs;
+const { RangePicker } = DatePicker;
+
+interface Family {
+  id: string;
+  name: string;
+}
 
 interface Student {
   id: string;
@@ -22,6 +33,8 @@ interface Student {
   phone?: string;
   emergency_contact?: string;
   emergency_phone?: string;
+  family_id?: string | null;
+  family_name?: string;
   notes?: string;
   created_at: string;
   updated_at: string;
@@ -31,6 +44,7 @@ interface Student {
   classes_used?: number;
   attendance_percentage?: number;
   enrolled_classes_count?: number;
+  on_hold_until?: string;
 }
 
 interface Class {
@@ -48,11 +62,91 @@ interface ClassBalance {
   classes_remaining: number;
   classes_used: number;
   classes_attended: number;
+  classes_transferred_in: number;
+  classes_transferred_out: number;
 }
 
+interface CreditTransfer {
+  id: string;
+  receipt_number: number;
+  from_student_id: string;
+  from_student_name: string;
+  from_class_name?: string;
+  to_student_id: string;
+  to_student_name: string;
+  to_class_name?: string;
+  classes_out: number;
+  classes_in: number;
+  notes?: string;
+  created_at: string;
+}
+
+interface EnrollmentHold {
+  id: string;
+  class_id?: string;
+  class_name?: string;
+  start_date: string;
+  end_date: string;
+  reason?: string;
+  is_current: boolean;
+  created_by_name?: string;
+}
+
+interface MakeUpCredit {
+  id: string;
+  class_name?: string;
+  missed_date: string;
+  status: 'available' | 'used' | 'cancelled';
+  expires_at?: string;
+  is_expired: boolean;
+  used_date?: string;
+  used_class_name?: string;
+}
+
+interface StatementSummary {
+  opening_balance: number;
+  closing_balance: number;
+  totals: {
+    amount_paid: number;
+    classes_purchased: number;
+    classes_attended: number;
+    amount_refunded: number;
+    classes_owed: number;
+    amount_owed: number;
+  };
+}
+
+interface CreditPlan {
+  policy: string;
+  configured_policy: string;
+  classes: Array<{
+    class_id: string;
+    class_name: string;
+    classes_available: number;
+    deductions: Array<{
+      sequence: number;
+      payment_id: string;
+      receipt_number: number;
+      payment_date: string;
+      price_per_class: number;
+      expires_at?: string;
+    }>;
+  }>;
+}
+
+const consumptionPolicyLabels: Record<string, string> = {
+  fifo: 'Oldest payment first',
+  lifo: 'Newest payment first',
+  soonest_expiry: 'Soonest to expire first',
+  cheapest: 'Cheapest per class first',
+};
+
 const Students: React.FC = () => {
+  const { can } = useAuth();
   const [students, setStudents] = useState<Student[]>([]);
   const [classes, setClasses] = useState<Class[]>([]);
+  const [families, setFamilies] = useState<Family[]>([]);
+  const [newFamilyName, setNewFamilyName] = useState('');
   const [loading, setLoading] = useState(false);
   const [modalVisible, setModalVisible] = useState(false);
   const [editingStudent, setEditingStudent] = useState<Student | null>(null);
@@ -62,8 +156,18 @@ const Students: React.FC = () => {
   const [balanceModalVisible, setBalanceModalVisible] = useState(false);
   const [selectedStudent, setSelectedStudent] = useState<Student | null>(null);
   const [studentBalances, setStudentBalances] = useState<ClassBalance[]>([]);
+  const [unallocatedClasses, setUnallocatedClasses] = useState(0);
+  const [creditTransfers, setCreditTransfers] = useState<CreditTransfer[]>([]);
+  const [transferSource, setTransferSource] = useState<ClassBalance | null>(null);
+  const [statementRange, setStatementRange] = useState<[Dayjs, Dayjs]>([dayjs().startOf('month'), dayjs()]);
+  const [statement, setStatement] = useState<StatementSummary | null>(null);
+  const [creditPlan, setCreditPlan] = useState<CreditPlan | null>(null);
+  const [holds, setHolds] = useState<EnrollmentHold[] | null>(null);
+  const [makeUpCredits, setMakeUpCredits] = useState<MakeUpCredit[] | null>(null);
   const [form] = Form.useForm();
   const [enrollmentForm] = Form.useForm();
+  const [transferForm] = Form.useForm();
+  const [holdForm] = Form.useForm();
 
   // Search caching
   const searchCache = useRef<Map<string, { data: Student[], timestamp: number }>>(new Map());
@@ -143,11 +247,42 @@ const Students: React.FC = () => {
     }
   };
 
+  // Fetch families for linking siblings
+  const fetchFamilies = async () => {
+    try {
+      const response = await axios.get('/api/families');
+      setFamilies(response.data.data || []);
+    } catch (error) {
+      console.error('Error fetching families:', error);
+    }
+  };
+
   useEffect(() => {
     fetchStudents();
     fetchClasses();
   }, [searchText, gradeFilter]);
 
+  useEffect(() => {
+    fetchFamilies();
+  }, []);
+
+  // Create a family from the family picker and select it
+  const handleAddFamily = async () => {
+    const name = newFamilyName.trim();
+    if (!name) return;
+
+    try {
+      const response = await axios.post('/api/families', { name });
+      const family: Family = response.data.data;
+      setFamilies((prev) => [...prev, family].sort((a, b) => a.name.localeCompare(b.name)));
+      form.setFieldsValue({ family_id: family.id });
+      setNewFamilyName('');
+    } catch (error: any) {
+      console.error('Error creating family:', error);
+      message.error(error.response?.data?.error?.message || 'Failed to create family');
+    }
+  };
+
   // Handle form submission
   const handleSubmit = async (values: any) => {
     try {
@@ -178,22 +313,26 @@ const Students: React.FC = () => {
       fetchStudents();
     } catch (error: any) {
       console.error('Error deleting student:', error);
-      message.error(error.response?.data?.message || 'Failed to delete student');
+      message.error(error.response?.data?.error?.message || 'Failed to delete student');
     }
   };
 
   // Handle enrollment
   const handleEnroll = async (studentId: string, classId: string) => {
     try {
-      await axios.post(`/api/students/${studentId}/enroll/${classId}`);
-      message.success('Student enrolled successfully');
+      const response = await axios.post(`/api/students/${studentId}/enroll/${classId}`);
+      if (response.data.data?.waitlisted) {
+        message.info(response.data.message);
+      } else {
+        message.success('Student enrolled successfully');
+      }
       clearCache(); // Clear cache when enrollment changes
       // Refresh both students and classes data to ensure consistency
       fetchStudents();
       fetchClasses();
     } catch (error: any) {
       console.error('Error enrolling student:', error);
-      message.error(error.response?.data?.message || 'Failed to enroll student');
+      message.error(error.response?.data?.error?.message || 'Failed to enroll student');
     }
   };
 
@@ -228,13 +367,154 @@ const Students: React.FC = () => {
       const response = await axios.get(`/api/students/${studentId}/balances`);
       const balances = response.data.data?.balances || [];
       setStudentBalances(balances);
+      setUnallocatedClasses(response.data.data?.unallocated_classes || 0);
+      setCreditTransfers(response.data.data?.transfers || []);
     } catch (error: any) {
       console.error('Error fetching student balances:', error);
       message.error('Failed to load student balances');
       setStudentBalances([]);
+      setUnallocatedClasses(0);
+      setCreditTransfers([]);
+    }
+  };
+
+  const closeTransferModal = () => {
+    setTransferSource(null);
+    transferForm.resetFields();
+  };
+
+  const handleTransferSubmit = async (values: any) => {
+    if (!selectedStudent || !transferSource) return;
+
+    try {
+      const response = await axios.post(`/api/students/${selectedStudent.id}/credit-transfers`, {
+        ...values,
+        from_class_id: transferSource.class_id
+      });
+      message.success(response.data.message || 'Credits transferred');
+      closeTransferModal();
+      fetchStudentBalances(selectedStudent.id);
+      setCreditPlan(null);
+    } catch (error: any) {
+      console.error('Error transferring credits:', error);
+      message.error(error.response?.data?.error?.message || 'Failed to transfer credits');
     }
   };
 
+  const statementQuery = (format: string) => {
+    const params = new URLSearchParams({
+      from: statementRange[0].format('YYYY-MM-DD'),
+      to: statementRange[1].format('YYYY-MM-DD'),
+      format
+    });
+    return `/api/students/${selectedStudent?.id}/statement?${params.toString()}`;
+  };
+
+  const fetchStatement = async () => {
+    try {
+      const response = await axios.get(statementQuery('json'));
+      setStatement(response.data.data);
+    } catch (error: any) {
+      console.error('Error fetching statement:', error);
+      message.error('Failed to load statement');
+      setStatement(null);
+    }
+  };
+
+  // Dry run of which payment each upcoming deduction would use
+  const fetchCreditPlan = async (policy?: string) => {
+    try {
+      const response = await axios.get(`/api/students/${selectedStudent?.id}/credit-plan`, { params: { policy } });
+      setCreditPlan(response.data.data);
+    } catch (error: any) {
+      console.error('Error fetching credit plan:', error);
+      message.error('Failed to load credit order');
+      setCreditPlan(null);
+    }
+  };
+
+  const fetchHolds = async () => {
+    try {
+      const response = await axios.get(`/api/students/${selectedStudent?.id}/holds`);
+      setHolds(response.data.data || []);
+    } catch (error: any) {
+      console.error('Error fetching holds:', error);
+      message.error('Failed to load holds');
+      setHolds([]);
+    }
+  };
+
+  const fetchMakeUpCredits = async () => {
+    try {
+      const response = await axios.get(`/api/students/${selectedStudent?.id}/make-up-credits`);
+      setMakeUpCredits(response.data.data || []);
+    } catch (error: any) {
+      console.error('Error fetching make-up credits:', error);
+      message.error('Failed to load make-up credits');
+      setMakeUpCredits([]);
+    }
+  };
+
+  const handleAddHold = async (values: any) => {
+    if (!selectedStudent) return;
+
+    try {
+      await axios.post(`/api/students/${selectedStudent.id}/holds`, {
+        class_id: values.class_id || null,
+        start_date: values.dates[0].format('YYYY-MM-DD'),
+        end_date: values.dates[1].format('YYYY-MM-DD'),
+        reason: values.reason
+      });
+      message.success('Hold added successfully');
+      holdForm.resetFields();
+      fetchHolds();
+      clearCache(); // Clear cache so the list shows the hold
+      fetchStudents();
+    } catch (error: any) {
+      console.error('Error adding hold:', error);
+      message.error(error.response?.data?.error?.message || 'Failed to add hold');
+    }
+  };
+
+  const handleDeleteHold = async (holdId: string) => {
+    if (!selectedStudent) return;
+
+    try {
+      await axios.delete(`/api/students/${selectedStudent.id}/holds/${holdId}`);
+      message.success('Hold removed successfully');
+      fetchHolds();
+      clearCache(); // Clear cache so the list drops the hold
+      fetchStudents();
+    } catch (error: any) {
+      console.error('Error removing hold:', error);
+      message.error(error.response?.data?.error?.message || 'Failed to remove hold');
+    }
+  };
+
+  const handleDownloadStatement = async (format: 'pdf' | 'csv') => {
+    try {
+      const response = await axios.get(statementQuery(format), { responseType: 'blob' });
+      const url = URL.createObjectURL(response.data);
+      if (format === 'pdf') {
+        window.open(url, '_blank');
+      } else {
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `statement-${selectedStudent?.name}-${statementRange[0].format('YYYY-MM-DD')}.csv`;
+        link.click();
+      }
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+    } catch (error: any) {
+      console.error('Error downloading statement:', error);
+      message.error('Failed to download statement');
+    }
+  };
+
+  // Students in the same family as the selected student
+  const siblings = selectedStudent?.family_id
+    ? students.filter((student) => student.family_id === selectedStudent.family_id && student.id !== selectedStudent.id)
+    : [];
+
   const handleEnrollmentSubmit = async (values: any) => {
     if (!selectedStudent) return;
 
@@ -259,6 +539,12 @@ const Students: React.FC = () => {
         <Space direction="vertical" size={0}>
           <Text strong>{name}</Text>
           {record.grade && <Tag>{record.grade}</Tag>}
+          {record.on_hold_until && (
+            <Tag color="orange">On hold until {dayjs(record.on_hold_until).format('MMM DD, YYYY')}</Tag>
+          )}
+          {record.family_name && (
+            <Text type="secondary" style={{ fontSize: '12px' }}>{record.family_name}</Text>
+          )}
         </Space>
       ),
     },
@@ -318,14 +604,16 @@ const Students: React.FC = () => {
       render: (record: Student) => (
         <Space direction="vertical" size={0}>
           <Text strong>{record.enrolled_classes_count || 0} enrolled</Text>
-          <Button
-            type="link"
-            size="small"
-            onClick={() => showEnrollmentModal(record)}
-            style={{ padding: 0 }}
-          >
-            Enroll in Class
-          </Button>
+          {can('students:enroll') && (
+            <Button
+              type="link"
+              size="small"
+              onClick={() => showEnrollmentModal(record)}
+              style={{ padding: 0 }}
+            >
+              Enroll in Class
+            </Button>
+          )}
         </Space>
       ),
     },
@@ -334,22 +622,26 @@ const Students: React.FC = () => {
       key: 'actions',
       render: (record: Student) => (
         <Space>
-          <Button
-            icon={<EditOutlined />}
-            onClick={() => {
-              setEditingStudent(record);
-              form.setFieldsValue(record);
-              setModalVisible(true);
-            }}
-          />
-          <Popconfirm
-            title="Are you sure you want to delete this student?"
-            onConfirm={() => handleDelete(record.id)}
-            okText="Yes"
-            cancelText="No"
-          >
-            <Button icon={<DeleteOutlined />} danger />
-          </Popconfirm>
+          {can('students:update') && (
+            <Button
+              icon={<EditOutlined />}
+              onClick={() => {
+                setEditingStudent(record);
+                form.setFieldsValue(record);
+                setModalVisible(true);
+              }}
+            />
+          )}
+          {can('students:delete') && (
+            <Popconfirm
+              title="Are you sure you want to delete this student?"
+              onConfirm={() => handleDelete(record.id)}
+              okText="Yes"
+              cancelText="No"
+            >
+              <Button icon={<DeleteOutlined />} danger />
+            </Popconfirm>
+          )}
         </Space>
       ),
     },
@@ -440,19 +732,21 @@ const Students: React.FC = () => {
             ))}
           </Select>
         </Col>
-        <Col>
-          <Button
-            type="primary"
-            icon={<PlusOutlined />}
-            onClick={() => {
-              setEditingStudent(null);
-              form.resetFields();
-              setModalVisible(true);
-            }}
-          >
-            Add Student
-          </Button>
-        </Col>
+        {can('students:create') && (
+          <Col>
+            <Button
+              type="primary"
+              icon={<PlusOutlined />}
+              onClick={() => {
+                setEditingStudent(null);
+                form.resetFields();
+                setModalVisible(true);
+              }}
+            >
+              Add Student
+            </Button>
+          </Col>
+        )}
       </Row>
 
       {/* Students Table */}
@@ -530,6 +824,41 @@ const Students: React.FC = () => {
                 </Select>
               </Form.Item>
             </Col>
+            <Col span={12}>
+              <Form.Item
+                name="family_id"
+                label="Family"
+                extra="Students in the same family are siblings"
+              >
+                <Select
+                  placeholder="Select family"
+                  allowClear
+                  showSearch
+                  optionFilterProp="children"
+                  dropdownRender={(menu) => (
+                    <>
+                      {menu}
+                      <Divider style={{ margin: '8px 0' }} />
+                      <Space style={{ padding: '0 8px 4px' }}>
+                        <Input
+                          placeholder="New family, e.g. Zhang family"
+                          value={newFamilyName}
+                          onChange={(e) => setNewFamilyName(e.target.value)}
+                          onKeyDown={(e) => e.stopPropagation()}
+                        />
+                        <Button type="text" icon={<PlusOutlined />} onClick={handleAddFamily}>
+                          Add
+                        </Button>
+                      </Space>
+                    </>
+                  )}
+                >
+                  {families.map((family) => (
+                    <Option key={family.id} value={family.id}>{family.name}</Option>
+                  ))}
+                </Select>
+              </Form.Item>
+            </Col>
           </Row>
 
           <Form.Item
@@ -618,65 +947,403 @@ const Students: React.FC = () => {
 
       {/* Balance Modal */}
       <Modal
-        title={`Class Balances - ${selectedStudent?.name}`}
+        title={`Student Details - ${selectedStudent?.name}`}
         open={balanceModalVisible}
         onCancel={() => {
           setBalanceModalVisible(false);
           setSelectedStudent(null);
           setStudentBalances([]);
+          setUnallocatedClasses(0);
+          setCreditTransfers([]);
+          setStatement(null);
+          setCreditPlan(null);
+          setHolds(null);
+          setMakeUpCredits(null);
+          holdForm.resetFields();
         }}
         footer={null}
         width={800}
       >
-        <div style={{ marginBottom: 16 }}>
-          <Text type="secondary">
-            Detailed balance information for each class this student is enrolled in.
-          </Text>
-        </div>
-
-        {studentBalances.length > 0 ? (
-          <List
-            dataSource={studentBalances}
-            renderItem={(balance) => (
-              <List.Item>
-                <List.Item.Meta
-                  title={
-                    <Space>
-                      <Text strong>{balance.class_name}</Text>
-                      <Tag color="blue">{balance.subject}</Tag>
-                    </Space>
-                  }
-                  description={
-                    <Row gutter={16}>
-                      <Col span={6}>
-                        <Text type="secondary">Purchased: </Text>
-                        <Text strong>{balance.classes_purchased}</Text>
-                      </Col>
-                      <Col span={6}>
-                        <Text type="secondary">Remaining: </Text>
-                        <Text strong style={{ color: balance.classes_remaining > 0 ? '#52c41a' : '#cf1322' }}>
-                          {balance.classes_remaining}
+        <Tabs
+          defaultActiveKey="balances"
+          onChange={(key) => {
+            if (key === 'credit-plan' && !creditPlan) {
+              fetchCreditPlan();
+            }
+            if (key === 'holds' && !holds) {
+              fetchHolds();
+            }
+            if (key === 'make-ups' && !makeUpCredits) {
+              fetchMakeUpCredits();
+            }
+          }}
+        >
+          <TabPane tab="Balances" key="balances">
+            <div style={{ marginBottom: 16 }}>
+              <Text type="secondary">
+                Detailed balance information for each class this student is enrolled in.
+              </Text>
+              {unallocatedClasses > 0 && (
+                <div>
+                  <Text type="secondary">Unallocated credits: </Text>
+                  <Text strong>{unallocatedClasses}</Text>
+                </div>
+              )}
+            </div>
+
+            {studentBalances.length > 0 ? (
+              <List
+                dataSource={studentBalances}
+                renderItem={(balance) => (
+                  <List.Item>
+                    <List.Item.Meta
+                      title={
+                        <Space>
+                          <Text strong>{balance.class_name}</Text>
+                          <Tag color="blue">{balance.subject}</Tag>
+                        </Space>
+                      }
+                      description={
+                        <Row gutter={16}>
+                          <Col span={6}>
+                            <Text type="secondary">Purchased: </Text>
+                            <Text strong>{balance.classes_purchased}</Text>
+                          </Col>
+                          <Col span={6}>
+                            <Text type="secondary">Remaining: </Text>
+                            <Text strong style={{ color: balance.classes_remaining > 0 ? '#52c41a' : '#cf1322' }}>
+                              {balance.classes_remaining}
+                            </Text>
+                          </Col>
+                          <Col span={6}>
+                            <Text type="secondary">Used: </Text>
+                            <Text>{balance.classes_used}</Text>
+                          </Col>
+                          <Col span={6}>
+                            <Text type="secondary">Attended: </Text>
+                            <Text>{balance.classes_attended}</Text>
+                          </Col>
+                          {(Number(balance.classes_transferred_in) > 0 || Number(balance.classes_transferred_out) > 0) && (
+                            <Col span={24}>
+                              <Text type="secondary" style={{ fontSize: '12px' }}>
+                                Transferred in {balance.classes_transferred_in}, out {balance.classes_transferred_out}
+                              </Text>
+                            </Col>
+                          )}
+                        </Row>
+                      }
+                    />
+                    {can('students:transfer_credits') && balance.classes_remaining > 0 && (
+                      <Button
+                        icon={<SwapOutlined />}
+                        onClick={() => {
+                          setTransferSource(balance);
+                          transferForm.setFieldsValue({ classes: balance.classes_remaining, adjust_for_price: false });
+                        }}
+                      >
+                        Transfer
+                      </Button>
+                    )}
+                  </List.Item>
+                )}
+              />
+            ) : (
+              <div style={{ textAlign: 'center', padding: '20px' }}>
+                <Text type="secondary">No balance information available for this student.</Text>
+              </div>
+            )}
+
+            {creditTransfers.length > 0 && (
+              <>
+                <Title level={5} style={{ marginTop: 16 }}>Credit Transfers</Title>
+                <List
+                  size="small"
+                  dataSource={creditTransfers}
+                  renderItem={(transfer) => (
+                    <List.Item>
+                      <Space direction="vertical" size={0}>
+                        <Text>
+                          {transfer.classes_out} classes: {transfer.from_student_name} ({transfer.from_class_name || 'deleted class'})
+                          {' → '}
+                          {transfer.to_student_name} ({transfer.to_class_name || 'deleted class'})
+                          {transfer.classes_in !== transfer.classes_out && ` as ${transfer.classes_in} classes`}
                         </Text>
-                      </Col>
-                      <Col span={6}>
-                        <Text type="secondary">Used: </Text>
-                        <Text>{balance.classes_used}</Text>
-                      </Col>
-                      <Col span={6}>
-                        <Text type="secondary">Attended: </Text>
-                        <Text>{balance.classes_attended}</Text>
-                      </Col>
-                    </Row>
-                  }
+                        <Text type="secondary" style={{ fontSize: '12px' }}>
+                          {dayjs(transfer.created_at).format('MMM DD, YYYY')} · R-{String(transfer.receipt_number).padStart(6, '0')}
+                          {transfer.notes && ` · ${transfer.notes}`}
+                        </Text>
+                      </Space>
+                    </List.Item>
+                  )}
                 />
-              </List.Item>
+              </>
             )}
-          />
-        ) : (
-          <div style={{ textAlign: 'center', padding: '20px' }}>
-            <Text type="secondary">No balance information available for this student.</Text>
-          </div>
-        )}
+          </TabPane>
+          <TabPane tab="Statement" key="statement">
+            <Space style={{ marginBottom: 16 }} wrap>
+              <RangePicker
+                value={statementRange}
+                allowClear={false}
+                onChange={(range) => {
+                  if (range && range[0] && range[1]) {
+                    setStatementRange([range[0], range[1]]);
+                    setStatement(null);
+                  }
+                }}
+              />
+              <Button onClick={fetchStatement}>View</Button>
+              <Button icon={<FilePdfOutlined />} onClick={() => handleDownloadStatement('pdf')}>PDF</Button>
+              <Button icon={<DownloadOutlined />} onClick={() => handleDownloadStatement('csv')}>CSV</Button>
+            </Space>
+
+            {statement && (
+              <Row gutter={[16, 16]}>
+                <Col span={8}>
+                  <Statistic title="Opening balance" value={statement.opening_balance} suffix="classes" />
+                </Col>
+                <Col span={8}>
+                  <Statistic title="Classes purchased" value={statement.totals.classes_purchased} />
+                </Col>
+                <Col span={8}>
+                  <Statistic title="Classes attended" value={statement.totals.classes_attended} />
+                </Col>
+                <Col span={8}>
+                  <Statistic title="Closing balance" value={statement.closing_balance} suffix="classes" />
+                </Col>
+                <Col span={8}>
+                  <Statistic
+                    title="Paid / refunded"
+                    value={`$${statement.totals.amount_paid.toFixed(2)} / $${statement.totals.amount_refunded.toFixed(2)}`}
+                  />
+                </Col>
+                <Col span={8}>
+                  <Statistic
+                    title="Owed"
+                    value={`${statement.totals.classes_owed} ($${statement.totals.amount_owed.toFixed(2)})`}
+                    valueStyle={{ color: statement.totals.classes_owed > 0 ? '#cf1322' : undefined }}
+                  />
+                </Col>
+              </Row>
+            )}
+          </TabPane>
+          <TabPane tab="Credit Order" key="credit-plan">
+            <Space style={{ marginBottom: 16 }} wrap>
+              <Text type="secondary">Next deductions under</Text>
+              <Select
+                value={creditPlan?.policy}
+                style={{ width: 220 }}
+                onChange={(policy) => fetchCreditPlan(policy)}
+              >
+                {Object.entries(consumptionPolicyLabels).map(([key, label]) => (
+                  <Option key={key} value={key}>
+                    {label}{creditPlan?.configured_policy === key ? ' (current)' : ''}
+                  </Option>
+                ))}
+              </Select>
+            </Space>
+
+            {creditPlan && creditPlan.classes.length > 0 ? (
+              <List
+                dataSource={creditPlan.classes}
+                renderItem={(planned) => (
+                  <List.Item>
+                    <List.Item.Meta
+                      title={
+                        <Space>
+                          <Text strong>{planned.class_name}</Text>
+                          <Tag>{planned.classes_available} credits</Tag>
+                        </Space>
+                      }
+                      description={
+                        <Space wrap>
+                          {planned.deductions.map((deduction) => (
+                            <Tag key={deduction.sequence}>
+                              #{deduction.sequence}: R-{String(deduction.receipt_number).padStart(6, '0')}
+                              {deduction.expires_at && ` (expires ${dayjs(deduction.expires_at).format('MMM DD')})`}
+                            </Tag>
+                          ))}
+                        </Space>
+                      }
+                    />
+                  </List.Item>
+                )}
+              />
+            ) : (
+              <div style={{ textAlign: 'center', padding: '20px' }}>
+                <Text type="secondary">No unexpired credits allocated to classes.</Text>
+              </div>
+            )}
+          </TabPane>
+          <TabPane tab="Holds" key="holds">
+            {can('students:holds') && (
+              <Form form={holdForm} layout="inline" onFinish={handleAddHold} style={{ marginBottom: 16, rowGap: 8 }}>
+                <Form.Item name="dates" rules={[{ required: true, message: 'Please select the dates' }]}>
+                  <RangePicker />
+                </Form.Item>
+                <Form.Item name="class_id">
+                  <Select placeholder="All classes" allowClear style={{ width: 180 }}>
+                    {classes.map(cls => (
+                      <Option key={cls.id} value={cls.id}>{cls.name}</Option>
+                    ))}
+                  </Select>
+                </Form.Item>
+                <Form.Item name="reason">
+                  <Input placeholder="Reason, e.g. vacation" />
+                </Form.Item>
+                <Form.Item>
+                  <Button type="primary" htmlType="submit">Add Hold</Button>
+                </Form.Item>
+              </Form>
+            )}
+
+            <Text type="secondary">
+              Classes during a hold exclude the student instead of using a credit.
+            </Text>
+
+            <List
+              dataSource={holds || []}
+              locale={{ emptyText: 'No holds' }}
+              renderItem={(hold) => (
+                <List.Item
+                  actions={can('students:holds') ? [
+                    <Popconfirm
+                      key="delete"
+                      title="Remove this hold?"
+                      onConfirm={() => handleDeleteHold(hold.id)}
+                      okText="Yes"
+                      cancelText="No"
+                    >
+                      <Button size="small" danger icon={<DeleteOutlined />} />
+                    </Popconfirm>
+                  ] : []}
+                >
+                  <List.Item.Meta
+                    title={
+                      <Space>
+                        <Text strong>
+                          {dayjs(hold.start_date).format('MMM DD, YYYY')} - {dayjs(hold.end_date).format('MMM DD, YYYY')}
+                        </Text>
+                        <Tag color="blue">{hold.class_name || 'All classes'}</Tag>
+                        {hold.is_current && <Tag color="orange">Current</Tag>}
+                      </Space>
+                    }
+                    description={[hold.reason, hold.created_by_name && `added by ${hold.created_by_name}`].filter(Boolean).join(' · ')}
+                  />
+                </List.Item>
+              )}
+            />
+          </TabPane>
+          <TabPane tab="Make-ups" key="make-ups">
+            <Text type="secondary">
+              An excused absence from a paid class earns a make-up credit, which books the student into another class of the same class or subject.
+            </Text>
+
+            <List
+              dataSource={makeUpCredits || []}
+              locale={{ emptyText: 'No make-up credits' }}
+              renderItem={(credit) => (
+                <List.Item>
+                  <List.Item.Meta
+                    title={
+                      <Space>
+                        <Text strong>
+                          Missed {credit.class_name || 'class'} on {dayjs(credit.missed_date).format('MMM DD, YYYY')}
+                        </Text>
+                        {credit.status === 'available' && (
+                          credit.is_expired
+                            ? <Tag color="default">Expired</Tag>
+                            : <Tag color="green">Available</Tag>
+                        )}
+                        {credit.status === 'used' && <Tag color="purple">Used</Tag>}
+                        {credit.status === 'cancelled' && <Tag color="red">Cancelled</Tag>}
+                      </Space>
+                    }
+                    description={
+                      credit.status === 'used'
+                        ? `Made up in ${credit.used_class_name} on ${dayjs(credit.used_date).format('MMM DD, YYYY')}`
+                        : credit.expires_at && `Use by ${dayjs(credit.expires_at).format('MMM DD, YYYY')}`
+                    }
+                  />
+                </List.Item>
+              )}
+            />
+          </TabPane>
+          {can('audit:view') && (
+            <TabPane tab="History" key="history">
+              {selectedStudent && <AuditHistory studentId={selectedStudent.id} />}
+            </TabPane>
+          )}
+        </Tabs>
+      </Modal>
+
+      {/* Credit Transfer Modal */}
+      <Modal
+        title={`Transfer ${transferSource?.class_name} Credits - ${selectedStudent?.name}`}
+        open={!!transferSource}
+        onCancel={closeTransferModal}
+        footer={null}
+        width={500}
+      >
+        <Form
+          form={transferForm}
+          layout="vertical"
+          onFinish={handleTransferSubmit}
+        >
+          <Form.Item
+            name="classes"
+            label="Classes"
+            extra={`${transferSource?.classes_remaining ?? 0} remaining in this class`}
+            rules={[{ required: true, message: 'Please enter the number of classes' }]}
+          >
+            <InputNumber min={1} max={transferSource?.classes_remaining} style={{ width: '100%' }} />
+          </Form.Item>
+
+          <Form.Item
+            name="to_student_id"
+            label="To Student"
+            extra={siblings.length === 0 ? 'Link students to a family to transfer to siblings' : undefined}
+          >
+            <Select placeholder={`${selectedStudent?.name} (same student)`} allowClear>
+              {siblings.map(sibling => (
+                <Option key={sibling.id} value={sibling.id}>{sibling.name}</Option>
+              ))}
+            </Select>
+          </Form.Item>
+
+          <Form.Item name="to_class_id" label="To Class">
+            <Select placeholder={`${transferSource?.class_name} (same class)`} allowClear showSearch optionFilterProp="children">
+              {classes.map(cls => (
+                <Option key={cls.id} value={cls.id}>
+                  {cls.name} - {cls.subject}
+                </Option>
+              ))}
+            </Select>
+          </Form.Item>
+
+          <Form.Item
+            name="adjust_for_price"
+            label="Adjust for price"
+            valuePropName="checked"
+            extra="Convert the number of classes by the classes' prices per class"
+          >
+            <Switch />
+          </Form.Item>
+
+          <Form.Item name="notes" label="Notes">
+            <TextArea rows={2} placeholder="Reason for the transfer" />
+          </Form.Item>
+
+          <Form.Item>
+            <Space>
+              <Button type="primary" htmlType="submit">
+                Transfer Credits
+              </Button>
+              <Button onClick={closeTransferModal}>
+                Cancel
+              </Button>
+            </Space>
+          </Form.Item>
+        </Form>
       </Modal>
     </div>
   );
@@ -0,0 +1,244 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Typography, Table, Button, Space, Modal, Form, Input, Select,
+  Switch, message, Tag, Row, Col
+} from 'antd';
+import { PlusOutlined, EditOutlined } from '@ant-design/icons';
+import axios from 'axios';
+import dayjs from 'dayjs';
+import type { ColumnsType } from 'antd/es/table';
+import { useAuth } from '../context/AuthContext';
+
+const { Title, Text } = Typography;
+const { Option } = Select;
+
+interface StaffUser {
+  id: string;
+  email: string;
+  name: string;
+  role: string;
+  is_active: boolean;
+  last_login_at?: string;
+  created_at: string;
+}
+
+const roleLabels: Record<string, { label: string; color: string }> = {
+  owner: { label: 'Owner', color: 'gold' },
+  front_desk: { label: 'Front Desk', color: 'blue' },
+  teacher: { label: 'Teacher', color: 'green' },
+};
+
+const Users: React.FC = () => {
+  const { user: currentUser } = useAuth();
+  const [users, setUsers] = useState<StaffUser[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [modalVisible, setModalVisible] = useState(false);
+  const [editingUser, setEditingUser] = useState<StaffUser | null>(null);
+  const [form] = Form.useForm();
+
+  const fetchUsers = async () => {
+    try {
+      setLoading(true);
+      const response = await axios.get('/api/users', { params: { include_inactive: true } });
+      setUsers(response.data.data || []);
+    } catch (error: any) {
+      console.error('Error fetching users:', error);
+      message.error(error.response?.data?.error?.message || 'Failed to fetch users');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchUsers();
+  }, []);
+
+  const closeModal = () => {
+    setModalVisible(false);
+    setEditingUser(null);
+    form.resetFields();
+  };
+
+  // Handle form submission
+  const handleSubmit = async (values: any) => {
+    try {
+      if (editingUser) {
+        await axios.put(`/api/users/${editingUser.id}`, values);
+        message.success('User updated successfully');
+      } else {
+        await axios.post('/api/users', values);
+        message.success('User created successfully');
+      }
+      closeModal();
+      fetchUsers();
+    } catch (error: any) {
+      console.error('Error saving user:', error);
+      message.error(error.response?.data?.error?.message || 'Failed to save user');
+    }
+  };
+
+  const isSelf = editingUser?.id === currentUser?.id;
+
+  const columns: ColumnsType<StaffUser> = [
+    {
+      title: 'Name',
+      key: 'name',
+      render: (record: StaffUser) => (
+        <Space direction="vertical" size={0}>
+          <Text strong>{record.name}</Text>
+          <Text type="secondary" style={{ fontSize: '12px' }}>{record.email}</Text>
+        </Space>
+      ),
+    },
+    {
+      title: 'Role',
+      dataIndex: 'role',
+      key: 'role',
+      render: (role: string) => (
+        <Tag color={roleLabels[role]?.color}>{roleLabels[role]?.label || role}</Tag>
+      ),
+    },
+    {
+      title: 'Status',
+      dataIndex: 'is_active',
+      key: 'is_active',
+      render: (isActive: boolean) => (
+        <Tag color={isActive ? 'green' : 'default'}>{isActive ? 'Active' : 'Inactive'}</Tag>
+      ),
+    },
+    {
+      title: 'Last Login',
+      dataIndex: 'last_login_at',
+      key: 'last_login_at',
+      render: (date?: string) => (date ? dayjs(date).format('MMM D, YYYY h:mm A') : 'Never'),
+    },
+    {
+      title: 'Actions',
+      key: 'actions',
+      render: (record: StaffUser) => (
+        <Button
+          icon={<EditOutlined />}
+          onClick={() => {
+            setEditingUser(record);
+            form.setFieldsValue({ ...record, password: undefined });
+            setModalVisible(true);
+          }}
+        />
+      ),
+    },
+  ];
+
+  return (
+    <div>
+      <Row justify="space-between" align="middle" style={{ marginBottom: 16 }}>
+        <Col>
+          <Title level={2} style={{ margin: 0 }}>Users</Title>
+        </Col>
+        <Col>
+          <Button
+            type="primary"
+            icon={<PlusOutlined />}
+            onClick={() => {
+              setEditingUser(null);
+              form.resetFields();
+              form.setFieldsValue({ role: 'front_desk' });
+              setModalVisible(true);
+            }}
+          >
+            Add User
+          </Button>
+        </Col>
+      </Row>
+
+      <Table
+        columns={columns}
+        dataSource={users}
+        loading={loading}
+        rowKey="id"
+        pagination={false}
+      />
+
+      {/* Create/Edit Modal */}
+      <Modal
+        title={editingUser ? 'Edit User' : 'Add New User'}
+        open={modalVisible}
+        onCancel={closeModal}
+        footer={null}
+        width={500}
+      >
+        <Form
+          form={form}
+          layout="vertical"
+          onFinish={handleSubmit}
+          initialValues={{ is_active: true }}
+        >
+          <Form.Item
+            name="name"
+            label="Full Name"
+            rules={[{ required: true, message: 'Please enter the name' }]}
+          >
+            <Input placeholder="Enter full name" />
+          </Form.Item>
+
+          <Form.Item
+            name="email"
+            label="Email"
+            rules={[
+              { required: true, message: 'Please enter the email' },
+              { type: 'email', message: 'Please enter a valid email' }
+            ]}
+          >
+            <Input placeholder="staff@example.com" />
+          </Form.Item>
+
+          <Form.Item
+            name="password"
+            label={editingUser ? 'New Password (leave blank to keep)' : 'Password'}
+            rules={[
+              { required: !editingUser, message: 'Please enter a password' },
+              { min: 8, message: 'Password must be at least 8 characters' }
+            ]}
+          >
+            <Input.Password placeholder="At least 8 characters" />
+          </Form.Item>
+
+          <Row gutter={16}>
+            <Col span={12}>
+              <Form.Item
+                name="role"
+                label="Role"
+                rules={[{ required: true, message: 'Please select a role' }]}
+              >
+                <Select disabled={isSelf}>
+                  {Object.entries(roleLabels).map(([value, { label }]) => (
+                    <Option key={value} value={value}>{label}</Option>
+                  ))}
+                </Select>
+              </Form.Item>
+            </Col>
+            {editingUser && (
+              <Col span={12}>
+                <Form.Item name="is_active" label="Active" valuePropName="checked">
+                  <Switch disabled={isSelf} />
+                </Form.Item>
+              </Col>
+            )}
+          </Row>
+
+          <Form.Item>
+            <Space>
+              <Button type="primary" htmlType="submit">
+                {editingUser ? 'Update' : 'Create'} User
+              </Button>
+              <Button onClick={closeModal}>
+                Cancel
+              </Button>
+            </Space>
+          </Form.Item>
+        </Form>
+      </Modal>
+    </div>
+  );
+};
+
+export default Users;